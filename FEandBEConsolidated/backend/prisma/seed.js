@@ -2,7 +2,7 @@
  * Database Seed Script
  * 
  * Populates the database with sample data for development and testing.
- * Creates products, discounts, and sample user with purchase history.
+ * Creates categories, tags, products, discounts, delivery methods with shipping zones and rates, tax rules, sample user with an address, purchase history, and reviews, and contact messages for the support inbox.
  */
 
 import { PrismaClient } from '@prisma/client';
@@ -10,6 +10,23 @@ import bcrypt from 'bcrypt';
 
 const prisma = new PrismaClient();
 
+/**
+ * Returns a date the given number of days from now, so seeded promotions are live whenever the database is seeded.
+ */
+function daysFromNow(days) {
+	return new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Sample product categories (parents are listed before their subcategories)
+ */
+const sampleCategories = [
+	{ name: 'Fresh Produce', slug: 'fresh-produce' },
+	{ name: 'Vegetables', slug: 'vegetables', parent: 'fresh-produce' },
+	{ name: 'Leafy Greens', slug: 'leafy-greens', parent: 'vegetables' },
+	{ name: 'Herbs', slug: 'herbs', parent: 'fresh-produce' }
+];
+
 /**
  * Sample products data with agricultural theme
  */
@@ -17,49 +34,73 @@ const sampleProducts = [
 	{
 		name: 'Organic Lettuce',
 		slug: 'organic-lettuce',
+		category: 'leafy-greens',
+		tags: ['Organic', 'Salad'],
 		summary: 'Fresh, crispy organic lettuce grown locally',
 		description: 'Our organic lettuce is grown using sustainable farming practices without harmful pesticides. Perfect for salads, sandwiches, and healthy meals.',
 		priceCents: 399, // $3.99
+		weightGrams: 300,
+		stock: 120,
 		imageUrl: null
 	},
 	{
 		name: 'Heirloom Tomatoes',
 		slug: 'heirloom-tomatoes',
+		category: 'vegetables',
+		tags: ['Heirloom', 'Local'],
 		summary: 'Vine-ripened heirloom tomatoes, full of flavor',
 		description: 'These beautiful heirloom tomatoes are vine-ripened to perfection. Each variety offers unique flavors and colors, perfect for gourmet cooking.',
 		priceCents: 549, // $5.49
+		weightGrams: 500,
+		stock: 60,
 		imageUrl: null
 	},
 	{
 		name: 'Rainbow Carrots',
 		slug: 'rainbow-carrots',
+		category: 'vegetables',
+		tags: ['Local'],
 		summary: 'Colorful, sweet carrots packed with nutrients',
 		description: 'Our rainbow carrots come in vibrant colors including purple, orange, yellow, and white. Sweet, crunchy, and packed with vitamins.',
 		priceCents: 299, // $2.99
+		weightGrams: 450,
+		stock: 150,
 		imageUrl: null
 	},
 	{
 		name: 'Fresh Spinach',
 		slug: 'fresh-spinach',
+		category: 'leafy-greens',
+		tags: ['Organic', 'Salad'],
 		summary: 'Nutrient-rich baby spinach leaves',
 		description: 'Tender baby spinach leaves, perfect for salads, smoothies, or cooking. Rich in iron, vitamins, and antioxidants.',
 		priceCents: 349, // $3.49
+		weightGrams: 200,
+		stock: 80,
 		imageUrl: null
 	},
 	{
 		name: 'Sweet Bell Peppers',
 		slug: 'sweet-bell-peppers',
+		category: 'vegetables',
+		tags: ['Local'],
 		summary: 'Crisp and colorful bell peppers',
 		description: 'A mix of red, yellow, and green bell peppers. Sweet, crunchy, and perfect for cooking, grilling, or eating fresh.',
 		priceCents: 449, // $4.49
+		weightGrams: 600,
+		stock: 4,
 		imageUrl: null
 	},
 	{
 		name: 'Organic Herbs Bundle',
 		slug: 'organic-herbs-bundle',
+		category: 'herbs',
+		tags: ['Organic'],
 		summary: 'Fresh basil, parsley, and cilantro',
 		description: 'A bundle of the most popular fresh herbs: basil, parsley, and cilantro. Grown organically and harvested fresh.',
 		priceCents: 599, // $5.99
+		weightGrams: 150,
+		stock: 0,
 		imageUrl: null
 	}
 ];
@@ -72,28 +113,92 @@ const sampleDiscounts = [
 		title: 'Spring Fresh Sale',
 		description: 'Get 15% off all fresh vegetables this spring season',
 		percentOff: 15,
+		categories: ['vegetables'],
+		stackable: true,
 		active: true,
-		startsAt: new Date('2024-03-01'),
-		endsAt: new Date('2024-05-31')
+		startsAt: daysFromNow(-30),
+		endsAt: daysFromNow(60)
 	},
 	{
 		title: 'Organic Bundle Deal',
-		description: 'Save 20% when you buy 3 or more organic products',
+		description: 'Save 20% on orders of $15 or more (cannot be combined with other offers)',
 		percentOff: 20,
+		minSubtotalCents: 1500,
 		active: true,
-		startsAt: new Date('2024-01-01'),
-		endsAt: new Date('2024-12-31')
+		startsAt: daysFromNow(-90),
+		endsAt: daysFromNow(275)
+	},
+	{
+		title: 'Welcome Offer',
+		description: 'Enter WELCOME10 for 10% off your first order',
+		percentOff: 10,
+		code: 'WELCOME10',
+		maxUsesPerUser: 1,
+		stackable: true,
+		active: true,
+		startsAt: daysFromNow(-90),
+		endsAt: daysFromNow(275)
+	},
+	{
+		title: 'Greens Week',
+		description: 'Enter GREENS5 for an extra 5% off leafy greens (first 100 orders)',
+		percentOff: 5,
+		code: 'GREENS5',
+		categories: ['leafy-greens'],
+		maxUses: 100,
+		stackable: true,
+		active: true,
+		startsAt: daysFromNow(-7),
+		endsAt: daysFromNow(7)
 	},
 	{
 		title: 'Summer Harvest Special',
 		description: 'Limited time offer on seasonal summer produce',
 		percentOff: 25,
 		active: false, // Future promotion
-		startsAt: new Date('2024-06-01'),
-		endsAt: new Date('2024-08-31')
+		startsAt: daysFromNow(60),
+		endsAt: daysFromNow(150)
 	}
 ];
 
+/**
+ * Delivery methods offered at checkout
+ */
+const sampleDeliveryMethods = [
+	{ code: 'pickup', name: 'Farm Pickup', description: 'Collect your order at the farm shop, 123 Farm Road, Agricultural Valley', requiresAddress: false, sortOrder: 0 },
+	{ code: 'local', name: 'Local Delivery', description: 'Delivered by our own van within the valley, the next working day', requiresAddress: true, sortOrder: 1 },
+	{ code: 'courier', name: 'Courier', description: 'Chilled courier delivery across the US and Canada in 2-4 working days', requiresAddress: true, sortOrder: 2 }
+];
+
+/**
+ * Shipping zones: the local zone is the valley's postal codes, the others whole countries
+ */
+const sampleShippingZones = [
+	{ key: 'valley', name: 'Agricultural Valley', countries: 'US', postalPrefixes: '123' },
+	{ key: 'us', name: 'United States', countries: 'US' },
+	{ key: 'canada', name: 'Canada', countries: 'CA' }
+];
+
+/**
+ * Shipping rates by delivery method, zone (null for every zone), and weight band
+ */
+const sampleShippingRates = [
+	{ method: 'pickup', zone: null, baseCents: 0 },
+	{ method: 'local', zone: 'valley', maxWeightGrams: 25000, baseCents: 499, freeOverCents: 5000 },
+	{ method: 'courier', zone: 'valley', maxWeightGrams: 20000, baseCents: 699, perKgCents: 100 },
+	{ method: 'courier', zone: 'us', maxWeightGrams: 20000, baseCents: 999, perKgCents: 250, freeOverCents: 10000 },
+	{ method: 'courier', zone: 'canada', maxWeightGrams: 20000, baseCents: 1999, perKgCents: 400 }
+];
+
+/**
+ * Tax rules: the valley's sales tax with a reduced rate on fresh produce, and the Canadian GST
+ */
+const sampleTaxRules = [
+	{ name: 'AV sales tax', country: 'US', region: 'AV', rateBasisPoints: 725, appliesToShipping: true },
+	{ name: 'AV sales tax (fresh produce)', country: 'US', region: 'AV', category: 'fresh-produce', rateBasisPoints: 200 },
+	{ name: 'GST', country: 'CA', rateBasisPoints: 500, appliesToShipping: true }
+];
+
 /**
  * Main seed function
  */
@@ -103,32 +208,101 @@ async function main() {
 	try {
 		// Clear existing data (in development only)
 		console.log('🧹 Cleaning existing data...');
+		await prisma.idempotencyKey.deleteMany();
+		await prisma.notification.deleteMany();
+		await prisma.wishlistItem.deleteMany();
+		await prisma.review.deleteMany();
+		await prisma.cartItem.deleteMany();
+		await prisma.cart.deleteMany();
 		await prisma.purchaseItem.deleteMany();
+		await prisma.purchaseDiscount.deleteMany();
+		await prisma.purchaseStatusEvent.deleteMany();
+		await prisma.purchaseTaxLine.deleteMany();
+		await prisma.purchaseAddress.deleteMany();
+		await prisma.payment.deleteMany();
 		await prisma.purchase.deleteMany();
+		await prisma.taxRule.deleteMany();
+		await prisma.shippingRate.deleteMany();
+		await prisma.shippingZone.deleteMany();
+		await prisma.deliveryMethod.deleteMany();
+		await prisma.address.deleteMany();
+		await prisma.contactReply.deleteMany();
+		await prisma.contactMessage.deleteMany();
 		await prisma.discount.deleteMany();
+		await prisma.stockMovement.deleteMany();
 		await prisma.product.deleteMany();
+		await prisma.category.deleteMany();
+		await prisma.tag.deleteMany();
+		await prisma.session.deleteMany();
+		await prisma.recoveryCode.deleteMany();
+		await prisma.authToken.deleteMany();
+		await prisma.apiToken.deleteMany();
+		await prisma.appSetting.deleteMany();
+		await prisma.userRole.deleteMany();
 		await prisma.user.deleteMany();
 
+		// Create categories
+		console.log('🗂️ Creating categories...');
+		const categories = {};
+		for (const { parent, ...categoryData } of sampleCategories) {
+			categories[categoryData.slug] = await prisma.category.create({
+				data: { ...categoryData, parentId: parent ? categories[parent].id : null }
+			});
+		}
+
 		// Create products
 		console.log('📦 Creating products...');
 		const products = [];
-		for (const productData of sampleProducts) {
+		for (const { category, tags, ...productData } of sampleProducts) {
 			const product = await prisma.product.create({
-				data: productData
+				data: {
+					...productData,
+					categoryId: categories[category].id,
+					tags: {
+						connectOrCreate: tags.map((name) => ({ where: { slug: name.toLowerCase() }, create: { name, slug: name.toLowerCase() } }))
+					}
+				}
 			});
+			if (product.stock > 0) {
+				await prisma.stockMovement.create({
+					data: { productId: product.id, delta: product.stock, reason: 'restock', note: 'Initial stock', stockAfter: product.stock }
+				});
+			}
 			products.push(product);
 			console.log(`   ✅ Created product: ${product.name}`);
 		}
 
 		// Create discounts
 		console.log('🏷️ Creating discounts...');
-		for (const discountData of sampleDiscounts) {
+		for (const { categories: categorySlugs = [], ...discountData } of sampleDiscounts) {
 			const discount = await prisma.discount.create({
-				data: discountData
+				data: {
+					...discountData,
+					categories: { connect: categorySlugs.map((slug) => ({ id: categories[slug].id })) }
+				}
 			});
 			console.log(`   ✅ Created discount: ${discount.title}`);
 		}
 
+		// Create delivery methods, shipping zones and rates, and tax rules
+		console.log('🚚 Creating delivery methods and tax rules...');
+		const deliveryMethods = {};
+		for (const methodData of sampleDeliveryMethods) {
+			deliveryMethods[methodData.code] = await prisma.deliveryMethod.create({ data: methodData });
+		}
+		const shippingZones = {};
+		for (const { key, ...zoneData } of sampleShippingZones) {
+			shippingZones[key] = await prisma.shippingZone.create({ data: zoneData });
+		}
+		for (const { method, zone, ...rateData } of sampleShippingRates) {
+			await prisma.shippingRate.create({
+				data: { ...rateData, methodId: deliveryMethods[method].id, zoneId: zone ? shippingZones[zone].id : null }
+			});
+		}
+		for (const { category, ...ruleData } of sampleTaxRules) {
+			await prisma.taxRule.create({ data: { ...ruleData, categoryId: category ? categories[category].id : null } });
+		}
+
 		// Create sample users
 		console.log('👤 Creating sample users...');
 		const passwordHash = await bcrypt.hash('password123', 12);
@@ -140,7 +314,9 @@ async function main() {
 				passwordHash,
 				firstName: 'Admin',
 				lastName: 'User',
-				phone: '+1-555-0100'
+				phone: '+1-555-0100',
+				emailVerifiedAt: new Date(),
+				roles: { create: [{ role: 'admin' }, { role: 'customer' }] }
 			}
 		});
 		console.log(`   ✅ Created admin user: ${adminUser.email}`);
@@ -152,7 +328,22 @@ async function main() {
 				passwordHash,
 				firstName: 'Demo',
 				lastName: 'User',
-				phone: '+1-555-0123'
+				phone: '+1-555-0123',
+				emailVerifiedAt: new Date(),
+				roles: { create: [{ role: 'customer' }] },
+				addresses: {
+					create: [{
+						label: 'Home',
+						recipientName: 'Demo User',
+						line1: '42 Orchard Lane',
+						city: 'Agricultural Valley',
+						region: 'AV',
+						postalCode: '12346',
+						country: 'US',
+						phone: '+1-555-0123',
+						isDefault: true
+					}]
+				}
 			}
 		});
 		console.log(`   ✅ Created demo user: ${sampleUser.email}`);
@@ -164,8 +355,18 @@ async function main() {
 		const purchase1 = await prisma.purchase.create({
 			data: {
 				userId: sampleUser.id,
+				subtotalCents: 1247,
 				totalCents: 1247, // $12.47
-				createdAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000), // 2 days ago
+				status: 'shipped',
+				createdAt: daysFromNow(-2),
+				statusEvents: {
+					create: [
+						{ fromStatus: null, toStatus: 'pending', note: 'Order placed', actorId: sampleUser.id, createdAt: daysFromNow(-2) },
+						{ fromStatus: 'pending', toStatus: 'paid', createdAt: daysFromNow(-2) },
+						{ fromStatus: 'paid', toStatus: 'fulfilled', createdAt: daysFromNow(-1.5) },
+						{ fromStatus: 'fulfilled', toStatus: 'shipped', note: 'Handed to courier', createdAt: daysFromNow(-1) }
+					]
+				},
 				items: {
 					create: [
 						{
@@ -192,8 +393,19 @@ async function main() {
 		const purchase2 = await prisma.purchase.create({
 			data: {
 				userId: sampleUser.id,
+				subtotalCents: 998,
 				totalCents: 998, // $9.98
-				createdAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000), // 1 week ago
+				status: 'delivered',
+				createdAt: daysFromNow(-7),
+				statusEvents: {
+					create: [
+						{ fromStatus: null, toStatus: 'pending', note: 'Order placed', actorId: sampleUser.id, createdAt: daysFromNow(-7) },
+						{ fromStatus: 'pending', toStatus: 'paid', createdAt: daysFromNow(-7) },
+						{ fromStatus: 'paid', toStatus: 'fulfilled', createdAt: daysFromNow(-6) },
+						{ fromStatus: 'fulfilled', toStatus: 'shipped', createdAt: daysFromNow(-6) },
+						{ fromStatus: 'shipped', toStatus: 'delivered', createdAt: daysFromNow(-4) }
+					]
+				},
 				items: {
 					create: [
 						{
@@ -214,12 +426,60 @@ async function main() {
 		console.log(`   ✅ Created purchase: ${purchase1.id}`);
 		console.log(`   ✅ Created purchase: ${purchase2.id}`);
 
+		// Reviews of delivered products: one published, one waiting for moderation
+		console.log('⭐ Creating sample reviews...');
+		await prisma.review.create({
+			data: {
+				productId: products[1].id, // Heirloom Tomatoes
+				userId: sampleUser.id,
+				rating: 5,
+				body: 'Sweet, juicy, and full of flavour. Best tomatoes we have had all summer.',
+				status: 'approved',
+				moderatedAt: daysFromNow(-3)
+			}
+		});
+		await prisma.review.create({
+			data: {
+				productId: products[4].id, // Sweet Bell Peppers
+				userId: sampleUser.id,
+				rating: 4,
+				body: 'Crisp and colourful, one was a little soft on arrival.'
+			}
+		});
+
+		// Contact messages: a customer question waiting in the inbox, and spam caught by the heuristics
+		console.log('✉️ Creating sample contact messages...');
+		await prisma.contactMessage.create({
+			data: {
+				userId: sampleUser.id,
+				name: 'Demo User',
+				email: sampleUser.email,
+				message: 'Hello! Do you deliver on Saturdays? I would like my next vegetable box to arrive for the weekend.',
+				createdAt: daysFromNow(-1)
+			}
+		});
+		await prisma.contactMessage.create({
+			data: {
+				name: 'Best SEO',
+				email: 'offers@seo-rank.example',
+				message: 'We sell backlinks and SEO services! Click here: https://bit.ly/seo-rank https://seo-rank.example https://www.seo-rank.example',
+				spamScore: 11,
+				spamReasons: '3 links\nshortened link\n3 spam phrases',
+				isSpam: true,
+				createdAt: daysFromNow(-2)
+			}
+		});
+
 		console.log('🎉 Database seed completed successfully!');
 		console.log('\n📋 Sample Data Summary:');
+		console.log(`   • ${sampleCategories.length} categories created`);
 		console.log(`   • ${sampleProducts.length} products created`);
 		console.log(`   • ${sampleDiscounts.length} discounts created`);
+		console.log(`   • ${sampleDeliveryMethods.length} delivery methods, ${sampleShippingRates.length} shipping rates, and ${sampleTaxRules.length} tax rules created`);
 		console.log(`   • 1 sample user created (demo@agricommerce.com / password123)`);
 		console.log(`   • 2 sample purchases created`);
+		console.log(`   • 2 sample reviews created (1 approved, 1 pending)`);
+		console.log(`   • 2 sample contact messages created (1 new, 1 spam)`);
 		console.log('\n🚀 You can now start the application and explore the features!');
 
 	} catch (error) {
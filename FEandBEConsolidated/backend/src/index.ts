@@ -1,11 +1,11 @@
 /**
  * @fileoverview Main entry point for the AgriCommerce backend API.
  * @module index
- * @description This file sets up an Express.js server, configures middleware (JSON parsing, URL encoding, cookie parsing, CORS), defines authentication logic, and registers various API routes for user management, product browsing, discounts, purchases, and contact form submissions. It also includes health and debug endpoints.
- * @dependencies express, dotenv, cookie-parser, cors, bcrypt, ./lib/db, ./lib/jwt, ./lib/validators, ./types/express
+ * @description This file sets up an Express.js server, configures middleware (JSON parsing, URL encoding, cookie parsing, CORS), defines authentication logic, and registers various API routes for user management, product browsing, discounts, purchases (with delivery methods, saved addresses, shipping and tax quotes, card payments through a pluggable payment gateway, receipts, and order history export), and contact form submissions (stored with a spam score and ModSecurity's verdict). It also includes wishlist and notification feed endpoints, admin sales analytics, admin shipping and tax rule management, an admin support inbox for contact messages, a health endpoint, and mounts the debug and intentionally vulnerable lab endpoints from `lib/lab` when `LAB_MODE=true`.
+ * @dependencies express, dotenv, cookie-parser, cors, bcrypt, ./lib/analytics, ./lib/apiTokens, ./lib/authTokens, ./lib/cart, ./lib/catalog, ./lib/csrf, ./lib/db, ./lib/discounts, ./lib/idempotency, ./lib/inventory, ./lib/jwt, ./lib/lab, ./lib/orders, ./lib/paymentGateway, ./lib/payments, ./lib/purchaseHistory, ./lib/quotes, ./lib/receipts, ./lib/reviews, ./lib/roles, ./lib/search, ./lib/sessions, ./lib/settings, ./lib/shipping, ./lib/support, ./lib/tax, ./lib/throttle, ./lib/totp, ./lib/twoFactor, ./lib/validators, ./lib/wishlist, ./types/express
  * @exports app - The Express application instance.
  * @author Gemini
- * @lastModified 2025-11-11
+ * @lastModified 2026-10-19
  */
 
 import express, { Request, Response, NextFunction } from 'express';
@@ -14,8 +14,66 @@ import cookieParser from 'cookie-parser';
 import cors from 'cors';
 import bcrypt from 'bcrypt';
 import { db } from './lib/db.js';
-import { signJWT, verifyJWT, getCookieName } from './lib/jwt.js';
-import { signInSchema, signUpSchema, contactSchema, productQuerySchema, formatValidationErrors } from './lib/validators.js';
+import {
+	apiTokenScopes, createApiToken, findActiveApiToken, readBearerToken, toScopes, touchApiToken, MAX_API_TOKENS_PER_USER, SCOPE_ROLES
+} from './lib/apiTokens.js';
+import { csrfProtection, csrfTokenFor } from './lib/csrf.js';
+import { customerBreakdown, discountPerformance, resolveAnalyticsRange, salesOverTime, topProducts } from './lib/analytics.js';
+import { consumeAuthToken, wasAuthTokenRecentlyIssued, sendPasswordResetEmail, sendVerificationEmail } from './lib/authTokens.js';
+import { verifyJWT, getCookieName, getRefreshCookieName, signChallengeToken, verifyChallengeToken } from './lib/jwt.js';
+import { DEFAULT_ROLE, hasRole, requireRole, toRoles } from './lib/roles.js';
+import {
+	createSession, rotateSession, touchSession, revokeSession, revokeAllSessions,
+	setAuthCookies, clearAuthCookies, describeDevice, SESSIONLESS_AUTH_PATHS
+} from './lib/sessions.js';
+import { loginThrottleKeys, getRetryAfter, recordLoginFailure, clearLoginFailures } from './lib/throttle.js';
+import type { ThrottleScope } from './lib/throttle.js';
+import { getSetting, setSetting } from './lib/settings.js';
+import { findCartId, getOrCreateCartId, loadCartView, addCartItem, mergeGuestCart } from './lib/cart.js';
+import {
+	ADMIN_PRODUCT_SELECT, PRODUCT_LIST_SELECT, PRODUCT_ORDER_BY, buildProductWhere, categoryAncestry, categoryWithDescendants, generateUniqueSlug,
+	isSlugTaken, loadCategories, loadProductFacets, slugify, tagConnections
+} from './lib/catalog.js';
+import type { ProductFilters } from './lib/catalog.js';
+import { DiscountUnavailableError, claimDiscounts, normalizePromoCode } from './lib/discounts.js';
+import { idempotent, scheduleIdempotencyKeyCleanup } from './lib/idempotency.js';
+import { OutOfStockError, adjustStock, reserveStock, stockStatus } from './lib/inventory.js';
+import { REVIEW_STATUSES, hasPurchasedProduct, loadRatingDistribution, loadRatings, reviewAuthorName } from './lib/reviews.js';
+import { PURCHASE_HISTORY_SELECT, PURCHASE_ORDER_BY, buildPurchaseWhere, loadPurchasedProducts, summarizePurchases } from './lib/purchaseHistory.js';
+import { RECEIPT_SELECT, exportOrdersCsv, exportOrdersJson, orderNumber, renderReceiptHtml, renderReceiptPdf } from './lib/receipts.js';
+import { ensureSearchIndex, searchProducts, suggestSearch } from './lib/search.js';
+import { notifyPriceDrop, scheduleDiscountNotifications } from './lib/wishlist.js';
+import {
+	CUSTOMER_CANCELLABLE_STATUSES, ORDER_STATUSES, ORDER_TRANSITIONS, recordOrderPlaced, transitionOrder,
+	createOrderLookupToken, findOrderByLookupToken, sendGuestOrderEmail, attachGuestOrders
+} from './lib/orders.js';
+import type { OrderStatus } from './lib/orders.js';
+import { PaymentGatewayError, getPaymentGateway } from './lib/paymentGateway.js';
+import { PAYMENT_SELECT, answerPaymentChallenge, cancelOrderPayment, handlePaymentEvent, payForOrder, refundOrder } from './lib/payments.js';
+import { quoteOrder, resolveDeliveryChoice } from './lib/quotes.js';
+import {
+	ADDRESS_FIELDS, DELIVERY_METHOD_SELECT, MAX_ADDRESSES_PER_USER, SAVED_ADDRESS_SELECT, SHIPPING_RATE_SELECT, formatShippingZone
+} from './lib/shipping.js';
+import {
+	CONTACT_MESSAGE_SELECT, CONTACT_MESSAGE_STATUSES, CONTACT_REPLY_SELECT, assessSpam, countRecentContactMessages, formatContactMessage,
+	readWafVerdict, sendContactReply
+} from './lib/support.js';
+import { TAX_RULE_SELECT } from './lib/tax.js';
+import { LAB_ENDPOINTS, isLabMode, mountLabEndpoints, printLabBanner } from './lib/lab.js';
+import { generateTotpSecret, buildOtpauthUri, buildQrDataUrl, verifyTotp } from './lib/totp.js';
+import { verifySecondFactor, replaceRecoveryCodes, isTwoFactorSetupRequired } from './lib/twoFactor.js';
+import {
+	emailSchema, signInSchema, signUpSchema, contactSchema, productQuerySchema, roleGrantSchema,
+	twoFactorCodeSchema, twoFactorSignInSchema, twoFactorDisableSchema, twoFactorPolicySchema,
+	forgotPasswordSchema, resetPasswordSchema, verifyEmailSchema, createApiTokenSchema, cartAddSchema, cartQuantitySchema, checkoutItemsSchema,
+	cartQuoteSchema, stockAdjustmentSchema, orderStatusSchema, orderCancelSchema, productCreateSchema, productUpdateSchema,
+	categorySchema, categoryUpdateSchema, reviewSchema, reviewQuerySchema, reviewModerationSchema, wishlistAddSchema,
+	notificationReadSchema, receiptQuerySchema, orderExportQuerySchema, purchaseQuerySchema,
+	analyticsQuerySchema, paymentInfoSchema, paymentChallengeSchema, deliverySchema, savedAddressSchema, savedAddressUpdateSchema,
+	deliveryMethodUpdateSchema, shippingZoneSchema, shippingZoneUpdateSchema, shippingRateSchema, shippingRateUpdateSchema,
+	taxRuleSchema, taxRuleUpdateSchema, contactMessageUpdateSchema, contactReplySchema,
+	formatValidationErrors
+} from './lib/validators.js';
 import './types/express.js'; // Extends Express Request type
 
 // Load environment variables from .env file
@@ -27,8 +85,11 @@ const app = express();
 const port = process.env.PORT || 33771;
 
 // Middleware setup
-// Parse JSON request bodies
-app.use(express.json());
+// Requests arrive through HAProxy/ModSecurity (or the frontend server) on the private Docker network,
+// so trust X-Forwarded-For from private addresses to get the real client IP in `req.ip`.
+app.set('trust proxy', 'loopback, linklocal, uniquelocal');
+// Parse JSON request bodies, keeping the raw bytes for webhook signature checks
+app.use(express.json({ verify: (req, _res, buf) => { (req as Request).rawBody = buf; } }));
 // Parse URL-encoded request bodies
 app.use(express.urlencoded({ extended: true }));
 // Parse cookies from request headers
@@ -40,55 +101,124 @@ app.use(cors({
 	optionsSuccessStatus: 200
 }));
 
+/**
+ * @function authenticateApiToken
+ * @description Authenticates a request with a personal API token, attaching the token's user and scopes to `req.user`.
+ * Roles are read from the database, as for sessions, so the token never grants more than its user currently holds.
+ * @param {string} token - The token from the `Authorization` header.
+ * @param {Request} req - The Express request object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Look up the unexpired token with `findActiveApiToken()`; leave `req.user` null if there is none.
+ *   2. Attach the user, the token's ID and scopes, and the two-factor state to `req.user`, with no session.
+ *   3. Record the token's use.
+ *   4. Catch and log any errors.
+ */
+async function authenticateApiToken(token: string, req: Request): Promise<void> {
+	try {
+		// Step 1: Find the token.
+		const apiToken = await findActiveApiToken(token);
+		if (!apiToken) return;
+		// Step 2: Attach the token's user.
+		const { totpEnabledAt, ...user } = apiToken.user;
+		const roles = toRoles(user.roles);
+		req.user = {
+			...user,
+			roles,
+			sessionId: null,
+			apiToken: { id: apiToken.id, scopes: toScopes(apiToken.scopes) },
+			twoFactorEnabled: !!totpEnabledAt,
+			twoFactorSetupRequired: await isTwoFactorSetupRequired(roles, !!totpEnabledAt)
+		};
+		// Step 3: Record the use.
+		await touchApiToken(apiToken, req);
+	} catch (error) {
+		// Step 4: Log any errors during token lookup.
+		console.error('API token auth error:', error);
+	}
+}
+
 /**
  * @function authMiddleware
- * @description Middleware to authenticate users based on JWT stored in cookies.
- * It decodes the JWT, verifies its validity, and attaches user information to the request object (`req.user`).
- * If no valid token is found, `req.user` remains null.
+ * @description Middleware to authenticate users based on JWT stored in cookies, or on a personal API token sent as `Authorization: Bearer <token>`.
+ * It decodes the JWT, verifies its validity, checks that the session named by its `jti` claim is still active, and attaches user information to the request object (`req.user`).
+ * A request carrying a bearer token is authenticated by that token alone; its cookies are ignored.
+ * If no valid token or active session is found, `req.user` remains null; but if the browser still holds a refresh token (the access token cookie expired after 15 minutes), calls other than the `SESSIONLESS_AUTH_PATHS` are rejected with 401 `ACCESS_TOKEN_EXPIRED` rather than served as a guest, so the client refreshes the session and retries them (see the frontend `lib/csrf` fetch wrapper).
  * @param {Request} req - The Express request object.
  * @param {Response} res - The Express response object.
  * @param {NextFunction} next - The next middleware function in the stack.
  * @returns {Promise<void>}
  *
  * Steps:
- *   1. Initialize `req.user` to `null`.
+ *   1. Initialize `req.user` to `null`. If the request carries a bearer token, authenticate it with `authenticateApiToken()` and skip the cookie steps.
  *   2. Retrieve the authentication token from cookies using `getCookieName()`.
  *   3. If a token exists, verify it using `verifyJWT()`.
- *   4. If the token is valid, attempt to find the user in the database using the `userId` from the payload.
- *   5. If the user is found, attach their `id`, `email`, `firstName`, and `lastName` to `req.user`.
+ *   4. If the token is valid and has a `jti`, load the session it names together with its user.
+ *   5. If the session belongs to the user, is not revoked, and has not expired, attach the user's `id`, `email`, `firstName`, `lastName`, `roles`, `sessionId`, and two-factor state to `req.user` and record the activity.
+ *      Roles are read from the database rather than the token so that a revoked role takes effect immediately.
  *   6. Catch and log any errors during the authentication process.
- *   7. Call `next()` to pass control to the next middleware or route handler.
+ *   7. If no user was attached but a refresh token cookie is present, return 401 `ACCESS_TOKEN_EXPIRED`, except for the `SESSIONLESS_AUTH_PATHS`.
+ *   8. Call `next()` to pass control to the next middleware or route handler.
  */
 const authMiddleware = async (req: Request, res: Response, next: NextFunction) => {
-	// Step 1: Initialize req.user as null.
+	// Step 1: Initialize req.user as null; bearer tokens take precedence over cookies.
 	req.user = null;
+	const bearerToken = readBearerToken(req);
+	if (bearerToken) {
+		await authenticateApiToken(bearerToken, req);
+		return next();
+	}
 	// Step 2: Get the authentication token from cookies.
 	const token = req.cookies[getCookieName()];
 	
 	// Step 3: If a token exists, verify it.
 	if (token) {
 		const payload = verifyJWT(token);
-		// Step 4: If payload is valid, fetch user details.
-		if (payload) {
+		// Step 4: If payload is valid, fetch the session and user details.
+		if (payload?.jti) {
 			try {
-				const user = await db.user.findUnique({
-					where: { id: payload.userId },
-					select: { id: true, email: true, firstName: true, lastName: true }
+				const session = await db.session.findUnique({
+					where: { id: payload.jti },
+					select: {
+						id: true, userId: true, revokedAt: true, expiresAt: true, lastSeenAt: true,
+						user: { select: { id: true, email: true, firstName: true, lastName: true, totpEnabledAt: true, roles: { select: { role: true } } } }
+					}
 				});
-				// Step 5: Attach user to request if found.
-				if (user) req.user = user;
+				// Step 5: Attach user to request if the session is still active.
+				if (session && session.userId === payload.userId && !session.revokedAt && session.expiresAt > new Date()) {
+					const { totpEnabledAt, ...user } = session.user;
+					const roles = toRoles(user.roles);
+					req.user = {
+						...user,
+						roles,
+						sessionId: session.id,
+						apiToken: null,
+						twoFactorEnabled: !!totpEnabledAt,
+						twoFactorSetupRequired: await isTwoFactorSetupRequired(roles, !!totpEnabledAt)
+					};
+					await touchSession(session, req);
+				}
 			} catch (error) {
 				// Step 6: Log any errors during user lookup.
 				console.error('Auth middleware error:', error);
 			}
 		}
 	}
-	// Step 7: Proceed to the next middleware/route.
+	// Step 7: Ask the client to refresh an expired session instead of treating it as a guest.
+	if (!req.user && req.cookies[getRefreshCookieName()] && !SESSIONLESS_AUTH_PATHS.includes(req.path)) {
+		return res.status(401).json({ error: { code: 'ACCESS_TOKEN_EXPIRED', message: 'Session expired, please refresh it' } });
+	}
+	// Step 8: Proceed to the next middleware/route.
 	next();
 };
 
 // Apply authentication middleware to all routes
 app.use(authMiddleware);
+// Limit requests made with personal API tokens to their scopes (see lib/apiTokens)
+app.use(apiTokenScopes);
+// Require the session's CSRF token on state-changing requests (see lib/csrf)
+app.use(csrfProtection);
 
 /**
  * @function app.options('*')
@@ -118,20 +248,24 @@ app.options('*', (req: Request, res: Response) => {
 
 /**
  * @function app.post('/api/auth/sign-in')
- * @description Handles user sign-in. Authenticates user credentials, generates a JWT, and sets it as an HTTP-only cookie.
+ * @description Handles user sign-in. Authenticates user credentials, starts a server-side session, and sets its access and refresh tokens as HTTP-only cookies.
+ * Attempts are throttled per client IP and per target email (see `lib/throttle`).
  * @param {Request} req - The Express request object, expecting `email` and `password` in the body.
  * @param {Response} res - The Express response object.
  * @returns {Promise<void>}
  *
  * Steps:
  *   1. Extract `email` and `password` from the request body.
+ *   1a. If the client IP or target email must still wait, return 429 `TOO_MANY_ATTEMPTS` with a `Retry-After` header.
  *   2. Find the user by `email` in the database.
- *   3. If user not found or password invalid, return 401 with an error.
+ *   3. If user not found or password invalid, record the failure and return 401 with an error.
  *   4. Compare the provided password with the stored hash using `bcrypt.compare()`.
- *   5. If passwords don't match, return 401 with an error.
- *   6. Sign a new JWT using `signJWT()` with user `id` and `email`.
- *   7. Set the JWT as an HTTP-only cookie (`agri_auth`) with appropriate options.
- *   8. Return 200 OK with selected user details and a success message.
+ *   5. If passwords don't match, record the failure and return 401 with an error.
+ *   5a. If the user has two-factor authentication enabled, return `twoFactorRequired` with a short-lived challenge token instead of signing in; the session is created by `/api/auth/sign-in/2fa`.
+ *   5b. Otherwise clear the email's failures.
+ *   6. Create a session using `createSession()`, which signs an access JWT for the user `id`, `email`, and `roles`.
+ *   7. Set the access token (`agri_auth`) and refresh token (`agri_refresh`) as HTTP-only cookies, and merge any guest cart into the user's cart.
+ *   8. Return 200 OK with selected user details, the session's CSRF token, and a success message.
  *   9. Catch and log any errors, returning a 500 internal server error.
  */
 app.post('/api/auth/sign-in', async (req: Request, res: Response) => {
@@ -139,36 +273,60 @@ app.post('/api/auth/sign-in', async (req: Request, res: Response) => {
 		// Step 1: Extract credentials.
 		const { email, password } = req.body;
 		
+		// Step 1a: Refuse the attempt while the IP or email is throttled.
+		const throttleKeys = loginThrottleKeys(req.ip, email);
+		const retryAfter = await getRetryAfter(throttleKeys);
+		if (retryAfter > 0) {
+			res.set('Retry-After', String(retryAfter));
+			return res.status(429).json({
+				error: { code: 'TOO_MANY_ATTEMPTS', message: `Too many sign-in attempts. Try again in ${retryAfter} seconds.`, retryAfter }
+			});
+		}
+		
 		// Step 2: Find user by email.
 		const user = await db.user.findUnique({
 			where: { email },
-			select: { id: true, email: true, passwordHash: true, firstName: true, lastName: true }
+			select: { id: true, email: true, passwordHash: true, firstName: true, lastName: true, totpEnabledAt: true, roles: { select: { role: true } } }
 		});
 		
 		const invalidError = { error: { code: 'INVALID_CREDENTIALS', message: 'Invalid email or password' } };
 		
 		// Step 3 & 5: Check if user exists and password is valid.
-		if (!user) return res.status(401).json(invalidError);
+		if (!user) {
+			await recordLoginFailure(throttleKeys);
+			return res.status(401).json(invalidError);
+		}
 		
 		const isValid = await bcrypt.compare(password, user.passwordHash);
-		if (!isValid) return res.status(401).json(invalidError);
-		
-		// Step 6: Sign JWT.
-		const token = signJWT({ userId: user.id, email: user.email });
-		
-		// Step 7: Set authentication cookie.
-		res.cookie('agri_auth', token, {
-			httpOnly: true,
-			secure: false, // Set to false for localhost development
-			sameSite: 'lax',
-			path: '/',
-			maxAge: 60 * 60 * 24 * 7 * 1000, // 7 days
-			domain: '.evolvlabs.com' // Use leading dot for subdomain support
-		});
+		if (!isValid) {
+			await recordLoginFailure(throttleKeys);
+			return res.status(401).json(invalidError);
+		}
+		
+		// Step 5a: Ask for the second factor; no cookie is set until it is verified.
+		if (user.totpEnabledAt) {
+			return res.json({
+				twoFactorRequired: true,
+				challengeToken: signChallengeToken(user.id),
+				message: 'Enter the code from your authenticator app'
+			});
+		}
+		
+		// Step 5b: The IP key is left to decay so a valid login cannot reset an attacker's counter.
+		await clearLoginFailures(throttleKeys[0]);
+		
+		// Step 6: Start a session.
+		const roles = toRoles(user.roles);
+		const tokens = await createSession({ id: user.id, email: user.email, roles }, req);
+		
+		// Step 7: Set authentication cookies and take over the guest cart.
+		setAuthCookies(res, tokens);
+		await mergeGuestCart(req, res, user.id);
 		
 		// Step 8: Return success response.
 		res.json({
-			user: { id: user.id, email: user.email, firstName: user.firstName, lastName: user.lastName },
+			user: { id: user.id, email: user.email, firstName: user.firstName, lastName: user.lastName, roles },
+			csrfToken: csrfTokenFor(tokens.sessionId),
 			message: 'Signed in successfully'
 		});
 	} catch (error) {
@@ -180,31 +338,83 @@ app.post('/api/auth/sign-in', async (req: Request, res: Response) => {
 
 /**
  * @function app.post('/api/auth/sign-out')
- * @description Handles user sign-out. Clears the authentication cookie.
+ * @description Handles user sign-out. Revokes the current session and clears the authentication cookies.
  * @param {Request} req - The Express request object.
  * @param {Response} res - The Express response object.
- * @returns {void}
+ * @returns {Promise<void>}
  *
  * Steps:
  *   1. Check if `req.user` exists; if not, return 401 unauthorized.
- *   2. Clear the `agri_auth` cookie.
- *   3. Return 200 OK with a success message.
+ *   2. Revoke the session the request was authenticated with, so the tokens cannot be reused.
+ *   3. Clear the `agri_auth` and `agri_refresh` cookies.
+ *   4. Return 200 OK with a success message.
+ *   5. Catch and log any errors, returning a 500 internal server error.
  */
-app.post('/api/auth/sign-out', (req: Request, res: Response) => {
+app.post('/api/auth/sign-out', async (req: Request, res: Response) => {
 	// Step 1: Check if user is authenticated.
 	if (!req.user) {
 		return res.status(401).json({ error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } });
 	}
 	
-	// Step 2: Clear the authentication cookie.
-	res.clearCookie('agri_auth', { path: '/', domain: '.evolvlabs.com' });
-	// Step 3: Return success message.
-	res.json({ message: 'Signed out successfully' });
+	try {
+		// Step 2: Revoke the current session.
+		if (req.user.sessionId) await revokeSession(req.user.sessionId, 'sign-out');
+		// Step 3: Clear the authentication cookies.
+		clearAuthCookies(res);
+		// Step 4: Return success message.
+		res.json({ message: 'Signed out successfully' });
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Sign-out error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.post('/api/auth/refresh')
+ * @description Exchanges the refresh token cookie for a new access token and a new refresh token.
+ * The old refresh token stops working; presenting it again revokes the whole session.
+ * @param {Request} req - The Express request object, expecting the `agri_refresh` cookie.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Read the refresh token from the `agri_refresh` cookie. If missing, return 401.
+ *   2. Rotate the session using `rotateSession()`.
+ *   3. If rotation fails, clear the cookies and return 401 with the failure code.
+ *   4. Otherwise set the new cookies and return 200 OK.
+ *   5. Catch and log any errors, returning a 500 internal server error.
+ */
+app.post('/api/auth/refresh', async (req: Request, res: Response) => {
+	try {
+		// Step 1: Read the refresh token.
+		const refreshToken = req.cookies[getRefreshCookieName()];
+		if (!refreshToken) {
+			return res.status(401).json({ error: { code: 'UNAUTHORIZED', message: 'No refresh token' } });
+		}
+		
+		// Step 2: Rotate the session.
+		const result = await rotateSession(refreshToken, req);
+		
+		// Step 3: Handle invalid, expired, or reused tokens.
+		if (!result.ok) {
+			clearAuthCookies(res);
+			return res.status(401).json({ error: { code: result.code, message: 'Session is no longer valid, please sign in again' } });
+		}
+		
+		// Step 4: Set the new token pair.
+		setAuthCookies(res, result.tokens);
+		res.json({ message: 'Session refreshed' });
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Refresh error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
 });
 
 /**
  * @function app.post('/api/auth/sign-up')
- * @description Handles user registration. Validates input, hashes password, creates a new user, and sets an authentication cookie.
+ * @description Handles user registration. Validates input, hashes password, creates a new user, and starts a session for it.
  * @param {Request} req - The Express request object, expecting `email`, `password`, `firstName`, `lastName`, and optional `phone` in the body.
  * @param {Response} res - The Express response object.
  * @returns {Promise<void>}
@@ -214,10 +424,11 @@ app.post('/api/auth/sign-out', (req: Request, res: Response) => {
  *   2. Extract validated user data.
  *   3. Check if a user with the provided `email` already exists. If so, return 409 conflict.
  *   4. Hash the user's password using `bcrypt.hash()`.
- *   5. Create a new user in the database with the hashed password.
- *   6. Sign a new JWT for the newly created user.
- *   7. Set the JWT as an HTTP-only cookie.
- *   8. Return 201 Created with selected user details and a success message.
+ *   5. Create a new user in the database with the hashed password and the default `customer` role.
+ *   6. Create a session for the newly created user.
+ *   7. Set the access and refresh tokens as HTTP-only cookies, and merge any guest cart into the new user's cart.
+ *   7a. Email a verification link. A mail failure is logged but does not fail the sign-up; the user can ask for a new link.
+ *   8. Return 201 Created with selected user details, the session's CSRF token, and a success message.
  *   9. Catch and log any errors, returning a 500 internal server error.
  */
 app.post('/api/auth/sign-up', async (req: Request, res: Response) => {
@@ -244,26 +455,29 @@ app.post('/api/auth/sign-up', async (req: Request, res: Response) => {
 		
 		// Step 5: Create new user.
 		const user = await db.user.create({
-			data: { email, passwordHash, firstName, lastName, phone: phone || null },
+			data: { email, passwordHash, firstName, lastName, phone: phone || null, roles: { create: { role: DEFAULT_ROLE } } },
 			select: { id: true, email: true, firstName: true, lastName: true }
 		});
 		
-		// Step 6: Sign JWT for new user.
-		const token = signJWT({ userId: user.id, email: user.email });
-		
-		// Step 7: Set authentication cookie.
-		res.cookie('agri_auth', token, {
-			httpOnly: true,
-			secure: false, // Set to false for localhost development
-			sameSite: 'lax',
-			path: '/',
-			maxAge: 60 * 60 * 1000, // 1 hour
-			domain: '.evolvlabs.com'
-		});
+		// Step 6: Start a session for the new user.
+		const roles = [DEFAULT_ROLE];
+		const tokens = await createSession({ id: user.id, email: user.email, roles }, req);
+		
+		// Step 7: Set authentication cookies and take over the guest cart.
+		setAuthCookies(res, tokens);
+		await mergeGuestCart(req, res, user.id);
+		
+		// Step 7a: Send the verification email.
+		try {
+			await sendVerificationEmail(user);
+		} catch (mailError) {
+			console.error('Verification email error:', mailError);
+		}
 		
 		// Step 8: Return success response.
 		res.status(201).json({
-			user: { id: user.id, email: user.email, firstName: user.firstName, lastName: user.lastName },
+			user: { id: user.id, email: user.email, firstName: user.firstName, lastName: user.lastName, roles, emailVerified: false },
+			csrfToken: csrfTokenFor(tokens.sessionId),
 			message: 'Account created successfully'
 		});
 	} catch (error) {
@@ -273,773 +487,5000 @@ app.post('/api/auth/sign-up', async (req: Request, res: Response) => {
 	}
 });
 
-// --- Products routes ---
+// --- Two-factor authentication routes ---
 
 /**
- * @function app.get('/api/products')
- * @description Retrieves a paginated and searchable list of products.
- * @param {Request} req - The Express request object, expecting optional `page`, `pageSize`, and `q` (search query) in query parameters.
+ * @function app.post('/api/auth/sign-in/2fa')
+ * @description Completes a two-factor sign-in. Verifies the challenge token from `/api/auth/sign-in` and a TOTP code or recovery code, then starts a session.
+ * Failed codes count towards the same throttle as failed passwords.
+ * @param {Request} req - The Express request object, expecting `challengeToken` and either `code` or `recoveryCode` in the body.
  * @param {Response} res - The Express response object.
  * @returns {Promise<void>}
  *
  * Steps:
- *   1. Validate query parameters against `productQuerySchema`. If validation fails, return 400.
- *   2. Extract validated `page`, `pageSize`, and `q`.
- *   3. Calculate `skip` value for pagination.
- *   4. Construct `whereConditions` for database query based on `q`.
- *   5. Perform parallel database queries to fetch products and their total count.
- *   6. Calculate `totalPages`.
- *   7. Return 200 OK with products, pagination metadata, and the search query.
- *   8. Catch and log any errors, returning a 500 internal server error.
+ *   1. Validate the request body against `twoFactorSignInSchema`. If validation fails, return 400.
+ *   2. Verify the challenge token. If invalid or expired, return 401 `INVALID_CHALLENGE`.
+ *   3. Load the user; refuse with 429 if the user's email or the client IP is throttled.
+ *   4. Verify the second factor. On failure, record it and return 401 `INVALID_TWO_FACTOR_CODE`.
+ *   5. Clear the email's failures, start a session, set the authentication cookies, and merge any guest cart into the user's cart.
+ *   6. Return 200 OK with the user details and the session's CSRF token.
+ *   7. Catch and log any errors, returning a 500 internal server error.
  */
-app.get('/api/products', async (req: Request, res: Response) => {
+app.post('/api/auth/sign-in/2fa', async (req: Request, res: Response) => {
 	try {
-		// Step 1: Validate query parameters.
-		const validation = productQuerySchema.safeParse(req.query);
+		// Step 1: Validate request body.
+		const validation = twoFactorSignInSchema.safeParse(req.body);
 		if (!validation.success) {
-			return res.status(400).json({ error: { code: 'VALIDATION_ERROR', message: 'Invalid query parameters' } });
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
+			});
 		}
+		const { challengeToken, code, recoveryCode } = validation.data;
 		
-		// Step 2: Extract validated data.
-		const { page, pageSize, q } = validation.data;
-		// Step 3: Calculate skip for pagination.
-		const skip = (page - 1) * pageSize;
+		// Step 2: Verify the challenge from the password step.
+		const challenge = verifyChallengeToken(challengeToken);
+		if (!challenge) {
+			return res.status(401).json({ error: { code: 'INVALID_CHALLENGE', message: 'Sign-in expired, please enter your password again' } });
+		}
 		
-		// Step 4: Construct search conditions.
-		const whereConditions = q ? {
-			OR: [
-				{ name: { contains: q, mode: 'insensitive' } },
-				{ summary: { contains: q, mode: 'insensitive' } },
-				{ description: { contains: q, mode: 'insensitive' } }
-			]
-		} : {};
-		
-		// Step 5: Fetch products and total count in parallel.
-		const [products, totalCount] = await Promise.all([
-			db.product.findMany({
-				where: whereConditions,
-				select: { id: true, name: true, slug: true, summary: true, priceCents: true, imageUrl: true, createdAt: true },
-				orderBy: { createdAt: 'desc' },
-				skip,
-				take: pageSize
-			}),
-			db.product.count({ where: whereConditions })
-		]);
+		// Step 3: Load the user and apply the sign-in throttle.
+		const user = await db.user.findUnique({
+			where: { id: challenge.userId },
+			select: { id: true, email: true, firstName: true, lastName: true, roles: { select: { role: true } } }
+		});
+		if (!user) {
+			return res.status(401).json({ error: { code: 'INVALID_CHALLENGE', message: 'Sign-in expired, please enter your password again' } });
+		}
+		const throttleKeys = loginThrottleKeys(req.ip, user.email);
+		const retryAfter = await getRetryAfter(throttleKeys);
+		if (retryAfter > 0) {
+			res.set('Retry-After', String(retryAfter));
+			return res.status(429).json({
+				error: { code: 'TOO_MANY_ATTEMPTS', message: `Too many sign-in attempts. Try again in ${retryAfter} seconds.`, retryAfter }
+			});
+		}
 		
-		// Step 6: Calculate total pages.
-		const totalPages = Math.ceil(totalCount / pageSize);
+		// Step 4: Verify the second factor.
+		const valid = await verifySecondFactor(user.id, { code, recoveryCode });
+		if (!valid) {
+			await recordLoginFailure(throttleKeys);
+			return res.status(401).json({ error: { code: 'INVALID_TWO_FACTOR_CODE', message: 'Invalid authentication code' } });
+		}
+		
+		// Step 5: Sign in.
+		await clearLoginFailures(throttleKeys[0]);
+		const roles = toRoles(user.roles);
+		const tokens = await createSession({ id: user.id, email: user.email, roles }, req);
+		setAuthCookies(res, tokens);
+		await mergeGuestCart(req, res, user.id);
 		
-		// Step 7: Return products and pagination info.
+		// Step 6: Return success response.
 		res.json({
-			products,
-			pagination: {
-				page, pageSize, totalCount, totalPages,
-				hasNextPage: page < totalPages,
-				hasPreviousPage: page > 1
-			},
-			query: q || null
+			user: { id: user.id, email: user.email, firstName: user.firstName, lastName: user.lastName, roles },
+			csrfToken: csrfTokenFor(tokens.sessionId),
+			message: 'Signed in successfully'
 		});
 	} catch (error) {
-		// Step 8: Handle errors.
-		console.error('Get products error:', error);
+		// Step 7: Handle errors.
+		console.error('Two-factor sign-in error:', error);
 		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
 	}
 });
 
 /**
- * @function app.get('/api/products/:id')
- * @description Retrieves details for a single product by its ID or slug.
- * @param {Request} req - The Express request object, expecting `id` (product ID or slug) in URL parameters.
+ * @function app.post('/api/auth/2fa/setup')
+ * @description Starts two-factor enrollment for the authenticated user by generating a new pending TOTP secret.
+ * The secret only takes effect once confirmed with `/api/auth/2fa/enable`.
+ * @param {Request} req - The Express request object.
  * @param {Response} res - The Express response object.
  * @returns {Promise<void>}
  *
  * Steps:
- *   1. Extract `id` from URL parameters.
- *   2. Find the product in the database by `id` or `slug`.
- *   3. If product not found, return 404.
- *   4. Return 200 OK with the product details.
+ *   1. Check if `req.user` exists; if not, return 401 unauthorized.
+ *   2. If two-factor authentication is already enabled, return 409.
+ *   3. Generate a secret and store it as the pending secret.
+ *   4. Return 200 OK with the secret, the `otpauth://` URI, and a QR code data URL of the URI.
  *   5. Catch and log any errors, returning a 500 internal server error.
  */
-app.get('/api/products/:id', async (req: Request, res: Response) => {
+app.post('/api/auth/2fa/setup', async (req: Request, res: Response) => {
+	// Step 1: Check authentication.
+	if (!req.user) {
+		return res.status(401).json({ error: { code: 'UNAUTHORIZED', message: 'Authentication required' } });
+	}
+	
 	try {
-		// Step 1: Extract product ID/slug.
-		const { id } = req.params;
-		
-		// Step 2: Find product by ID or slug.
-		const product = await db.product.findFirst({
-			where: { OR: [{ id }, { slug: id }] },
-			select: { id: true, name: true, slug: true, summary: true, description: true, priceCents: true, imageUrl: true, createdAt: true, updatedAt: true }
-		});
-		
-		// Step 3: If product not found, return 404.
-		if (!product) {
-			return res.status(404).json({ error: { code: 'PRODUCT_NOT_FOUND', message: 'Product not found' } });
+		// Step 2: Refuse if already enrolled.
+		if (req.user.twoFactorEnabled) {
+			return res.status(409).json({ error: { code: 'TWO_FACTOR_ALREADY_ENABLED', message: 'Two-factor authentication is already enabled' } });
 		}
 		
-		// Step 4: Return product details.
-		res.json(product);
+		// Step 3: Generate and store the pending secret.
+		const secret = generateTotpSecret();
+		await db.user.update({ where: { id: req.user.id }, data: { totpPendingSecret: secret } });
+		
+		// Step 4: Return the enrollment payload.
+		const otpauthUri = buildOtpauthUri(secret, req.user.email);
+		res.json({ secret, otpauthUri, qrCodeDataUrl: await buildQrDataUrl(otpauthUri) });
 	} catch (error) {
 		// Step 5: Handle errors.
-		console.error('Get product error:', error);
+		console.error('Two-factor setup error:', error);
 		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
 	}
 });
 
-// --- Shopping Cart routes ---
-
 /**
- * @function app.post('/api/cart/add')
- * @description Adds an item to the shopping cart. For authenticated users, stores in database; for guests, returns success for localStorage handling.
- * @param {Request} req - The Express request object, expecting `productId` and `quantity` in the body.
+ * @function app.post('/api/auth/2fa/enable')
+ * @description Confirms two-factor enrollment with a code from the pending secret, enables it, and issues recovery codes.
+ * @param {Request} req - The Express request object, expecting `code` in the body.
  * @param {Response} res - The Express response object.
  * @returns {Promise<void>}
  *
  * Steps:
- *   1. Extract `productId` and `quantity` from request body.
- *   2. Validate that the product exists in the database.
- *   3. If user is authenticated, this endpoint returns success (cart managed client-side).
- *   4. Return 200 OK with success message and product details.
- *   5. Catch and log any errors, returning a 500 internal server error.
+ *   1. Check if `req.user` exists; if not, return 401 unauthorized.
+ *   2. Validate the request body against `twoFactorCodeSchema`. If validation fails, return 400.
+ *   3. Load the pending secret. If there is none, return 400 `TWO_FACTOR_NOT_STARTED`.
+ *   4. Verify the code against the pending secret. If wrong, return 400 `INVALID_TWO_FACTOR_CODE`.
+ *   5. Promote the pending secret, record the enable time and used step, and issue recovery codes.
+ *   6. Return 200 OK with the recovery codes (shown only once).
+ *   7. Catch and log any errors, returning a 500 internal server error.
  */
-app.post('/api/cart/add', async (req: Request, res: Response) => {
+app.post('/api/auth/2fa/enable', async (req: Request, res: Response) => {
+	// Step 1: Check authentication.
+	if (!req.user) {
+		return res.status(401).json({ error: { code: 'UNAUTHORIZED', message: 'Authentication required' } });
+	}
+	
 	try {
-		// Step 1: Extract cart item data.
-		const { productId, quantity } = req.body;
-		
-		if (!productId || !quantity || quantity < 1) {
-			return res.status(400).json({ error: { code: 'INVALID_INPUT', message: 'Product ID and valid quantity are required' } });
+		// Step 2: Validate request body.
+		const validation = twoFactorCodeSchema.safeParse(req.body);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
+			});
 		}
 		
-		// Step 2: Validate product exists.
-		const product = await db.product.findUnique({
-			where: { id: productId },
-			select: { id: true, name: true, priceCents: true, imageUrl: true }
-		});
+		// Step 3: Load the pending secret.
+		const user = await db.user.findUnique({ where: { id: req.user.id }, select: { totpPendingSecret: true } });
+		if (!user?.totpPendingSecret) {
+			return res.status(400).json({ error: { code: 'TWO_FACTOR_NOT_STARTED', message: 'Start two-factor setup first' } });
+		}
 		
-		if (!product) {
-			return res.status(404).json({ error: { code: 'PRODUCT_NOT_FOUND', message: 'Product not found' } });
+		// Step 4: Verify the confirmation code.
+		const step = verifyTotp(user.totpPendingSecret, validation.data.code);
+		if (step === null) {
+			return res.status(400).json({ error: { code: 'INVALID_TWO_FACTOR_CODE', message: 'Invalid authentication code' } });
 		}
 		
-		// Step 3 & 4: Return success (cart managed client-side).
-		res.json({
-			message: 'Item added to cart successfully',
-			product,
-			quantity
+		// Step 5: Enable two-factor authentication.
+		await db.user.update({
+			where: { id: req.user.id },
+			data: { totpSecret: user.totpPendingSecret, totpPendingSecret: null, totpEnabledAt: new Date(), totpLastUsedStep: step }
 		});
+		const recoveryCodes = await replaceRecoveryCodes(req.user.id);
+		
+		// Step 6: Return the recovery codes.
+		res.json({ message: 'Two-factor authentication enabled', recoveryCodes });
 	} catch (error) {
-		// Step 5: Handle errors.
-		console.error('Add to cart error:', error);
+		// Step 7: Handle errors.
+		console.error('Two-factor enable error:', error);
 		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
 	}
 });
 
 /**
- * @function app.post('/api/cart/checkout')
- * @description Processes cart checkout and creates a purchase record for authenticated users.
- * @param {Request} req - The Express request object, expecting `items` array and `paymentInfo` in the body.
+ * @function app.post('/api/auth/2fa/disable')
+ * @description Disables two-factor authentication for the authenticated user after re-checking their password and a second factor.
+ * Not allowed while the user holds a role for which two-factor authentication is required. Failed checks count towards the user's sign-in throttle, so the code cannot be guessed from a stolen session.
+ * @param {Request} req - The Express request object, expecting `password` and either `code` or `recoveryCode` in the body.
  * @param {Response} res - The Express response object.
  * @returns {Promise<void>}
  *
  * Steps:
- *   1. Check if user is authenticated; if not, return 401 unauthorized.
- *   2. Extract `items` and `paymentInfo` from request body.
- *   3. Validate that all products in the cart exist and calculate total.
- *   4. Create a new purchase record with associated purchase items.
- *   5. Return 201 Created with purchase details and success message.
- *   6. Catch and log any errors, returning a 500 internal server error.
+ *   1. Check if `req.user` exists; if not, return 401 unauthorized.
+ *   2. Validate the request body against `twoFactorDisableSchema`. If validation fails, return 400.
+ *   3. If the user's roles require two-factor authentication, return 403 `TWO_FACTOR_REQUIRED_BY_POLICY`.
+ *   4. Refuse with 429 if the user's email or the client IP is throttled. Check the password and the second factor; if either is wrong, record the failure and return 401.
+ *   5. Clear the user's failures, the TOTP secret, and the recovery codes.
+ *   6. Return 200 OK with a success message.
+ *   7. Catch and log any errors, returning a 500 internal server error.
  */
-app.post('/api/cart/checkout', async (req: Request, res: Response) => {
+app.post('/api/auth/2fa/disable', async (req: Request, res: Response) => {
+	// Step 1: Check authentication.
+	if (!req.user) {
+		return res.status(401).json({ error: { code: 'UNAUTHORIZED', message: 'Authentication required' } });
+	}
 	
 	try {
-		// Step 2: Extract checkout data.
-		const { items, paymentInfo } = req.body;
-		
-		if (!items || !Array.isArray(items) || items.length === 0) {
-			return res.status(400).json({ error: { code: 'INVALID_INPUT', message: 'Cart items are required' } });
+		// Step 2: Validate request body.
+		const validation = twoFactorDisableSchema.safeParse(req.body);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
+			});
 		}
+		const { password, code, recoveryCode } = validation.data;
 		
-		// Step 3: Validate products and calculate total.
-		let totalCents = 0;
-		const validatedItems = [];
-		
-		for (const item of items) {
-			const product = await db.product.findUnique({
-				where: { id: item.productId },
-				select: { id: true, name: true, priceCents: true }
-			});
-			
-			if (!product) {
-				return res.status(404).json({ error: { code: 'PRODUCT_NOT_FOUND', message: `Product ${item.productId} not found` } });
-			}
-			
-			const itemTotal = product.priceCents * item.quantity;
-			totalCents += itemTotal;
-			
-			validatedItems.push({
-				productId: product.id,
-				quantity: item.quantity,
-				priceCentsAtPurchase: product.priceCents
-			});
+		// Step 3: Enforce the policy.
+		if (await isTwoFactorSetupRequired(req.user.roles, false)) {
+			return res.status(403).json({ error: { code: 'TWO_FACTOR_REQUIRED_BY_POLICY', message: 'Your role requires two-factor authentication' } });
 		}
 		
-		// Step 4: Create purchase record only if user is authenticated.
-		let purchase = null;
-		if (req.user) {
-			purchase = await db.purchase.create({
-				data: {
-					userId: req.user.id,
-					totalCents,
-					items: {
-						create: validatedItems
-					}
-				},
-				select: {
-					id: true,
-					totalCents: true,
-					createdAt: true,
-					items: {
-						select: {
-							id: true,
-							quantity: true,
-							priceCentsAtPurchase: true,
-							product: {
-								select: { id: true, name: true, imageUrl: true }
-							}
-						}
-					}
-				}
+		// Step 4: Re-authenticate, under the sign-in throttle.
+		const throttleKeys = loginThrottleKeys(req.ip, req.user.email);
+		const retryAfter = await getRetryAfter(throttleKeys);
+		if (retryAfter > 0) {
+			res.set('Retry-After', String(retryAfter));
+			return res.status(429).json({
+				error: { code: 'TOO_MANY_ATTEMPTS', message: `Too many attempts. Try again in ${retryAfter} seconds.`, retryAfter }
 			});
 		}
+		const user = await db.user.findUnique({ where: { id: req.user.id }, select: { passwordHash: true } });
+		if (!user || !(await bcrypt.compare(password, user.passwordHash)) || !(await verifySecondFactor(req.user.id, { code, recoveryCode }))) {
+			await recordLoginFailure(throttleKeys);
+			return res.status(401).json({ error: { code: 'INVALID_CREDENTIALS', message: 'Invalid password or authentication code' } });
+		}
 		
-		// Step 5: Return purchase confirmation.
-		res.status(201).json({
-			message: 'Order placed successfully!',
-			purchase,
-			authenticated: !!req.user
-		});
+		// Step 5: Disable two-factor authentication.
+		await clearLoginFailures(throttleKeys[0]);
+		await db.$transaction([
+			db.user.update({
+				where: { id: req.user.id },
+				data: { totpSecret: null, totpPendingSecret: null, totpEnabledAt: null, totpLastUsedStep: null }
+			}),
+			db.recoveryCode.deleteMany({ where: { userId: req.user.id } })
+		]);
+		
+		// Step 6: Return success message.
+		res.json({ message: 'Two-factor authentication disabled' });
 	} catch (error) {
-		// Step 6: Handle errors.
-		console.error('Checkout error:', error);
+		// Step 7: Handle errors.
+		console.error('Two-factor disable error:', error);
 		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
 	}
 });
 
-// --- VULNERABLE CATCH-ALL ENDPOINTS FOR SECURITY TESTING ---
-
 /**
- * @function app.all('/api/vulnerable/performUserRequest')
- * @description VULNERABLE: Catch-all endpoint that executes any command without validation
- * @param {Request} req - Accepts command via JSON body or URL parameter
- * @param {Response} res - Returns raw query results
- * @security VULNERABLE to SQL injection, command injection, and data exposure
+ * @function app.post('/api/auth/2fa/recovery-codes')
+ * @description Replaces the authenticated user's recovery codes after checking a current TOTP code. Failed codes count towards the user's sign-in throttle.
+ * @param {Request} req - The Express request object, expecting `code` in the body.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Check if `req.user` exists; if not, return 401 unauthorized.
+ *   2. Validate the request body against `twoFactorCodeSchema`. If validation fails, return 400.
+ *   3. Refuse with 429 if the user's email or the client IP is throttled. Verify the code; if wrong, record the failure and return 401 `INVALID_TWO_FACTOR_CODE`.
+ *   4. Clear the user's failures, replace the recovery codes, and return 200 OK with the new codes.
+ *   5. Catch and log any errors, returning a 500 internal server error.
  */
-app.all('/api/vulnerable/performUserRequest', async (req: Request, res: Response) => {
+app.post('/api/auth/2fa/recovery-codes', async (req: Request, res: Response) => {
+	// Step 1: Check authentication.
+	if (!req.user) {
+		return res.status(401).json({ error: { code: 'UNAUTHORIZED', message: 'Authentication required' } });
+	}
+	
 	try {
-		// Get command from URL parameter or JSON body
-		const command = req.query.command || req.body.command;
-		
-		if (!command) {
-			return res.status(400).json({ error: 'Command parameter required' });
+		// Step 2: Validate request body.
+		const validation = twoFactorCodeSchema.safeParse(req.body);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
+			});
 		}
 		
-		// VULNERABLE: Execute any SQL command without validation
-		const result = await db.$queryRawUnsafe(command);
+		// Step 3: Verify the code, under the sign-in throttle.
+		const throttleKeys = loginThrottleKeys(req.ip, req.user.email);
+		const retryAfter = await getRetryAfter(throttleKeys);
+		if (retryAfter > 0) {
+			res.set('Retry-After', String(retryAfter));
+			return res.status(429).json({
+				error: { code: 'TOO_MANY_ATTEMPTS', message: `Too many attempts. Try again in ${retryAfter} seconds.`, retryAfter }
+			});
+		}
+		if (!(await verifySecondFactor(req.user.id, { code: validation.data.code }))) {
+			await recordLoginFailure(throttleKeys);
+			return res.status(401).json({ error: { code: 'INVALID_TWO_FACTOR_CODE', message: 'Invalid authentication code' } });
+		}
 		
-		res.json({
-			command: command,
-			result: result,
-			timestamp: new Date().toISOString(),
-			method: req.method,
-			source: req.query.command ? 'URL parameter' : 'JSON body'
-		});
-	} catch (error: any) {
-		console.error('Vulnerable user request error:', error);
-		res.status(500).json({ 
-			error: 'Database error', 
-			details: error.message,
-			command: req.query.command || req.body.command
-		});
+		// Step 4: Issue new recovery codes.
+		await clearLoginFailures(throttleKeys[0]);
+		const recoveryCodes = await replaceRecoveryCodes(req.user.id);
+		res.json({ recoveryCodes });
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Recovery codes error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
 	}
 });
 
+// --- Account recovery and email verification routes ---
+
 /**
- * @function app.all('/api/vulnerable/performAdminRequest')
- * @description VULNERABLE: Admin catch-all endpoint that executes any command without validation
- * @param {Request} req - Accepts command via JSON body or URL parameter
- * @param {Response} res - Returns raw query results with admin privileges
- * @security VULNERABLE to SQL injection, privilege escalation, and sensitive data exposure
+ * @function app.post('/api/auth/forgot-password')
+ * @description Emails a password reset link if an account exists for the address.
+ * The response is the same whether or not the account exists, so the endpoint cannot be used to discover registered emails.
+ * @param {Request} req - The Express request object, expecting `email` in the body.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Validate the request body against `forgotPasswordSchema`. If validation fails, return 400.
+ *   2. Look up the user by email.
+ *   3. If the user exists and no reset email was sent in the last minute, send one.
+ *   4. Return 200 OK with a generic message.
+ *   5. Catch and log any errors, returning a 500 internal server error.
  */
-app.all('/api/vulnerable/performAdminRequest', async (req: Request, res: Response) => {
+app.post('/api/auth/forgot-password', async (req: Request, res: Response) => {
 	try {
-		// Get command from URL parameter or JSON body
-		const command = req.query.command || req.body.command;
-		
-		if (!command) {
-			return res.status(400).json({ error: 'Command parameter required' });
+		// Step 1: Validate request body.
+		const validation = forgotPasswordSchema.safeParse(req.body);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
+			});
 		}
 		
-		// VULNERABLE: Execute any SQL command with "admin" privileges (no actual verification)
-		const result = await db.$queryRawUnsafe(command);
-		
-		res.json({
-			command: command,
-			result: result,
-			timestamp: new Date().toISOString(),
-			method: req.method,
-			source: req.query.command ? 'URL parameter' : 'JSON body',
-			privileges: 'admin',
-			warning: 'This endpoint exposes sensitive data without proper authorization'
-		});
-	} catch (error: any) {
-		console.error('Vulnerable admin request error:', error);
-		res.status(500).json({ 
-			error: 'Database error', 
-			details: error.message,
-			command: req.query.command || req.body.command
+		// Step 2: Find the account.
+		const user = await db.user.findUnique({
+			where: { email: validation.data.email },
+			select: { id: true, email: true, firstName: true }
 		});
+		
+		// Step 3: Send the reset email.
+		if (user && !(await wasAuthTokenRecentlyIssued(user.id, 'password-reset'))) {
+			await sendPasswordResetEmail(user);
+		}
+		
+		// Step 4: Same answer either way.
+		res.json({ message: 'If an account exists for that email, a reset link has been sent' });
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Forgot password error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
 	}
 });
 
-// --- Database Schema Endpoint ---
-
 /**
- * @function app.get('/api/schema')
- * @description Returns the database schema information for visualization
- * @param {Request} req - The Express request object
- * @param {Response} res - The Express response object
- * @returns {void}
+ * @function app.post('/api/auth/reset-password')
+ * @description Sets a new password using a token from a reset email. All of the user's sessions are revoked.
+ * @param {Request} req - The Express request object, expecting `token` and `password` in the body.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Validate the request body against `resetPasswordSchema`. If validation fails, return 400.
+ *   2. Redeem the token. If it is invalid, expired, or used, return 400 `INVALID_TOKEN`.
+ *   3. Hash and save the new password; the email is now proven, so mark it verified if it was not.
+ *   4. Revoke every session of the user and clear sign-in failures for their email.
+ *   5. Return 200 OK with a success message.
+ *   6. Catch and log any errors, returning a 500 internal server error.
  */
-app.get('/api/schema', (req: Request, res: Response) => {
-	const schema = {
-		tables: [
-			{
-				name: 'users',
-				columns: [
-					{ name: 'id', type: 'String', primaryKey: true, description: 'Unique identifier (cuid)' },
-					{ name: 'email', type: 'String', unique: true, description: 'User email address' },
-					{ name: 'passwordHash', type: 'String', description: 'Hashed password' },
-					{ name: 'firstName', type: 'String', description: 'User first name' },
-					{ name: 'lastName', type: 'String', description: 'User last name' },
-					{ name: 'phone', type: 'String?', description: 'Optional phone number' },
-					{ name: 'createdAt', type: 'DateTime', description: 'Account creation timestamp' },
-					{ name: 'updatedAt', type: 'DateTime', description: 'Last update timestamp' }
-				],
-				relations: ['purchases']
-			},
-			{
-				name: 'products',
-				columns: [
-					{ name: 'id', type: 'String', primaryKey: true, description: 'Unique identifier (cuid)' },
-					{ name: 'name', type: 'String', description: 'Product name' },
-					{ name: 'slug', type: 'String', unique: true, description: 'URL-friendly identifier' },
-					{ name: 'summary', type: 'String', description: 'Short product description' },
-					{ name: 'description', type: 'String', description: 'Full product description' },
-					{ name: 'priceCents', type: 'Int', description: 'Price in cents' },
-					{ name: 'imageUrl', type: 'String?', description: 'Optional product image URL' },
-					{ name: 'createdAt', type: 'DateTime', description: 'Product creation timestamp' },
-					{ name: 'updatedAt', type: 'DateTime', description: 'Last update timestamp' }
-				],
-				relations: ['purchaseItems']
-			},
-			{
-				name: 'purchases',
-				columns: [
-					{ name: 'id', type: 'String', primaryKey: true, description: 'Unique identifier (cuid)' },
-					{ name: 'userId', type: 'String', foreignKey: 'users.id', description: 'Reference to user' },
-					{ name: 'totalCents', type: 'Int', description: 'Total purchase amount in cents' },
-					{ name: 'createdAt', type: 'DateTime', description: 'Purchase timestamp' }
-				],
-				relations: ['user', 'items']
-			},
-			{
-				name: 'purchase_items',
-				columns: [
-					{ name: 'id', type: 'String', primaryKey: true, description: 'Unique identifier (cuid)' },
-					{ name: 'purchaseId', type: 'String', foreignKey: 'purchases.id', description: 'Reference to purchase' },
-					{ name: 'productId', type: 'String', foreignKey: 'products.id', description: 'Reference to product' },
-					{ name: 'quantity', type: 'Int', description: 'Quantity purchased' },
-					{ name: 'priceCentsAtPurchase', type: 'Int', description: 'Price at time of purchase' }
-				],
-				relations: ['purchase', 'product']
+app.post('/api/auth/reset-password', async (req: Request, res: Response) => {
+	try {
+		// Step 1: Validate request body.
+		const validation = resetPasswordSchema.safeParse(req.body);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
+			});
+		}
+		const { token, password } = validation.data;
+		
+		// Step 2: Redeem the token.
+		const userId = await consumeAuthToken(token, 'password-reset');
+		if (!userId) {
+			return res.status(400).json({ error: { code: 'INVALID_TOKEN', message: 'This reset link is invalid or has expired' } });
+		}
+		
+		// Step 3: Save the new password.
+		const passwordHash = await bcrypt.hash(password, 12);
+		const user = await db.user.update({ where: { id: userId }, data: { passwordHash }, select: { email: true } });
+		await db.user.updateMany({ where: { id: userId, emailVerifiedAt: null }, data: { emailVerifiedAt: new Date() } });
+		
+		// Step 4: Sign out everywhere and lift any lockout on the account.
+		await revokeAllSessions(userId, 'password-reset');
+		await clearLoginFailures(loginThrottleKeys(undefined, user.email)[0]);
+		
+		// Step 5: Return success message.
+		res.json({ message: 'Your password has been reset. You can now sign in.' });
+	} catch (error) {
+		// Step 6: Handle errors.
+		console.error('Reset password error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.post('/api/auth/verify-email')
+ * @description Confirms a user's email address using a token from a verification email. Does not require the user to be signed in.
+ * @param {Request} req - The Express request object, expecting `token` in the body.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Validate the request body against `verifyEmailSchema`. If validation fails, return 400.
+ *   2. Redeem the token. If it is invalid, expired, or used, return 400 `INVALID_TOKEN`.
+ *   3. Set `emailVerifiedAt` if not already set, and move guest orders placed with the address to the account with `attachGuestOrders()`.
+ *   4. Return 200 OK with a success message and the number of orders attached.
+ *   5. Catch and log any errors, returning a 500 internal server error.
+ */
+app.post('/api/auth/verify-email', async (req: Request, res: Response) => {
+	try {
+		// Step 1: Validate request body.
+		const validation = verifyEmailSchema.safeParse(req.body);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
+			});
+		}
+		
+		// Step 2: Redeem the token.
+		const userId = await consumeAuthToken(validation.data.token, 'email-verify');
+		if (!userId) {
+			return res.status(400).json({ error: { code: 'INVALID_TOKEN', message: 'This verification link is invalid or has expired' } });
+		}
+		
+		// Step 3: Mark the address as verified.
+		await db.user.updateMany({ where: { id: userId, emailVerifiedAt: null }, data: { emailVerifiedAt: new Date() } });
+		const attachedOrders = await attachGuestOrders(userId);
+		
+		// Step 4: Return success message.
+		res.json({ message: 'Your email address has been confirmed', attachedOrders });
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Verify email error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.post('/api/auth/verify-email/resend')
+ * @description Sends a new verification email to the authenticated user.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Check if `req.user` exists; if not, return 401 unauthorized.
+ *   2. If the email is already verified, return 409 `ALREADY_VERIFIED`.
+ *   3. If a verification email was sent in the last minute, return 429 `TOO_MANY_REQUESTS`.
+ *   4. Send the email and return 200 OK.
+ *   5. Catch and log any errors, returning a 500 internal server error.
+ */
+app.post('/api/auth/verify-email/resend', async (req: Request, res: Response) => {
+	// Step 1: Check authentication.
+	if (!req.user) {
+		return res.status(401).json({ error: { code: 'UNAUTHORIZED', message: 'Authentication required' } });
+	}
+	
+	try {
+		// Step 2: Nothing to do if already verified.
+		const user = await db.user.findUnique({
+			where: { id: req.user.id },
+			select: { id: true, email: true, firstName: true, emailVerifiedAt: true }
+		});
+		if (!user) {
+			return res.status(404).json({ error: { code: 'USER_NOT_FOUND', message: 'User not found' } });
+		}
+		if (user.emailVerifiedAt) {
+			return res.status(409).json({ error: { code: 'ALREADY_VERIFIED', message: 'Your email address is already confirmed' } });
+		}
+		
+		// Step 3: Limit how often the email can be sent.
+		if (await wasAuthTokenRecentlyIssued(user.id, 'email-verify')) {
+			return res.status(429).json({ error: { code: 'TOO_MANY_REQUESTS', message: 'Please wait a minute before requesting another email' } });
+		}
+		
+		// Step 4: Send the email.
+		await sendVerificationEmail(user);
+		res.json({ message: 'Verification email sent' });
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Resend verification error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+// --- Products routes ---
+
+/**
+ * @function app.get('/api/products')
+ * @description Retrieves a paginated, searchable, filterable, and sortable list of products, with facet counts for filter sidebars. Archived products are not listed.
+ * Search text is matched against the full-text index (see `lib/search`): every word must match as a prefix, results can be ranked by relevance, and each product comes with its name and a snippet highlighted.
+ * @param {Request} req - The Express request object, expecting optional `page`, `pageSize`, `q` (search text), `category` (slug, including its subcategories), `tag` (comma-separated slugs, any of which match), `minPrice` and `maxPrice` (cents), and `sort` in query parameters.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Validate query parameters against `productQuerySchema`. If validation fails, return 400.
+ *   2. Extract validated `page`, `pageSize`, `q`, filters, and `sort` (defaulting to `relevance` when searching and `newest` otherwise).
+ *   3. Calculate `skip` value for pagination.
+ *   4. Search the full-text index if there is search text, resolve the category slug to the category and its subcategories, and build the filter with `buildProductWhere()` (an unknown category matches nothing).
+ *   5. Fetch the total count and the facets from `loadProductFacets()`, and, when searching, a suggested correction of the search text, in parallel.
+ *   6. Fetch the page of products: in relevance order, list the matching IDs, order them by search rank, and load the page; otherwise let the database sort and paginate.
+ *   7. Calculate `totalPages`, and load the ratings of the products with `loadRatings()`.
+ *   8. Return 200 OK with products (each with its `stock`, `stockStatus`, category, tags, `rating` (average and review count), and search `highlight`), pagination metadata, the search query and suggestion, the filters and sort applied, and the facets.
+ *   9. Catch and log any errors, returning a 500 internal server error.
+ */
+app.get('/api/products', async (req: Request, res: Response) => {
+	try {
+		// Step 1: Validate query parameters.
+		const validation = productQuerySchema.safeParse(req.query);
+		if (!validation.success) {
+			return res.status(400).json({ error: { code: 'VALIDATION_ERROR', message: 'Invalid query parameters' } });
+		}
+		
+		// Step 2: Extract validated data.
+		const { page, pageSize, q, category, tag, minPrice, maxPrice } = validation.data;
+		const sort = validation.data.sort ?? (q ? 'relevance' : 'newest');
+		// Step 3: Calculate skip for pagination.
+		const skip = (page - 1) * pageSize;
+		
+		// Step 4: Search, and construct filter conditions.
+		const [matches, categories] = await Promise.all([q ? searchProducts(q) : Promise.resolve(null), loadCategories()]);
+		const selectedCategory = category ? categories.find((candidate) => candidate.slug === category) : undefined;
+		const filters: ProductFilters = {
+			productIds: matches?.map((match) => match.id),
+			categoryIds: category ? (selectedCategory ? categoryWithDescendants(categories, selectedCategory.id) : []) : undefined,
+			tags: tag,
+			minPriceCents: minPrice,
+			maxPriceCents: maxPrice
+		};
+		const whereConditions = buildProductWhere(filters);
+		
+		// Step 5: Fetch total count, facets, and the search suggestion in parallel.
+		const [totalCount, facets, suggestion] = await Promise.all([
+			db.product.count({ where: whereConditions }),
+			loadProductFacets(filters, categories),
+			q ? suggestSearch(q) : Promise.resolve(null)
+		]);
+
+		// Step 6: Fetch the page of products.
+		let products;
+		if (matches && sort === 'relevance') {
+			const position = new Map(matches.map((match, index) => [match.id, index]));
+			const matchingIds = await db.product.findMany({ where: whereConditions, select: { id: true } });
+			const pageIds = matchingIds
+				.map((product) => product.id)
+				.sort((a, b) => position.get(a)! - position.get(b)!)
+				.slice(skip, skip + pageSize);
+			products = (await db.product.findMany({ where: { id: { in: pageIds } }, select: PRODUCT_LIST_SELECT }))
+				.sort((a, b) => position.get(a.id)! - position.get(b.id)!);
+		} else {
+			products = await db.product.findMany({
+				where: whereConditions,
+				select: PRODUCT_LIST_SELECT,
+				orderBy: PRODUCT_ORDER_BY[sort],
+				skip,
+				take: pageSize
+			});
+		}
+		
+		// Step 7: Calculate total pages, and load the ratings of the page.
+		const totalPages = Math.ceil(totalCount / pageSize);
+		const ratings = await loadRatings(products.map((product) => product.id));
+		
+		// Step 8: Return products (with their stock status, rating, and highlights), pagination info, and facets.
+		const highlights = new Map(matches?.map((match) => [match.id, { name: match.name, snippet: match.snippet }]));
+		res.json({
+			products: products.map((product) => ({
+				...product,
+				stockStatus: stockStatus(product.stock),
+				rating: ratings[product.id],
+				highlight: highlights.get(product.id) ?? null
+			})),
+			pagination: {
+				page, pageSize, totalCount, totalPages,
+				hasNextPage: page < totalPages,
+				hasPreviousPage: page > 1
 			},
-			{
-				name: 'discounts',
-				columns: [
-					{ name: 'id', type: 'String', primaryKey: true, description: 'Unique identifier (cuid)' },
-					{ name: 'title', type: 'String', description: 'Discount title' },
-					{ name: 'description', type: 'String', description: 'Discount description' },
-					{ name: 'percentOff', type: 'Int', description: 'Percentage discount' },
-					{ name: 'active', type: 'Boolean', description: 'Whether discount is active' },
-					{ name: 'startsAt', type: 'DateTime', description: 'Discount start time' },
-					{ name: 'endsAt', type: 'DateTime', description: 'Discount end time' }
-				]
+			query: q || null,
+			suggestion,
+			filters: { category: category || null, tags: tag, minPrice: minPrice ?? null, maxPrice: maxPrice ?? null },
+			sort,
+			facets
+		});
+	} catch (error) {
+		// Step 9: Handle errors.
+		console.error('Get products error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.get('/api/products/:id')
+ * @description Retrieves details for a single product by its ID or slug. Archived products are not found.
+ * @param {Request} req - The Express request object, expecting `id` (product ID or slug) in URL parameters.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Extract `id` from URL parameters.
+ *   2. Find the product in the database by `id` or `slug`, unless it is archived.
+ *   3. If product not found, return 404.
+ *   4. Return 200 OK with the product details, including `stock`, `stockStatus`, category, tags, and `rating` (average and approved review count).
+ *   5. Catch and log any errors, returning a 500 internal server error.
+ */
+app.get('/api/products/:id', async (req: Request, res: Response) => {
+	try {
+		// Step 1: Extract product ID/slug.
+		const { id } = req.params;
+		
+		// Step 2: Find product by ID or slug.
+		const product = await db.product.findFirst({
+			where: { OR: [{ id }, { slug: id }], archivedAt: null },
+			select: {
+				id: true, name: true, slug: true, summary: true, description: true, priceCents: true, imageUrl: true, stock: true, createdAt: true, updatedAt: true,
+				category: { select: { id: true, name: true, slug: true } },
+				tags: { select: { name: true, slug: true }, orderBy: { name: 'asc' } }
 			}
-		]
-	};
-	
-	res.json(schema);
+		});
+		
+		// Step 3: If product not found, return 404.
+		if (!product) {
+			return res.status(404).json({ error: { code: 'PRODUCT_NOT_FOUND', message: 'Product not found' } });
+		}
+		
+		// Step 4: Return product details with the stock status and rating.
+		const ratings = await loadRatings([product.id]);
+		res.json({ ...product, stockStatus: stockStatus(product.stock), rating: ratings[product.id] });
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Get product error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+// --- Product review routes ---
+
+/**
+ * @function app.get('/api/products/:id/reviews')
+ * @description Lists a product's approved reviews, newest first, with its rating summary. Signed-in users also get their own review of the product (whatever its moderation status) and whether they may write one. Review text is returned exactly as written.
+ * @param {Request} req - The Express request object, expecting `id` (product ID or slug) in URL parameters and optional `page` and `pageSize` in query parameters.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Validate query parameters against `reviewQuerySchema`. If validation fails, return 400.
+ *   2. Find the product by ID or slug, unless it is archived. If not found, return 404.
+ *   3. Fetch the page of approved reviews, their count, the rating summary and distribution, and, for signed-in users, their own review and whether they bought the product, in parallel.
+ *   4. Return 200 OK with the reviews (with their author's first name and last initial), the rating, pagination metadata, and the user's review and `canReview`.
+ *   5. Catch and log any errors, returning a 500 internal server error.
+ */
+app.get('/api/products/:id/reviews', async (req: Request, res: Response) => {
+	try {
+		// Step 1: Validate query parameters.
+		const validation = reviewQuerySchema.safeParse(req.query);
+		if (!validation.success) {
+			return res.status(400).json({ error: { code: 'VALIDATION_ERROR', message: 'Invalid query parameters' } });
+		}
+		const { page, pageSize } = validation.data;
+		
+		// Step 2: Find the product.
+		const product = await db.product.findFirst({
+			where: { OR: [{ id: req.params.id }, { slug: req.params.id }], archivedAt: null },
+			select: { id: true }
+		});
+		if (!product) {
+			return res.status(404).json({ error: { code: 'PRODUCT_NOT_FOUND', message: 'Product not found' } });
+		}
+		
+		// Step 3: Fetch reviews, counts, and the user's own review.
+		const approved = { productId: product.id, status: 'approved' };
+		const [reviews, totalCount, ratings, distribution, myReview, purchased] = await Promise.all([
+			db.review.findMany({
+				where: approved,
+				select: { id: true, rating: true, body: true, createdAt: true, updatedAt: true, user: { select: { firstName: true, lastName: true } } },
+				orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+				skip: (page - 1) * pageSize,
+				take: pageSize
+			}),
+			db.review.count({ where: approved }),
+			loadRatings([product.id]),
+			loadRatingDistribution(product.id),
+			req.user
+				? db.review.findUnique({
+					where: { productId_userId: { productId: product.id, userId: req.user.id } },
+					select: { id: true, rating: true, body: true, status: true, createdAt: true, updatedAt: true }
+				})
+				: Promise.resolve(null),
+			req.user ? hasPurchasedProduct(req.user.id, product.id) : Promise.resolve(false)
+		]);
+		
+		// Step 4: Return the reviews.
+		const totalPages = Math.ceil(totalCount / pageSize);
+		res.json({
+			reviews: reviews.map(({ user, ...review }) => ({ ...review, author: reviewAuthorName(user) })),
+			rating: { ...ratings[product.id], distribution },
+			pagination: {
+				page, pageSize, totalCount, totalPages,
+				hasNextPage: page < totalPages,
+				hasPreviousPage: page > 1
+			},
+			myReview,
+			canReview: purchased
+		});
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Get reviews error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.post('/api/products/:id/reviews')
+ * @description Writes the signed-in user's review of a product they bought, replacing their earlier review if any. The review waits for moderation before it is published.
+ * @param {Request} req - The Express request object, expecting `id` (product ID or slug) in URL parameters and `rating` and `body` in the body.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Check if `req.user` exists; if not, return 401 unauthorized.
+ *   2. Validate the request body against `reviewSchema`. If validation fails, return 400.
+ *   3. Find the product by ID or slug, unless it is archived. If not found, return 404.
+ *   4. Check the user bought the product with `hasPurchasedProduct()`; if not, return 403 `PURCHASE_REQUIRED`.
+ *   5. Create the review, or replace the user's existing one, as `pending`.
+ *   6. Return 201 Created (or 200 OK when replacing) with the review.
+ *   7. Catch and log any errors, returning a 500 internal server error.
+ */
+app.post('/api/products/:id/reviews', async (req: Request, res: Response) => {
+	// Step 1: Check authentication.
+	if (!req.user) {
+		return res.status(401).json({ error: { code: 'UNAUTHORIZED', message: 'Authentication required' } });
+	}
+	
+	try {
+		// Step 2: Validate request body.
+		const validation = reviewSchema.safeParse(req.body);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
+			});
+		}
+		const { rating, body } = validation.data;
+		
+		// Step 3: Find the product.
+		const product = await db.product.findFirst({
+			where: { OR: [{ id: req.params.id }, { slug: req.params.id }], archivedAt: null },
+			select: { id: true }
+		});
+		if (!product) {
+			return res.status(404).json({ error: { code: 'PRODUCT_NOT_FOUND', message: 'Product not found' } });
+		}
+		
+		// Step 4: Check the purchase.
+		if (!(await hasPurchasedProduct(req.user.id, product.id))) {
+			return res.status(403).json({ error: { code: 'PURCHASE_REQUIRED', message: 'Only customers who bought this product can review it' } });
+		}
+		
+		// Step 5: Create or replace the review.
+		const key = { productId_userId: { productId: product.id, userId: req.user.id } };
+		const existing = await db.review.findUnique({ where: key, select: { id: true } });
+		const review = await db.review.upsert({
+			where: key,
+			create: { productId: product.id, userId: req.user.id, rating, body },
+			update: { rating, body, status: 'pending', moderatedById: null, moderatedAt: null },
+			select: { id: true, rating: true, body: true, status: true, createdAt: true, updatedAt: true }
+		});
+		
+		// Step 6: Return the review.
+		res.status(existing ? 200 : 201).json(review);
+	} catch (error) {
+		// Step 7: Handle errors.
+		console.error('Write review error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+// --- Shopping Cart routes ---
+
+/**
+ * @function app.get('/api/cart')
+ * @description Returns the request's cart: the user's cart when signed in, otherwise the guest cart named by the `agri_cart` cookie. Requests without a cart get an empty one (nothing is created).
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Find the request's cart with `findCartId()`.
+ *   2. Return 200 OK with its items and totals from `loadCartView()`.
+ *   3. Catch and log any errors, returning a 500 internal server error.
+ */
+app.get('/api/cart', async (req: Request, res: Response) => {
+	try {
+		// Step 1: Find the cart.
+		const cartId = await findCartId(req);
+		// Step 2: Return it.
+		res.json(await loadCartView(cartId));
+	} catch (error) {
+		// Step 3: Handle errors.
+		console.error('Get cart error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.post('/api/cart/add')
+ * @description Adds a product to the request's cart, creating the cart (and, for guests, the `agri_cart` cookie) if needed. The quantity is added to any quantity already in the cart.
+ * @param {Request} req - The Express request object, expecting `productId` and optionally `quantity` in the body.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Validate the request body against `cartAddSchema`. If validation fails, return 400.
+ *   2. Validate that the product exists in the database and is not archived; if not, return 404.
+ *   3. Find or create the cart and add the item with `addCartItem()`.
+ *   4. Return 200 OK with a success message, the product, and the updated cart.
+ *   5. Catch and log any errors, returning a 500 internal server error.
+ */
+app.post('/api/cart/add', async (req: Request, res: Response) => {
+	try {
+		// Step 1: Validate request body.
+		const validation = cartAddSchema.safeParse(req.body);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
+			});
+		}
+		const { productId, quantity } = validation.data;
+
+		// Step 2: Validate product exists.
+		const product = await db.product.findFirst({
+			where: { id: productId, archivedAt: null },
+			select: { id: true, name: true, priceCents: true, imageUrl: true }
+		});
+
+		if (!product) {
+			return res.status(404).json({ error: { code: 'PRODUCT_NOT_FOUND', message: 'Product not found' } });
+		}
+
+		// Step 3: Add to the cart.
+		const cartId = await getOrCreateCartId(req, res);
+		await addCartItem(cartId, product.id, quantity);
+
+		// Step 4: Return the updated cart.
+		res.json({
+			message: 'Item added to cart successfully',
+			product,
+			quantity,
+			cart: await loadCartView(cartId)
+		});
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Add to cart error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.put('/api/cart/items/:productId')
+ * @description Sets the quantity of a product already in the request's cart. A quantity of 0 removes it.
+ * @param {Request} req - The Express request object, expecting `productId` in URL parameters and `quantity` in the body.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Validate the request body against `cartQuantitySchema`. If validation fails, return 400.
+ *   2. Find the request's cart.
+ *   3. Update the item's quantity, or delete it if the quantity is 0. If there is no cart or the product is not in it, return 404 `CART_ITEM_NOT_FOUND`.
+ *   4. Return 200 OK with the updated cart.
+ *   5. Catch and log any errors, returning a 500 internal server error.
+ */
+app.put('/api/cart/items/:productId', async (req: Request, res: Response) => {
+	try {
+		// Step 1: Validate request body.
+		const validation = cartQuantitySchema.safeParse(req.body);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
+			});
+		}
+		const { quantity } = validation.data;
+
+		// Step 2: Find the cart.
+		const cartId = await findCartId(req);
+
+		// Step 3: Update or remove the item.
+		const where = { cartId: cartId ?? '', productId: req.params.productId };
+		const { count } = quantity === 0
+			? await db.cartItem.deleteMany({ where })
+			: await db.cartItem.updateMany({ where, data: { quantity } });
+		if (!cartId || count === 0) {
+			return res.status(404).json({ error: { code: 'CART_ITEM_NOT_FOUND', message: 'This product is not in your cart' } });
+		}
+
+		// Step 4: Return the updated cart.
+		res.json(await loadCartView(cartId));
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Update cart item error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.delete('/api/cart/items/:productId')
+ * @description Removes a product from the request's cart.
+ * @param {Request} req - The Express request object, expecting `productId` in URL parameters.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Find the request's cart and delete the item. If nothing was deleted, return 404 `CART_ITEM_NOT_FOUND`.
+ *   2. Return 200 OK with the updated cart.
+ *   3. Catch and log any errors, returning a 500 internal server error.
+ */
+app.delete('/api/cart/items/:productId', async (req: Request, res: Response) => {
+	try {
+		// Step 1: Remove the item.
+		const cartId = await findCartId(req);
+		const { count } = cartId
+			? await db.cartItem.deleteMany({ where: { cartId, productId: req.params.productId } })
+			: { count: 0 };
+		if (!cartId || count === 0) {
+			return res.status(404).json({ error: { code: 'CART_ITEM_NOT_FOUND', message: 'This product is not in your cart' } });
+		}
+
+		// Step 2: Return the updated cart.
+		res.json(await loadCartView(cartId));
+	} catch (error) {
+		// Step 3: Handle errors.
+		console.error('Remove cart item error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.delete('/api/cart')
+ * @description Removes every item from the request's cart.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Find the request's cart and delete all its items.
+ *   2. Return 200 OK with the (now empty) cart.
+ *   3. Catch and log any errors, returning a 500 internal server error.
+ */
+app.delete('/api/cart', async (req: Request, res: Response) => {
+	try {
+		// Step 1: Empty the cart.
+		const cartId = await findCartId(req);
+		if (cartId) await db.cartItem.deleteMany({ where: { cartId } });
+		// Step 2: Return the empty cart.
+		res.json(await loadCartView(cartId));
+	} catch (error) {
+		// Step 3: Handle errors.
+		console.error('Clear cart error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.post('/api/cart/quote')
+ * @description Previews the price of the request's cart as checkout would charge it: the discounts that would apply, optionally with a promo code, and with a delivery choice, the shipping and tax lines (see `lib/quotes`). Nothing is reserved or counted.
+ * @param {Request} req - The Express request object, optionally expecting `promoCode` and `delivery` (a delivery method code, and a saved `addressId` or an `address`) in the body.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Validate the request body against `cartQuoteSchema`. If validation fails, return 400. If a saved address was chosen and is not the user's, return 404 `ADDRESS_NOT_FOUND`.
+ *   2. Load the request's cart.
+ *   3. Price it with `quoteOrder()`.
+ *   4. Return 200 OK with the subtotal, discount lines, delivery, shipping, tax lines, total, and the reasons the promo code or delivery method could not be applied (if they could not).
+ *   5. Catch and log any errors, returning a 500 internal server error.
+ */
+app.post('/api/cart/quote', async (req: Request, res: Response) => {
+	try {
+		// Step 1: Validate request body and look up the address.
+		const validation = cartQuoteSchema.safeParse(req.body);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
+			});
+		}
+		const delivery = validation.data.delivery ? await resolveDeliveryChoice(validation.data.delivery, req.user?.id ?? null) : null;
+		if (validation.data.delivery && !delivery) {
+			return res.status(404).json({ error: { code: 'ADDRESS_NOT_FOUND', message: 'Address not found' } });
+		}
+		
+		// Step 2: Load the cart.
+		const cart = await loadCartView(await findCartId(req));
+		
+		// Step 3: Price it.
+		const quote = await quoteOrder(
+			cart.items.map(({ productId, quantity, priceCents }) => ({ productId, quantity, unitPriceCents: priceCents })),
+			{ promoCode: normalizePromoCode(validation.data.promoCode), userId: req.user?.id ?? null, delivery }
+		);
+		
+		// Step 4: Return the quote.
+		res.json(quote);
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Cart quote error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.post('/api/cart/checkout')
+ * @description Processes cart checkout and creates a purchase record, for the authenticated user or for a guest identified by a contact email. Checks out the posted `items`, or the request's server-side cart if none are posted (which is then emptied unless the card is declined). Discounts, shipping, and tax are applied as previewed by `/api/cart/quote` with the same delivery choice, and the breakdown is stored on the purchase with a copy of the delivery address.
+ * The order is then paid with the card in `paymentInfo` through the payment gateway (see `lib/payments`), and its status follows the payment: `paid` once captured, `cancelled` if declined, and `pending` while the card issuer's challenge (answered at `/api/payments/:id/challenge`) or the gateway's webhook is awaited. The card details are never stored or logged.
+ * Guests receive a lookup token (shown once and emailed to them) that opens the public order status page; their orders move to their account once they confirm the same email address on one.
+ * An `Idempotency-Key` header makes a repeated request (a double click or a retry) get the first response back instead of placing a second order (see `lib/idempotency`).
+ * @param {Request} req - The Express request object, expecting `paymentInfo`, `delivery` (a delivery method code, and a saved `addressId` or an `address`), `email` for guests, and optionally an `items` array and a `promoCode` in the body, and optionally an `Idempotency-Key` header.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. For guests, validate the contact `email` against `emailSchema`. If it is missing or invalid, return 400.
+ *   2. Validate `paymentInfo` against `paymentInfoSchema` and `delivery` against `deliverySchema`. If validation fails, return 400; if a saved address was chosen and is not the user's, return 404 `ADDRESS_NOT_FOUND`. Extract `promoCode` from the request body, and validate `items` against `checkoutItemsSchema` (returning 400 if it fails); without `items`, use the items of the request's cart.
+ *   3. Validate that all products in the cart exist and are not archived, and merge lines for the same product.
+ *   4. Price the order with `quoteOrder()`. If a promo code was entered but cannot be applied, return 400 `INVALID_PROMO_CODE` with the reason; if the delivery method cannot be used, return 400 `DELIVERY_UNAVAILABLE` with the reason.
+ *   5. In a single transaction, count the discounts against their usage limits (in total and for the customer) with `claimDiscounts()`, create a new `pending` purchase record (with a lookup token hash for guests) with its items, price breakdown, tax lines, delivery address, and first history event, and reserve the stock with `reserveStock()`.
+ *   6. Pay for the order with `payForOrder()`. If the card is declined, the order is cancelled: return 402 `PAYMENT_DECLINED` with the reason, keeping the cart.
+ *   7. Empty the server-side cart if it was used, email guests their confirmation with `sendGuestOrderEmail()` (a failure is logged, not returned), and return 201 Created with purchase details, the payment (with a `clientSecret` if a challenge must be answered), the price breakdown, a message, and for guests the lookup token.
+ *   8. If any item is short, return 409 `OUT_OF_STOCK` listing the items with the quantity requested and available; if a discount ran out of uses meanwhile, return 409 `DISCOUNT_UNAVAILABLE`; if the payment gateway failed (the order is cancelled), return 502 `PAYMENT_ERROR`; catch and log other errors, returning a 500 internal server error.
+ */
+app.post('/api/cart/checkout', idempotent, async (req: Request, res: Response) => {
+	
+	try {
+		// Step 1: Guests must leave a contact email.
+		let guestEmail: string | null = null;
+		if (!req.user) {
+			const emailValidation = emailSchema.safeParse(req.body.email);
+			if (!emailValidation.success) {
+				return res.status(400).json({
+					error: { code: 'VALIDATION_ERROR', message: 'An email address is required to check out as a guest', details: { email: 'Enter a valid email address' } }
+				});
+			}
+			guestEmail = emailValidation.data;
+		}
+		const lookup = guestEmail ? createOrderLookupToken() : null;
+		
+		// Step 2: Validate the card and the delivery, and extract checkout data, falling back to the server-side cart.
+		const paymentValidation = paymentInfoSchema.safeParse(req.body.paymentInfo);
+		if (!paymentValidation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid payment details', details: formatValidationErrors(paymentValidation.error) }
+			});
+		}
+		const deliveryValidation = deliverySchema.safeParse(req.body.delivery);
+		if (!deliveryValidation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid delivery details', details: formatValidationErrors(deliveryValidation.error) }
+			});
+		}
+		const delivery = await resolveDeliveryChoice(deliveryValidation.data, req.user?.id ?? null);
+		if (!delivery) {
+			return res.status(404).json({ error: { code: 'ADDRESS_NOT_FOUND', message: 'Address not found' } });
+		}
+		const promoCode = normalizePromoCode(req.body.promoCode);
+		const cartId = req.body.items === undefined ? await findCartId(req) : null;
+		let items: { productId: string; quantity: number }[];
+		if (req.body.items === undefined) {
+			items = (await loadCartView(cartId)).items;
+		} else {
+			const itemsValidation = checkoutItemsSchema.safeParse(req.body.items);
+			if (!itemsValidation.success) {
+				return res.status(400).json({
+					error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(itemsValidation.error) }
+				});
+			}
+			items = itemsValidation.data;
+		}
+		
+		if (items.length === 0) {
+			return res.status(400).json({ error: { code: 'INVALID_INPUT', message: 'Cart items are required' } });
+		}
+		
+		// Step 3: Validate products and merge repeated lines.
+		const lines = new Map<string, { productId: string; name: string; quantity: number; priceCentsAtPurchase: number }>();
+		
+		for (const item of items) {
+			const product = await db.product.findFirst({
+				where: { id: item.productId, archivedAt: null },
+				select: { id: true, name: true, priceCents: true }
+			});
+			
+			if (!product) {
+				return res.status(404).json({ error: { code: 'PRODUCT_NOT_FOUND', message: `Product ${item.productId} not found` } });
+			}
+			
+			const line = lines.get(product.id);
+			if (line) {
+				line.quantity += item.quantity;
+			} else {
+				lines.set(product.id, { productId: product.id, name: product.name, quantity: item.quantity, priceCentsAtPurchase: product.priceCents });
+			}
+		}
+		
+		// Step 4: Apply discounts, shipping, and tax.
+		const pricing = await quoteOrder(
+			[...lines.values()].map(({ productId, quantity, priceCentsAtPurchase }) => ({ productId, quantity, unitPriceCents: priceCentsAtPurchase })),
+			{ promoCode, userId: req.user?.id ?? null, delivery }
+		);
+		if (pricing.promoCodeError) {
+			return res.status(400).json({ error: { code: 'INVALID_PROMO_CODE', message: pricing.promoCodeError } });
+		}
+		const shipping = pricing.delivery;
+		if (!shipping) {
+			return res.status(400).json({ error: { code: 'DELIVERY_UNAVAILABLE', message: pricing.deliveryError || 'This delivery method is not available' } });
+		}
+		const shippingAddress = shipping.requiresAddress ? delivery.address : null;
+		
+		// Step 5: In one transaction, claim the discounts, create the purchase, and reserve the stock.
+		// A stock shortfall or an exhausted discount throws, rolling the purchase back.
+		const purchase = await db.$transaction(async (tx) => {
+			await claimDiscounts(tx, pricing.discounts, req.user?.id ?? null);
+			const created = await tx.purchase.create({
+				data: {
+					userId: req.user?.id ?? null,
+					guestEmail,
+					lookupTokenHash: lookup?.tokenHash ?? null,
+					subtotalCents: pricing.subtotalCents,
+					discountCents: pricing.discountCents,
+					shippingCents: pricing.shippingCents,
+					taxCents: pricing.taxCents,
+					totalCents: pricing.totalCents,
+					deliveryMethod: shipping.method,
+					deliveryMethodName: shipping.name,
+					items: {
+						create: [...lines.values()].map(({ productId, quantity, priceCentsAtPurchase }) => ({ productId, quantity, priceCentsAtPurchase }))
+					},
+					discounts: {
+						create: pricing.discounts
+					},
+					taxLines: {
+						create: pricing.taxes
+					},
+					...(shippingAddress ? { shippingAddress: { create: shippingAddress } } : {})
+				},
+				select: {
+					id: true,
+					subtotalCents: true,
+					discountCents: true,
+					shippingCents: true,
+					taxCents: true,
+					totalCents: true,
+					deliveryMethod: true,
+					deliveryMethodName: true,
+					status: true,
+					createdAt: true,
+					discounts: {
+						select: { title: true, code: true, percentOff: true, amountCents: true }
+					},
+					taxLines: {
+						select: { name: true, rateBasisPoints: true, taxableCents: true, amountCents: true }
+					},
+					shippingAddress: {
+						select: ADDRESS_FIELDS
+					},
+					items: {
+						select: {
+							id: true,
+							quantity: true,
+							priceCentsAtPurchase: true,
+							product: {
+								select: { id: true, name: true, imageUrl: true }
+							}
+						}
+					}
+				}
+			});
+			await recordOrderPlaced(tx, created.id, req.user?.id ?? null);
+			await reserveStock(tx, [...lines.values()], created.id);
+			return created;
+		});
+		
+		// Step 6: Pay; a declined card cancels the order.
+		const outcome = await payForOrder(purchase, paymentValidation.data);
+		if (outcome.payment?.status === 'declined') {
+			return res.status(402).json({
+				error: { code: 'PAYMENT_DECLINED', message: outcome.declineMessage || 'Your card was declined', declineCode: outcome.payment.declineCode }
+			});
+		}
+		
+		// Step 7: Empty the cart, confirm guest orders by email, and return purchase confirmation.
+		if (cartId) {
+			await db.cartItem.deleteMany({ where: { cartId } });
+		}
+		if (guestEmail && lookup) {
+			await sendGuestOrderEmail(guestEmail, purchase, lookup.token).catch((error) => console.error('Guest order email error:', error));
+		}
+		const messages: Record<string, string> = {
+			requires_action: 'Your card issuer needs you to confirm this payment.',
+			processing: 'Order placed! Your payment is being processed.'
+		};
+		res.status(201).json({
+			message: (outcome.payment && messages[outcome.payment.status]) || 'Order placed successfully!',
+			purchase: { ...purchase, status: outcome.orderStatus },
+			payment: outcome.payment && { ...outcome.payment, clientSecret: outcome.clientSecret },
+			pricing,
+			authenticated: !!req.user,
+			lookupToken: lookup?.token ?? null
+		});
+	} catch (error) {
+		// Step 8: Report stock shortfalls, exhausted discounts, and payment gateway failures; handle other errors.
+		if (error instanceof OutOfStockError) {
+			return res.status(409).json({ error: { code: 'OUT_OF_STOCK', message: error.message, items: error.items } });
+		}
+		if (error instanceof DiscountUnavailableError) {
+			return res.status(409).json({ error: { code: 'DISCOUNT_UNAVAILABLE', message: error.message } });
+		}
+		if (error instanceof PaymentGatewayError) {
+			console.error('Checkout payment error:', error.code, error.message);
+			return res.status(502).json({ error: { code: 'PAYMENT_ERROR', message: 'Your payment could not be processed. Please try again.' } });
+		}
+		console.error('Checkout error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+// --- Payment routes ---
+
+/**
+ * @function app.post('/api/payments/:id/challenge')
+ * @description Answers the card issuer's challenge for a payment made at checkout (a 3-D-Secure-style confirmation). Authorized by the `clientSecret` returned with the payment, so it works for guests too. The order becomes `paid` if the payment is then authorized, or `cancelled` if it is declined.
+ * @param {Request} req - The Express request object, expecting `id` (payment ID) in URL parameters and `clientSecret` and `response` in the body.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Validate the request body against `paymentChallengeSchema`. If validation fails, return 400.
+ *   2. Answer the challenge with `answerPaymentChallenge()`. If no payment matches the ID and secret, return 404 `PAYMENT_NOT_FOUND`; if it is not awaiting an answer, return 409 `PAYMENT_NOT_AWAITING_CHALLENGE`.
+ *   3. If the payment was declined, return 402 `PAYMENT_DECLINED` with the reason and the order's new status.
+ *   4. Return 200 OK with the payment and the order's status.
+ *   5. If the payment gateway failed, return 502 `PAYMENT_ERROR`; catch and log other errors, returning a 500 internal server error.
+ */
+app.post('/api/payments/:id/challenge', async (req: Request, res: Response) => {
+	try {
+		// Step 1: Validate request body.
+		const validation = paymentChallengeSchema.safeParse(req.body);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
+			});
+		}
+		
+		// Step 2: Answer the challenge.
+		const outcome = await answerPaymentChallenge(req.params.id, validation.data.clientSecret, validation.data.response);
+		if ('error' in outcome && outcome.error === 'not-found') {
+			return res.status(404).json({ error: { code: 'PAYMENT_NOT_FOUND', message: 'Payment not found' } });
+		}
+		if ('error' in outcome) {
+			return res.status(409).json({
+				error: { code: 'PAYMENT_NOT_AWAITING_CHALLENGE', message: `This payment is ${outcome.status.replace('_', ' ')}`, status: outcome.status }
+			});
+		}
+		
+		// Step 3: Report a decline.
+		if (outcome.payment?.status === 'declined') {
+			return res.status(402).json({
+				error: {
+					code: 'PAYMENT_DECLINED',
+					message: outcome.declineMessage || 'Your card was declined',
+					declineCode: outcome.payment.declineCode,
+					orderStatus: outcome.orderStatus
+				}
+			});
+		}
+		
+		// Step 4: Return the payment.
+		res.json({ payment: outcome.payment, orderStatus: outcome.orderStatus });
+	} catch (error) {
+		// Step 5: Handle errors.
+		if (error instanceof PaymentGatewayError) {
+			console.error('Payment challenge gateway error:', error.code, error.message);
+			return res.status(502).json({ error: { code: 'PAYMENT_ERROR', message: 'Your payment could not be processed. Please try again.' } });
+		}
+		console.error('Payment challenge error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.post('/api/payments/webhook')
+ * @description Receives the payment gateway's webhooks: delayed authorizations and declines, captures, and refunds made at the provider. The signature is checked against the raw body before anything is read. Events may arrive more than once; repeats change nothing.
+ * @param {Request} req - The Express request object, expecting the gateway's signed JSON event.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Verify the signature with the gateway's `verifyWebhook()`. If it is missing, wrong, or too old, return 400 `INVALID_SIGNATURE`.
+ *   2. Apply the event with `handlePaymentEvent()`.
+ *   3. Return 200 OK, noting whether the event matched a known payment (unknown payments are acknowledged so the gateway stops retrying).
+ *   4. Catch and log any errors, returning a 500 internal server error so the gateway retries.
+ */
+app.post('/api/payments/webhook', async (req: Request, res: Response) => {
+	try {
+		// Step 1: Verify the signature.
+		const gateway = getPaymentGateway();
+		const event = req.rawBody ? gateway.verifyWebhook(req.rawBody, req.headers) : null;
+		if (!event) {
+			return res.status(400).json({ error: { code: 'INVALID_SIGNATURE', message: 'Invalid webhook signature' } });
+		}
+		
+		// Step 2: Apply the event.
+		const known = await handlePaymentEvent(gateway.name, event);
+		
+		// Step 3: Acknowledge it.
+		res.json({ received: true, ignored: !known });
+	} catch (error) {
+		// Step 4: Handle errors.
+		console.error('Payment webhook error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+// --- Delivery and address book routes ---
+
+/**
+ * @function app.get('/api/delivery-methods')
+ * @description Lists the delivery methods customers can choose at checkout, in display order. Prices depend on the address and the order, and are shown by `/api/cart/quote`.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Fetch the active delivery methods.
+ *   2. Return 200 OK with the methods.
+ *   3. Catch and log any errors, returning a 500 internal server error.
+ */
+app.get('/api/delivery-methods', async (req: Request, res: Response) => {
+	try {
+		// Step 1: Fetch the methods.
+		const methods = await db.deliveryMethod.findMany({
+			where: { active: true },
+			select: DELIVERY_METHOD_SELECT,
+			orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }]
+		});
+		// Step 2: Return the methods.
+		res.json(methods);
+	} catch (error) {
+		// Step 3: Handle errors.
+		console.error('Get delivery methods error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.get('/api/addresses')
+ * @description Lists the signed-in user's saved addresses, the default one first, then the most recently added.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Check if `req.user` exists; if not, return 401 unauthorized.
+ *   2. Fetch the addresses.
+ *   3. Return 200 OK with the addresses.
+ *   4. Catch and log any errors, returning a 500 internal server error.
+ */
+app.get('/api/addresses', async (req: Request, res: Response) => {
+	// Step 1: Check authentication.
+	if (!req.user) {
+		return res.status(401).json({ error: { code: 'UNAUTHORIZED', message: 'Authentication required' } });
+	}
+	
+	try {
+		// Step 2: Fetch the addresses.
+		const addresses = await db.address.findMany({
+			where: { userId: req.user.id },
+			select: SAVED_ADDRESS_SELECT,
+			orderBy: [{ isDefault: 'desc' }, { createdAt: 'desc' }]
+		});
+		// Step 3: Return the addresses.
+		res.json(addresses);
+	} catch (error) {
+		// Step 4: Handle errors.
+		console.error('Get addresses error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.post('/api/addresses')
+ * @description Saves an address to the signed-in user's address book. The first address saved, or one saved with `isDefault`, becomes the default.
+ * @param {Request} req - The Express request object, expecting the address fields (see `savedAddressSchema`) in the body.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Check if `req.user` exists; if not, return 401 unauthorized.
+ *   2. Validate the request body against `savedAddressSchema`. If validation fails, return 400.
+ *   3. If the user already has `MAX_ADDRESSES_PER_USER` addresses, return 409 `ADDRESS_LIMIT_REACHED`.
+ *   4. In a transaction, clear the previous default if this address becomes the default, and create it.
+ *   5. Return 201 Created with the address.
+ *   6. Catch and log any errors, returning a 500 internal server error.
+ */
+app.post('/api/addresses', async (req: Request, res: Response) => {
+	// Step 1: Check authentication.
+	if (!req.user) {
+		return res.status(401).json({ error: { code: 'UNAUTHORIZED', message: 'Authentication required' } });
+	}
+	const userId = req.user.id;
+	
+	try {
+		// Step 2: Validate request body.
+		const validation = savedAddressSchema.safeParse(req.body);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
+			});
+		}
+		
+		// Step 3: Enforce the limit.
+		const count = await db.address.count({ where: { userId } });
+		if (count >= MAX_ADDRESSES_PER_USER) {
+			return res.status(409).json({
+				error: { code: 'ADDRESS_LIMIT_REACHED', message: `You can save up to ${MAX_ADDRESSES_PER_USER} addresses. Delete one to add another.` }
+			});
+		}
+		
+		// Step 4: Create the address.
+		const isDefault = validation.data.isDefault || count === 0;
+		const address = await db.$transaction(async (tx) => {
+			if (isDefault) {
+				await tx.address.updateMany({ where: { userId, isDefault: true }, data: { isDefault: false } });
+			}
+			return tx.address.create({ data: { ...validation.data, userId, isDefault }, select: SAVED_ADDRESS_SELECT });
+		});
+		
+		// Step 5: Return the address.
+		res.status(201).json(address);
+	} catch (error) {
+		// Step 6: Handle errors.
+		console.error('Create address error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.put('/api/addresses/:id')
+ * @description Edits one of the signed-in user's saved addresses. Making it the default clears the previous default. Orders already placed keep the address they were delivered to.
+ * @param {Request} req - The Express request object, expecting `id` (address ID) in URL parameters and any of the address fields in the body.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Check if `req.user` exists; if not, return 401 unauthorized.
+ *   2. Validate the request body against `savedAddressUpdateSchema`. If validation fails, return 400.
+ *   3. Find the address among the user's. If not found, return 404.
+ *   4. In a transaction, clear the previous default if this address becomes the default, and update it.
+ *   5. Return 200 OK with the address.
+ *   6. Catch and log any errors, returning a 500 internal server error.
+ */
+app.put('/api/addresses/:id', async (req: Request, res: Response) => {
+	// Step 1: Check authentication.
+	if (!req.user) {
+		return res.status(401).json({ error: { code: 'UNAUTHORIZED', message: 'Authentication required' } });
+	}
+	const userId = req.user.id;
+	
+	try {
+		// Step 2: Validate request body.
+		const validation = savedAddressUpdateSchema.safeParse(req.body);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
+			});
+		}
+		
+		// Step 3: Find the address.
+		const existing = await db.address.findFirst({ where: { id: req.params.id, userId }, select: { id: true } });
+		if (!existing) {
+			return res.status(404).json({ error: { code: 'ADDRESS_NOT_FOUND', message: 'Address not found' } });
+		}
+		
+		// Step 4: Update it.
+		const address = await db.$transaction(async (tx) => {
+			if (validation.data.isDefault) {
+				await tx.address.updateMany({ where: { userId, isDefault: true, id: { not: existing.id } }, data: { isDefault: false } });
+			}
+			return tx.address.update({ where: { id: existing.id }, data: validation.data, select: SAVED_ADDRESS_SELECT });
+		});
+		
+		// Step 5: Return the address.
+		res.json(address);
+	} catch (error) {
+		// Step 6: Handle errors.
+		console.error('Update address error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.delete('/api/addresses/:id')
+ * @description Deletes one of the signed-in user's saved addresses. If it was the default, the most recently added remaining address becomes the default. Orders already placed keep the address they were delivered to.
+ * @param {Request} req - The Express request object, expecting `id` (address ID) in URL parameters.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Check if `req.user` exists; if not, return 401 unauthorized.
+ *   2. Find the address among the user's. If not found, return 404.
+ *   3. In a transaction, delete it and, if it was the default, make the newest remaining address the default.
+ *   4. Return 200 OK with a confirmation message.
+ *   5. Catch and log any errors, returning a 500 internal server error.
+ */
+app.delete('/api/addresses/:id', async (req: Request, res: Response) => {
+	// Step 1: Check authentication.
+	if (!req.user) {
+		return res.status(401).json({ error: { code: 'UNAUTHORIZED', message: 'Authentication required' } });
+	}
+	const userId = req.user.id;
+	
+	try {
+		// Step 2: Find the address.
+		const existing = await db.address.findFirst({ where: { id: req.params.id, userId }, select: { id: true, isDefault: true } });
+		if (!existing) {
+			return res.status(404).json({ error: { code: 'ADDRESS_NOT_FOUND', message: 'Address not found' } });
+		}
+		
+		// Step 3: Delete it, passing the default on.
+		await db.$transaction(async (tx) => {
+			await tx.address.delete({ where: { id: existing.id } });
+			if (existing.isDefault) {
+				const next = await tx.address.findFirst({ where: { userId }, select: { id: true }, orderBy: { createdAt: 'desc' } });
+				if (next) await tx.address.update({ where: { id: next.id }, data: { isDefault: true } });
+			}
+		});
+		
+		// Step 4: Confirm.
+		res.json({ message: 'Address deleted' });
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Delete address error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+// --- Wishlist and notification routes ---
+
+/**
+ * @function app.get('/api/wishlist')
+ * @description Lists the signed-in user's wishlist, most recently added first. Archived products are left out.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Check if `req.user` exists; if not, return 401 unauthorized.
+ *   2. Fetch the wishlist items with their products.
+ *   3. Return 200 OK with the items, each with the product's stock status and the price when it was added.
+ *   4. Catch and log any errors, returning a 500 internal server error.
+ */
+app.get('/api/wishlist', async (req: Request, res: Response) => {
+	// Step 1: Check authentication.
+	if (!req.user) {
+		return res.status(401).json({ error: { code: 'UNAUTHORIZED', message: 'Authentication required' } });
+	}
+	
+	try {
+		// Step 2: Fetch the wishlist.
+		const items = await db.wishlistItem.findMany({
+			where: { userId: req.user.id, product: { archivedAt: null } },
+			select: { id: true, priceCentsAtAdd: true, createdAt: true, product: { select: PRODUCT_LIST_SELECT } },
+			orderBy: { createdAt: 'desc' }
+		});
+		
+		// Step 3: Return the items.
+		res.json(items.map((item) => ({ ...item, product: { ...item.product, stockStatus: stockStatus(item.product.stock) } })));
+	} catch (error) {
+		// Step 4: Handle errors.
+		console.error('Get wishlist error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.post('/api/wishlist')
+ * @description Adds a product to the signed-in user's wishlist, remembering its current price. Adding a product that is already there changes nothing.
+ * @param {Request} req - The Express request object, expecting `productId` in the body.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Check if `req.user` exists; if not, return 401 unauthorized.
+ *   2. Validate the request body against `wishlistAddSchema`. If validation fails, return 400.
+ *   3. Find the product, unless it is archived. If not found, return 404.
+ *   4. Add it to the wishlist unless it is already there.
+ *   5. Return 201 Created (or 200 OK if it was already there) with the item.
+ *   6. Catch and log any errors, returning a 500 internal server error.
+ */
+app.post('/api/wishlist', async (req: Request, res: Response) => {
+	// Step 1: Check authentication.
+	if (!req.user) {
+		return res.status(401).json({ error: { code: 'UNAUTHORIZED', message: 'Authentication required' } });
+	}
+	
+	try {
+		// Step 2: Validate request body.
+		const validation = wishlistAddSchema.safeParse(req.body);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
+			});
+		}
+		
+		// Step 3: Find the product.
+		const product = await db.product.findFirst({
+			where: { id: validation.data.productId, archivedAt: null },
+			select: { id: true, priceCents: true }
+		});
+		if (!product) {
+			return res.status(404).json({ error: { code: 'PRODUCT_NOT_FOUND', message: 'Product not found' } });
+		}
+		
+		// Step 4: Add it.
+		const key = { userId_productId: { userId: req.user.id, productId: product.id } };
+		const existing = await db.wishlistItem.findUnique({ where: key, select: { id: true } });
+		const item = await db.wishlistItem.upsert({
+			where: key,
+			create: { userId: req.user.id, productId: product.id, priceCentsAtAdd: product.priceCents },
+			update: {},
+			select: { id: true, productId: true, priceCentsAtAdd: true, createdAt: true }
+		});
+		
+		// Step 5: Return the item.
+		res.status(existing ? 200 : 201).json(item);
+	} catch (error) {
+		// Step 6: Handle errors.
+		console.error('Add to wishlist error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.delete('/api/wishlist/:productId')
+ * @description Removes a product from the signed-in user's wishlist.
+ * @param {Request} req - The Express request object, expecting `productId` in URL parameters.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Check if `req.user` exists; if not, return 401 unauthorized.
+ *   2. Delete the wishlist item. If the product is not on the wishlist, return 404 `WISHLIST_ITEM_NOT_FOUND`.
+ *   3. Return 200 OK with a confirmation message.
+ *   4. Catch and log any errors, returning a 500 internal server error.
+ */
+app.delete('/api/wishlist/:productId', async (req: Request, res: Response) => {
+	// Step 1: Check authentication.
+	if (!req.user) {
+		return res.status(401).json({ error: { code: 'UNAUTHORIZED', message: 'Authentication required' } });
+	}
+	
+	try {
+		// Step 2: Delete the item.
+		const { count } = await db.wishlistItem.deleteMany({ where: { userId: req.user.id, productId: req.params.productId } });
+		if (count === 0) {
+			return res.status(404).json({ error: { code: 'WISHLIST_ITEM_NOT_FOUND', message: 'This product is not on your wishlist' } });
+		}
+		
+		// Step 3: Confirm.
+		res.json({ message: 'Removed from your wishlist' });
+	} catch (error) {
+		// Step 4: Handle errors.
+		console.error('Remove from wishlist error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.get('/api/notifications')
+ * @description Lists the signed-in user's notifications, newest first, with the number of unread ones.
+ * @param {Request} req - The Express request object, optionally expecting `unread=true` (only unread notifications) and `limit` (1-100, default 50) in query parameters.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Check if `req.user` exists; if not, return 401 unauthorized.
+ *   2. Read the unread filter and the limit.
+ *   3. Fetch the notifications and count the unread ones, in parallel.
+ *   4. Return 200 OK with the notifications and the unread count.
+ *   5. Catch and log any errors, returning a 500 internal server error.
+ */
+app.get('/api/notifications', async (req: Request, res: Response) => {
+	// Step 1: Check authentication.
+	if (!req.user) {
+		return res.status(401).json({ error: { code: 'UNAUTHORIZED', message: 'Authentication required' } });
+	}
+	
+	try {
+		// Step 2: Read filters.
+		const unreadOnly = req.query.unread === 'true';
+		const limit = Math.min(Math.max(parseInt(String(req.query.limit), 10) || 50, 1), 100);
+		
+		// Step 3: Fetch notifications.
+		const [notifications, unreadCount] = await Promise.all([
+			db.notification.findMany({
+				where: { userId: req.user.id, ...(unreadOnly ? { readAt: null } : {}) },
+				select: { id: true, type: true, title: true, body: true, link: true, productId: true, discountId: true, readAt: true, createdAt: true },
+				orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+				take: limit
+			}),
+			db.notification.count({ where: { userId: req.user.id, readAt: null } })
+		]);
+		
+		// Step 4: Return notifications.
+		res.json({ notifications, unreadCount });
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Get notifications error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.post('/api/notifications/read')
+ * @description Marks the signed-in user's notifications as read: the given ones, or all of them.
+ * @param {Request} req - The Express request object, optionally expecting `ids` (notification IDs) in the body.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Check if `req.user` exists; if not, return 401 unauthorized.
+ *   2. Validate the request body against `notificationReadSchema`. If validation fails, return 400.
+ *   3. Set `readAt` on the user's unread notifications, limited to `ids` if given.
+ *   4. Return 200 OK with the number marked and the remaining unread count.
+ *   5. Catch and log any errors, returning a 500 internal server error.
+ */
+app.post('/api/notifications/read', async (req: Request, res: Response) => {
+	// Step 1: Check authentication.
+	if (!req.user) {
+		return res.status(401).json({ error: { code: 'UNAUTHORIZED', message: 'Authentication required' } });
+	}
+	
+	try {
+		// Step 2: Validate request body.
+		const validation = notificationReadSchema.safeParse(req.body ?? {});
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
+			});
+		}
+		const { ids } = validation.data;
+		
+		// Step 3: Mark as read.
+		const { count } = await db.notification.updateMany({
+			where: { userId: req.user.id, readAt: null, ...(ids ? { id: { in: ids } } : {}) },
+			data: { readAt: new Date() }
+		});
+		const unreadCount = await db.notification.count({ where: { userId: req.user.id, readAt: null } });
+		
+		// Step 4: Return the counts.
+		res.json({ marked: count, unreadCount });
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Mark notifications read error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+// --- Lab endpoints (intentionally vulnerable, mounted only when LAB_MODE=true) ---
+
+mountLabEndpoints(app);
+
+/**
+ * @function app.get('/api/lab/endpoints')
+ * @description Lists the intentionally vulnerable and debug endpoints from the lab registry, with their risk and purpose, and whether they are mounted. Restricted to admins and lab instructors.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {void}
+ *
+ * Steps:
+ *   1. Check whether lab mode is on.
+ *   2. Return 200 OK with the lab mode flag and every registry entry.
+ */
+app.get('/api/lab/endpoints', requireRole('admin', 'lab-instructor'), (req: Request, res: Response) => {
+	// Step 1: Lab endpoints are mounted only in lab mode.
+	const labMode = isLabMode();
+	// Step 2: Return the registry.
+	res.json({
+		labMode,
+		endpoints: LAB_ENDPOINTS.map(({ method, path, risk, purpose }) => ({
+			method: method.toUpperCase(),
+			path,
+			risk,
+			purpose,
+			mounted: labMode
+		}))
+	});
+});
+
+// --- Database Schema Endpoint ---
+
+/**
+ * @function app.get('/api/schema')
+ * @description Returns the database schema information for visualization
+ * @param {Request} req - The Express request object
+ * @param {Response} res - The Express response object
+ * @returns {void}
+ */
+app.get('/api/schema', (req: Request, res: Response) => {
+	const schema = {
+		tables: [
+			{
+				name: 'users',
+				columns: [
+					{ name: 'id', type: 'String', primaryKey: true, description: 'Unique identifier (cuid)' },
+					{ name: 'email', type: 'String', unique: true, description: 'User email address' },
+					{ name: 'passwordHash', type: 'String', description: 'Hashed password' },
+					{ name: 'firstName', type: 'String', description: 'User first name' },
+					{ name: 'lastName', type: 'String', description: 'User last name' },
+					{ name: 'phone', type: 'String?', description: 'Optional phone number' },
+					{ name: 'totpSecret', type: 'String?', description: 'Base32 TOTP secret, when two-factor is enabled' },
+					{ name: 'totpPendingSecret', type: 'String?', description: 'TOTP secret awaiting enrollment confirmation' },
+					{ name: 'totpEnabledAt', type: 'DateTime?', description: 'When two-factor authentication was enabled' },
+					{ name: 'totpLastUsedStep', type: 'Int?', description: 'Last accepted TOTP time step (replay guard)' },
+					{ name: 'emailVerifiedAt', type: 'DateTime?', description: 'When the email address was confirmed' },
+					{ name: 'createdAt', type: 'DateTime', description: 'Account creation timestamp' },
+					{ name: 'updatedAt', type: 'DateTime', description: 'Last update timestamp' }
+				],
+				relations: ['purchases', 'roles', 'sessions', 'recoveryCodes', 'authTokens', 'apiTokens', 'cart', 'reviews', 'wishlistItems', 'notifications', 'addresses', 'contactMessages', 'contactReplies']
+			},
+			{
+				name: 'user_roles',
+				columns: [
+					{ name: 'id', type: 'String', primaryKey: true, description: 'Unique identifier (cuid)' },
+					{ name: 'userId', type: 'String', foreignKey: 'users.id', description: 'Reference to user' },
+					{ name: 'role', type: 'String', description: 'Role name (customer, staff, admin, lab-instructor)' },
+					{ name: 'grantedById', type: 'String?', description: 'Admin who granted the role' },
+					{ name: 'grantedAt', type: 'DateTime', description: 'Role grant timestamp' }
+				],
+				relations: ['user']
+			},
+			{
+				name: 'sessions',
+				columns: [
+					{ name: 'id', type: 'String', primaryKey: true, description: 'Session ID, used as the access token jti (cuid)' },
+					{ name: 'userId', type: 'String', foreignKey: 'users.id', description: 'Reference to user' },
+					{ name: 'refreshTokenHash', type: 'String', description: 'SHA-256 hash of the current refresh token secret' },
+					{ name: 'userAgent', type: 'String?', description: 'User-Agent of the signing-in device' },
+					{ name: 'ipAddress', type: 'String?', description: 'Last seen client IP' },
+					{ name: 'createdAt', type: 'DateTime', description: 'Sign-in timestamp' },
+					{ name: 'lastSeenAt', type: 'DateTime', description: 'Last activity timestamp' },
+					{ name: 'expiresAt', type: 'DateTime', description: 'Absolute session expiry' },
+					{ name: 'revokedAt', type: 'DateTime?', description: 'Revocation timestamp' },
+					{ name: 'revokedReason', type: 'String?', description: 'Why the session was revoked' }
+				],
+				relations: ['user']
+			},
+			{
+				name: 'recovery_codes',
+				columns: [
+					{ name: 'id', type: 'String', primaryKey: true, description: 'Unique identifier (cuid)' },
+					{ name: 'userId', type: 'String', foreignKey: 'users.id', description: 'Reference to user' },
+					{ name: 'codeHash', type: 'String', description: 'SHA-256 hash of the recovery code' },
+					{ name: 'usedAt', type: 'DateTime?', description: 'When the code was used' },
+					{ name: 'createdAt', type: 'DateTime', description: 'Issue timestamp' }
+				],
+				relations: ['user']
+			},
+			{
+				name: 'auth_tokens',
+				columns: [
+					{ name: 'id', type: 'String', primaryKey: true, description: 'Unique identifier (cuid)' },
+					{ name: 'userId', type: 'String', foreignKey: 'users.id', description: 'Reference to user' },
+					{ name: 'purpose', type: 'String', description: 'password-reset or email-verify' },
+					{ name: 'tokenHash', type: 'String', unique: true, description: 'SHA-256 hash of the emailed token' },
+					{ name: 'expiresAt', type: 'DateTime', description: 'Expiry timestamp' },
+					{ name: 'usedAt', type: 'DateTime?', description: 'When the token was redeemed or superseded' },
+					{ name: 'createdAt', type: 'DateTime', description: 'Issue timestamp' }
+				],
+				relations: ['user']
+			},
+			{
+				name: 'api_tokens',
+				columns: [
+					{ name: 'id', type: 'String', primaryKey: true, description: 'Unique identifier (cuid)' },
+					{ name: 'userId', type: 'String', foreignKey: 'users.id', description: 'Reference to user' },
+					{ name: 'name', type: 'String', description: 'Label chosen by the user' },
+					{ name: 'tokenHash', type: 'String', unique: true, description: 'SHA-256 hash of the personal API token' },
+					{ name: 'tokenPrefix', type: 'String', description: 'First characters of the token, for recognising it' },
+					{ name: 'scopes', type: 'String', description: 'Comma-separated scopes: products:read, checkout, admin, lab' },
+					{ name: 'expiresAt', type: 'DateTime', description: 'Expiry timestamp' },
+					{ name: 'lastUsedAt', type: 'DateTime?', description: 'Last use' },
+					{ name: 'lastUsedIp', type: 'String?', description: 'Client IP of the last use' },
+					{ name: 'createdAt', type: 'DateTime', description: 'Creation timestamp' }
+				],
+				relations: ['user']
+			},
+			{
+				name: 'login_throttles',
+				columns: [
+					{ name: 'id', type: 'String', primaryKey: true, description: 'Unique identifier (cuid)' },
+					{ name: 'scope', type: 'String', description: 'Key type: ip or email' },
+					{ name: 'identifier', type: 'String', description: 'Client IP or normalised email' },
+					{ name: 'failures', type: 'Int', description: 'Failed sign-in attempts in the current window' },
+					{ name: 'lastFailureAt', type: 'DateTime', description: 'Most recent failed attempt' },
+					{ name: 'lockedUntil', type: 'DateTime?', description: 'Lockout expiry, if locked' }
+				]
+			},
+			{
+				name: 'app_settings',
+				columns: [
+					{ name: 'key', type: 'String', primaryKey: true, description: 'Setting key' },
+					{ name: 'value', type: 'String', description: 'JSON-encoded value' },
+					{ name: 'updatedById', type: 'String?', description: 'Admin who last changed the setting' },
+					{ name: 'updatedAt', type: 'DateTime', description: 'Last update timestamp' }
+				]
+			},
+			{
+				name: 'idempotency_keys',
+				columns: [
+					{ name: 'id', type: 'String', primaryKey: true, description: 'Unique identifier (cuid)' },
+					{ name: 'owner', type: 'String', description: 'Who used the key (user:<id>, or guest); unique together with the key' },
+					{ name: 'key', type: 'String', description: 'The Idempotency-Key header value' },
+					{ name: 'requestHash', type: 'String', description: 'HMAC-SHA256 of the method, path, and body of the first request' },
+					{ name: 'statusCode', type: 'Int?', description: 'Status of the stored response (empty while the request runs)' },
+					{ name: 'responseBody', type: 'String?', description: 'JSON body of the stored response' },
+					{ name: 'createdAt', type: 'DateTime', description: 'When the key was first used; deleted 24 hours later' },
+					{ name: 'completedAt', type: 'DateTime?', description: 'When the response was stored' }
+				]
+			},
+			{
+				name: 'products',
+				columns: [
+					{ name: 'id', type: 'String', primaryKey: true, description: 'Unique identifier (cuid)' },
+					{ name: 'name', type: 'String', description: 'Product name' },
+					{ name: 'slug', type: 'String', unique: true, description: 'URL-friendly identifier' },
+					{ name: 'summary', type: 'String', description: 'Short product description' },
+					{ name: 'description', type: 'String', description: 'Full product description' },
+					{ name: 'priceCents', type: 'Int', description: 'Price in cents' },
+					{ name: 'imageUrl', type: 'String?', description: 'Optional product image URL' },
+					{ name: 'stock', type: 'Int', description: 'Units in stock; only changed together with a stock_movements row' },
+					{ name: 'weightGrams', type: 'Int', description: 'Shipping weight of one unit, in grams' },
+					{ name: 'categoryId', type: 'String?', foreignKey: 'categories.id', description: 'Optional product category' },
+					{ name: 'archivedAt', type: 'DateTime?', description: 'When the product was taken off the store; archived products stay referenced by past purchases' },
+					{ name: 'createdAt', type: 'DateTime', description: 'Product creation timestamp' },
+					{ name: 'updatedAt', type: 'DateTime', description: 'Last update timestamp' }
+				],
+				relations: ['category', 'purchaseItems', 'cartItems', 'stockMovements', 'discounts', 'tags', 'reviews', 'wishlistItems']
+			},
+			{
+				name: 'categories',
+				columns: [
+					{ name: 'id', type: 'String', primaryKey: true, description: 'Unique identifier (cuid)' },
+					{ name: 'name', type: 'String', description: 'Category name' },
+					{ name: 'slug', type: 'String', unique: true, description: 'URL-friendly identifier' },
+					{ name: 'parentId', type: 'String?', foreignKey: 'categories.id', description: 'Parent category; null at the top level' },
+					{ name: 'createdAt', type: 'DateTime', description: 'Creation timestamp' }
+				],
+				relations: ['parent', 'children', 'products', 'discounts', 'taxRules']
+			},
+			{
+				name: 'tags',
+				columns: [
+					{ name: 'id', type: 'String', primaryKey: true, description: 'Unique identifier (cuid)' },
+					{ name: 'name', type: 'String', description: 'Tag name' },
+					{ name: 'slug', type: 'String', unique: true, description: 'URL-friendly identifier' },
+					{ name: 'createdAt', type: 'DateTime', description: 'Creation timestamp' }
+				],
+				relations: ['products']
+			},
+			{
+				name: 'reviews',
+				columns: [
+					{ name: 'id', type: 'String', primaryKey: true, description: 'Unique identifier (cuid)' },
+					{ name: 'productId', type: 'String', foreignKey: 'products.id', description: 'Reviewed product' },
+					{ name: 'userId', type: 'String', foreignKey: 'users.id', description: 'Reviewer (one review per product)' },
+					{ name: 'rating', type: 'Int', description: 'Star rating, 1 to 5' },
+					{ name: 'body', type: 'String', description: 'Review text, stored as written' },
+					{ name: 'status', type: 'String', description: 'Moderation status (pending, approved, rejected)' },
+					{ name: 'moderatedById', type: 'String?', description: 'Admin who last moderated the review' },
+					{ name: 'moderatedAt', type: 'DateTime?', description: 'When the review was last moderated' },
+					{ name: 'createdAt', type: 'DateTime', description: 'Creation timestamp' },
+					{ name: 'updatedAt', type: 'DateTime', description: 'Last edit or moderation timestamp' }
+				],
+				relations: ['product', 'user']
+			},
+			{
+				name: 'wishlist_items',
+				columns: [
+					{ name: 'id', type: 'String', primaryKey: true, description: 'Unique identifier (cuid)' },
+					{ name: 'userId', type: 'String', foreignKey: 'users.id', description: 'Wishlist owner' },
+					{ name: 'productId', type: 'String', foreignKey: 'products.id', description: 'Saved product (once per user)' },
+					{ name: 'priceCentsAtAdd', type: 'Int', description: 'Product price when it was saved' },
+					{ name: 'createdAt', type: 'DateTime', description: 'When the product was saved' }
+				],
+				relations: ['user', 'product']
+			},
+			{
+				name: 'notifications',
+				columns: [
+					{ name: 'id', type: 'String', primaryKey: true, description: 'Unique identifier (cuid)' },
+					{ name: 'userId', type: 'String', foreignKey: 'users.id', description: 'Recipient' },
+					{ name: 'type', type: 'String', description: 'Notification type (price-drop, discount)' },
+					{ name: 'title', type: 'String', description: 'Headline' },
+					{ name: 'body', type: 'String', description: 'Message text' },
+					{ name: 'link', type: 'String?', description: 'Site path the notification points to' },
+					{ name: 'productId', type: 'String?', description: 'Product concerned, for price drops' },
+					{ name: 'discountId', type: 'String?', description: 'Discount concerned, for discount announcements' },
+					{ name: 'readAt', type: 'DateTime?', description: 'When the recipient read it' },
+					{ name: 'createdAt', type: 'DateTime', description: 'Creation timestamp' }
+				],
+				relations: ['user']
+			},
+			{
+				name: 'products_fts',
+				columns: [
+					{ name: 'product_id', type: 'String', foreignKey: 'products.id', description: 'Indexed product (not searchable)' },
+					{ name: 'name', type: 'Text', description: 'Product name, full-text indexed' },
+					{ name: 'summary', type: 'Text', description: 'Product summary, full-text indexed' },
+					{ name: 'description', type: 'Text', description: 'Product description, full-text indexed' }
+				],
+				relations: ['products']
+			},
+			{
+				name: 'stock_movements',
+				columns: [
+					{ name: 'id', type: 'String', primaryKey: true, description: 'Unique identifier (cuid)' },
+					{ name: 'productId', type: 'String', foreignKey: 'products.id', description: 'Reference to product' },
+					{ name: 'delta', type: 'Int', description: 'Signed change in stock' },
+					{ name: 'reason', type: 'String', description: 'sale, restock, return, damage, correction, or cancellation' },
+					{ name: 'note', type: 'String?', description: 'Optional note from the admin who made the adjustment' },
+					{ name: 'stockAfter', type: 'Int', description: 'Stock level after the change' },
+					{ name: 'purchaseId', type: 'String?', description: 'Purchase the stock was sold to, for sales' },
+					{ name: 'createdById', type: 'String?', description: 'Admin who made a manual adjustment' },
+					{ name: 'createdAt', type: 'DateTime', description: 'When the change was made' }
+				],
+				relations: ['product']
+			},
+			{
+				name: 'carts',
+				columns: [
+					{ name: 'id', type: 'String', primaryKey: true, description: 'Unique identifier (cuid)' },
+					{ name: 'userId', type: 'String?', unique: true, foreignKey: 'users.id', description: 'Owner, for a signed-in user\'s cart' },
+					{ name: 'guestTokenHash', type: 'String?', unique: true, description: 'SHA-256 hash of the agri_cart cookie, for a guest cart' },
+					{ name: 'createdAt', type: 'DateTime', description: 'Creation timestamp' },
+					{ name: 'updatedAt', type: 'DateTime', description: 'Last update timestamp' }
+				],
+				relations: ['user', 'items']
+			},
+			{
+				name: 'cart_items',
+				columns: [
+					{ name: 'id', type: 'String', primaryKey: true, description: 'Unique identifier (cuid)' },
+					{ name: 'cartId', type: 'String', foreignKey: 'carts.id', description: 'Reference to cart' },
+					{ name: 'productId', type: 'String', foreignKey: 'products.id', description: 'Reference to product (unique per cart)' },
+					{ name: 'quantity', type: 'Int', description: 'Quantity in the cart' },
+					{ name: 'createdAt', type: 'DateTime', description: 'When the product was added' },
+					{ name: 'updatedAt', type: 'DateTime', description: 'Last update timestamp' }
+				],
+				relations: ['cart', 'product']
+			},
+			{
+				name: 'purchases',
+				columns: [
+					{ name: 'id', type: 'String', primaryKey: true, description: 'Unique identifier (cuid)' },
+					{ name: 'userId', type: 'String?', foreignKey: 'users.id', description: 'Reference to user (empty for guest orders)' },
+					{ name: 'guestEmail', type: 'String?', description: 'Contact email of a guest order' },
+					{ name: 'lookupTokenHash', type: 'String?', unique: true, description: 'SHA-256 hash of the guest order status link token' },
+					{ name: 'subtotalCents', type: 'Int', description: 'Sum of the items before discounts, in cents' },
+					{ name: 'discountCents', type: 'Int', description: 'Total discount, in cents' },
+					{ name: 'shippingCents', type: 'Int', description: 'Shipping cost, in cents' },
+					{ name: 'taxCents', type: 'Int', description: 'Total tax, in cents' },
+					{ name: 'totalCents', type: 'Int', description: 'Total purchase amount in cents (items after discounts, plus shipping and tax)' },
+					{ name: 'deliveryMethod', type: 'String?', description: 'Code of the delivery method chosen (empty for orders placed before delivery was recorded)' },
+					{ name: 'deliveryMethodName', type: 'String?', description: 'Name of the delivery method when the order was placed' },
+					{ name: 'status', type: 'String', description: 'pending, paid, fulfilled, shipped, delivered, cancelled, or refunded' },
+					{ name: 'createdAt', type: 'DateTime', description: 'Purchase timestamp' }
+				],
+				relations: ['user', 'items', 'discounts', 'taxLines', 'statusEvents', 'payment', 'shippingAddress']
+			},
+			{
+				name: 'payments',
+				columns: [
+					{ name: 'id', type: 'String', primaryKey: true, description: 'Unique identifier (cuid)' },
+					{ name: 'purchaseId', type: 'String', foreignKey: 'purchases.id', unique: true, description: 'Reference to the purchase paid for' },
+					{ name: 'provider', type: 'String', description: 'Payment gateway that handled it (e.g. fake)' },
+					{ name: 'providerPaymentId', type: 'String', description: "The gateway's payment ID (unique per provider)" },
+					{ name: 'status', type: 'String', description: 'requires_action, processing, authorized, captured, declined, cancelled, or refunded' },
+					{ name: 'amountCents', type: 'Int', description: 'Amount charged, in cents' },
+					{ name: 'cardBrand', type: 'String', description: 'Card brand (visa, mastercard, amex, discover, or card)' },
+					{ name: 'cardLast4', type: 'String', description: 'Last four digits of the card number; no other card details are stored' },
+					{ name: 'declineCode', type: 'String?', description: 'Why the card was declined' },
+					{ name: 'clientSecretHash', type: 'String?', unique: true, description: 'SHA-256 hash of the secret that authorizes answering a payment challenge' },
+					{ name: 'createdAt', type: 'DateTime', description: 'When the payment was made' },
+					{ name: 'updatedAt', type: 'DateTime', description: 'Last status change' }
+				],
+				relations: ['purchase']
+			},
+			{
+				name: 'purchase_status_events',
+				columns: [
+					{ name: 'id', type: 'String', primaryKey: true, description: 'Unique identifier (cuid)' },
+					{ name: 'purchaseId', type: 'String', foreignKey: 'purchases.id', description: 'Reference to purchase' },
+					{ name: 'fromStatus', type: 'String?', description: 'Previous status (empty for the order being placed)' },
+					{ name: 'toStatus', type: 'String', description: 'New status' },
+					{ name: 'note', type: 'String?', description: 'Optional note, such as a cancellation reason' },
+					{ name: 'actorId', type: 'String?', description: 'User who made the change (empty for the system)' },
+					{ name: 'createdAt', type: 'DateTime', description: 'When the status changed' }
+				],
+				relations: ['purchase']
+			},
+			{
+				name: 'purchase_items',
+				columns: [
+					{ name: 'id', type: 'String', primaryKey: true, description: 'Unique identifier (cuid)' },
+					{ name: 'purchaseId', type: 'String', foreignKey: 'purchases.id', description: 'Reference to purchase' },
+					{ name: 'productId', type: 'String', foreignKey: 'products.id', description: 'Reference to product' },
+					{ name: 'quantity', type: 'Int', description: 'Quantity purchased' },
+					{ name: 'priceCentsAtPurchase', type: 'Int', description: 'Price at time of purchase' }
+				],
+				relations: ['purchase', 'product']
+			},
+			{
+				name: 'discounts',
+				columns: [
+					{ name: 'id', type: 'String', primaryKey: true, description: 'Unique identifier (cuid)' },
+					{ name: 'title', type: 'String', description: 'Discount title' },
+					{ name: 'description', type: 'String', description: 'Discount description' },
+					{ name: 'percentOff', type: 'Int', description: 'Percentage discount' },
+					{ name: 'code', type: 'String?', unique: true, description: 'Promo code the customer must enter; automatic discount if empty' },
+					{ name: 'minSubtotalCents', type: 'Int', description: 'Minimum order subtotal, in cents' },
+					{ name: 'maxUses', type: 'Int?', description: 'Maximum number of orders in total (unlimited if empty)' },
+					{ name: 'maxUsesPerUser', type: 'Int?', description: 'Maximum number of orders per user (unlimited if empty)' },
+					{ name: 'usedCount', type: 'Int', description: 'Number of orders that used the discount' },
+					{ name: 'stackable', type: 'Boolean', description: 'Whether the discount combines with other stackable discounts' },
+					{ name: 'active', type: 'Boolean', description: 'Whether discount is active' },
+					{ name: 'startsAt', type: 'DateTime', description: 'Discount start time' },
+					{ name: 'endsAt', type: 'DateTime', description: 'Discount end time' },
+					{ name: 'notifiedAt', type: 'DateTime?', description: 'When the discount was announced to wishlists after going live' }
+				],
+				relations: ['products', 'categories', 'purchases']
+			},
+			{
+				name: 'purchase_discounts',
+				columns: [
+					{ name: 'id', type: 'String', primaryKey: true, description: 'Unique identifier (cuid)' },
+					{ name: 'purchaseId', type: 'String', foreignKey: 'purchases.id', description: 'Reference to purchase' },
+					{ name: 'discountId', type: 'String?', foreignKey: 'discounts.id', description: 'Reference to the discount applied (cleared if it is deleted)' },
+					{ name: 'title', type: 'String', description: 'Discount title when the order was placed' },
+					{ name: 'code', type: 'String?', description: 'Promo code used, if any' },
+					{ name: 'percentOff', type: 'Int', description: 'Percentage discount' },
+					{ name: 'amountCents', type: 'Int', description: 'Amount taken off the order, in cents' }
+				],
+				relations: ['purchase', 'discount']
+			},
+			{
+				name: 'purchase_tax_lines',
+				columns: [
+					{ name: 'id', type: 'String', primaryKey: true, description: 'Unique identifier (cuid)' },
+					{ name: 'purchaseId', type: 'String', foreignKey: 'purchases.id', description: 'Reference to purchase' },
+					{ name: 'taxRuleId', type: 'String?', foreignKey: 'tax_rules.id', description: 'Reference to the tax rule applied (cleared if it is deleted)' },
+					{ name: 'name', type: 'String', description: 'Tax rule name when the order was placed' },
+					{ name: 'rateBasisPoints', type: 'Int', description: 'Rate charged, in hundredths of a percent' },
+					{ name: 'taxableCents', type: 'Int', description: 'Amount taxed (items after discounts, and shipping if taxed), in cents' },
+					{ name: 'amountCents', type: 'Int', description: 'Tax charged, in cents' }
+				],
+				relations: ['purchase', 'taxRule']
+			},
+			{
+				name: 'purchase_addresses',
+				columns: [
+					{ name: 'id', type: 'String', primaryKey: true, description: 'Unique identifier (cuid)' },
+					{ name: 'purchaseId', type: 'String', foreignKey: 'purchases.id', unique: true, description: 'Reference to the purchase delivered (none for pickups)' },
+					{ name: 'recipientName', type: 'String', description: 'Who receives the order' },
+					{ name: 'line1', type: 'String', description: 'Street address' },
+					{ name: 'line2', type: 'String?', description: 'Apartment, suite, or unit' },
+					{ name: 'city', type: 'String', description: 'City' },
+					{ name: 'region', type: 'String?', description: 'State, province, or region code' },
+					{ name: 'postalCode', type: 'String', description: 'Postal code' },
+					{ name: 'country', type: 'String', description: 'ISO 3166-1 alpha-2 country code' },
+					{ name: 'phone', type: 'String?', description: 'Phone number for the courier' }
+				],
+				relations: ['purchase']
+			},
+			{
+				name: 'addresses',
+				columns: [
+					{ name: 'id', type: 'String', primaryKey: true, description: 'Unique identifier (cuid)' },
+					{ name: 'userId', type: 'String', foreignKey: 'users.id', description: 'Owner of the address book entry' },
+					{ name: 'label', type: 'String?', description: 'Optional name such as Home or Work' },
+					{ name: 'recipientName', type: 'String', description: 'Who receives the order' },
+					{ name: 'line1', type: 'String', description: 'Street address' },
+					{ name: 'line2', type: 'String?', description: 'Apartment, suite, or unit' },
+					{ name: 'city', type: 'String', description: 'City' },
+					{ name: 'region', type: 'String?', description: 'State, province, or region code' },
+					{ name: 'postalCode', type: 'String', description: 'Postal code' },
+					{ name: 'country', type: 'String', description: 'ISO 3166-1 alpha-2 country code' },
+					{ name: 'phone', type: 'String?', description: 'Phone number for the courier' },
+					{ name: 'isDefault', type: 'Boolean', description: "Whether this is the user's default address (at most one per user)" },
+					{ name: 'createdAt', type: 'DateTime', description: 'Creation timestamp' },
+					{ name: 'updatedAt', type: 'DateTime', description: 'Last update timestamp' }
+				],
+				relations: ['user']
+			},
+			{
+				name: 'delivery_methods',
+				columns: [
+					{ name: 'id', type: 'String', primaryKey: true, description: 'Unique identifier (cuid)' },
+					{ name: 'code', type: 'String', unique: true, description: 'Code used at checkout: pickup, local, or courier' },
+					{ name: 'name', type: 'String', description: 'Name shown to customers' },
+					{ name: 'description', type: 'String', description: 'Description shown to customers' },
+					{ name: 'requiresAddress', type: 'Boolean', description: 'Whether the method delivers to an address (otherwise the order is picked up at the farm)' },
+					{ name: 'active', type: 'Boolean', description: 'Whether customers can choose it' },
+					{ name: 'sortOrder', type: 'Int', description: 'Display order' }
+				],
+				relations: ['rates']
+			},
+			{
+				name: 'shipping_zones',
+				columns: [
+					{ name: 'id', type: 'String', primaryKey: true, description: 'Unique identifier (cuid)' },
+					{ name: 'name', type: 'String', description: 'Zone name' },
+					{ name: 'countries', type: 'String', description: 'Comma-separated country codes' },
+					{ name: 'postalPrefixes', type: 'String', description: 'Comma-separated postal code prefixes narrowing the zone (empty for whole countries)' },
+					{ name: 'createdAt', type: 'DateTime', description: 'Creation timestamp' }
+				],
+				relations: ['rates']
+			},
+			{
+				name: 'shipping_rates',
+				columns: [
+					{ name: 'id', type: 'String', primaryKey: true, description: 'Unique identifier (cuid)' },
+					{ name: 'methodId', type: 'String', foreignKey: 'delivery_methods.id', description: 'Delivery method the rate prices' },
+					{ name: 'zoneId', type: 'String?', foreignKey: 'shipping_zones.id', description: 'Zone the rate applies in (empty for every zone)' },
+					{ name: 'minWeightGrams', type: 'Int', description: 'Lightest order weight covered, in grams' },
+					{ name: 'maxWeightGrams', type: 'Int?', description: 'Heaviest order weight covered, in grams (empty for no limit)' },
+					{ name: 'baseCents', type: 'Int', description: 'Fixed price, in cents' },
+					{ name: 'perKgCents', type: 'Int', description: 'Price per kilogram of the order, in cents' },
+					{ name: 'freeOverCents', type: 'Int?', description: 'Item total from which shipping is free, in cents' }
+				],
+				relations: ['method', 'zone']
+			},
+			{
+				name: 'tax_rules',
+				columns: [
+					{ name: 'id', type: 'String', primaryKey: true, description: 'Unique identifier (cuid)' },
+					{ name: 'name', type: 'String', description: 'Name shown on tax lines' },
+					{ name: 'country', type: 'String', description: 'Country code, or * for every country' },
+					{ name: 'region', type: 'String?', description: 'Region code (empty for the whole country)' },
+					{ name: 'categoryId', type: 'String?', foreignKey: 'categories.id', description: 'Category the rule is limited to, with its subcategories (empty for every product)' },
+					{ name: 'rateBasisPoints', type: 'Int', description: 'Rate, in hundredths of a percent' },
+					{ name: 'appliesToShipping', type: 'Boolean', description: 'Whether a rule without a category also taxes shipping' },
+					{ name: 'active', type: 'Boolean', description: 'Whether the rule applies to new orders' },
+					{ name: 'createdAt', type: 'DateTime', description: 'Creation timestamp' }
+				],
+				relations: ['category', 'purchaseLines']
+			},
+			{
+				name: 'contact_messages',
+				columns: [
+					{ name: 'id', type: 'String', primaryKey: true, description: 'Unique identifier (cuid)' },
+					{ name: 'userId', type: 'String?', foreignKey: 'users.id', description: 'Sender, if they were signed in' },
+					{ name: 'name', type: 'String', description: 'Sender name' },
+					{ name: 'email', type: 'String', description: 'Sender email address, where replies go' },
+					{ name: 'message', type: 'String', description: 'Message text, exactly as written' },
+					{ name: 'status', type: 'String', description: 'Inbox status (new, in-progress, resolved)' },
+					{ name: 'spamScore', type: 'Int', description: 'Score from the spam heuristics' },
+					{ name: 'spamReasons', type: 'String', description: 'What added to the spam score, one reason per line' },
+					{ name: 'isSpam', type: 'Boolean', description: 'Whether the message is marked as spam' },
+					{ name: 'ipAddress', type: 'String?', description: 'Client IP address' },
+					{ name: 'userAgent', type: 'String?', description: 'Client user agent' },
+					{ name: 'wafAnomalyScore', type: 'Int?', description: 'ModSecurity inbound anomaly score of the request (above 0 when a rule matched)' },
+					{ name: 'wafTransactionId', type: 'String?', description: 'ModSecurity transaction ID of the request, for the audit log' },
+					{ name: 'resolvedAt', type: 'DateTime?', description: 'When the message was resolved' },
+					{ name: 'createdAt', type: 'DateTime', description: 'Submission timestamp' },
+					{ name: 'updatedAt', type: 'DateTime', description: 'Last update timestamp' }
+				],
+				relations: ['user', 'replies']
+			},
+			{
+				name: 'contact_replies',
+				columns: [
+					{ name: 'id', type: 'String', primaryKey: true, description: 'Unique identifier (cuid)' },
+					{ name: 'messageId', type: 'String', foreignKey: 'contact_messages.id', description: 'Message replied to' },
+					{ name: 'authorId', type: 'String?', foreignKey: 'users.id', description: 'Admin who sent the reply' },
+					{ name: 'body', type: 'String', description: 'Reply text, as emailed' },
+					{ name: 'sentAt', type: 'DateTime', description: 'When the reply was sent' }
+				],
+				relations: ['message', 'author']
+			}
+		]
+	};
+	
+	res.json(schema);
+});
+
+// --- Other routes ---
+
+/**
+ * @function app.get('/api/discounts')
+ * @description Retrieves a list of active discounts, with their conditions and the categories and products they cover. Promo codes are not listed.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Get the current date and time.
+ *   2. Query the database for active discounts without a promo code (active, startsAt <= now, endsAt >= now).
+ *   3. Return 200 OK with the list of discounts.
+ *   4. Catch and log any errors, returning a 500 internal server error.
+ */
+app.get('/api/discounts', async (req: Request, res: Response) => {
+	try {
+		// Step 1: Get current date.
+		const now = new Date();
+		// Step 2: Query for active discounts.
+		const discounts = await db.discount.findMany({
+			where: { active: true, code: null, startsAt: { lte: now }, endsAt: { gte: now } },
+			select: {
+				id: true, title: true, description: true, percentOff: true, minSubtotalCents: true, stackable: true, active: true, startsAt: true, endsAt: true,
+				categories: { select: { id: true, name: true, slug: true } },
+				products: { where: { archivedAt: null }, select: { id: true, name: true, slug: true } }
+			},
+			orderBy: { percentOff: 'desc' }
+		});
+		// Step 3: Return discounts.
+		res.json(discounts);
+	} catch (error) {
+		// Step 4: Handle errors.
+		console.error('Get discounts error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.get('/api/health')
+ * @description Provides a health check endpoint for the API.
+ * It tests the database connection and returns server status information.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Attempt a simple database query to check connectivity.
+ *   2. If successful, return 200 OK with 'healthy' status and server details.
+ *   3. If the database query fails, return 503 Service Unavailable with 'unhealthy' status and error details.
+ */
+app.get('/api/health', async (req: Request, res: Response) => {
+	try {
+		// Step 1: Test database connection.
+		await db.$queryRaw`SELECT 1`;
+		// Step 2: Return healthy status.
+		res.json({
+			status: 'healthy',
+			timestamp: new Date().toISOString(),
+			uptime: process.uptime(),
+			environment: process.env.NODE_ENV,
+			database: 'connected'
+		});
+	} catch (error: any) {
+		// Step 3: Return unhealthy status on error.
+		res.status(503).json({
+			status: 'unhealthy',
+			timestamp: new Date().toISOString(),
+			error: error.message
+		});
+	}
+});
+
+/**
+ * @function app.get('/api/me')
+ * @description Retrieves the profile information of the currently authenticated user.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Check if `req.user` exists; if not, return 401 unauthorized.
+ *   2. Query the database for the user's full profile using `req.user.id`.
+ *   3. If user not found (should not happen if `req.user` is set), return 404.
+ *   4. Determine if the user is an admin (holds the `admin` role).
+ *   5. Return 200 OK with the user's profile, `roles`, `isAdmin` flag, two-factor state, `emailVerified` flag, the session's `csrfToken`, and the `tokenScopes` of the personal API token used (null for a session).
+ *   6. Catch and log any errors, returning a 500 internal server error.
+ */
+app.get('/api/me', async (req: Request, res: Response) => {
+	// Step 1: Check authentication.
+	if (!req.user) {
+		return res.status(401).json({ error: { code: 'UNAUTHORIZED', message: 'Authentication required' } });
+	}
+	
+	try {
+		// Step 2: Fetch user profile from database.
+		const user = await db.user.findUnique({
+			where: { id: req.user.id },
+			select: { id: true, email: true, firstName: true, lastName: true, phone: true, emailVerifiedAt: true, createdAt: true, updatedAt: true }
+		});
+		
+		// Step 3: If user not found, return 404.
+		if (!user) {
+			return res.status(404).json({ error: { code: 'USER_NOT_FOUND', message: 'User not found' } });
+		}
+		
+		// Step 4: Determine admin status.
+		const isAdmin = hasRole(req.user, 'admin');
+		// Step 5: Return user profile with roles and admin status.
+		res.json({
+			...user,
+			emailVerified: !!user.emailVerifiedAt,
+			roles: req.user.roles,
+			isAdmin,
+			twoFactorEnabled: req.user.twoFactorEnabled,
+			twoFactorSetupRequired: req.user.twoFactorSetupRequired,
+			csrfToken: req.user.sessionId ? csrfTokenFor(req.user.sessionId) : null,
+			tokenScopes: req.user.apiToken?.scopes ?? null
+		});
+	} catch (error) {
+		// Step 6: Handle errors.
+		console.error('Get user profile error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+// --- Session routes ---
+
+/**
+ * @function app.get('/api/sessions')
+ * @description Lists the active sessions of the authenticated user, most recently used first.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Check if `req.user` exists; if not, return 401 unauthorized.
+ *   2. Query the user's sessions that are neither revoked nor expired.
+ *   3. Return 200 OK with each session's device, IP, timestamps, and whether it is the current session.
+ *   4. Catch and log any errors, returning a 500 internal server error.
+ */
+app.get('/api/sessions', async (req: Request, res: Response) => {
+	// Step 1: Check authentication.
+	if (!req.user) {
+		return res.status(401).json({ error: { code: 'UNAUTHORIZED', message: 'Authentication required' } });
+	}
+	
+	try {
+		// Step 2: Fetch active sessions.
+		const sessions = await db.session.findMany({
+			where: { userId: req.user.id, revokedAt: null, expiresAt: { gt: new Date() } },
+			select: { id: true, userAgent: true, ipAddress: true, createdAt: true, lastSeenAt: true, expiresAt: true },
+			orderBy: { lastSeenAt: 'desc' }
+		});
+		// Step 3: Return sessions with a device summary.
+		res.json(sessions.map((session) => ({
+			...session,
+			device: describeDevice(session.userAgent),
+			current: session.id === req.user!.sessionId
+		})));
+	} catch (error) {
+		// Step 4: Handle errors.
+		console.error('Get sessions error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.delete('/api/sessions/:id')
+ * @description Revokes one of the authenticated user's sessions. Revoking the current session also clears its cookies.
+ * @param {Request} req - The Express request object, expecting `id` (session ID) in URL parameters.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Check if `req.user` exists; if not, return 401 unauthorized.
+ *   2. Revoke the session, restricted to sessions owned by the user. If none matched, return 404.
+ *   3. If it was the current session, clear the authentication cookies.
+ *   4. Return 200 OK with a success message.
+ *   5. Catch and log any errors, returning a 500 internal server error.
+ */
+app.delete('/api/sessions/:id', async (req: Request, res: Response) => {
+	// Step 1: Check authentication.
+	if (!req.user) {
+		return res.status(401).json({ error: { code: 'UNAUTHORIZED', message: 'Authentication required' } });
+	}
+	
+	try {
+		// Step 2: Revoke the session if it belongs to the user.
+		const { id } = req.params;
+		const revoked = await revokeSession(id, 'user-revoked', req.user.id);
+		if (!revoked) {
+			return res.status(404).json({ error: { code: 'SESSION_NOT_FOUND', message: 'Session not found' } });
+		}
+		// Step 3: Signing out the current device.
+		if (id === req.user.sessionId) clearAuthCookies(res);
+		// Step 4: Return success message.
+		res.json({ message: 'Session revoked' });
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Revoke session error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.delete('/api/sessions')
+ * @description Revokes all of the authenticated user's sessions ("sign out everywhere"), including the current one.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Check if `req.user` exists; if not, return 401 unauthorized.
+ *   2. Revoke every active session of the user.
+ *   3. Clear the authentication cookies.
+ *   4. Return 200 OK with the number of revoked sessions.
+ *   5. Catch and log any errors, returning a 500 internal server error.
+ */
+app.delete('/api/sessions', async (req: Request, res: Response) => {
+	// Step 1: Check authentication.
+	if (!req.user) {
+		return res.status(401).json({ error: { code: 'UNAUTHORIZED', message: 'Authentication required' } });
+	}
+	
+	try {
+		// Step 2: Revoke all sessions.
+		const revoked = await revokeAllSessions(req.user.id, 'user-revoked-all');
+		// Step 3: Clear the authentication cookies.
+		clearAuthCookies(res);
+		// Step 4: Return the revoked count.
+		res.json({ message: 'Signed out of all sessions', revoked });
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Revoke all sessions error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+// --- Personal API token routes ---
+
+/**
+ * @function app.get('/api/api-tokens')
+ * @description Lists the authenticated user's personal API tokens, newest first. The tokens themselves are never returned, only their prefix.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Check if `req.user` exists; if not, return 401 unauthorized.
+ *   2. Query the user's tokens, including expired ones.
+ *   3. Return 200 OK with each token's name, prefix, scopes, expiry, last use, and whether it has expired.
+ *   4. Catch and log any errors, returning a 500 internal server error.
+ */
+app.get('/api/api-tokens', async (req: Request, res: Response) => {
+	// Step 1: Check authentication.
+	if (!req.user) {
+		return res.status(401).json({ error: { code: 'UNAUTHORIZED', message: 'Authentication required' } });
+	}
+	
+	try {
+		// Step 2: Fetch the user's tokens.
+		const apiTokens = await db.apiToken.findMany({
+			where: { userId: req.user.id },
+			select: { id: true, name: true, tokenPrefix: true, scopes: true, expiresAt: true, lastUsedAt: true, lastUsedIp: true, createdAt: true },
+			orderBy: { createdAt: 'desc' }
+		});
+		// Step 3: Return the tokens with parsed scopes.
+		const now = new Date();
+		res.json(apiTokens.map((apiToken) => ({
+			...apiToken,
+			scopes: toScopes(apiToken.scopes),
+			expired: apiToken.expiresAt <= now
+		})));
+	} catch (error) {
+		// Step 4: Handle errors.
+		console.error('Get API tokens error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.post('/api/api-tokens')
+ * @description Creates a personal API token for the authenticated user. The token is returned in this response only.
+ * @param {Request} req - The Express request object, expecting `name`, `scopes`, and optionally `expiresInDays` in the body.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Check if `req.user` exists; if not, return 401 unauthorized.
+ *   2. Validate the request body against `createApiTokenSchema`. If validation fails, return 400.
+ *   3. Check the user holds the roles each requested scope needs (`SCOPE_ROLES`); if not, return 403.
+ *   4. If the user already holds `MAX_API_TOKENS_PER_USER` tokens, return 409 `TOO_MANY_TOKENS`.
+ *   5. Create the token and return 201 Created with the token and its record.
+ *   6. Catch and log any errors, returning a 500 internal server error.
+ */
+app.post('/api/api-tokens', async (req: Request, res: Response) => {
+	// Step 1: Check authentication.
+	if (!req.user) {
+		return res.status(401).json({ error: { code: 'UNAUTHORIZED', message: 'Authentication required' } });
+	}
+	
+	try {
+		// Step 2: Validate request body.
+		const validation = createApiTokenSchema.safeParse(req.body);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
+			});
+		}
+		const { name, scopes, expiresInDays } = validation.data;
+		
+		// Step 3: A token cannot do more than its user.
+		const forbidden = scopes.find((scope) => SCOPE_ROLES[scope] && !hasRole(req.user, ...SCOPE_ROLES[scope]!));
+		if (forbidden) {
+			return res.status(403).json({
+				error: { code: 'FORBIDDEN', message: `The ${forbidden} scope requires role: ${SCOPE_ROLES[forbidden]!.join(' or ')}` }
+			});
+		}
+		
+		// Step 4: Cap the number of tokens.
+		const count = await db.apiToken.count({ where: { userId: req.user.id } });
+		if (count >= MAX_API_TOKENS_PER_USER) {
+			return res.status(409).json({
+				error: { code: 'TOO_MANY_TOKENS', message: `You can hold at most ${MAX_API_TOKENS_PER_USER} tokens; revoke one first` }
+			});
+		}
+		
+		// Step 5: Create the token.
+		const { token, apiToken } = await createApiToken(req.user.id, name, scopes, expiresInDays);
+		res.status(201).json({
+			message: 'Token created. Copy it now; it will not be shown again.',
+			token,
+			apiToken: { ...apiToken, scopes: toScopes(apiToken.scopes), lastUsedAt: null, lastUsedIp: null, expired: false }
+		});
+	} catch (error) {
+		// Step 6: Handle errors.
+		console.error('Create API token error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.delete('/api/api-tokens/:id')
+ * @description Revokes (deletes) one of the authenticated user's personal API tokens. It stops working immediately.
+ * @param {Request} req - The Express request object, expecting `id` (token ID) in URL parameters.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Check if `req.user` exists; if not, return 401 unauthorized.
+ *   2. Delete the token, restricted to tokens owned by the user. If none matched, return 404.
+ *   3. Return 200 OK with a success message.
+ *   4. Catch and log any errors, returning a 500 internal server error.
+ */
+app.delete('/api/api-tokens/:id', async (req: Request, res: Response) => {
+	// Step 1: Check authentication.
+	if (!req.user) {
+		return res.status(401).json({ error: { code: 'UNAUTHORIZED', message: 'Authentication required' } });
+	}
+	
+	try {
+		// Step 2: Delete the token if it belongs to the user.
+		const { count } = await db.apiToken.deleteMany({ where: { id: req.params.id, userId: req.user.id } });
+		if (count === 0) {
+			return res.status(404).json({ error: { code: 'TOKEN_NOT_FOUND', message: 'Token not found' } });
+		}
+		// Step 3: Return success message.
+		res.json({ message: 'Token revoked' });
+	} catch (error) {
+		// Step 4: Handle errors.
+		console.error('Revoke API token error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+// --- Admin routes ---
+
+/**
+ * @function app.get('/api/admin/users')
+ * @description Retrieves a list of all user accounts with their roles. Restricted to admin users only.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Query the database for all user accounts, selecting specific fields and their roles.
+ *   3. Return 200 OK with the list of users.
+ *   4. Catch and log any errors, returning a 500 internal server error.
+ */
+app.get('/api/admin/users', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Fetch all users with their roles.
+		const users = await db.user.findMany({
+			select: { id: true, email: true, firstName: true, lastName: true, phone: true, createdAt: true, totpEnabledAt: true, roles: { select: { role: true } } },
+			orderBy: { createdAt: 'desc' }
+		});
+		// Step 3: Return users.
+		res.json(users.map(({ totpEnabledAt, ...user }) => ({ ...user, roles: toRoles(user.roles), twoFactorEnabled: !!totpEnabledAt })));
+	} catch (error) {
+		// Step 4: Handle errors.
+		console.error('Get users error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.delete('/api/admin/users/:id')
+ * @description Deletes a user account by ID. Restricted to admin users only.
+ * Admins cannot delete their own account.
+ * @param {Request} req - The Express request object, expecting `id` (user ID) in URL parameters.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Extract `id` from URL parameters.
+ *   3. Prevent an admin from deleting their own account by checking `id` against `req.user.id`. If attempting to delete self, return 400.
+ *   4. Delete the user from the database.
+ *   5. Return 200 OK with a success message.
+ *   6. Catch and log any errors, returning a 500 internal server error.
+ */
+app.delete('/api/admin/users/:id', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Extract user ID to delete.
+		const { id } = req.params;
+		
+		// Step 3: Prevent self-deletion.
+		if (id === req.user!.id) {
+			return res.status(400).json({ error: { code: 'INVALID_OPERATION', message: 'Cannot delete your own account' } });
+		}
+		
+		// Step 4: Delete user.
+		await db.user.delete({ where: { id } });
+		// Step 5: Return success message.
+		res.json({ message: 'User deleted successfully' });
+	} catch (error) {
+		// Step 6: Handle errors.
+		console.error('Delete user error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.put('/api/admin/users/:id')
+ * @description Updates a user account by ID. Restricted to admin users only.
+ * @param {Request} req - The Express request object, expecting `id` (user ID) in URL parameters and `firstName`, `lastName`, `phone` in the body.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Extract `id` from URL parameters and update fields from the request body.
+ *   3. Update the user in the database.
+ *   4. Return 200 OK with the updated user details.
+ *   5. Catch and log any errors, returning a 500 internal server error.
+ */
+app.put('/api/admin/users/:id', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Extract user ID and update data.
+		const { id } = req.params;
+		const { firstName, lastName, phone } = req.body;
+		
+		// Step 3: Update user.
+		const user = await db.user.update({
+			where: { id },
+			data: { firstName, lastName, phone: phone || null },
+			select: { id: true, email: true, firstName: true, lastName: true, phone: true }
+		});
+		
+		// Step 4: Return updated user.
+		res.json(user);
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Update user error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.post('/api/admin/users/:id/roles')
+ * @description Grants a role to a user account. Restricted to admin users only.
+ * Granting a role the user already holds is a no-op.
+ * @param {Request} req - The Express request object, expecting `id` (user ID) in URL parameters and `role` in the body.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Validate the request body against `roleGrantSchema`. If validation fails, return 400.
+ *   3. Check that the target user exists. If not, return 404.
+ *   4. Upsert the role so repeated grants do not fail on the unique constraint.
+ *   5. Return 200 OK with the user's updated roles.
+ *   6. Catch and log any errors, returning a 500 internal server error.
+ */
+app.post('/api/admin/users/:id/roles', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Validate the role to grant.
+		const validation = roleGrantSchema.safeParse(req.body);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
+			});
+		}
+		const { id } = req.params;
+		const { role } = validation.data;
+		
+		// Step 3: Ensure the target user exists.
+		const target = await db.user.findUnique({ where: { id }, select: { id: true } });
+		if (!target) {
+			return res.status(404).json({ error: { code: 'USER_NOT_FOUND', message: 'User not found' } });
+		}
+		
+		// Step 4: Grant the role.
+		await db.userRole.upsert({
+			where: { userId_role: { userId: id, role } },
+			update: {},
+			create: { userId: id, role, grantedById: req.user!.id }
+		});
+		
+		// Step 5: Return the updated roles.
+		const roles = await db.userRole.findMany({ where: { userId: id }, select: { role: true } });
+		res.json({ id, roles: toRoles(roles) });
+	} catch (error) {
+		// Step 6: Handle errors.
+		console.error('Grant role error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.delete('/api/admin/users/:id/roles/:role')
+ * @description Revokes a role from a user account. Restricted to admin users only.
+ * Admins cannot revoke their own `admin` role, so the system always keeps at least the acting admin.
+ * @param {Request} req - The Express request object, expecting `id` (user ID) and `role` in URL parameters.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Validate the `role` URL parameter. If invalid, return 400.
+ *   3. Prevent an admin from revoking their own admin role. If attempted, return 400.
+ *   4. Delete the role row; return 404 if the user did not hold the role.
+ *   5. Return 200 OK with the user's remaining roles.
+ *   6. Catch and log any errors, returning a 500 internal server error.
+ */
+app.delete('/api/admin/users/:id/roles/:role', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Validate the role to revoke.
+		const validation = roleGrantSchema.safeParse({ role: req.params.role });
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
+			});
+		}
+		const { id } = req.params;
+		const { role } = validation.data;
+		
+		// Step 3: Prevent self-demotion.
+		if (id === req.user!.id && role === 'admin') {
+			return res.status(400).json({ error: { code: 'INVALID_OPERATION', message: 'Cannot revoke your own admin role' } });
+		}
+		
+		// Step 4: Revoke the role.
+		const { count } = await db.userRole.deleteMany({ where: { userId: id, role } });
+		if (count === 0) {
+			return res.status(404).json({ error: { code: 'ROLE_NOT_FOUND', message: 'User does not hold this role' } });
+		}
+		
+		// Step 5: Return the remaining roles.
+		const roles = await db.userRole.findMany({ where: { userId: id }, select: { role: true } });
+		res.json({ id, roles: toRoles(roles) });
+	} catch (error) {
+		// Step 6: Handle errors.
+		console.error('Revoke role error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.delete('/api/admin/users/:id/two-factor')
+ * @description Resets a user's two-factor authentication (e.g. after a lost device). Restricted to admin users only.
+ * The user's sessions are revoked so they must sign in again.
+ * @param {Request} req - The Express request object, expecting `id` (user ID) in URL parameters.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Clear the user's TOTP secret and recovery codes. If the user does not exist, return 404.
+ *   3. Revoke the user's sessions.
+ *   4. Return 200 OK with a success message.
+ *   5. Catch and log any errors, returning a 500 internal server error.
+ */
+app.delete('/api/admin/users/:id/two-factor', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Reset two-factor state.
+		const { id } = req.params;
+		const { count } = await db.user.updateMany({
+			where: { id },
+			data: { totpSecret: null, totpPendingSecret: null, totpEnabledAt: null, totpLastUsedStep: null }
+		});
+		if (count === 0) {
+			return res.status(404).json({ error: { code: 'USER_NOT_FOUND', message: 'User not found' } });
+		}
+		await db.recoveryCode.deleteMany({ where: { userId: id } });
+		// Step 3: Force a fresh sign-in.
+		await revokeAllSessions(id, 'two-factor-reset');
+		// Step 4: Return success message.
+		res.json({ message: 'Two-factor authentication reset' });
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Reset two-factor error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.get('/api/admin/security/two-factor')
+ * @description Returns the two-factor policy: the roles whose holders must enroll. Restricted to admin users only.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ */
+app.get('/api/admin/security/two-factor', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		res.json({ requiredRoles: await getSetting('security.twoFactorRequiredRoles') });
+	} catch (error) {
+		console.error('Get two-factor policy error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.put('/api/admin/security/two-factor')
+ * @description Sets the roles whose holders must enroll in two-factor authentication. Restricted to admin users only.
+ * Users holding one of these roles without two-factor enabled are refused by `requireRole` until they enroll.
+ * The acting admin must have two-factor enabled before requiring it for `admin`, so they cannot lock themselves out.
+ * @param {Request} req - The Express request object, expecting `requiredRoles` in the body.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Validate the request body against `twoFactorPolicySchema`. If validation fails, return 400.
+ *   3. Refuse to require a role the acting admin holds unless they have enrolled.
+ *   4. Save the policy and return 200 OK with it.
+ *   5. Catch and log any errors, returning a 500 internal server error.
+ */
+app.put('/api/admin/security/two-factor', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Validate request body.
+		const validation = twoFactorPolicySchema.safeParse(req.body);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
+			});
+		}
+		const requiredRoles = Array.from(new Set(validation.data.requiredRoles));
+		
+		// Step 3: Avoid self-lockout.
+		if (!req.user!.twoFactorEnabled && req.user!.roles.some((role) => requiredRoles.includes(role))) {
+			return res.status(400).json({
+				error: { code: 'INVALID_OPERATION', message: 'Enable two-factor authentication on your own account before requiring it for your role' }
+			});
+		}
+		
+		// Step 4: Save the policy.
+		await setSetting('security.twoFactorRequiredRoles', requiredRoles, req.user!.id);
+		res.json({ requiredRoles });
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Update two-factor policy error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.get('/api/admin/lockouts')
+ * @description Lists sign-in throttle keys (emails and client IPs) that are currently locked out. Restricted to admin users only.
+ * Email keys are matched against user accounts so admins can see which account is affected.
+ * @param {Request} req - The Express request object, optionally expecting `scope` (`email` or `ip`) in query parameters.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Query throttle rows whose `lockedUntil` is in the future, optionally filtered by scope.
+ *   3. Look up the accounts behind locked email keys.
+ *   4. Return 200 OK with each lockout and its matching user (if any).
+ *   5. Catch and log any errors, returning a 500 internal server error.
+ */
+app.get('/api/admin/lockouts', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Fetch active lockouts.
+		const scope = req.query.scope === 'email' || req.query.scope === 'ip' ? req.query.scope : undefined;
+		const lockouts = await db.loginThrottle.findMany({
+			where: { lockedUntil: { gt: new Date() }, ...(scope ? { scope } : {}) },
+			orderBy: { lockedUntil: 'desc' }
+		});
+		
+		// Step 3: Match email keys to accounts.
+		const emails = lockouts.filter((lockout) => lockout.scope === 'email').map((lockout) => lockout.identifier);
+		const users = await db.user.findMany({
+			where: { email: { in: emails } },
+			select: { id: true, email: true, firstName: true, lastName: true }
+		});
+		
+		// Step 4: Return lockouts.
+		res.json(lockouts.map((lockout) => ({
+			...lockout,
+			user: lockout.scope === 'email' ? users.find((user) => user.email === lockout.identifier) || null : null
+		})));
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Get lockouts error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.delete('/api/admin/lockouts/:id')
+ * @description Unlocks a throttled email or IP by deleting its throttle row, which also resets its failure count. Restricted to admin users only.
+ * @param {Request} req - The Express request object, expecting `id` (throttle row ID) in URL parameters.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Find the throttle row. If not found, return 404.
+ *   3. Clear the key's failures.
+ *   4. Return 200 OK with a success message.
+ *   5. Catch and log any errors, returning a 500 internal server error.
+ */
+app.delete('/api/admin/lockouts/:id', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Find the lockout.
+		const lockout = await db.loginThrottle.findUnique({ where: { id: req.params.id } });
+		if (!lockout) {
+			return res.status(404).json({ error: { code: 'LOCKOUT_NOT_FOUND', message: 'Lockout not found' } });
+		}
+		// Step 3: Unlock the key.
+		await clearLoginFailures({ scope: lockout.scope as ThrottleScope, identifier: lockout.identifier });
+		// Step 4: Return success message.
+		res.json({ message: `Unlocked ${lockout.scope} ${lockout.identifier}` });
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Unlock error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.get('/api/admin/products')
+ * @description Lists the product catalogue, including archived products, with each product's category, tags, stock, and the number of order lines that reference it. Also returns the category tree (as a flat list with `parentId`) and the existing tags. Restricted to admin users only.
+ * @param {Request} req - The Express request object, optionally expecting `status` (`active`, `archived`, or `all`, the default) in query parameters.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Read the status filter.
+ *   3. Fetch the products (by name), the categories, and the tags.
+ *   4. Return 200 OK with the products (each with its `stockStatus`), categories, and tags.
+ *   5. Catch and log any errors, returning a 500 internal server error.
+ */
+app.get('/api/admin/products', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Read the filter.
+		const where = req.query.status === 'active'
+			? { archivedAt: null }
+			: req.query.status === 'archived' ? { archivedAt: { not: null } } : {};
+		
+		// Step 3: Fetch products, categories, and tags.
+		const [products, categories, tags] = await Promise.all([
+			db.product.findMany({ where, select: ADMIN_PRODUCT_SELECT, orderBy: { name: 'asc' } }),
+			loadCategories(),
+			db.tag.findMany({ select: { id: true, name: true, slug: true }, orderBy: { name: 'asc' } })
+		]);
+		
+		// Step 4: Return the catalogue.
+		res.json({
+			products: products.map((product) => ({ ...product, stockStatus: stockStatus(product.stock) })),
+			categories,
+			tags
+		});
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Get admin products error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.post('/api/admin/products')
+ * @description Creates a product. Without a `slug`, one is generated from the name (with a numeric suffix if it is taken). Tags are given by name and created if they do not exist yet. An initial stock level is recorded as a `restock` movement. Restricted to admin users only.
+ * @param {Request} req - The Express request object, expecting `name`, `summary`, `description`, and `priceCents` (in cents) and optionally `slug`, `imageUrl`, `categoryId`, `weightGrams` (in grams), `tags`, and `stock` in the body.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Validate the request body against `productCreateSchema`. If validation fails, return 400.
+ *   3. Check the category exists, if one was given; if not, return 400.
+ *   4. Use the slug given, returning 409 `SLUG_TAKEN` if another product has it, or generate one with `generateUniqueSlug()`.
+ *   5. In a transaction, create the product and record its initial stock.
+ *   6. Return 201 Created with the product.
+ *   7. Catch and log any errors, returning a 500 internal server error.
+ */
+app.post('/api/admin/products', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Validate request body.
+		const validation = productCreateSchema.safeParse(req.body);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
+			});
+		}
+		const { slug: requestedSlug, stock, tags, ...fields } = validation.data;
+		
+		// Step 3: Check the category.
+		if (fields.categoryId && !(await db.category.findUnique({ where: { id: fields.categoryId }, select: { id: true } }))) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: { categoryId: 'Category not found' } }
+			});
+		}
+		
+		// Step 4: Pick the slug.
+		if (requestedSlug && await isSlugTaken(requestedSlug)) {
+			return res.status(409).json({ error: { code: 'SLUG_TAKEN', message: `Another product already uses the slug "${requestedSlug}"` } });
+		}
+		const slug = requestedSlug || await generateUniqueSlug(fields.name);
+		
+		// Step 5: Create the product with its initial stock.
+		const product = await db.$transaction(async (tx) => {
+			const created = await tx.product.create({
+				data: { ...fields, slug, stock, tags: { connectOrCreate: tagConnections(tags ?? []) } },
+				select: ADMIN_PRODUCT_SELECT
+			});
+			if (stock > 0) {
+				await tx.stockMovement.create({
+					data: { productId: created.id, delta: stock, reason: 'restock', note: 'Initial stock', stockAfter: stock, createdById: req.user!.id }
+				});
+			}
+			return created;
+		});
+		
+		// Step 6: Return the product.
+		res.status(201).json({ ...product, stockStatus: stockStatus(product.stock) });
+	} catch (error) {
+		// Step 7: Handle errors.
+		console.error('Create product error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.put('/api/admin/products/:id')
+ * @description Edits a product's details. The slug only changes when a new one is given, so renaming a product keeps its links working. Price changes apply to future orders; past order lines keep the price they were bought at. Lowering the price of a product on the store notifies the customers who have it on their wishlist. A `tags` list replaces the product's tags. Stock is changed through `/api/admin/products/:id/stock`. Restricted to admin users only.
+ * @param {Request} req - The Express request object, expecting `id` (product ID) in URL parameters and any of `name`, `slug`, `summary`, `description`, `priceCents`, `imageUrl`, `categoryId`, `weightGrams`, and `tags` in the body.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Validate the request body against `productUpdateSchema`. If validation fails, return 400.
+ *   3. Find the product. If not found, return 404.
+ *   4. Check the category exists, if one was given; if not, return 400. If the slug changes and another product has it, return 409 `SLUG_TAKEN`.
+ *   5. Update the product.
+ *   6. If its price went down and it is not archived, notify wishlisters with `notifyPriceDrop()` (a failure is logged, not returned), and return 200 OK with the product.
+ *   7. Catch and log any errors, returning a 500 internal server error.
+ */
+app.put('/api/admin/products/:id', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Validate request body.
+		const validation = productUpdateSchema.safeParse(req.body);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
+			});
+		}
+		const { tags, ...fields } = validation.data;
+		
+		// Step 3: Find the product.
+		const existing = await db.product.findUnique({ where: { id: req.params.id }, select: { id: true, slug: true, priceCents: true } });
+		if (!existing) {
+			return res.status(404).json({ error: { code: 'PRODUCT_NOT_FOUND', message: 'Product not found' } });
+		}
+		
+		// Step 4: Check the category and slug.
+		if (fields.categoryId && !(await db.category.findUnique({ where: { id: fields.categoryId }, select: { id: true } }))) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: { categoryId: 'Category not found' } }
+			});
+		}
+		if (fields.slug && fields.slug !== existing.slug && await isSlugTaken(fields.slug, existing.id)) {
+			return res.status(409).json({ error: { code: 'SLUG_TAKEN', message: `Another product already uses the slug "${fields.slug}"` } });
+		}
+		
+		// Step 5: Update the product.
+		const product = await db.product.update({
+			where: { id: existing.id },
+			data: { ...fields, ...(tags ? { tags: { set: [], connectOrCreate: tagConnections(tags) } } : {}) },
+			select: ADMIN_PRODUCT_SELECT
+		});
+		
+		// Step 6: Notify wishlisters of a price drop, and return the product.
+		if (!product.archivedAt && product.priceCents < existing.priceCents) {
+			await notifyPriceDrop(product, existing.priceCents, product.priceCents).catch((error) => console.error('Price drop notification error:', error));
+		}
+		res.json({ ...product, stockStatus: stockStatus(product.stock) });
+	} catch (error) {
+		// Step 7: Handle errors.
+		console.error('Update product error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.post('/api/admin/products/:id/archive')
+ * @description Archives a product: it is taken off the store and out of every cart, but past orders keep referencing it. Archiving an archived product changes nothing. Restricted to admin users only.
+ * @param {Request} req - The Express request object, expecting `id` (product ID) in URL parameters.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Find the product. If not found, return 404.
+ *   3. If it is not archived yet, in a transaction set `archivedAt` and remove it from all carts.
+ *   4. Return 200 OK with the product.
+ *   5. Catch and log any errors, returning a 500 internal server error.
+ */
+app.post('/api/admin/products/:id/archive', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Find the product.
+		const existing = await db.product.findUnique({ where: { id: req.params.id }, select: { id: true, archivedAt: true } });
+		if (!existing) {
+			return res.status(404).json({ error: { code: 'PRODUCT_NOT_FOUND', message: 'Product not found' } });
+		}
+		
+		// Step 3: Archive it and take it out of carts.
+		if (!existing.archivedAt) {
+			await db.$transaction([
+				db.product.update({ where: { id: existing.id }, data: { archivedAt: new Date() } }),
+				db.cartItem.deleteMany({ where: { productId: existing.id } })
+			]);
+		}
+		
+		// Step 4: Return the product.
+		const product = await db.product.findUniqueOrThrow({ where: { id: existing.id }, select: ADMIN_PRODUCT_SELECT });
+		res.json({ ...product, stockStatus: stockStatus(product.stock) });
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Archive product error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.post('/api/admin/products/:id/restore')
+ * @description Puts an archived product back on the store. Restricted to admin users only.
+ * @param {Request} req - The Express request object, expecting `id` (product ID) in URL parameters.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Clear `archivedAt`. If the product is not found, return 404.
+ *   3. Return 200 OK with the product.
+ *   4. Catch and log any errors, returning a 500 internal server error.
+ */
+app.post('/api/admin/products/:id/restore', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Restore the product.
+		const { count } = await db.product.updateMany({ where: { id: req.params.id }, data: { archivedAt: null } });
+		if (count === 0) {
+			return res.status(404).json({ error: { code: 'PRODUCT_NOT_FOUND', message: 'Product not found' } });
+		}
+		
+		// Step 3: Return the product.
+		const product = await db.product.findUniqueOrThrow({ where: { id: req.params.id }, select: ADMIN_PRODUCT_SELECT });
+		res.json({ ...product, stockStatus: stockStatus(product.stock) });
+	} catch (error) {
+		// Step 4: Handle errors.
+		console.error('Restore product error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.delete('/api/admin/products/:id')
+ * @description Permanently deletes a product that has never been ordered, with its cart lines and stock history. Products that appear in past orders must be archived instead, so those orders keep their item details. Restricted to admin users only.
+ * @param {Request} req - The Express request object, expecting `id` (product ID) in URL parameters.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Delete the product only if no order line references it (a single conditional delete, so a concurrent checkout cannot slip in between a check and the delete).
+ *   3. If nothing was deleted, return 404 if the product does not exist, otherwise 409 `PRODUCT_HAS_ORDERS`.
+ *   4. Return 200 OK with a success message.
+ *   5. Catch and log any errors, returning a 500 internal server error.
+ */
+app.delete('/api/admin/products/:id', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Conditional delete.
+		const { count } = await db.product.deleteMany({ where: { id: req.params.id, purchaseItems: { none: {} } } });
+		
+		// Step 3: Explain why nothing was deleted.
+		if (count === 0) {
+			const exists = await db.product.findUnique({ where: { id: req.params.id }, select: { id: true } });
+			if (!exists) {
+				return res.status(404).json({ error: { code: 'PRODUCT_NOT_FOUND', message: 'Product not found' } });
+			}
+			return res.status(409).json({ error: { code: 'PRODUCT_HAS_ORDERS', message: 'This product appears in past orders. Archive it instead.' } });
+		}
+		
+		// Step 4: Confirm.
+		res.json({ message: 'Product deleted successfully' });
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Delete product error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.post('/api/admin/categories')
+ * @description Creates a category, optionally under a parent category. Without a `slug`, one is generated from the name. Restricted to admin users only.
+ * @param {Request} req - The Express request object, expecting `name` and optionally `slug` and `parentId` in the body.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Validate the request body against `categorySchema`. If validation fails, return 400.
+ *   3. Check the parent exists, if one was given; if not, return 400.
+ *   4. If another category has the slug, return 409 `SLUG_TAKEN`.
+ *   5. Create the category and return 201 Created with it.
+ *   6. Catch and log any errors, returning a 500 internal server error.
+ */
+app.post('/api/admin/categories', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Validate request body.
+		const validation = categorySchema.safeParse(req.body);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
+			});
+		}
+		const { name, parentId } = validation.data;
+		const slug = validation.data.slug || slugify(name);
+		
+		// Step 3: Check the parent.
+		if (parentId && !(await db.category.findUnique({ where: { id: parentId }, select: { id: true } }))) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: { parentId: 'Parent category not found' } }
+			});
+		}
+		
+		// Step 4: Check the slug.
+		if (await db.category.findUnique({ where: { slug }, select: { id: true } })) {
+			return res.status(409).json({ error: { code: 'SLUG_TAKEN', message: `Another category already uses the slug "${slug}"` } });
+		}
+		
+		// Step 5: Create the category.
+		const category = await db.category.create({
+			data: { name, slug, parentId: parentId ?? null },
+			select: { id: true, name: true, slug: true, parentId: true }
+		});
+		res.status(201).json(category);
+	} catch (error) {
+		// Step 6: Handle errors.
+		console.error('Create category error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.put('/api/admin/categories/:id')
+ * @description Renames a category, changes its slug, or moves it under another parent (null for the top level). A category cannot be moved under itself or one of its subcategories. Restricted to admin users only.
+ * @param {Request} req - The Express request object, expecting `id` (category ID) in URL parameters and any of `name`, `slug`, and `parentId` in the body.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Validate the request body against `categoryUpdateSchema`. If validation fails, return 400.
+ *   3. Load the categories and find this one. If not found, return 404.
+ *   4. If a new parent is given, check it exists (400 otherwise) and is not the category itself or below it (409 `CATEGORY_CYCLE`).
+ *   5. If the slug changes and another category has it, return 409 `SLUG_TAKEN`.
+ *   6. Update the category and return 200 OK with it.
+ *   7. Catch and log any errors, returning a 500 internal server error.
+ */
+app.put('/api/admin/categories/:id', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Validate request body.
+		const validation = categoryUpdateSchema.safeParse(req.body);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
+			});
+		}
+		const { name, slug, parentId } = validation.data;
+		
+		// Step 3: Find the category.
+		const categories = await loadCategories();
+		const existing = categories.find((category) => category.id === req.params.id);
+		if (!existing) {
+			return res.status(404).json({ error: { code: 'CATEGORY_NOT_FOUND', message: 'Category not found' } });
+		}
+		
+		// Step 4: Check the new parent.
+		if (parentId) {
+			if (!categories.some((category) => category.id === parentId)) {
+				return res.status(400).json({
+					error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: { parentId: 'Parent category not found' } }
+				});
+			}
+			if (categoryAncestry(categories, parentId).includes(existing.id)) {
+				return res.status(409).json({ error: { code: 'CATEGORY_CYCLE', message: 'A category cannot be moved under itself or one of its subcategories' } });
+			}
+		}
+		
+		// Step 5: Check the slug.
+		if (slug && slug !== existing.slug && categories.some((category) => category.slug === slug)) {
+			return res.status(409).json({ error: { code: 'SLUG_TAKEN', message: `Another category already uses the slug "${slug}"` } });
+		}
+		
+		// Step 6: Update the category.
+		const category = await db.category.update({
+			where: { id: existing.id },
+			data: { name, slug, parentId },
+			select: { id: true, name: true, slug: true, parentId: true }
+		});
+		res.json(category);
+	} catch (error) {
+		// Step 7: Handle errors.
+		console.error('Update category error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.delete('/api/admin/categories/:id')
+ * @description Deletes a category. Its subcategories and products move up to its parent (or to the top level and uncategorized, for a top-level category). Discounts scoped to it no longer cover it. Restricted to admin users only.
+ * @param {Request} req - The Express request object, expecting `id` (category ID) in URL parameters.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Find the category. If not found, return 404.
+ *   3. In a transaction, move its subcategories and products to its parent and delete it.
+ *   4. Return 200 OK with a success message.
+ *   5. Catch and log any errors, returning a 500 internal server error.
+ */
+app.delete('/api/admin/categories/:id', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Find the category.
+		const category = await db.category.findUnique({ where: { id: req.params.id }, select: { id: true, parentId: true } });
+		if (!category) {
+			return res.status(404).json({ error: { code: 'CATEGORY_NOT_FOUND', message: 'Category not found' } });
+		}
+		
+		// Step 3: Move its contents up and delete it.
+		await db.$transaction([
+			db.category.updateMany({ where: { parentId: category.id }, data: { parentId: category.parentId } }),
+			db.product.updateMany({ where: { categoryId: category.id }, data: { categoryId: category.parentId } }),
+			db.category.delete({ where: { id: category.id } })
+		]);
+		
+		// Step 4: Confirm.
+		res.json({ message: 'Category deleted successfully' });
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Delete category error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.post('/api/admin/products/:id/stock')
+ * @description Adjusts a product's stock level and records the adjustment in its movement history. Restricted to admin users only.
+ * @param {Request} req - The Express request object, expecting `id` (product ID) in URL parameters and `delta`, `reason`, and optionally `note` in the body.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Validate the request body against `stockAdjustmentSchema`. If validation fails, return 400.
+ *   3. Find the product. If not found, return 404.
+ *   4. Apply the adjustment with `adjustStock()`. If it would make the stock negative, return 409 `INSUFFICIENT_STOCK`.
+ *   5. Return 200 OK with the new stock level and status.
+ *   6. Catch and log any errors, returning a 500 internal server error.
+ */
+app.post('/api/admin/products/:id/stock', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Validate request body.
+		const validation = stockAdjustmentSchema.safeParse(req.body);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
+			});
+		}
+		const { delta, reason, note } = validation.data;
+		
+		// Step 3: Find the product.
+		const product = await db.product.findUnique({ where: { id: req.params.id }, select: { id: true, name: true, stock: true } });
+		if (!product) {
+			return res.status(404).json({ error: { code: 'PRODUCT_NOT_FOUND', message: 'Product not found' } });
+		}
+		
+		// Step 4: Apply the adjustment.
+		const result = await adjustStock(product.id, delta, reason, note || null, req.user!.id);
+		if (!result) {
+			return res.status(409).json({ error: { code: 'INSUFFICIENT_STOCK', message: `Only ${product.stock} of ${product.name} in stock` } });
+		}
+		
+		// Step 5: Return the new level.
+		res.json({ productId: product.id, stock: result.stock, stockStatus: stockStatus(result.stock) });
+	} catch (error) {
+		// Step 6: Handle errors.
+		console.error('Adjust stock error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.get('/api/admin/products/:id/stock-movements')
+ * @description Lists a product's stock movements (sales and manual adjustments), newest first. Restricted to admin users only.
+ * @param {Request} req - The Express request object, expecting `id` (product ID) in URL parameters and optionally `limit` (1-200, default 50) in query parameters.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Find the product. If not found, return 404.
+ *   3. Fetch the most recent movements.
+ *   4. Return 200 OK with the product's current stock and its movements.
+ *   5. Catch and log any errors, returning a 500 internal server error.
+ */
+app.get('/api/admin/products/:id/stock-movements', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Find the product.
+		const product = await db.product.findUnique({ where: { id: req.params.id }, select: { id: true, name: true, stock: true } });
+		if (!product) {
+			return res.status(404).json({ error: { code: 'PRODUCT_NOT_FOUND', message: 'Product not found' } });
+		}
+		
+		// Step 3: Fetch movements.
+		const limit = Math.min(Math.max(parseInt(String(req.query.limit), 10) || 50, 1), 200);
+		const movements = await db.stockMovement.findMany({
+			where: { productId: product.id },
+			select: { id: true, delta: true, reason: true, note: true, stockAfter: true, purchaseId: true, createdById: true, createdAt: true },
+			orderBy: { createdAt: 'desc' },
+			take: limit
+		});
+		
+		// Step 4: Return the history.
+		res.json({ product: { ...product, stockStatus: stockStatus(product.stock) }, movements });
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Get stock movements error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.get('/api/admin/orders')
+ * @description Lists orders, newest first, optionally filtered by status. Restricted to admin users only.
+ * @param {Request} req - The Express request object, optionally expecting `status` and `limit` (1-200, default 50) in query parameters.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Read the status filter (ignored if it is not a known status) and the limit.
+ *   3. Fetch the orders with their customer and item count.
+ *   4. Return 200 OK with the orders and the transitions each one allows.
+ *   5. Catch and log any errors, returning a 500 internal server error.
+ */
+app.get('/api/admin/orders', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Read filters.
+		const status = ORDER_STATUSES.find((candidate) => candidate === req.query.status);
+		const limit = Math.min(Math.max(parseInt(String(req.query.limit), 10) || 50, 1), 200);
+		
+		// Step 3: Fetch orders.
+		const orders = await db.purchase.findMany({
+			where: status ? { status } : {},
+			select: {
+				id: true, status: true, guestEmail: true, subtotalCents: true, discountCents: true, totalCents: true, createdAt: true,
+				user: { select: { id: true, email: true, firstName: true, lastName: true } },
+				_count: { select: { items: true } }
+			},
+			orderBy: { createdAt: 'desc' },
+			take: limit
+		});
+		
+		// Step 4: Return orders.
+		res.json(orders.map((order) => ({ ...order, nextStatuses: ORDER_TRANSITIONS[order.status as OrderStatus] ?? [] })));
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Get orders error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.get('/api/admin/orders/:id')
+ * @description Retrieves one order with its items, discounts, delivery, taxes, payment, and status history. Restricted to admin users only.
+ * @param {Request} req - The Express request object, expecting `id` (purchase ID) in URL parameters.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Fetch the order. If not found, return 404.
+ *   3. Return 200 OK with the order and the transitions it allows.
+ *   4. Catch and log any errors, returning a 500 internal server error.
+ */
+app.get('/api/admin/orders/:id', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Fetch the order.
+		const order = await db.purchase.findUnique({
+			where: { id: req.params.id },
+			select: {
+				id: true, status: true, guestEmail: true, subtotalCents: true, discountCents: true, shippingCents: true, taxCents: true, totalCents: true, createdAt: true,
+				deliveryMethod: true, deliveryMethodName: true,
+				shippingAddress: { select: ADDRESS_FIELDS },
+				user: { select: { id: true, email: true, firstName: true, lastName: true } },
+				items: { select: { id: true, quantity: true, priceCentsAtPurchase: true, product: { select: { id: true, name: true } } } },
+				discounts: { select: { title: true, code: true, percentOff: true, amountCents: true } },
+				taxLines: { select: { name: true, rateBasisPoints: true, taxableCents: true, amountCents: true } },
+				payment: { select: PAYMENT_SELECT },
+				statusEvents: { select: { id: true, fromStatus: true, toStatus: true, note: true, actorId: true, createdAt: true }, orderBy: { createdAt: 'asc' } }
+			}
+		});
+		if (!order) {
+			return res.status(404).json({ error: { code: 'PURCHASE_NOT_FOUND', message: 'Order not found' } });
+		}
+		
+		// Step 3: Return the order.
+		res.json({ ...order, nextStatuses: ORDER_TRANSITIONS[order.status as OrderStatus] ?? [] });
+	} catch (error) {
+		// Step 4: Handle errors.
+		console.error('Get order error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.post('/api/admin/orders/:id/status')
+ * @description Moves an order to a new status along the allowed transitions and records it in the order's history. Cancelling or refunding releases the order's discount uses, and its stock if it had not shipped. Refunding returns the order's payment to the card first, and cancelling cancels a payment that had not settled. Restricted to admin users only.
+ * @param {Request} req - The Express request object, expecting `id` (purchase ID) in URL parameters and `status` and optionally `note` in the body.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Validate the request body against `orderStatusSchema`. If validation fails, return 400.
+ *   3. Apply the transition with `refundOrder()` for refunds and `transitionOrder()` otherwise. If the order is not found, return 404; if the transition is not allowed, return 409 `INVALID_STATUS_TRANSITION` with the current status and the allowed ones.
+ *   4. For a cancellation, cancel the order's open payment with `cancelOrderPayment()`. Return 200 OK with the new status.
+ *   5. If the payment gateway refused a refund (the order is unchanged), return 502 `PAYMENT_ERROR`; catch and log other errors, returning a 500 internal server error.
+ */
+app.post('/api/admin/orders/:id/status', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Validate request body.
+		const validation = orderStatusSchema.safeParse(req.body);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
+			});
+		}
+		const { status, note } = validation.data;
+		
+		// Step 3: Apply the transition, refunding the payment first.
+		const result = status === 'refunded'
+			? await refundOrder(req.params.id, { actorId: req.user!.id, note })
+			: await transitionOrder(req.params.id, status, { actorId: req.user!.id, note });
+		if (!result.ok && result.reason === 'not-found') {
+			return res.status(404).json({ error: { code: 'PURCHASE_NOT_FOUND', message: 'Order not found' } });
+		}
+		if (!result.ok) {
+			return res.status(409).json({
+				error: {
+					code: 'INVALID_STATUS_TRANSITION',
+					message: `A ${result.status} order cannot be marked ${status}`,
+					status: result.status,
+					allowed: result.allowed
+				}
+			});
+		}
+		
+		// Step 4: Cancel an open payment, and return the new status.
+		if (result.status === 'cancelled') {
+			await cancelOrderPayment(req.params.id);
+		}
+		res.json({ id: req.params.id, status: result.status });
+	} catch (error) {
+		// Step 5: Handle errors.
+		if (error instanceof PaymentGatewayError) {
+			console.error('Refund payment error:', error.code, error.message);
+			return res.status(502).json({ error: { code: 'PAYMENT_ERROR', message: `The payment could not be refunded: ${error.message}` } });
+		}
+		console.error('Update order status error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.get('/api/admin/reviews')
+ * @description Lists reviews for moderation, oldest first so the queue is worked in order, filtered by status (`pending` by default). Restricted to admin users only.
+ * @param {Request} req - The Express request object, optionally expecting `status` (a review status or `all`) and `limit` (1-200, default 50) in query parameters.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Read the status filter (`pending` if it is not a known status, none for `all`) and the limit.
+ *   3. Fetch the reviews with their product and author, and the number of pending reviews.
+ *   4. Return 200 OK with the reviews and the pending count.
+ *   5. Catch and log any errors, returning a 500 internal server error.
+ */
+app.get('/api/admin/reviews', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Read filters.
+		const status = req.query.status === 'all' ? undefined : REVIEW_STATUSES.find((candidate) => candidate === req.query.status) ?? 'pending';
+		const limit = Math.min(Math.max(parseInt(String(req.query.limit), 10) || 50, 1), 200);
+		
+		// Step 3: Fetch reviews.
+		const [reviews, pendingCount] = await Promise.all([
+			db.review.findMany({
+				where: status ? { status } : {},
+				select: {
+					id: true, rating: true, body: true, status: true, moderatedById: true, moderatedAt: true, createdAt: true, updatedAt: true,
+					product: { select: { id: true, name: true, slug: true } },
+					user: { select: { id: true, email: true, firstName: true, lastName: true } }
+				},
+				orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+				take: limit
+			}),
+			db.review.count({ where: { status: 'pending' } })
+		]);
+		
+		// Step 4: Return reviews.
+		res.json({ reviews, pendingCount });
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Get reviews for moderation error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.post('/api/admin/reviews/:id/status')
+ * @description Approves or rejects a review (or puts it back in the queue), recording who moderated it and when. Restricted to admin users only.
+ * @param {Request} req - The Express request object, expecting `id` (review ID) in URL parameters and `status` in the body.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Validate the request body against `reviewModerationSchema`. If validation fails, return 400.
+ *   3. Update the review's status and moderator. If the review is not found, return 404 `REVIEW_NOT_FOUND`.
+ *   4. Return 200 OK with the new status.
+ *   5. Catch and log any errors, returning a 500 internal server error.
+ */
+app.post('/api/admin/reviews/:id/status', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Validate request body.
+		const validation = reviewModerationSchema.safeParse(req.body);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
+			});
+		}
+		const { status } = validation.data;
+		
+		// Step 3: Update the review.
+		const moderated = status === 'pending' ? { moderatedById: null, moderatedAt: null } : { moderatedById: req.user!.id, moderatedAt: new Date() };
+		const { count } = await db.review.updateMany({ where: { id: req.params.id }, data: { status, ...moderated } });
+		if (count === 0) {
+			return res.status(404).json({ error: { code: 'REVIEW_NOT_FOUND', message: 'Review not found' } });
+		}
+		
+		// Step 4: Return the new status.
+		res.json({ id: req.params.id, status });
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Moderate review error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.delete('/api/admin/reviews/:id')
+ * @description Deletes a review outright, for spam and abuse. Restricted to admin users only.
+ * @param {Request} req - The Express request object, expecting `id` (review ID) in URL parameters.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Delete the review. If it is not found, return 404 `REVIEW_NOT_FOUND`.
+ *   3. Return 200 OK with a confirmation message.
+ *   4. Catch and log any errors, returning a 500 internal server error.
+ */
+app.delete('/api/admin/reviews/:id', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Delete the review.
+		const { count } = await db.review.deleteMany({ where: { id: req.params.id } });
+		if (count === 0) {
+			return res.status(404).json({ error: { code: 'REVIEW_NOT_FOUND', message: 'Review not found' } });
+		}
+		
+		// Step 3: Confirm.
+		res.json({ message: 'Review deleted' });
+	} catch (error) {
+		// Step 4: Handle errors.
+		console.error('Delete review error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.get('/api/admin/contact-messages')
+ * @description Lists contact messages for the support inbox, newest first, filtered by status and by whether they were marked as spam (spam is left out unless asked for), with the number of messages in each status. Restricted to admin users only.
+ * @param {Request} req - The Express request object, optionally expecting `status` (a contact message status or `all`, the default), `spam` (`true` to list only spam), and `limit` (1-200, default 50) in query parameters.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Read the status filter (none if it is not a known status), the spam filter, and the limit.
+ *   3. Fetch the messages, and count the messages that are not spam by status and the spam.
+ *   4. Return 200 OK with the messages and the counts.
+ *   5. Catch and log any errors, returning a 500 internal server error.
+ */
+app.get('/api/admin/contact-messages', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Read filters.
+		const status = CONTACT_MESSAGE_STATUSES.find((candidate) => candidate === req.query.status);
+		const isSpam = req.query.spam === 'true';
+		const limit = Math.min(Math.max(parseInt(String(req.query.limit), 10) || 50, 1), 200);
+		
+		// Step 3: Fetch messages and counts.
+		const [messages, byStatus, spamCount] = await Promise.all([
+			db.contactMessage.findMany({
+				where: { isSpam, ...(status ? { status } : {}) },
+				select: CONTACT_MESSAGE_SELECT,
+				orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+				take: limit
+			}),
+			db.contactMessage.groupBy({ by: ['status'], where: { isSpam: false }, _count: { _all: true } }),
+			db.contactMessage.count({ where: { isSpam: true } })
+		]);
+		const counts = Object.fromEntries(CONTACT_MESSAGE_STATUSES.map((candidate) => [
+			candidate,
+			byStatus.find((group) => group.status === candidate)?._count._all ?? 0
+		]));
+		
+		// Step 4: Return messages.
+		res.json({ messages: messages.map(formatContactMessage), counts: { ...counts, spam: spamCount } });
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Get contact messages error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.get('/api/admin/contact-messages/:id')
+ * @description Retrieves one contact message with its replies, oldest first. Restricted to admin users only.
+ * @param {Request} req - The Express request object, expecting `id` (contact message ID) in URL parameters.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Fetch the message with its replies. If not found, return 404 `CONTACT_MESSAGE_NOT_FOUND`.
+ *   3. Return 200 OK with the message.
+ *   4. Catch and log any errors, returning a 500 internal server error.
+ */
+app.get('/api/admin/contact-messages/:id', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Fetch the message.
+		const message = await db.contactMessage.findUnique({
+			where: { id: req.params.id },
+			select: { ...CONTACT_MESSAGE_SELECT, replies: { select: CONTACT_REPLY_SELECT, orderBy: { sentAt: 'asc' } } }
+		});
+		if (!message) {
+			return res.status(404).json({ error: { code: 'CONTACT_MESSAGE_NOT_FOUND', message: 'Message not found' } });
+		}
+		
+		// Step 3: Return the message.
+		res.json(formatContactMessage(message));
+	} catch (error) {
+		// Step 4: Handle errors.
+		console.error('Get contact message error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.put('/api/admin/contact-messages/:id')
+ * @description Moves a contact message to another status, or marks it as spam or rescues it from the spam. Resolving a message records when; moving it back clears that. Restricted to admin users only.
+ * @param {Request} req - The Express request object, expecting `id` (contact message ID) in URL parameters and `status` and/or `isSpam` in the body.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Validate the request body against `contactMessageUpdateSchema`. If validation fails, return 400.
+ *   3. Update the message. If it is not found, return 404 `CONTACT_MESSAGE_NOT_FOUND`.
+ *   4. Return 200 OK with the message.
+ *   5. Catch and log any errors, returning a 500 internal server error.
+ */
+app.put('/api/admin/contact-messages/:id', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Validate request body.
+		const validation = contactMessageUpdateSchema.safeParse(req.body);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
+			});
+		}
+		const { status, isSpam } = validation.data;
+		
+		// Step 3: Update the message.
+		const resolved = status === undefined ? {} : { resolvedAt: status === 'resolved' ? new Date() : null };
+		const { count } = await db.contactMessage.updateMany({ where: { id: req.params.id }, data: { status, isSpam, ...resolved } });
+		if (count === 0) {
+			return res.status(404).json({ error: { code: 'CONTACT_MESSAGE_NOT_FOUND', message: 'Message not found' } });
+		}
+		
+		// Step 4: Return the message.
+		const message = await db.contactMessage.findUniqueOrThrow({ where: { id: req.params.id }, select: CONTACT_MESSAGE_SELECT });
+		res.json(formatContactMessage(message));
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Update contact message error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.post('/api/admin/contact-messages/:id/replies')
+ * @description Emails a reply to the sender of a contact message through the configured mail transport and keeps it with the message, which moves to `in-progress`, or to `resolved` with `resolve`. Messages marked as spam cannot be replied to. Restricted to admin users only.
+ * @param {Request} req - The Express request object, expecting `id` (contact message ID) in URL parameters and `body` and optionally `resolve` in the body.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Validate the request body against `contactReplySchema`. If validation fails, return 400.
+ *   3. Find the message. If not found, return 404 `CONTACT_MESSAGE_NOT_FOUND`; if it is marked as spam, return 409 `CONTACT_MESSAGE_SPAM`.
+ *   4. Send the reply with `sendContactReply()`. If the mail transport fails, return 502 `MAIL_ERROR` (nothing is stored, so the reply can be sent again).
+ *   5. In a transaction, store the reply and update the message's status.
+ *   6. Return 201 Created with the reply and the new status.
+ *   7. Catch and log any errors, returning a 500 internal server error.
+ */
+app.post('/api/admin/contact-messages/:id/replies', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Validate request body.
+		const validation = contactReplySchema.safeParse(req.body);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
+			});
+		}
+		const { body, resolve } = validation.data;
+		
+		// Step 3: Find the message.
+		const message = await db.contactMessage.findUnique({
+			where: { id: req.params.id },
+			select: { id: true, name: true, email: true, message: true, isSpam: true, createdAt: true }
+		});
+		if (!message) {
+			return res.status(404).json({ error: { code: 'CONTACT_MESSAGE_NOT_FOUND', message: 'Message not found' } });
+		}
+		if (message.isSpam) {
+			return res.status(409).json({ error: { code: 'CONTACT_MESSAGE_SPAM', message: 'This message is marked as spam. Rescue it from the spam before replying.' } });
+		}
+		
+		// Step 4: Send the reply.
+		try {
+			await sendContactReply(message, body);
+		} catch (error) {
+			console.error('Contact reply mail error:', error);
+			return res.status(502).json({ error: { code: 'MAIL_ERROR', message: 'The reply could not be sent. Please try again.' } });
+		}
+		
+		// Step 5: Store it.
+		const status = resolve ? 'resolved' : 'in-progress';
+		const reply = await db.$transaction(async (tx) => {
+			await tx.contactMessage.update({ where: { id: message.id }, data: { status, resolvedAt: resolve ? new Date() : null } });
+			return tx.contactReply.create({ data: { messageId: message.id, authorId: req.user!.id, body }, select: CONTACT_REPLY_SELECT });
+		});
+		
+		// Step 6: Return the reply.
+		res.status(201).json({ reply, status });
+	} catch (error) {
+		// Step 7: Handle errors.
+		console.error('Reply to contact message error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.delete('/api/admin/contact-messages/:id')
+ * @description Deletes a contact message and its replies outright. Restricted to admin users only.
+ * @param {Request} req - The Express request object, expecting `id` (contact message ID) in URL parameters.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Delete the message. If it is not found, return 404 `CONTACT_MESSAGE_NOT_FOUND`.
+ *   3. Return 200 OK with a confirmation message.
+ *   4. Catch and log any errors, returning a 500 internal server error.
+ */
+app.delete('/api/admin/contact-messages/:id', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Delete the message.
+		const { count } = await db.contactMessage.deleteMany({ where: { id: req.params.id } });
+		if (count === 0) {
+			return res.status(404).json({ error: { code: 'CONTACT_MESSAGE_NOT_FOUND', message: 'Message not found' } });
+		}
+		
+		// Step 3: Confirm.
+		res.json({ message: 'Message deleted' });
+	} catch (error) {
+		// Step 4: Handle errors.
+		console.error('Delete contact message error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.get('/api/admin/analytics/sales')
+ * @description Reports revenue, order count, and average order value per day, week, or month over a date range, with the totals of the range (including units sold). Only paid orders that were not cancelled or refunded count. Restricted to admin users only.
+ * @param {Request} req - The Express request object, optionally expecting `from` and `to` (`YYYY-MM-DD`, inclusive; the last 30 days by default) and `interval` (`day`, `week`, or `month`; default `day`) in query parameters.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Validate the query against `analyticsQuerySchema` and resolve the date range. If validation fails, return 400.
+ *   3. Build the series with `salesOverTime()`.
+ *   4. Return 200 OK with the range, the interval, the series, and the totals.
+ *   5. Catch and log any errors, returning a 500 internal server error.
+ */
+app.get('/api/admin/analytics/sales', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Validate query parameters.
+		const validation = analyticsQuerySchema.safeParse(req.query);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid query parameters', details: formatValidationErrors(validation.error) }
+			});
+		}
+		const { from, to, interval } = validation.data;
+		const range = resolveAnalyticsRange(from, to);
+		
+		// Step 3 & 4: Build and return the report.
+		const report = await salesOverTime(range, interval);
+		res.json({ range: { from: range.from, to: range.to }, interval, ...report });
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Sales analytics error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.get('/api/admin/analytics/products')
+ * @description Reports the best-selling products over a date range, by units sold and by revenue at their purchase prices. Restricted to admin users only.
+ * @param {Request} req - The Express request object, optionally expecting `from` and `to` (`YYYY-MM-DD`, inclusive; the last 30 days by default) and `limit` (1-50, default 10) in query parameters.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Validate the query against `analyticsQuerySchema` and resolve the date range. If validation fails, return 400.
+ *   3. Rank the products with `topProducts()`.
+ *   4. Return 200 OK with the range and both lists.
+ *   5. Catch and log any errors, returning a 500 internal server error.
+ */
+app.get('/api/admin/analytics/products', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Validate query parameters.
+		const validation = analyticsQuerySchema.safeParse(req.query);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid query parameters', details: formatValidationErrors(validation.error) }
+			});
+		}
+		const { from, to, limit } = validation.data;
+		const range = resolveAnalyticsRange(from, to);
+		
+		// Step 3 & 4: Build and return the report.
+		const report = await topProducts(range, limit);
+		res.json({ range: { from: range.from, to: range.to }, ...report });
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Product analytics error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.get('/api/admin/analytics/customers')
+ * @description Reports how many customers over a date range were new (first order in the range) or returning (ordered before it), with each group's orders and revenue. Restricted to admin users only.
+ * @param {Request} req - The Express request object, optionally expecting `from` and `to` (`YYYY-MM-DD`, inclusive; the last 30 days by default) in query parameters.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Validate the query against `analyticsQuerySchema` and resolve the date range. If validation fails, return 400.
+ *   3. Split the customers with `customerBreakdown()`.
+ *   4. Return 200 OK with the range and both groups.
+ *   5. Catch and log any errors, returning a 500 internal server error.
+ */
+app.get('/api/admin/analytics/customers', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Validate query parameters.
+		const validation = analyticsQuerySchema.safeParse(req.query);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid query parameters', details: formatValidationErrors(validation.error) }
+			});
+		}
+		const { from, to } = validation.data;
+		const range = resolveAnalyticsRange(from, to);
+		
+		// Step 3 & 4: Build and return the report.
+		const report = await customerBreakdown(range);
+		res.json({ range: { from: range.from, to: range.to }, ...report });
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Customer analytics error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.get('/api/admin/analytics/discounts')
+ * @description Reports how each discount performed over a date range (orders, amount taken off, and revenue and average value of those orders), and how orders with a discount compare to orders without. Restricted to admin users only.
+ * @param {Request} req - The Express request object, optionally expecting `from` and `to` (`YYYY-MM-DD`, inclusive; the last 30 days by default) in query parameters.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Validate the query against `analyticsQuerySchema` and resolve the date range. If validation fails, return 400.
+ *   3. Build the report with `discountPerformance()`.
+ *   4. Return 200 OK with the range, the discounts, and the comparison.
+ *   5. Catch and log any errors, returning a 500 internal server error.
+ */
+app.get('/api/admin/analytics/discounts', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Validate query parameters.
+		const validation = analyticsQuerySchema.safeParse(req.query);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid query parameters', details: formatValidationErrors(validation.error) }
+			});
+		}
+		const { from, to } = validation.data;
+		const range = resolveAnalyticsRange(from, to);
+		
+		// Step 3 & 4: Build and return the report.
+		const report = await discountPerformance(range);
+		res.json({ range: { from: range.from, to: range.to }, ...report });
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Discount analytics error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.get('/api/admin/shipping')
+ * @description Lists every delivery method, active or not, with its shipping rates, and the shipping zones. Restricted to admin users only.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Fetch the methods with their rates, and the zones.
+ *   3. Return 200 OK with the methods and the zones (with their country codes and postal prefixes as lists).
+ *   4. Catch and log any errors, returning a 500 internal server error.
+ */
+app.get('/api/admin/shipping', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Fetch methods and zones.
+		const [methods, zones] = await Promise.all([
+			db.deliveryMethod.findMany({
+				select: {
+					...DELIVERY_METHOD_SELECT, active: true, sortOrder: true,
+					rates: { select: SHIPPING_RATE_SELECT, orderBy: [{ zoneId: 'asc' }, { minWeightGrams: 'asc' }] }
+				},
+				orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }]
+			}),
+			db.shippingZone.findMany({ select: { id: true, name: true, countries: true, postalPrefixes: true }, orderBy: { name: 'asc' } })
+		]);
+		
+		// Step 3: Return them.
+		res.json({ methods, zones: zones.map(formatShippingZone) });
+	} catch (error) {
+		// Step 4: Handle errors.
+		console.error('Get shipping settings error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.put('/api/admin/shipping/methods/:id')
+ * @description Edits a delivery method's name, description, display order, or whether customers can choose it. Restricted to admin users only.
+ * @param {Request} req - The Express request object, expecting `id` (delivery method ID) in URL parameters and any of `name`, `description`, `active`, and `sortOrder` in the body.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Validate the request body against `deliveryMethodUpdateSchema`. If validation fails, return 400.
+ *   3. Update the method. If not found, return 404.
+ *   4. Return 200 OK with the method.
+ *   5. Catch and log any errors, returning a 500 internal server error.
+ */
+app.put('/api/admin/shipping/methods/:id', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Validate request body.
+		const validation = deliveryMethodUpdateSchema.safeParse(req.body);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
+			});
+		}
+		
+		// Step 3: Update the method.
+		const { count } = await db.deliveryMethod.updateMany({ where: { id: req.params.id }, data: validation.data });
+		if (count === 0) {
+			return res.status(404).json({ error: { code: 'DELIVERY_METHOD_NOT_FOUND', message: 'Delivery method not found' } });
+		}
+		
+		// Step 4: Return the method.
+		res.json(await db.deliveryMethod.findUnique({
+			where: { id: req.params.id },
+			select: { ...DELIVERY_METHOD_SELECT, active: true, sortOrder: true }
+		}));
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Update delivery method error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.post('/api/admin/shipping/zones')
+ * @description Creates a shipping zone: a list of countries, optionally narrowed to postal code prefixes. Restricted to admin users only.
+ * @param {Request} req - The Express request object, expecting `name`, `countries`, and optionally `postalPrefixes` in the body.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Validate the request body against `shippingZoneSchema`. If validation fails, return 400.
+ *   3. Create the zone.
+ *   4. Return 201 Created with the zone.
+ *   5. Catch and log any errors, returning a 500 internal server error.
+ */
+app.post('/api/admin/shipping/zones', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Validate request body.
+		const validation = shippingZoneSchema.safeParse(req.body);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
+			});
+		}
+		const { name, countries, postalPrefixes } = validation.data;
+		
+		// Step 3: Create the zone.
+		const zone = await db.shippingZone.create({
+			data: { name, countries: [...new Set(countries)].join(','), postalPrefixes: [...new Set(postalPrefixes)].join(',') },
+			select: { id: true, name: true, countries: true, postalPrefixes: true }
+		});
+		
+		// Step 4: Return the zone.
+		res.status(201).json(formatShippingZone(zone));
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Create shipping zone error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.put('/api/admin/shipping/zones/:id')
+ * @description Edits a shipping zone. Lists given replace the zone's countries or postal prefixes. Restricted to admin users only.
+ * @param {Request} req - The Express request object, expecting `id` (zone ID) in URL parameters and any of `name`, `countries`, and `postalPrefixes` in the body.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Validate the request body against `shippingZoneUpdateSchema`. If validation fails, return 400.
+ *   3. Update the zone. If not found, return 404.
+ *   4. Return 200 OK with the zone.
+ *   5. Catch and log any errors, returning a 500 internal server error.
+ */
+app.put('/api/admin/shipping/zones/:id', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Validate request body.
+		const validation = shippingZoneUpdateSchema.safeParse(req.body);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
+			});
+		}
+		const { name, countries, postalPrefixes } = validation.data;
+		
+		// Step 3: Update the zone.
+		const { count } = await db.shippingZone.updateMany({
+			where: { id: req.params.id },
+			data: {
+				name,
+				countries: countries && [...new Set(countries)].join(','),
+				postalPrefixes: postalPrefixes && [...new Set(postalPrefixes)].join(',')
+			}
+		});
+		if (count === 0) {
+			return res.status(404).json({ error: { code: 'SHIPPING_ZONE_NOT_FOUND', message: 'Shipping zone not found' } });
+		}
+		
+		// Step 4: Return the zone.
+		const zone = await db.shippingZone.findUniqueOrThrow({
+			where: { id: req.params.id },
+			select: { id: true, name: true, countries: true, postalPrefixes: true }
+		});
+		res.json(formatShippingZone(zone));
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Update shipping zone error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.delete('/api/admin/shipping/zones/:id')
+ * @description Deletes a shipping zone with its shipping rates. Restricted to admin users only.
+ * @param {Request} req - The Express request object, expecting `id` (zone ID) in URL parameters.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Delete the zone (its rates are deleted with it). If not found, return 404.
+ *   3. Return 200 OK with a success message.
+ *   4. Catch and log any errors, returning a 500 internal server error.
+ */
+app.delete('/api/admin/shipping/zones/:id', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Delete the zone.
+		const { count } = await db.shippingZone.deleteMany({ where: { id: req.params.id } });
+		if (count === 0) {
+			return res.status(404).json({ error: { code: 'SHIPPING_ZONE_NOT_FOUND', message: 'Shipping zone not found' } });
+		}
+		
+		// Step 3: Confirm.
+		res.json({ message: 'Shipping zone deleted successfully' });
+	} catch (error) {
+		// Step 4: Handle errors.
+		console.error('Delete shipping zone error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.post('/api/admin/shipping/rates')
+ * @description Creates a shipping rate for a delivery method, in one zone or in every zone, for a weight band. Restricted to admin users only.
+ * @param {Request} req - The Express request object, expecting `methodId` and `baseCents` and optionally `zoneId`, `minWeightGrams`, `maxWeightGrams`, `perKgCents`, and `freeOverCents` in the body.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Validate the request body against `shippingRateSchema`. If validation fails, return 400.
+ *   3. Check the delivery method and the zone (if one was given) exist; if not, return 400.
+ *   4. Create the rate.
+ *   5. Return 201 Created with the rate.
+ *   6. Catch and log any errors, returning a 500 internal server error.
+ */
+app.post('/api/admin/shipping/rates', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Validate request body.
+		const validation = shippingRateSchema.safeParse(req.body);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
+			});
+		}
+		
+		// Step 3: Check the method and zone.
+		if (!(await db.deliveryMethod.findUnique({ where: { id: validation.data.methodId }, select: { id: true } }))) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: { methodId: 'Delivery method not found' } }
+			});
+		}
+		if (validation.data.zoneId && !(await db.shippingZone.findUnique({ where: { id: validation.data.zoneId }, select: { id: true } }))) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: { zoneId: 'Shipping zone not found' } }
+			});
+		}
+		
+		// Step 4: Create the rate.
+		const rate = await db.shippingRate.create({ data: validation.data, select: SHIPPING_RATE_SELECT });
+		
+		// Step 5: Return the rate.
+		res.status(201).json(rate);
+	} catch (error) {
+		// Step 6: Handle errors.
+		console.error('Create shipping rate error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.put('/api/admin/shipping/rates/:id')
+ * @description Edits a shipping rate. Its delivery method cannot change. Restricted to admin users only.
+ * @param {Request} req - The Express request object, expecting `id` (rate ID) in URL parameters and any of `zoneId`, `minWeightGrams`, `maxWeightGrams`, `baseCents`, `perKgCents`, and `freeOverCents` in the body.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Validate the request body against `shippingRateUpdateSchema`. If validation fails, return 400.
+ *   3. Find the rate. If not found, return 404.
+ *   4. Check the zone exists, if one was given, and that the weight band does not end before it starts; if not, return 400.
+ *   5. Update the rate and return 200 OK with it.
+ *   6. Catch and log any errors, returning a 500 internal server error.
+ */
+app.put('/api/admin/shipping/rates/:id', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Validate request body.
+		const validation = shippingRateUpdateSchema.safeParse(req.body);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
+			});
+		}
+		
+		// Step 3: Find the rate.
+		const existing = await db.shippingRate.findUnique({
+			where: { id: req.params.id },
+			select: { id: true, minWeightGrams: true, maxWeightGrams: true }
+		});
+		if (!existing) {
+			return res.status(404).json({ error: { code: 'SHIPPING_RATE_NOT_FOUND', message: 'Shipping rate not found' } });
+		}
+		
+		// Step 4: Check the zone and the weight band.
+		if (validation.data.zoneId && !(await db.shippingZone.findUnique({ where: { id: validation.data.zoneId }, select: { id: true } }))) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: { zoneId: 'Shipping zone not found' } }
+			});
+		}
+		const minWeightGrams = validation.data.minWeightGrams ?? existing.minWeightGrams;
+		const maxWeightGrams = validation.data.maxWeightGrams !== undefined ? validation.data.maxWeightGrams : existing.maxWeightGrams;
+		if (maxWeightGrams !== null && maxWeightGrams < minWeightGrams) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: { maxWeightGrams: 'The maximum weight must not be below the minimum' } }
+			});
+		}
+		
+		// Step 5: Update the rate.
+		const rate = await db.shippingRate.update({ where: { id: existing.id }, data: validation.data, select: SHIPPING_RATE_SELECT });
+		res.json(rate);
+	} catch (error) {
+		// Step 6: Handle errors.
+		console.error('Update shipping rate error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+});
+
+/**
+ * @function app.delete('/api/admin/shipping/rates/:id')
+ * @description Deletes a shipping rate. Restricted to admin users only.
+ * @param {Request} req - The Express request object, expecting `id` (rate ID) in URL parameters.
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Delete the rate. If not found, return 404.
+ *   3. Return 200 OK with a success message.
+ *   4. Catch and log any errors, returning a 500 internal server error.
+ */
+app.delete('/api/admin/shipping/rates/:id', requireRole('admin'), async (req: Request, res: Response) => {
+	try {
+		// Step 2: Delete the rate.
+		const { count } = await db.shippingRate.deleteMany({ where: { id: req.params.id } });
+		if (count === 0) {
+			return res.status(404).json({ error: { code: 'SHIPPING_RATE_NOT_FOUND', message: 'Shipping rate not found' } });
+		}
+		
+		// Step 3: Confirm.
+		res.json({ message: 'Shipping rate deleted successfully' });
+	} catch (error) {
+		// Step 4: Handle errors.
+		console.error('Delete shipping rate error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
 });
 
-// --- Other routes ---
-
 /**
- * @function app.get('/api/discounts')
- * @description Retrieves a list of active discounts.
+ * @function app.get('/api/admin/tax-rules')
+ * @description Lists the tax rules, active or not, by country and region. Restricted to admin users only.
  * @param {Request} req - The Express request object.
  * @param {Response} res - The Express response object.
  * @returns {Promise<void>}
  *
  * Steps:
- *   1. Get the current date and time.
- *   2. Query the database for active discounts (active, startsAt <= now, endsAt >= now).
- *   3. Return 200 OK with the list of discounts.
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Fetch the rules with their categories.
+ *   3. Return 200 OK with the rules.
  *   4. Catch and log any errors, returning a 500 internal server error.
  */
-app.get('/api/discounts', async (req: Request, res: Response) => {
+app.get('/api/admin/tax-rules', requireRole('admin'), async (req: Request, res: Response) => {
 	try {
-		// Step 1: Get current date.
-		const now = new Date();
-		// Step 2: Query for active discounts.
-		const discounts = await db.discount.findMany({
-			where: { active: true, startsAt: { lte: now }, endsAt: { gte: now } },
-			select: { id: true, title: true, description: true, percentOff: true, active: true, startsAt: true, endsAt: true },
-			orderBy: { percentOff: 'desc' }
+		// Step 2: Fetch the rules.
+		const rules = await db.taxRule.findMany({
+			select: TAX_RULE_SELECT,
+			orderBy: [{ country: 'asc' }, { region: 'asc' }, { createdAt: 'asc' }]
 		});
-		// Step 3: Return discounts.
-		res.json(discounts);
+		// Step 3: Return the rules.
+		res.json(rules);
 	} catch (error) {
 		// Step 4: Handle errors.
-		console.error('Get discounts error:', error);
+		console.error('Get tax rules error:', error);
 		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
 	}
 });
 
 /**
- * @function app.get('/api/health')
- * @description Provides a health check endpoint for the API.
- * It tests the database connection and returns server status information.
- * @param {Request} req - The Express request object.
+ * @function app.post('/api/admin/tax-rules')
+ * @description Creates a tax rule. It applies to orders placed from then on; past orders keep the taxes they were charged. See `lib/tax` for how rules combine. Restricted to admin users only.
+ * @param {Request} req - The Express request object, expecting `name`, `country`, and `rateBasisPoints` and optionally `region`, `categoryId`, `appliesToShipping`, and `active` in the body.
  * @param {Response} res - The Express response object.
  * @returns {Promise<void>}
  *
  * Steps:
- *   1. Attempt a simple database query to check connectivity.
- *   2. If successful, return 200 OK with 'healthy' status and server details.
- *   3. If the database query fails, return 503 Service Unavailable with 'unhealthy' status and error details.
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Validate the request body against `taxRuleSchema`. If validation fails, return 400.
+ *   3. Check the category exists, if one was given; if not, return 400.
+ *   4. Create the rule.
+ *   5. Return 201 Created with the rule.
+ *   6. Catch and log any errors, returning a 500 internal server error.
  */
-app.get('/api/health', async (req: Request, res: Response) => {
+app.post('/api/admin/tax-rules', requireRole('admin'), async (req: Request, res: Response) => {
 	try {
-		// Step 1: Test database connection.
-		await db.$queryRaw`SELECT 1`;
-		// Step 2: Return healthy status.
-		res.json({
-			status: 'healthy',
-			timestamp: new Date().toISOString(),
-			uptime: process.uptime(),
-			environment: process.env.NODE_ENV,
-			database: 'connected'
-		});
-	} catch (error: any) {
-		// Step 3: Return unhealthy status on error.
-		res.status(503).json({
-			status: 'unhealthy',
-			timestamp: new Date().toISOString(),
-			error: error.message
-		});
+		// Step 2: Validate request body.
+		const validation = taxRuleSchema.safeParse(req.body);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
+			});
+		}
+		
+		// Step 3: Check the category.
+		if (validation.data.categoryId && !(await db.category.findUnique({ where: { id: validation.data.categoryId }, select: { id: true } }))) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: { categoryId: 'Category not found' } }
+			});
+		}
+		
+		// Step 4: Create the rule.
+		const rule = await db.taxRule.create({ data: validation.data, select: TAX_RULE_SELECT });
+		
+		// Step 5: Return the rule.
+		res.status(201).json(rule);
+	} catch (error) {
+		// Step 6: Handle errors.
+		console.error('Create tax rule error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
 	}
 });
 
 /**
- * @function app.get('/api/me')
- * @description Retrieves the profile information of the currently authenticated user.
- * @param {Request} req - The Express request object.
+ * @function app.put('/api/admin/tax-rules/:id')
+ * @description Edits a tax rule. Past orders keep the taxes they were charged. Restricted to admin users only.
+ * @param {Request} req - The Express request object, expecting `id` (tax rule ID) in URL parameters and any of the rule's fields in the body.
  * @param {Response} res - The Express response object.
  * @returns {Promise<void>}
  *
  * Steps:
- *   1. Check if `req.user` exists; if not, return 401 unauthorized.
- *   2. Query the database for the user's full profile using `req.user.id`.
- *   3. If user not found (should not happen if `req.user` is set), return 404.
- *   4. Determine if the user is an admin (by email `admin@agricommerce.com`).
- *   5. Return 200 OK with the user's profile and `isAdmin` flag.
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Validate the request body against `taxRuleUpdateSchema`. If validation fails, return 400.
+ *   3. Find the rule. If not found, return 404.
+ *   4. Check the category exists, if one was given, and that a rule for every country has no region; if not, return 400.
+ *   5. Update the rule and return 200 OK with it.
  *   6. Catch and log any errors, returning a 500 internal server error.
  */
-app.get('/api/me', async (req: Request, res: Response) => {
-	// Step 1: Check authentication.
-	if (!req.user) {
-		return res.status(401).json({ error: { code: 'UNAUTHORIZED', message: 'Authentication required' } });
-	}
-	
+app.put('/api/admin/tax-rules/:id', requireRole('admin'), async (req: Request, res: Response) => {
 	try {
-		// Step 2: Fetch user profile from database.
-		const user = await db.user.findUnique({
-			where: { id: req.user.id },
-			select: { id: true, email: true, firstName: true, lastName: true, phone: true, createdAt: true, updatedAt: true }
-		});
+		// Step 2: Validate request body.
+		const validation = taxRuleUpdateSchema.safeParse(req.body);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
+			});
+		}
 		
-		// Step 3: If user not found, return 404.
-		if (!user) {
-			return res.status(404).json({ error: { code: 'USER_NOT_FOUND', message: 'User not found' } });
+		// Step 3: Find the rule.
+		const existing = await db.taxRule.findUnique({ where: { id: req.params.id }, select: { id: true, country: true, region: true } });
+		if (!existing) {
+			return res.status(404).json({ error: { code: 'TAX_RULE_NOT_FOUND', message: 'Tax rule not found' } });
 		}
 		
-		// Step 4: Determine admin status.
-		const isAdmin = user.email === 'admin@agricommerce.com';
-		// Step 5: Return user profile with admin status.
-		res.json({ ...user, isAdmin });
+		// Step 4: Check the category and the jurisdiction.
+		if (validation.data.categoryId && !(await db.category.findUnique({ where: { id: validation.data.categoryId }, select: { id: true } }))) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: { categoryId: 'Category not found' } }
+			});
+		}
+		const country = validation.data.country ?? existing.country;
+		const region = validation.data.region !== undefined ? validation.data.region : existing.region;
+		if (country === '*' && region !== null) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: { region: 'A rule for every country cannot have a region' } }
+			});
+		}
+		
+		// Step 5: Update the rule.
+		const rule = await db.taxRule.update({ where: { id: existing.id }, data: validation.data, select: TAX_RULE_SELECT });
+		res.json(rule);
 	} catch (error) {
 		// Step 6: Handle errors.
-		console.error('Get user profile error:', error);
+		console.error('Update tax rule error:', error);
 		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
 	}
 });
 
-// --- Admin routes ---
-
 /**
- * @function app.get('/api/admin/users')
- * @description Retrieves a list of all user accounts. Restricted to admin users only.
- * @param {Request} req - The Express request object.
+ * @function app.delete('/api/admin/tax-rules/:id')
+ * @description Deletes a tax rule. Past orders keep the tax lines it charged. To stop a rule for a while, set it inactive instead. Restricted to admin users only.
+ * @param {Request} req - The Express request object, expecting `id` (tax rule ID) in URL parameters.
  * @param {Response} res - The Express response object.
  * @returns {Promise<void>}
  *
  * Steps:
- *   1. Check if `req.user` exists and if their email is `admin@agricommerce.com`. If not, return 403 forbidden.
- *   2. Query the database for all user accounts, selecting specific fields.
- *   3. Return 200 OK with the list of users.
+ *   1. `requireRole('admin')` rejects non-admin users with 401/403.
+ *   2. Delete the rule. If not found, return 404.
+ *   3. Return 200 OK with a success message.
  *   4. Catch and log any errors, returning a 500 internal server error.
  */
-app.get('/api/admin/users', async (req: Request, res: Response) => {
-	// Step 1: Check for admin access.
-	if (!req.user || req.user.email !== 'admin@agricommerce.com') {
-		return res.status(403).json({ error: { code: 'FORBIDDEN', message: 'Admin access required' } });
-	}
-	
+app.delete('/api/admin/tax-rules/:id', requireRole('admin'), async (req: Request, res: Response) => {
 	try {
-		// Step 2: Fetch all users.
-		const users = await db.user.findMany({
-			select: { id: true, email: true, firstName: true, lastName: true, phone: true, createdAt: true },
-			orderBy: { createdAt: 'desc' }
-		});
-		// Step 3: Return users.
-		res.json(users);
+		// Step 2: Delete the rule.
+		const { count } = await db.taxRule.deleteMany({ where: { id: req.params.id } });
+		if (count === 0) {
+			return res.status(404).json({ error: { code: 'TAX_RULE_NOT_FOUND', message: 'Tax rule not found' } });
+		}
+		
+		// Step 3: Confirm.
+		res.json({ message: 'Tax rule deleted successfully' });
 	} catch (error) {
 		// Step 4: Handle errors.
-		console.error('Get users error:', error);
+		console.error('Delete tax rule error:', error);
 		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
 	}
 });
 
 /**
- * @function app.delete('/api/admin/users/:id')
- * @description Deletes a user account by ID. Restricted to admin users only.
- * Admins cannot delete their own account.
- * @param {Request} req - The Express request object, expecting `id` (user ID) in URL parameters.
+ * @function app.get('/api/purchases')
+ * @description Retrieves a page of the authenticated user's purchase history, filtered and sorted, with a summary of every order matching the filters. Pages are cursor-based: pass the returned `nextCursor` as `cursor` to get the next page.
+ * @param {Request} req - The Express request object, optionally expecting `cursor`, `limit` (1-50, default 10), `from` and `to` (`YYYY-MM-DD`, inclusive), `minTotal` and `maxTotal` (cents), `product` (product ID), `status` (comma-separated), and `sort` (`newest`, `oldest`, `total-desc`, `total-asc`) in query parameters.
  * @param {Response} res - The Express response object.
  * @returns {Promise<void>}
  *
  * Steps:
- *   1. Check for admin access. If not, return 403 forbidden.
- *   2. Extract `id` from URL parameters.
- *   3. Prevent an admin from deleting their own account by checking `id` against `req.user.id`. If attempting to delete self, return 400.
- *   4. Delete the user from the database.
- *   5. Return 200 OK with a success message.
+ *   1. Check if `req.user` exists; if not, return 401 unauthorized.
+ *   2. Validate the query against `purchaseQuerySchema`. If validation fails, return 400.
+ *   3. If a cursor is given, check it is one of the user's orders; if not, return 400 `INVALID_CURSOR`.
+ *   4. Fetch one more order than the page holds after the cursor, with the price breakdown, status history, and items; summarize the matching orders; and list the products the user has ordered, in parallel.
+ *   5. Return 200 OK with the page, the cursor of the next page (null on the last page), the summary, and the products.
  *   6. Catch and log any errors, returning a 500 internal server error.
  */
-app.delete('/api/admin/users/:id', async (req: Request, res: Response) => {
-	// Step 1: Check for admin access.
-	if (!req.user || req.user.email !== 'admin@agricommerce.com') {
-		return res.status(403).json({ error: { code: 'FORBIDDEN', message: 'Admin access required' } });
+app.get('/api/purchases', async (req: Request, res: Response) => {
+	// Step 1: Check authentication.
+	if (!req.user) {
+		return res.status(401).json({ error: { code: 'UNAUTHORIZED', message: 'Authentication required' } });
 	}
 	
 	try {
-		// Step 2: Extract user ID to delete.
-		const { id } = req.params;
+		// Step 2: Validate query parameters.
+		const validation = purchaseQuerySchema.safeParse(req.query);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid query parameters', details: formatValidationErrors(validation.error) }
+			});
+		}
+		const { cursor, limit, from, to, minTotal, maxTotal, product, status, sort } = validation.data;
+		const where = buildPurchaseWhere(req.user.id, {
+			from, to, minTotalCents: minTotal, maxTotalCents: maxTotal, productId: product, statuses: status
+		});
 		
-		// Step 3: Prevent self-deletion.
-		if (id === req.user.id) {
-			return res.status(400).json({ error: { code: 'INVALID_OPERATION', message: 'Cannot delete your own account' } });
+		// Step 3: Check the cursor.
+		if (cursor && !(await db.purchase.findFirst({ where: { id: cursor, userId: req.user.id }, select: { id: true } }))) {
+			return res.status(400).json({ error: { code: 'INVALID_CURSOR', message: 'This page link is no longer valid' } });
 		}
 		
-		// Step 4: Delete user.
-		await db.user.delete({ where: { id } });
-		// Step 5: Return success message.
-		res.json({ message: 'User deleted successfully' });
+		// Step 4: Fetch the page, the summary, and the products.
+		const [rows, summary, products] = await Promise.all([
+			db.purchase.findMany({
+				where,
+				select: PURCHASE_HISTORY_SELECT,
+				orderBy: PURCHASE_ORDER_BY[sort],
+				...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+				take: limit + 1
+			}),
+			summarizePurchases(where),
+			loadPurchasedProducts(req.user.id)
+		]);
+		
+		// Step 5: Return the page.
+		const purchases = rows.slice(0, limit);
+		res.json({
+			purchases,
+			nextCursor: rows.length > limit ? purchases[purchases.length - 1].id : null,
+			summary,
+			products
+		});
 	} catch (error) {
 		// Step 6: Handle errors.
-		console.error('Delete user error:', error);
+		console.error('Get purchases error:', error);
 		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
 	}
 });
 
 /**
- * @function app.put('/api/admin/users/:id')
- * @description Updates a user account by ID. Restricted to admin users only.
- * @param {Request} req - The Express request object, expecting `id` (user ID) in URL parameters and `firstName`, `lastName`, `phone` in the body.
+ * @function app.get('/api/purchases/export')
+ * @description Exports the authenticated user's full order history as a CSV or JSON file download, oldest order first. Line prices are the prices the orders were placed at.
+ * @param {Request} req - The Express request object, optionally expecting `format` (`csv` or `json`, default `csv`) in query parameters.
  * @param {Response} res - The Express response object.
  * @returns {Promise<void>}
  *
  * Steps:
- *   1. Check for admin access. If not, return 403 forbidden.
- *   2. Extract `id` from URL parameters and update fields from the request body.
- *   3. Update the user in the database.
- *   4. Return 200 OK with the updated user details.
+ *   1. Check if `req.user` exists; if not, return 401 unauthorized.
+ *   2. Validate the query against `orderExportQuerySchema`. If validation fails, return 400.
+ *   3. Fetch every order of the user with `RECEIPT_SELECT`.
+ *   4. Send the file with `exportOrdersCsv()` or `exportOrdersJson()`, as an attachment that is not cached.
  *   5. Catch and log any errors, returning a 500 internal server error.
  */
-app.put('/api/admin/users/:id', async (req: Request, res: Response) => {
-	// Step 1: Check for admin access.
-	if (!req.user || req.user.email !== 'admin@agricommerce.com') {
-		return res.status(403).json({ error: { code: 'FORBIDDEN', message: 'Admin access required' } });
+app.get('/api/purchases/export', async (req: Request, res: Response) => {
+	// Step 1: Check authentication.
+	if (!req.user) {
+		return res.status(401).json({ error: { code: 'UNAUTHORIZED', message: 'Authentication required' } });
 	}
 	
 	try {
-		// Step 2: Extract user ID and update data.
-		const { id } = req.params;
-		const { firstName, lastName, phone } = req.body;
+		// Step 2: Validate query parameters.
+		const validation = orderExportQuerySchema.safeParse(req.query);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid query parameters', details: formatValidationErrors(validation.error) }
+			});
+		}
+		const { format } = validation.data;
 		
-		// Step 3: Update user.
-		const user = await db.user.update({
-			where: { id },
-			data: { firstName, lastName, phone: phone || null },
-			select: { id: true, email: true, firstName: true, lastName: true, phone: true }
+		// Step 3: Fetch the orders.
+		const orders = await db.purchase.findMany({
+			where: { userId: req.user.id },
+			select: RECEIPT_SELECT,
+			orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
 		});
 		
-		// Step 4: Return updated user.
-		res.json(user);
+		// Step 4: Send the file.
+		const filename = `agricommerce-orders-${new Date().toISOString().slice(0, 10)}.${format}`;
+		res.set('Cache-Control', 'private, no-store');
+		res.attachment(filename);
+		if (format === 'csv') {
+			res.type('text/csv; charset=utf-8').send(exportOrdersCsv(orders));
+		} else {
+			res.json({ exportedAt: new Date(), orders: exportOrdersJson(orders) });
+		}
 	} catch (error) {
 		// Step 5: Handle errors.
-		console.error('Update user error:', error);
+		console.error('Export purchases error:', error);
 		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
 	}
 });
 
 /**
- * @function app.get('/api/purchases')
- * @description Retrieves the purchase history for the authenticated user.
- * @param {Request} req - The Express request object.
+ * @function app.get('/api/purchases/:id/receipt')
+ * @description Renders the receipt of one of the authenticated user's orders, as a printable HTML page or a PDF download, with its line items at their purchase prices, the discounts applied, and the totals.
+ * @param {Request} req - The Express request object, expecting `id` (purchase ID) in URL parameters and optionally `format` (`html` or `pdf`, default `html`) in query parameters.
  * @param {Response} res - The Express response object.
  * @returns {Promise<void>}
  *
  * Steps:
  *   1. Check if `req.user` exists; if not, return 401 unauthorized.
- *   2. Query the database for purchases associated with `req.user.id`, including nested item and product details.
- *   3. Return 200 OK with the purchase history.
- *   4. Catch and log any errors, returning a 500 internal server error.
+ *   2. Validate the query against `receiptQuerySchema`. If validation fails, return 400.
+ *   3. Fetch the order with `RECEIPT_SELECT`, only if it belongs to the user; if not, return 404 `PURCHASE_NOT_FOUND`.
+ *   4. Send the HTML page from `renderReceiptHtml()`, or the PDF from `renderReceiptPdf()` as an attachment; neither is cached.
+ *   5. Catch and log any errors, returning a 500 internal server error.
  */
-app.get('/api/purchases', async (req: Request, res: Response) => {
+app.get('/api/purchases/:id/receipt', async (req: Request, res: Response) => {
 	// Step 1: Check authentication.
 	if (!req.user) {
 		return res.status(401).json({ error: { code: 'UNAUTHORIZED', message: 'Authentication required' } });
 	}
 	
 	try {
-		// Step 2: Fetch purchase history for the authenticated user.
-		const purchases = await db.purchase.findMany({
-			where: { userId: req.user.id },
-			select: {
-				id: true, totalCents: true, createdAt: true,
-				items: {
-					select: {
-						id: true, quantity: true, priceCentsAtPurchase: true,
-						product: { select: { id: true, name: true, slug: true, imageUrl: true } }
-					}
-				}
-			},
-			orderBy: { createdAt: 'desc' }
-		});
-		// Step 3: Return purchase history.
-		res.json(purchases);
+		// Step 2: Validate query parameters.
+		const validation = receiptQuerySchema.safeParse(req.query);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid query parameters', details: formatValidationErrors(validation.error) }
+			});
+		}
+		
+		// Step 3: Fetch the order.
+		const receipt = await db.purchase.findFirst({ where: { id: req.params.id, userId: req.user.id }, select: RECEIPT_SELECT });
+		if (!receipt) {
+			return res.status(404).json({ error: { code: 'PURCHASE_NOT_FOUND', message: 'Order not found' } });
+		}
+		
+		// Step 4: Send the receipt.
+		res.set('Cache-Control', 'private, no-store');
+		if (validation.data.format === 'pdf') {
+			const pdf = await renderReceiptPdf(receipt);
+			res.attachment(`agricommerce-receipt-${orderNumber(receipt.id)}.pdf`);
+			res.type('application/pdf').send(pdf);
+		} else {
+			res.type('text/html; charset=utf-8').send(renderReceiptHtml(receipt));
+		}
 	} catch (error) {
-		// Step 4: Handle errors.
-		console.error('Get purchases error:', error);
+		// Step 5: Handle errors.
+		console.error('Get receipt error:', error);
 		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
 	}
 });
 
 /**
- * @function app.post('/api/contact')
- * @description Handles contact form submissions. Validates input and simulates sending a message.
- * @param {Request} req - The Express request object, expecting `name`, `email`, and `message` in the body.
+ * @function app.post('/api/purchases/:id/cancel')
+ * @description Lets a customer cancel one of their own orders while it is still pending. The order's stock and discount uses are released, and a payment that had not settled is cancelled.
+ * @param {Request} req - The Express request object, expecting `id` (purchase ID) in URL parameters and optionally a `reason` in the body.
  * @param {Response} res - The Express response object.
  * @returns {Promise<void>}
  *
  * Steps:
- *   1. Validate request body against `contactSchema`. If validation fails, return 400.
- *   2. Extract validated `name`, `email`, and `message`.
- *   3. Log the contact form submission details.
- *   4. Return 202 Accepted with a success message (simulating asynchronous processing).
- *   5. Catch and log any errors, returning a 500 internal server error.
+ *   1. Check if `req.user` exists; if not, return 401 unauthorized.
+ *   2. Validate the request body against `orderCancelSchema`. If validation fails, return 400.
+ *   3. Check the order belongs to the user; if not, return 404 `PURCHASE_NOT_FOUND`.
+ *   4. Cancel it with `transitionOrder()`, allowing only `CUSTOMER_CANCELLABLE_STATUSES`. If it is past that, return 409 `ORDER_NOT_CANCELLABLE`.
+ *   5. Cancel the order's open payment with `cancelOrderPayment()`, and return 200 OK with the new status.
+ *   6. Catch and log any errors, returning a 500 internal server error.
  */
-app.post('/api/contact', async (req: Request, res: Response) => {
+app.post('/api/purchases/:id/cancel', async (req: Request, res: Response) => {
+	// Step 1: Check authentication.
+	if (!req.user) {
+		return res.status(401).json({ error: { code: 'UNAUTHORIZED', message: 'Authentication required' } });
+	}
+	
 	try {
-		// Step 1: Validate request body.
-		const validation = contactSchema.safeParse(req.body);
+		// Step 2: Validate request body.
+		const validation = orderCancelSchema.safeParse(req.body ?? {});
 		if (!validation.success) {
 			return res.status(400).json({
 				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
 			});
 		}
 		
-		// Step 2: Extract validated data.
-		const { name, email, message } = validation.data;
-		// Step 3: Log submission.
-		console.log('Contact form submission:', { name, email, message, timestamp: new Date().toISOString() });
+		// Step 3: Check ownership.
+		const purchase = await db.purchase.findFirst({ where: { id: req.params.id, userId: req.user.id }, select: { id: true } });
+		if (!purchase) {
+			return res.status(404).json({ error: { code: 'PURCHASE_NOT_FOUND', message: 'Order not found' } });
+		}
 		
-		// Step 4: Return success (simulated).
-		res.status(202).json({ message: 'Thank you for your message. We will get back to you soon!' });
+		// Step 4: Cancel.
+		const result = await transitionOrder(purchase.id, 'cancelled', {
+			actorId: req.user.id,
+			note: validation.data.reason ? `Cancelled by customer: ${validation.data.reason}` : 'Cancelled by customer',
+			allowedFrom: CUSTOMER_CANCELLABLE_STATUSES
+		});
+		if (!result.ok) {
+			return res.status(409).json({ error: { code: 'ORDER_NOT_CANCELLABLE', message: 'Only pending orders can be cancelled' } });
+		}
+		
+		// Step 5: Cancel the payment, and return the new status.
+		await cancelOrderPayment(purchase.id);
+		res.json({ message: 'Order cancelled', id: purchase.id, status: result.status });
 	} catch (error) {
-		// Step 5: Handle errors.
-		console.error('Contact form error:', error);
+		// Step 6: Handle errors.
+		console.error('Cancel purchase error:', error);
 		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
 	}
 });
 
 /**
- * @function app.get('/api/debug/auth')
- * @description Provides authentication debugging information.
- * @param {Request} req - The Express request object.
+ * @function app.get('/api/orders/lookup/:token')
+ * @description Public order status lookup for guest orders, using the lookup token from the checkout confirmation. Does not require the user to be signed in.
+ * @param {Request} req - The Express request object, expecting `token` in URL parameters.
  * @param {Response} res - The Express response object.
- * @returns {void}
+ * @returns {Promise<void>}
  *
  * Steps:
- *   1. Retrieve the authentication token from cookies.
- *   2. Return 200 OK with information about the token presence, a token preview, authenticated user data (`req.user`), JWT secret status, and Node environment.
+ *   1. Load the order with `findOrderByLookupToken()`. If the token matches none, return 404 `PURCHASE_NOT_FOUND`.
+ *   2. Return 200 OK with the order's status, history, items, and totals.
+ *   3. Catch and log any errors, returning a 500 internal server error.
  */
-app.get('/api/debug/auth', (req: Request, res: Response) => {
-	// Step 1: Get token from cookies.
-	const token = req.cookies[getCookieName()];
-	// Step 2: Return debug information.
-	res.json({
-		timestamp: new Date().toISOString(),
-		hasToken: !!token,
-		tokenPreview: token ? token.substring(0, 20) + '...' : null,
-		userFromAuth: req.user,
-		jwtSecret: !!process.env.JWT_SECRET,
-		nodeEnv: process.env.NODE_ENV
-	});
+app.get('/api/orders/lookup/:token', async (req: Request, res: Response) => {
+	try {
+		// Step 1: Find the order.
+		const order = await findOrderByLookupToken(req.params.token);
+		if (!order) {
+			return res.status(404).json({ error: { code: 'PURCHASE_NOT_FOUND', message: 'No order matches this link' } });
+		}
+		// Step 2: Return it.
+		res.json(order);
+	} catch (error) {
+		// Step 3: Handle errors.
+		console.error('Order lookup error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
 });
 
 /**
- * @function app.get('/api/env-check')
- * @description Provides an endpoint to check the status of critical environment variables.
- * @param {Request} req - The Express request object.
+ * @function app.post('/api/contact')
+ * @description Handles contact form submissions. Stores the message for the admin support inbox with its spam score and ModSecurity's verdict on the request (see `lib/support`). Spam is stored too, and gets the same answer, so spammers cannot tell it was caught.
+ * @param {Request} req - The Express request object, expecting `name`, `email`, and `message` (and the honeypot field `website`, which people leave empty) in the body.
  * @param {Response} res - The Express response object.
- * @returns {void}
+ * @returns {Promise<void>}
  *
  * Steps:
- *   1. Check the presence of `DATABASE_URL`, `JWT_SECRET`, `NODE_ENV`, and `PORT` environment variables.
- *   2. Return 200 OK with their status ('SET' or 'NOT SET').
+ *   1. Validate request body against `contactSchema`. If validation fails, return 400.
+ *   2. Score the message with `assessSpam()`, counting the sender's recent messages, and read ModSecurity's verdict with `readWafVerdict()`.
+ *   3. Store the message as `new`, with the signed-in user (if any), the client's IP address and user agent, the spam verdict, and the WAF verdict.
+ *   4. Return 202 Accepted with a thank-you message.
+ *   5. Catch and log any errors, returning a 500 internal server error.
  */
-app.get('/api/env-check', (req: Request, res: Response) => {
-	// Step 1 & 2: Return status of environment variables.
-	res.json({
-		DATABASE_URL: process.env.DATABASE_URL ? 'SET' : 'NOT SET',
-		JWT_SECRET: process.env.JWT_SECRET ? 'SET' : 'NOT SET',
-		NODE_ENV: process.env.NODE_ENV || 'NOT SET',
-		PORT: process.env.PORT || 'NOT SET'
-	});
+app.post('/api/contact', async (req: Request, res: Response) => {
+	try {
+		// Step 1: Validate request body.
+		const validation = contactSchema.safeParse(req.body);
+		if (!validation.success) {
+			return res.status(400).json({
+				error: { code: 'VALIDATION_ERROR', message: 'Invalid input data', details: formatValidationErrors(validation.error) }
+			});
+		}
+		const { name, email, message, website } = validation.data;
+		
+		// Step 2: Screen the message.
+		const ipAddress = req.ip ?? null;
+		const spam = assessSpam({ name, message, website }, await countRecentContactMessages(email, ipAddress));
+		const waf = readWafVerdict(req);
+		
+		// Step 3: Store it.
+		await db.contactMessage.create({
+			data: {
+				userId: req.user?.id ?? null,
+				name,
+				email,
+				message,
+				spamScore: spam.score,
+				spamReasons: spam.reasons.join('\n'),
+				isSpam: spam.isSpam,
+				ipAddress,
+				userAgent: req.get('user-agent')?.slice(0, 500) ?? null,
+				wafAnomalyScore: waf.anomalyScore,
+				wafTransactionId: waf.transactionId
+			}
+		});
+		
+		// Step 4: Thank the sender.
+		res.status(202).json({ message: 'Thank you for your message. We will get back to you soon!' });
+	} catch (error) {
+		// Step 5: Handle errors.
+		console.error('Contact form error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
 });
 
-// Start the server
+// Build the product search index, start announcing live discounts to wishlists and deleting expired idempotency keys, then start the server
+await ensureSearchIndex().catch((error) => console.error('Search index error:', error));
+scheduleDiscountNotifications();
+scheduleIdempotencyKeyCleanup();
 app.listen(port, () => {
 	console.log(`AgriCommerce Backend API listening at http://localhost:${port}`);
+	printLabBanner();
 });
\ No newline at end of file
@@ -0,0 +1,358 @@
+/**
+ * @fileoverview Sales analytics for the admin dashboard.
+ * @module lib/analytics
+ * @description Builds sales reports from purchases and their items over a date range of whole UTC days (the last 30 days by default, at most `ANALYTICS_MAX_DAYS`): revenue, order count, and average order value per day, week (starting Monday), or month; the top products by units and by revenue; new versus returning customers; and how each discount performed. Only orders that were paid for and not cancelled or refunded (`PAID_ORDER_STATUSES`) count as sales, and every amount is what the order recorded at checkout (`totalCents`, `priceCentsAtPurchase`, the applied discount amounts). A customer is an account, or the email address of a guest order; a returning customer had a sale before the range.
+ * @dependencies ./db, ./orders
+ * @exports ANALYTICS_INTERVALS - The list of time series intervals.
+ * @exports AnalyticsInterval - Union type of the time series intervals.
+ * @exports ANALYTICS_DEFAULT_DAYS - The length of the default date range.
+ * @exports ANALYTICS_MAX_DAYS - The longest date range a report may cover.
+ * @exports AnalyticsRange - Interface for a resolved report date range.
+ * @exports resolveAnalyticsRange - Function to resolve the requested days into a date range.
+ * @exports salesOverTime - Function to report revenue, orders, and average order value over time.
+ * @exports topProducts - Function to report the best-selling products by units and by revenue.
+ * @exports customerBreakdown - Function to report new versus returning customers.
+ * @exports discountPerformance - Function to report how discounts performed.
+ * @author Gemini
+ * @lastModified 2026-10-19
+ */
+
+import { db } from './db.js';
+import { PAID_ORDER_STATUSES } from './orders.js';
+
+/**
+ * @constant {readonly string[]} ANALYTICS_INTERVALS - The time series intervals.
+ */
+export const ANALYTICS_INTERVALS = ['day', 'week', 'month'] as const;
+
+/**
+ * @typedef {typeof ANALYTICS_INTERVALS[number]} AnalyticsInterval - Union type of the time series intervals.
+ */
+export type AnalyticsInterval = (typeof ANALYTICS_INTERVALS)[number];
+
+/**
+ * @constant {number} ANALYTICS_DEFAULT_DAYS - The length of the default date range, ending today (30 days).
+ */
+export const ANALYTICS_DEFAULT_DAYS = 30;
+
+/**
+ * @constant {number} ANALYTICS_MAX_DAYS - The longest date range a report may cover (about two years).
+ */
+export const ANALYTICS_MAX_DAYS = 731;
+
+/**
+ * @constant {number} DAY_MS - One day in milliseconds.
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * @interface AnalyticsRange
+ * @description A report date range of whole UTC days.
+ * @property {string} from - The first day (`YYYY-MM-DD`).
+ * @property {string} to - The last day (`YYYY-MM-DD`).
+ * @property {Date} start - The start of the first day.
+ * @property {Date} end - The start of the day after the last day (exclusive).
+ */
+export interface AnalyticsRange {
+	from: string;
+	to: string;
+	start: Date;
+	end: Date;
+}
+
+/**
+ * @function day
+ * @description Formats a date as its UTC day.
+ * @param {Date} date - The date.
+ * @returns {string} The day (`YYYY-MM-DD`).
+ */
+function day(date: Date): string {
+	return date.toISOString().slice(0, 10);
+}
+
+/**
+ * @function resolveAnalyticsRange
+ * @description Resolves the requested days into a date range: `to` defaults to today and `from` to `ANALYTICS_DEFAULT_DAYS` days up to `to`.
+ * @param {string} [from] - The first day (`YYYY-MM-DD`).
+ * @param {string} [to] - The last day (`YYYY-MM-DD`).
+ * @param {Date} [now] - The current time.
+ * @returns {AnalyticsRange} The range.
+ */
+export function resolveAnalyticsRange(from?: string, to?: string, now: Date = new Date()): AnalyticsRange {
+	const toDay = to ?? day(now);
+	const end = new Date(Date.parse(`${toDay}T00:00:00Z`) + DAY_MS);
+	const fromDay = from ?? day(new Date(end.getTime() - ANALYTICS_DEFAULT_DAYS * DAY_MS));
+	return { from: fromDay, to: toDay, start: new Date(`${fromDay}T00:00:00Z`), end };
+}
+
+/**
+ * @function periodStart
+ * @description Finds the first day of the period a date falls in.
+ * @param {Date} date - The date.
+ * @param {AnalyticsInterval} interval - The interval.
+ * @returns {string} The first day of its day, week (Monday), or month (`YYYY-MM-DD`).
+ */
+function periodStart(date: Date, interval: AnalyticsInterval): string {
+	if (interval === 'month') {
+		return `${day(date).slice(0, 7)}-01`;
+	}
+	if (interval === 'week') {
+		const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+		return day(new Date(date.getTime() - daysSinceMonday * DAY_MS));
+	}
+	return day(date);
+}
+
+/**
+ * @function nextPeriod
+ * @description Finds the first day of the period after the one starting on a day.
+ * @param {string} start - The first day of a period (`YYYY-MM-DD`).
+ * @param {AnalyticsInterval} interval - The interval.
+ * @returns {string} The first day of the next period.
+ */
+function nextPeriod(start: string, interval: AnalyticsInterval): string {
+	const date = new Date(`${start}T00:00:00Z`);
+	if (interval === 'month') {
+		date.setUTCMonth(date.getUTCMonth() + 1);
+	} else {
+		date.setUTCDate(date.getUTCDate() + (interval === 'week' ? 7 : 1));
+	}
+	return day(date);
+}
+
+/**
+ * @function averageOf
+ * @description Divides a total by a count, rounding to whole cents.
+ * @param {number} totalCents - The total.
+ * @param {number} count - The count.
+ * @returns {number} The average, or 0 for a count of 0.
+ */
+function averageOf(totalCents: number, count: number): number {
+	return count ? Math.round(totalCents / count) : 0;
+}
+
+/**
+ * @function customerKey
+ * @description Identifies the customer of an order: its account, or the guest's email address.
+ * @param {{ userId: string | null; guestEmail: string | null }} order - The order.
+ * @returns {string | null} The key, or null if the order has neither.
+ */
+function customerKey(order: { userId: string | null; guestEmail: string | null }): string | null {
+	if (order.userId) return `user:${order.userId}`;
+	return order.guestEmail ? `guest:${order.guestEmail.toLowerCase()}` : null;
+}
+
+/**
+ * @function loadSales
+ * @description Loads the sales in a date range with their items and applied discounts.
+ * @param {AnalyticsRange} range - The range.
+ * @returns {Promise<object[]>} The orders, oldest first.
+ */
+function loadSales(range: AnalyticsRange) {
+	return db.purchase.findMany({
+		where: { status: { in: PAID_ORDER_STATUSES }, createdAt: { gte: range.start, lt: range.end } },
+		select: {
+			id: true, userId: true, guestEmail: true, subtotalCents: true, discountCents: true, totalCents: true, createdAt: true,
+			items: { select: { productId: true, quantity: true, priceCentsAtPurchase: true } },
+			discounts: { select: { discountId: true, title: true, code: true, percentOff: true, amountCents: true } }
+		},
+		orderBy: { createdAt: 'asc' }
+	});
+}
+
+/**
+ * @function salesOverTime
+ * @description Reports revenue, order count, and average order value for each period of a date range, and for the whole range. Periods without sales are included with zeros; the first and last periods may extend outside the range, but only count sales inside it.
+ * @param {AnalyticsRange} range - The range.
+ * @param {AnalyticsInterval} interval - The period length.
+ * @returns {Promise<object>} The series (`period` is the first day of each period) and the totals, including units sold.
+ *
+ * Steps:
+ *   1. Load the sales in the range.
+ *   2. Create an empty entry for every period the range touches.
+ *   3. Add each sale to its period and to the totals.
+ *   4. Compute the average order values.
+ */
+export async function salesOverTime(range: AnalyticsRange, interval: AnalyticsInterval) {
+	// Step 1: Load the sales.
+	const orders = await loadSales(range);
+
+	// Step 2: Empty periods.
+	const periods = new Map<string, { period: string; revenueCents: number; orderCount: number; averageOrderValueCents: number }>();
+	for (let period = periodStart(range.start, interval); period <= range.to; period = nextPeriod(period, interval)) {
+		periods.set(period, { period, revenueCents: 0, orderCount: 0, averageOrderValueCents: 0 });
+	}
+
+	// Step 3: Add up.
+	const totals = { revenueCents: 0, orderCount: 0, averageOrderValueCents: 0, unitsSold: 0 };
+	for (const order of orders) {
+		const entry = periods.get(periodStart(order.createdAt, interval));
+		if (entry) {
+			entry.revenueCents += order.totalCents;
+			entry.orderCount += 1;
+		}
+		totals.revenueCents += order.totalCents;
+		totals.orderCount += 1;
+		totals.unitsSold += order.items.reduce((units, item) => units + item.quantity, 0);
+	}
+
+	// Step 4: Averages.
+	const series = [...periods.values()].map((entry) => ({ ...entry, averageOrderValueCents: averageOf(entry.revenueCents, entry.orderCount) }));
+	totals.averageOrderValueCents = averageOf(totals.revenueCents, totals.orderCount);
+	return { series, totals };
+}
+
+/**
+ * @function topProducts
+ * @description Reports the best-selling products of a date range, by units sold and by revenue (line totals at their purchase prices, before order discounts).
+ * @param {AnalyticsRange} range - The range.
+ * @param {number} limit - How many products each list holds.
+ * @returns {Promise<object>} The two lists, each product with its units, revenue, and number of orders.
+ *
+ * Steps:
+ *   1. Load the sales in the range.
+ *   2. Add up each product's units, revenue, and orders.
+ *   3. Load the names of the products that make either list.
+ *   4. Return both lists, with ties broken by the other measure.
+ */
+export async function topProducts(range: AnalyticsRange, limit: number) {
+	// Step 1: Load the sales.
+	const orders = await loadSales(range);
+
+	// Step 2: Add up per product.
+	const stats = new Map<string, { productId: string; units: number; revenueCents: number; orderCount: number }>();
+	for (const order of orders) {
+		for (const item of order.items) {
+			const entry = stats.get(item.productId) ?? { productId: item.productId, units: 0, revenueCents: 0, orderCount: 0 };
+			entry.units += item.quantity;
+			entry.revenueCents += item.priceCentsAtPurchase * item.quantity;
+			entry.orderCount += 1;
+			stats.set(item.productId, entry);
+		}
+	}
+	const all = [...stats.values()];
+	const byUnits = [...all].sort((a, b) => b.units - a.units || b.revenueCents - a.revenueCents).slice(0, limit);
+	const byRevenue = [...all].sort((a, b) => b.revenueCents - a.revenueCents || b.units - a.units).slice(0, limit);
+
+	// Step 3: Name them.
+	const ids = [...new Set([...byUnits, ...byRevenue].map((entry) => entry.productId))];
+	const products = await db.product.findMany({ where: { id: { in: ids } }, select: { id: true, name: true, slug: true, archivedAt: true } });
+	const named = (entry: (typeof all)[number]) => {
+		const product = products.find((candidate) => candidate.id === entry.productId);
+		return { ...entry, name: product?.name ?? 'Unknown product', slug: product?.slug ?? null, archived: !!product?.archivedAt };
+	};
+
+	// Step 4: Return both lists.
+	return { byUnits: byUnits.map(named), byRevenue: byRevenue.map(named) };
+}
+
+/**
+ * @function customerBreakdown
+ * @description Reports how many of a date range's customers were new (their first sale is in the range) or returning (they had a sale before it), with the orders and revenue of each group. Guest orders are counted by email address.
+ * @param {AnalyticsRange} range - The range.
+ * @returns {Promise<object>} The new and returning groups, each with its customer, order, and revenue counts.
+ *
+ * Steps:
+ *   1. Load the sales in the range and group them by customer.
+ *   2. Find which of those customers had a sale before the range.
+ *   3. Add each customer's orders and revenue to the new or returning group.
+ */
+export async function customerBreakdown(range: AnalyticsRange) {
+	// Step 1: Group the sales by customer.
+	const orders = await loadSales(range);
+	const customers = new Map<string, { orderCount: number; revenueCents: number }>();
+	for (const order of orders) {
+		const key = customerKey(order);
+		if (!key) continue;
+		const entry = customers.get(key) ?? { orderCount: 0, revenueCents: 0 };
+		entry.orderCount += 1;
+		entry.revenueCents += order.totalCents;
+		customers.set(key, entry);
+	}
+
+	// Step 2: Earlier sales.
+	const userIds = orders.flatMap((order) => (order.userId ? [order.userId] : []));
+	const guestEmails = orders.flatMap((order) => (!order.userId && order.guestEmail ? [order.guestEmail] : []));
+	const earlier = await db.purchase.findMany({
+		where: {
+			status: { in: PAID_ORDER_STATUSES },
+			createdAt: { lt: range.start },
+			OR: [{ userId: { in: [...new Set(userIds)] } }, { userId: null, guestEmail: { in: [...new Set(guestEmails)] } }]
+		},
+		select: { userId: true, guestEmail: true },
+		distinct: ['userId', 'guestEmail']
+	});
+	const returning = new Set(earlier.map(customerKey));
+
+	// Step 3: Split.
+	const groups = {
+		new: { customers: 0, orderCount: 0, revenueCents: 0 },
+		returning: { customers: 0, orderCount: 0, revenueCents: 0 }
+	};
+	for (const [key, entry] of customers) {
+		const group = returning.has(key) ? groups.returning : groups.new;
+		group.customers += 1;
+		group.orderCount += entry.orderCount;
+		group.revenueCents += entry.revenueCents;
+	}
+	return groups;
+}
+
+/**
+ * @function discountPerformance
+ * @description Reports how discounts performed over a date range: for each discount, the orders that used it, the amount it took off, and the revenue and average value of those orders; and, overall, how orders with a discount compare to orders without.
+ * @param {AnalyticsRange} range - The range.
+ * @returns {Promise<object>} The discounts, most used first, and the comparison.
+ *
+ * Steps:
+ *   1. Load the sales in the range.
+ *   2. Add each applied discount to its discount's entry (discounts deleted since are grouped by title and code).
+ *   3. Add each order to the with-discount or without-discount group.
+ *   4. Compute the averages and sort the discounts.
+ */
+export async function discountPerformance(range: AnalyticsRange) {
+	// Step 1: Load the sales.
+	const orders = await loadSales(range);
+
+	// Step 2: Per discount.
+	const discounts = new Map<string, {
+		discountId: string | null; title: string; code: string | null; percentOff: number;
+		orderCount: number; discountCents: number; revenueCents: number; averageOrderValueCents: number;
+	}>();
+	const withDiscount = { orderCount: 0, revenueCents: 0, discountCents: 0, averageOrderValueCents: 0 };
+	const withoutDiscount = { orderCount: 0, revenueCents: 0, averageOrderValueCents: 0 };
+	for (const order of orders) {
+		for (const applied of order.discounts) {
+			const key = applied.discountId ?? `deleted:${applied.title}:${applied.code ?? ''}`;
+			const entry = discounts.get(key) ?? {
+				discountId: applied.discountId, title: applied.title, code: applied.code, percentOff: applied.percentOff,
+				orderCount: 0, discountCents: 0, revenueCents: 0, averageOrderValueCents: 0
+			};
+			entry.orderCount += 1;
+			entry.discountCents += applied.amountCents;
+			entry.revenueCents += order.totalCents;
+			discounts.set(key, entry);
+		}
+
+		// Step 3: With or without.
+		if (order.discounts.length) {
+			withDiscount.orderCount += 1;
+			withDiscount.revenueCents += order.totalCents;
+			withDiscount.discountCents += order.discountCents;
+		} else {
+			withoutDiscount.orderCount += 1;
+			withoutDiscount.revenueCents += order.totalCents;
+		}
+	}
+
+	// Step 4: Averages and order.
+	withDiscount.averageOrderValueCents = averageOf(withDiscount.revenueCents, withDiscount.orderCount);
+	withoutDiscount.averageOrderValueCents = averageOf(withoutDiscount.revenueCents, withoutDiscount.orderCount);
+	return {
+		discounts: [...discounts.values()]
+			.map((entry) => ({ ...entry, averageOrderValueCents: averageOf(entry.revenueCents, entry.orderCount) }))
+			.sort((a, b) => b.orderCount - a.orderCount || b.discountCents - a.discountCents),
+		withDiscount,
+		withoutDiscount
+	};
+}
@@ -0,0 +1,217 @@
+/**
+ * @fileoverview Personal API tokens for scripted clients.
+ * @module lib/apiTokens
+ * @description This module manages named personal access tokens that scripts (attack-replay scripts, the `test_ubuntu` container) send in an `Authorization: Bearer` header instead of signing in for a cookie. Only the SHA-256 hash of a token is stored (see `lib/tokens`). Each token carries scopes, and a request authenticated with a token may only reach the routes its scopes cover; everything else, including session and token management, is closed to tokens.
+ * @dependencies express, ./db, ./lab, ./roles, ./tokens
+ * @exports API_TOKEN_SCOPES - The list of all token scopes.
+ * @exports ApiTokenScope - Union type of all token scopes.
+ * @exports API_TOKEN_PREFIX - The prefix every token starts with.
+ * @exports MAX_API_TOKENS_PER_USER - The maximum number of tokens one user may hold.
+ * @exports SCOPE_ROLES - The roles a user needs to create a token with each scope.
+ * @exports toScopes - Function to parse a stored scope list.
+ * @exports readBearerToken - Function to read a token from the `Authorization` header.
+ * @exports createApiToken - Function to issue a new token.
+ * @exports findActiveApiToken - Function to look up the active token matching a presented value.
+ * @exports touchApiToken - Function to record token usage.
+ * @exports apiTokenScopes - Express middleware restricting token-authenticated requests to their scopes.
+ * @author Gemini
+ * @lastModified 2026-10-19
+ */
+
+import type { Request, Response, NextFunction } from 'express';
+import { db } from './db.js';
+import { LAB_ENDPOINTS } from './lab.js';
+import type { Role } from './roles.js';
+import { generateToken, hashToken } from './tokens.js';
+
+/**
+ * @constant {readonly string[]} API_TOKEN_SCOPES - All token scopes.
+ * - `products:read`: browse products and discounts.
+ * - `checkout`: add to the cart, manage saved addresses, check out (answering payment challenges), and list and cancel purchases.
+ * - `admin`: the `/api/admin/...` routes (the user must still hold the role each route requires).
+ * - `lab`: the lab endpoints and their registry listing.
+ */
+export const API_TOKEN_SCOPES = ['products:read', 'checkout', 'admin', 'lab'] as const;
+
+/**
+ * @typedef {typeof API_TOKEN_SCOPES[number]} ApiTokenScope - Union type of all token scopes.
+ */
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+/**
+ * @constant {string} API_TOKEN_PREFIX - Prefix of every token, so leaked tokens are easy to recognise and search for.
+ */
+export const API_TOKEN_PREFIX = 'agri_pat_';
+/**
+ * @constant {number} MAX_API_TOKENS_PER_USER - The maximum number of tokens one user may hold.
+ */
+export const MAX_API_TOKENS_PER_USER = 20;
+/**
+ * @constant {number} LAST_USED_RESOLUTION_MS - Minimum interval between `lastUsedAt` writes for one token (1 minute).
+ */
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * @constant {Record<ApiTokenScope, Role[] | null>} SCOPE_ROLES - The roles a user needs to create a token with each scope (null: any user).
+ */
+export const SCOPE_ROLES: Record<ApiTokenScope, Role[] | null> = {
+	'products:read': null,
+	checkout: null,
+	admin: ['admin'],
+	lab: ['admin', 'lab-instructor']
+};
+
+/**
+ * @interface ScopeRule
+ * @description Maps a group of routes to the scope a token needs to call them.
+ * @property {ApiTokenScope} scope - The scope required.
+ * @property {string} path - The route path, or the path prefix if it ends with `/`.
+ * @property {string[]} [methods] - The methods covered (all methods if omitted).
+ */
+interface ScopeRule {
+	scope: ApiTokenScope;
+	path: string;
+	methods?: string[];
+}
+
+/**
+ * @constant {ScopeRule[]} SCOPE_RULES - The routes open to tokens. A token-authenticated request matching none of them is rejected.
+ */
+const SCOPE_RULES: ScopeRule[] = [
+	{ scope: 'products:read', path: '/api/products', methods: ['GET'] },
+	{ scope: 'products:read', path: '/api/products/', methods: ['GET'] },
+	{ scope: 'products:read', path: '/api/discounts', methods: ['GET'] },
+	{ scope: 'checkout', path: '/api/cart' },
+	{ scope: 'checkout', path: '/api/cart/' },
+	{ scope: 'checkout', path: '/api/purchases', methods: ['GET'] },
+	{ scope: 'checkout', path: '/api/purchases/' },
+	{ scope: 'checkout', path: '/api/payments/' },
+	{ scope: 'checkout', path: '/api/delivery-methods', methods: ['GET'] },
+	{ scope: 'checkout', path: '/api/addresses' },
+	{ scope: 'checkout', path: '/api/addresses/' },
+	{ scope: 'admin', path: '/api/admin/' },
+	{ scope: 'lab', path: '/api/lab/' },
+	...LAB_ENDPOINTS.map((endpoint): ScopeRule => ({ scope: 'lab', path: endpoint.path }))
+];
+/**
+ * @constant {string[]} ANY_SCOPE_PATHS - Read-only routes any token may call (to check who it authenticates as).
+ */
+const ANY_SCOPE_PATHS = ['/api/me', '/api/health'];
+
+/**
+ * @function toScopes
+ * @description Parses the comma-separated scope list stored on a token, dropping unknown scopes.
+ * @param {string} value - The stored scope list.
+ * @returns {ApiTokenScope[]} The token's scopes.
+ */
+export function toScopes(value: string): ApiTokenScope[] {
+	return value.split(',').filter((scope): scope is ApiTokenScope => (API_TOKEN_SCOPES as readonly string[]).includes(scope));
+}
+
+/**
+ * @function readBearerToken
+ * @description Reads a token from an `Authorization: Bearer <token>` header.
+ * @param {Request} req - The Express request object.
+ * @returns {string | null} The token, or null if the header is missing or uses another scheme.
+ */
+export function readBearerToken(req: Request): string | null {
+	const match = /^Bearer\s+(\S+)$/i.exec(req.get('authorization') || '');
+	return match ? match[1] : null;
+}
+
+/**
+ * @function createApiToken
+ * @description Issues a new token for a user. The plain token is returned once and never stored.
+ * @param {string} userId - The ID of the user the token acts as.
+ * @param {string} name - A label chosen by the user.
+ * @param {ApiTokenScope[]} scopes - The scopes granted.
+ * @param {number} expiresInDays - How many days the token stays valid.
+ * @returns {Promise<{ token: string; apiToken: { id: string; name: string; tokenPrefix: string; scopes: string; expiresAt: Date; createdAt: Date } }>} The plain token and the stored record.
+ */
+export async function createApiToken(userId: string, name: string, scopes: ApiTokenScope[], expiresInDays: number) {
+	const token = API_TOKEN_PREFIX + generateToken();
+	const apiToken = await db.apiToken.create({
+		data: {
+			userId,
+			name,
+			tokenHash: hashToken(token),
+			tokenPrefix: token.slice(0, API_TOKEN_PREFIX.length + 4),
+			scopes: [...new Set(scopes)].join(','),
+			expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+		},
+		select: { id: true, name: true, tokenPrefix: true, scopes: true, expiresAt: true, createdAt: true }
+	});
+	return { token, apiToken };
+}
+
+/**
+ * @function findActiveApiToken
+ * @description Looks up the unexpired token matching a presented value, together with its user.
+ * @param {string} token - The token from the `Authorization` header.
+ * @returns {Promise<object | null>} The token record with its user, or null if it is unknown or expired.
+ */
+export async function findActiveApiToken(token: string) {
+	if (!token.startsWith(API_TOKEN_PREFIX)) return null;
+	const apiToken = await db.apiToken.findUnique({
+		where: { tokenHash: hashToken(token) },
+		select: {
+			id: true, scopes: true, expiresAt: true, lastUsedAt: true,
+			user: { select: { id: true, email: true, firstName: true, lastName: true, totpEnabledAt: true, roles: { select: { role: true } } } }
+		}
+	});
+	if (!apiToken || apiToken.expiresAt <= new Date()) return null;
+	return apiToken;
+}
+
+/**
+ * @function touchApiToken
+ * @description Records use of a token (last used time and IP). Writes are skipped if the token was used within the last minute.
+ * @param {{ id: string; lastUsedAt: Date | null }} apiToken - The token that was used.
+ * @param {Request} req - The request, used to record the client IP.
+ * @returns {Promise<void>}
+ */
+export async function touchApiToken(apiToken: { id: string; lastUsedAt: Date | null }, req: Request): Promise<void> {
+	if (apiToken.lastUsedAt && Date.now() - apiToken.lastUsedAt.getTime() < LAST_USED_RESOLUTION_MS) return;
+	await db.apiToken.update({
+		where: { id: apiToken.id },
+		data: { lastUsedAt: new Date(), lastUsedIp: req.ip || null }
+	});
+}
+
+/**
+ * @function apiTokenScopes
+ * @description Express middleware that limits requests authenticated with a personal API token to the routes their scopes cover.
+ * Requests authenticated with a session cookie, and anonymous requests, are not affected. Must be registered after `authMiddleware`.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @param {NextFunction} next - The next middleware function in the stack.
+ * @returns {void}
+ *
+ * Steps:
+ *   1. Skip requests not authenticated with a token, and the routes open to any token.
+ *   2. Find the rule covering the route; if none does, return 403 `TOKEN_NOT_ALLOWED`.
+ *   3. If the token lacks the rule's scope, return 403 `INSUFFICIENT_SCOPE`; otherwise continue.
+ */
+export function apiTokenScopes(req: Request, res: Response, next: NextFunction) {
+	// Step 1: Only token-authenticated requests are restricted.
+	const apiToken = req.user?.apiToken;
+	const method = req.method === 'HEAD' ? 'GET' : req.method;
+	if (!apiToken || (method === 'GET' && ANY_SCOPE_PATHS.includes(req.path))) {
+		return next();
+	}
+
+	// Step 2: Find the scope the route needs.
+	const rule = SCOPE_RULES.find((candidate) =>
+		(candidate.path.endsWith('/') ? req.path.startsWith(candidate.path) : req.path === candidate.path) &&
+		(!candidate.methods || candidate.methods.includes(method))
+	);
+	if (!rule) {
+		return res.status(403).json({ error: { code: 'TOKEN_NOT_ALLOWED', message: 'This endpoint cannot be used with a personal API token' } });
+	}
+
+	// Step 3: Check the token holds it.
+	if (!apiToken.scopes.includes(rule.scope)) {
+		return res.status(403).json({ error: { code: 'INSUFFICIENT_SCOPE', message: `This token needs the ${rule.scope} scope` } });
+	}
+	next();
+}
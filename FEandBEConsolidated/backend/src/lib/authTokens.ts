@@ -0,0 +1,140 @@
+/**
+ * @fileoverview Single-use, expiring tokens for password reset and email verification, and the emails that deliver them.
+ * @module lib/authTokens
+ * @description Tokens are random strings sent to the user by email; only their SHA-256 hash is stored in the `auth_tokens` table. Each token has a purpose, an expiry, and is marked as used when consumed, with a conditional update so it cannot be redeemed twice. Issuing a new token invalidates the user's earlier unused tokens for the same purpose, so only the latest email works.
+ * @dependencies ./db, ./mailer, ./tokens
+ * @exports AuthTokenPurpose - Union type of token purposes.
+ * @exports issueAuthToken - Function to create a token for a user.
+ * @exports consumeAuthToken - Function to redeem a token.
+ * @exports wasAuthTokenRecentlyIssued - Function to check whether a token was issued within the resend interval.
+ * @exports sendPasswordResetEmail - Function to issue and email a password reset token.
+ * @exports sendVerificationEmail - Function to issue and email an email verification token.
+ * @author Gemini
+ * @lastModified 2026-10-19
+ */
+
+import { db } from './db.js';
+import { getMailer, appUrl } from './mailer.js';
+import { generateToken, hashToken } from './tokens.js';
+
+/**
+ * @typedef {'password-reset' | 'email-verify'} AuthTokenPurpose - What a token can be used for.
+ */
+export type AuthTokenPurpose = 'password-reset' | 'email-verify';
+
+/**
+ * @constant {Record<AuthTokenPurpose, number>} TOKEN_TTL_MS - Lifetime of each kind of token: 1 hour for password reset, 24 hours for email verification.
+ */
+const TOKEN_TTL_MS: Record<AuthTokenPurpose, number> = {
+	'password-reset': 60 * 60 * 1000,
+	'email-verify': 24 * 60 * 60 * 1000
+};
+/**
+ * @constant {number} RESEND_INTERVAL_MS - Minimum time between two emails of the same kind to one user (1 minute), to stop the endpoints being used to flood an inbox.
+ */
+const RESEND_INTERVAL_MS = 60 * 1000;
+
+/**
+ * @function issueAuthToken
+ * @description Creates a token for a user, invalidating their earlier unused tokens with the same purpose.
+ * @param {string} userId - The user's ID.
+ * @param {AuthTokenPurpose} purpose - What the token is for.
+ * @returns {Promise<string>} The plain token, to be sent to the user.
+ *
+ * Steps:
+ *   1. Generate the token.
+ *   2. In a transaction, mark earlier unused tokens as used and store the new token's hash with its expiry.
+ */
+export async function issueAuthToken(userId: string, purpose: AuthTokenPurpose): Promise<string> {
+	// Step 1: Generate the token.
+	const token = generateToken();
+	// Step 2: Replace earlier tokens.
+	await db.$transaction([
+		db.authToken.updateMany({ where: { userId, purpose, usedAt: null }, data: { usedAt: new Date() } }),
+		db.authToken.create({
+			data: { userId, purpose, tokenHash: hashToken(token), expiresAt: new Date(Date.now() + TOKEN_TTL_MS[purpose]) }
+		})
+	]);
+	return token;
+}
+
+/**
+ * @function consumeAuthToken
+ * @description Redeems a token: checks its purpose and expiry and marks it as used.
+ * @param {string} token - The plain token from the link.
+ * @param {AuthTokenPurpose} purpose - The purpose the token must have.
+ * @returns {Promise<string | null>} The ID of the user the token belongs to, or null if it is unknown, expired, already used, or for another purpose.
+ */
+export async function consumeAuthToken(token: string, purpose: AuthTokenPurpose): Promise<string | null> {
+	const tokenHash = hashToken(token);
+	const { count } = await db.authToken.updateMany({
+		where: { tokenHash, purpose, usedAt: null, expiresAt: { gt: new Date() } },
+		data: { usedAt: new Date() }
+	});
+	if (count === 0) return null;
+	const row = await db.authToken.findUnique({ where: { tokenHash }, select: { userId: true } });
+	return row?.userId ?? null;
+}
+
+/**
+ * @function wasAuthTokenRecentlyIssued
+ * @description Checks whether a token with the given purpose was issued to the user within the resend interval.
+ * @param {string} userId - The user's ID.
+ * @param {AuthTokenPurpose} purpose - The token purpose.
+ * @returns {Promise<boolean>} True if another email should not be sent yet.
+ */
+export async function wasAuthTokenRecentlyIssued(userId: string, purpose: AuthTokenPurpose): Promise<boolean> {
+	const recent = await db.authToken.findFirst({
+		where: { userId, purpose, createdAt: { gt: new Date(Date.now() - RESEND_INTERVAL_MS) } },
+		select: { id: true }
+	});
+	return recent !== null;
+}
+
+/**
+ * @function sendPasswordResetEmail
+ * @description Issues a password reset token and emails the reset link.
+ * @param {{ id: string; email: string; firstName: string }} user - The user requesting the reset.
+ * @returns {Promise<void>}
+ */
+export async function sendPasswordResetEmail(user: { id: string; email: string; firstName: string }): Promise<void> {
+	const token = await issueAuthToken(user.id, 'password-reset');
+	const link = appUrl(`/auth/reset/${token}`);
+	await getMailer().send({
+		to: user.email,
+		subject: 'Reset your AgriCommerce password',
+		text: [
+			`Hi ${user.firstName},`,
+			'',
+			'Someone asked to reset the password for your AgriCommerce account. To choose a new password, open this link within the next hour:',
+			'',
+			link,
+			'',
+			'If you did not ask for this, you can ignore this email; your password has not been changed.'
+		].join('\n')
+	});
+}
+
+/**
+ * @function sendVerificationEmail
+ * @description Issues an email verification token and emails the confirmation link.
+ * @param {{ id: string; email: string; firstName: string }} user - The user whose address to verify.
+ * @returns {Promise<void>}
+ */
+export async function sendVerificationEmail(user: { id: string; email: string; firstName: string }): Promise<void> {
+	const token = await issueAuthToken(user.id, 'email-verify');
+	const link = appUrl(`/auth/verify/${token}`);
+	await getMailer().send({
+		to: user.email,
+		subject: 'Confirm your AgriCommerce email address',
+		text: [
+			`Hi ${user.firstName},`,
+			'',
+			'Please confirm your email address by opening this link within the next 24 hours:',
+			'',
+			link,
+			'',
+			'If you did not create an AgriCommerce account, you can ignore this email.'
+		].join('\n')
+	});
+}
@@ -0,0 +1,199 @@
+/**
+ * @fileoverview Server-side shopping carts for signed-in users and guests.
+ * @module lib/cart
+ * @description This module stores shopping carts in the `carts` and `cart_items` tables. A signed-in user has one cart, keyed by user ID. A guest's cart is identified by a random token in the HTTP-only `agri_cart` cookie; as with other tokens, only its SHA-256 hash is stored. When a guest signs in or signs up, their cart is merged into the user's cart and the cookie is cleared.
+ * @dependencies express, @prisma/client, ./db, ./sessions, ./tokens
+ * @exports CART_COOKIE_NAME - Name of the cookie identifying a guest cart.
+ * @exports MAX_CART_QUANTITY - The maximum quantity of one product in a cart.
+ * @exports CartView - Interface describing a cart as returned by the API.
+ * @exports findCartId - Function to find the cart of a request.
+ * @exports getOrCreateCartId - Function to find or create the cart of a request.
+ * @exports loadCartView - Function to load a cart with its items and totals.
+ * @exports addCartItem - Function to add a quantity of a product to a cart.
+ * @exports mergeGuestCart - Function to merge a guest cart into a user's cart on sign-in.
+ * @author Gemini
+ * @lastModified 2026-10-19
+ */
+
+import type { Request, Response } from 'express';
+import type { Prisma } from '@prisma/client';
+import { db } from './db.js';
+import { BASE_COOKIE_OPTIONS } from './sessions.js';
+import { generateToken, hashToken } from './tokens.js';
+
+/**
+ * @constant {string} CART_COOKIE_NAME - The name of the cookie identifying a guest cart.
+ */
+export const CART_COOKIE_NAME = 'agri_cart';
+/**
+ * @constant {number} MAX_CART_QUANTITY - The maximum quantity of one product in a cart.
+ */
+export const MAX_CART_QUANTITY = 99;
+/**
+ * @constant {number} GUEST_CART_TTL_MS - How long a guest cart cookie lasts (30 days).
+ */
+const GUEST_CART_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * @interface CartView
+ * @description A cart as returned by the cart endpoints.
+ * @property {string | null} id - The cart ID, or null if the request has no cart yet.
+ * @property {object[]} items - The items, each with `productId`, `name`, `priceCents`, `imageUrl`, `quantity`, and `lineTotalCents`.
+ * @property {number} itemCount - The total quantity of all items.
+ * @property {number} subtotalCents - The sum of all line totals, at current prices.
+ */
+export interface CartView {
+	id: string | null;
+	items: { productId: string; name: string; priceCents: number; imageUrl: string | null; quantity: number; lineTotalCents: number }[];
+	itemCount: number;
+	subtotalCents: number;
+}
+
+/**
+ * @function readGuestToken
+ * @description Reads the guest cart token from the request cookies.
+ * @param {Request} req - The Express request object.
+ * @returns {string | null} The token, or null if there is none.
+ */
+function readGuestToken(req: Request): string | null {
+	const token = req.cookies?.[CART_COOKIE_NAME];
+	return typeof token === 'string' && token ? token : null;
+}
+
+/**
+ * @function clearGuestCookie
+ * @description Clears the guest cart cookie.
+ * @param {Response} res - The Express response object.
+ * @returns {void}
+ */
+function clearGuestCookie(res: Response): void {
+	res.clearCookie(CART_COOKIE_NAME, { path: BASE_COOKIE_OPTIONS.path, domain: BASE_COOKIE_OPTIONS.domain });
+}
+
+/**
+ * @function findCartId
+ * @description Finds the cart of a request without creating one: the user's cart when signed in, otherwise the guest cart named by the cookie.
+ * @param {Request} req - The Express request object (after `authMiddleware`).
+ * @returns {Promise<string | null>} The cart ID, or null if the request has no cart.
+ */
+export async function findCartId(req: Request): Promise<string | null> {
+	if (req.user) {
+		const cart = await db.cart.findUnique({ where: { userId: req.user.id }, select: { id: true } });
+		return cart?.id ?? null;
+	}
+	const guestToken = readGuestToken(req);
+	if (!guestToken) return null;
+	const cart = await db.cart.findUnique({ where: { guestTokenHash: hashToken(guestToken) }, select: { id: true } });
+	return cart?.id ?? null;
+}
+
+/**
+ * @function getOrCreateCartId
+ * @description Finds the cart of a request, creating it if needed. A new guest cart also sets the `agri_cart` cookie.
+ * @param {Request} req - The Express request object (after `authMiddleware`).
+ * @param {Response} res - The Express response object, used to set the guest cookie.
+ * @returns {Promise<string>} The cart ID.
+ */
+export async function getOrCreateCartId(req: Request, res: Response): Promise<string> {
+	if (req.user) {
+		const cart = await db.cart.upsert({ where: { userId: req.user.id }, create: { userId: req.user.id }, update: {}, select: { id: true } });
+		return cart.id;
+	}
+	const existing = await findCartId(req);
+	if (existing) return existing;
+	const guestToken = generateToken();
+	const cart = await db.cart.create({ data: { guestTokenHash: hashToken(guestToken) }, select: { id: true } });
+	res.cookie(CART_COOKIE_NAME, guestToken, { ...BASE_COOKIE_OPTIONS, maxAge: GUEST_CART_TTL_MS });
+	return cart.id;
+}
+
+/**
+ * @function loadCartView
+ * @description Loads a cart's items with current product details and computes the totals.
+ * @param {string | null} cartId - The cart ID, or null for an empty cart.
+ * @returns {Promise<CartView>} The cart.
+ */
+export async function loadCartView(cartId: string | null): Promise<CartView> {
+	const rows = cartId
+		? await db.cartItem.findMany({
+			where: { cartId },
+			select: { quantity: true, product: { select: { id: true, name: true, priceCents: true, imageUrl: true } } },
+			orderBy: { createdAt: 'asc' }
+		})
+		: [];
+	const items = rows.map(({ quantity, product }) => ({
+		productId: product.id,
+		name: product.name,
+		priceCents: product.priceCents,
+		imageUrl: product.imageUrl,
+		quantity,
+		lineTotalCents: product.priceCents * quantity
+	}));
+	return {
+		id: cartId,
+		items,
+		itemCount: items.reduce((sum, item) => sum + item.quantity, 0),
+		subtotalCents: items.reduce((sum, item) => sum + item.lineTotalCents, 0)
+	};
+}
+
+/**
+ * @function addCartItem
+ * @description Adds a quantity of a product to a cart, on top of any quantity already there, capped at `MAX_CART_QUANTITY`.
+ * @param {string} cartId - The cart ID.
+ * @param {string} productId - The product ID.
+ * @param {number} quantity - The quantity to add.
+ * @param {Prisma.TransactionClient} [client=db] - The client to use, so the call can join a transaction.
+ * @returns {Promise<number>} The product's new quantity in the cart.
+ */
+export async function addCartItem(cartId: string, productId: string, quantity: number, client: Prisma.TransactionClient = db): Promise<number> {
+	const where = { cartId_productId: { cartId, productId } };
+	const existing = await client.cartItem.findUnique({ where, select: { quantity: true } });
+	const newQuantity = Math.min((existing?.quantity ?? 0) + quantity, MAX_CART_QUANTITY);
+	await client.cartItem.upsert({ where, create: { cartId, productId, quantity: newQuantity }, update: { quantity: newQuantity } });
+	return newQuantity;
+}
+
+/**
+ * @function mergeGuestCart
+ * @description Moves the items of the request's guest cart (if any) into a user's cart, adding quantities for products already there (capped at `MAX_CART_QUANTITY`), then deletes the guest cart and clears its cookie.
+ * Called on sign-in and sign-up. Failures are logged and never block signing in.
+ * @param {Request} req - The Express request object carrying the guest cookie.
+ * @param {Response} res - The Express response object, used to clear the cookie.
+ * @param {string} userId - The ID of the user who signed in.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Find the guest cart named by the cookie; if there is none, just clear the cookie.
+ *   2. In a transaction, add each item to the user's cart with `addCartItem()` and delete the guest cart.
+ *   3. Clear the cookie.
+ *   4. Catch and log any errors.
+ */
+export async function mergeGuestCart(req: Request, res: Response, userId: string): Promise<void> {
+	const guestToken = readGuestToken(req);
+	if (!guestToken) return;
+	try {
+		// Step 1: Find the guest cart.
+		const guestCart = await db.cart.findUnique({
+			where: { guestTokenHash: hashToken(guestToken) },
+			select: { id: true, items: { select: { productId: true, quantity: true } } }
+		});
+
+		// Step 2: Move its items into the user's cart.
+		if (guestCart) {
+			await db.$transaction(async (tx) => {
+				const userCart = await tx.cart.upsert({ where: { userId }, create: { userId }, update: {}, select: { id: true } });
+				for (const item of guestCart.items) {
+					await addCartItem(userCart.id, item.productId, item.quantity, tx);
+				}
+				await tx.cart.delete({ where: { id: guestCart.id } });
+			});
+		}
+
+		// Step 3: The guest cart is gone either way.
+		clearGuestCookie(res);
+	} catch (error) {
+		// Step 4: A failed merge must not fail the sign-in.
+		console.error('Merge guest cart error:', error);
+	}
+}
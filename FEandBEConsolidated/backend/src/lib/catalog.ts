@@ -0,0 +1,315 @@
+/**
+ * @fileoverview Product catalogue management, browsing filters, and facets.
+ * @module lib/catalog
+ * @description Admins create, edit, archive, and delete products. Every product has a unique URL `slug`: admins may choose one, otherwise it is generated from the product name, with a numeric suffix when the name is already taken. Archiving (setting `archivedAt`) takes a product off the store while keeping the row, so the purchases that reference it keep their item details; only products that were never ordered can be deleted outright.
+ * Products are filed under a category from a tree (each category may have a parent) and labelled with any number of tags. The store listing filters by search matches (see `./search`), category (including its subcategories), tags (any of them), and price range, sorts by relevance to the search, price, name, newest, or best-selling (the number of orders a product appears in), and returns facet counts. Each facet is counted with every filter applied except its own, so the sidebar shows what choosing another option would return.
+ * @dependencies @prisma/client, ./db
+ * @exports MAX_PRICE_CENTS - The highest price a product may have, in cents.
+ * @exports ADMIN_PRODUCT_SELECT - The product fields shown on the admin catalogue.
+ * @exports PRODUCT_LIST_SELECT - The product fields shown in store listings.
+ * @exports PRODUCT_SORTS - The list of product listing sort orders.
+ * @exports ProductSort - Union type of all product listing sort orders.
+ * @exports PRODUCT_ORDER_BY - The database ordering of each sort order.
+ * @exports ProductFilters - Interface for the filters of a product listing.
+ * @exports CategoryNode - Interface for a category in the category tree.
+ * @exports CategoryFacet - Interface for a category facet with its product count.
+ * @exports ProductFacets - Interface for the facet counts of a product listing.
+ * @exports slugify - Function to turn a name into a slug.
+ * @exports isSlugTaken - Function to check whether another product uses a slug.
+ * @exports generateUniqueSlug - Function to generate a free slug from a product name.
+ * @exports tagConnections - Function to link a product to tags by name, creating missing tags.
+ * @exports loadCategories - Function to load the category tree.
+ * @exports categoryWithDescendants - Function to list a category and all categories below it.
+ * @exports categoryAncestry - Function to list a category and all categories above it.
+ * @exports buildProductWhere - Function to build the database filter of a product listing.
+ * @exports loadProductFacets - Function to count the facets of a product listing.
+ * @author Gemini
+ * @lastModified 2026-10-19
+ */
+
+import type { Prisma } from '@prisma/client';
+import { db } from './db.js';
+
+/**
+ * @constant {number} MAX_PRICE_CENTS - The highest price a product may have, in cents ($100,000).
+ */
+export const MAX_PRICE_CENTS = 10_000_000;
+
+/**
+ * @constant {object} ADMIN_PRODUCT_SELECT - The product fields shown on the admin catalogue, including archived state, category, tags, and how many order lines reference the product.
+ */
+export const ADMIN_PRODUCT_SELECT = {
+	id: true, name: true, slug: true, summary: true, description: true, priceCents: true, imageUrl: true, stock: true, weightGrams: true,
+	categoryId: true, archivedAt: true, createdAt: true, updatedAt: true,
+	category: { select: { id: true, name: true, slug: true } },
+	tags: { select: { name: true, slug: true }, orderBy: { name: 'asc' } },
+	_count: { select: { purchaseItems: true } }
+} satisfies Prisma.ProductSelect;
+
+/**
+ * @constant {object} PRODUCT_LIST_SELECT - The product fields shown in store listings, including category and tags.
+ */
+export const PRODUCT_LIST_SELECT = {
+	id: true, name: true, slug: true, summary: true, priceCents: true, imageUrl: true, stock: true, createdAt: true,
+	category: { select: { id: true, name: true, slug: true } },
+	tags: { select: { name: true, slug: true }, orderBy: { name: 'asc' } }
+} satisfies Prisma.ProductSelect;
+
+/**
+ * @constant {readonly string[]} PRODUCT_SORTS - All product listing sort orders; `relevance` is the default when searching, `newest` otherwise.
+ */
+export const PRODUCT_SORTS = ['relevance', 'newest', 'price-asc', 'price-desc', 'name-asc', 'name-desc', 'best-selling'] as const;
+
+/**
+ * @typedef {typeof PRODUCT_SORTS[number]} ProductSort - Union type of all product listing sort orders.
+ */
+export type ProductSort = (typeof PRODUCT_SORTS)[number];
+
+/**
+ * @constant {Record<ProductSort, object[]>} PRODUCT_ORDER_BY - The database ordering of each sort order, with a tie-breaker so pages do not overlap. Relevance is ordered by search rank instead; without search text it falls back to newest first.
+ */
+export const PRODUCT_ORDER_BY: Record<ProductSort, Prisma.ProductOrderByWithRelationInput[]> = {
+	relevance: [{ createdAt: 'desc' }, { id: 'asc' }],
+	newest: [{ createdAt: 'desc' }, { id: 'asc' }],
+	'price-asc': [{ priceCents: 'asc' }, { name: 'asc' }],
+	'price-desc': [{ priceCents: 'desc' }, { name: 'asc' }],
+	'name-asc': [{ name: 'asc' }, { id: 'asc' }],
+	'name-desc': [{ name: 'desc' }, { id: 'asc' }],
+	'best-selling': [{ purchaseItems: { _count: 'desc' } }, { name: 'asc' }]
+};
+
+/**
+ * @interface ProductFilters
+ * @description The filters of a product listing. Archived products are always left out.
+ * @property {string[]} [productIds] - The products to include, if searching: the search matches.
+ * @property {string[]} [categoryIds] - The categories to include (a category and its subcategories), if filtering by category.
+ * @property {string[]} [tags] - Tag slugs; products with any of them match.
+ * @property {number} [minPriceCents] - The lowest price, inclusive.
+ * @property {number} [maxPriceCents] - The highest price, inclusive.
+ */
+export interface ProductFilters {
+	productIds?: string[];
+	categoryIds?: string[];
+	tags?: string[];
+	minPriceCents?: number;
+	maxPriceCents?: number;
+}
+
+/**
+ * @interface CategoryNode
+ * @description A category in the category tree.
+ * @property {string} id - The category ID.
+ * @property {string} name - The category name.
+ * @property {string} slug - The category slug.
+ * @property {string | null} parentId - The parent category, or null at the top level.
+ */
+export interface CategoryNode {
+	id: string;
+	name: string;
+	slug: string;
+	parentId: string | null;
+}
+
+/**
+ * @interface CategoryFacet
+ * @description A category with the number of matching products in it and its subcategories.
+ * @property {string} id - The category ID.
+ * @property {string} name - The category name.
+ * @property {string} slug - The category slug.
+ * @property {number} count - The number of matching products.
+ * @property {CategoryFacet[]} children - The subcategories.
+ */
+export interface CategoryFacet {
+	id: string;
+	name: string;
+	slug: string;
+	count: number;
+	children: CategoryFacet[];
+}
+
+/**
+ * @interface ProductFacets
+ * @description The facet counts returned with a product listing.
+ * @property {CategoryFacet[]} categories - The category tree with counts.
+ * @property {{ slug: string; name: string; count: number }[]} tags - The tags with matching products (and any tag filtered on).
+ * @property {{ minCents: number | null; maxCents: number | null }} price - The price range of the matching products.
+ */
+export interface ProductFacets {
+	categories: CategoryFacet[];
+	tags: { slug: string; name: string; count: number }[];
+	price: { minCents: number | null; maxCents: number | null };
+}
+
+/**
+ * @constant {number} MAX_SLUG_LENGTH - The longest generated slug, before any numeric suffix.
+ */
+const MAX_SLUG_LENGTH = 80;
+
+/**
+ * @function slugify
+ * @description Turns the name of a product, category, or tag into a slug: lower case ASCII letters and digits separated by single hyphens.
+ * @param {string} text - The name.
+ * @returns {string} The slug, or `product` if the name contains no usable characters.
+ */
+export function slugify(text: string): string {
+	const slug = text
+		.normalize('NFKD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, '-')
+		.slice(0, MAX_SLUG_LENGTH)
+		.replace(/^-+|-+$/g, '');
+	return slug || 'product';
+}
+
+/**
+ * @function isSlugTaken
+ * @description Checks whether a slug is used by a product other than the one being edited. Archived products keep their slugs, so they count.
+ * @param {string} slug - The slug.
+ * @param {string} [excludeId] - The product being edited, if any.
+ * @returns {Promise<boolean>} True if another product uses it.
+ */
+export async function isSlugTaken(slug: string, excludeId?: string): Promise<boolean> {
+	const product = await db.product.findUnique({ where: { slug }, select: { id: true } });
+	return !!product && product.id !== excludeId;
+}
+
+/**
+ * @function generateUniqueSlug
+ * @description Generates a free slug from a product name, appending `-2`, `-3`, and so on until none of the products uses it.
+ * @param {string} name - The product name.
+ * @param {string} [excludeId] - The product being edited, if any.
+ * @returns {Promise<string>} The slug.
+ */
+export async function generateUniqueSlug(name: string, excludeId?: string): Promise<string> {
+	const base = slugify(name);
+	const taken = new Set(
+		(await db.product.findMany({
+			where: { OR: [{ slug: base }, { slug: { startsWith: `${base}-` } }], ...(excludeId ? { id: { not: excludeId } } : {}) },
+			select: { slug: true }
+		})).map((product) => product.slug)
+	);
+	let slug = base;
+	for (let suffix = 2; taken.has(slug); suffix++) {
+		slug = `${base}-${suffix}`;
+	}
+	return slug;
+}
+
+
+/**
+ * @function tagConnections
+ * @description Links a product to tags by name: tags are matched by slug, and missing ones are created. Names that give the same slug count once.
+ * @param {string[]} names - The tag names.
+ * @returns {object[]} The `connectOrCreate` entries for the product's `tags` relation.
+ */
+export function tagConnections(names: string[]): Prisma.TagCreateOrConnectWithoutProductsInput[] {
+	const bySlug = new Map(names.map((name) => [slugify(name), name.trim()]));
+	return [...bySlug].map(([slug, name]) => ({ where: { slug }, create: { name, slug } }));
+}
+
+/**
+ * @function loadCategories
+ * @description Loads every category, by name. The table is small, so the tree is walked in memory.
+ * @returns {Promise<CategoryNode[]>} The categories.
+ */
+export async function loadCategories(): Promise<CategoryNode[]> {
+	return db.category.findMany({ select: { id: true, name: true, slug: true, parentId: true }, orderBy: { name: 'asc' } });
+}
+
+/**
+ * @function categoryWithDescendants
+ * @description Lists a category and every category below it.
+ * @param {CategoryNode[]} categories - All categories.
+ * @param {string} rootId - The category.
+ * @returns {string[]} The category IDs, the category itself first.
+ */
+export function categoryWithDescendants(categories: CategoryNode[], rootId: string): string[] {
+	const ids = [rootId];
+	for (let i = 0; i < ids.length; i++) {
+		for (const category of categories) {
+			if (category.parentId === ids[i] && !ids.includes(category.id)) ids.push(category.id);
+		}
+	}
+	return ids;
+}
+
+/**
+ * @function categoryAncestry
+ * @description Lists a category and every category above it.
+ * @param {CategoryNode[]} categories - All categories.
+ * @param {string} categoryId - The category.
+ * @returns {string[]} The category IDs, from the category itself up to the top level.
+ */
+export function categoryAncestry(categories: CategoryNode[], categoryId: string): string[] {
+	const parentOf = new Map(categories.map((category) => [category.id, category.parentId]));
+	const ids: string[] = [];
+	for (let id: string | null | undefined = categoryId; id && !ids.includes(id); id = parentOf.get(id)) {
+		ids.push(id);
+	}
+	return ids;
+}
+
+/**
+ * @function buildProductWhere
+ * @description Builds the database filter of a product listing, optionally leaving one filter out (to count that filter's facet).
+ * @param {ProductFilters} filters - The listing filters.
+ * @param {'category' | 'tag' | 'price'} [except] - The filter to leave out.
+ * @returns {Prisma.ProductWhereInput} The filter.
+ */
+export function buildProductWhere(filters: ProductFilters, except?: 'category' | 'tag' | 'price'): Prisma.ProductWhereInput {
+	const { productIds, categoryIds, tags, minPriceCents, maxPriceCents } = filters;
+	return {
+		archivedAt: null,
+		...(productIds ? { id: { in: productIds } } : {}),
+		...(except !== 'category' && categoryIds ? { categoryId: { in: categoryIds } } : {}),
+		...(except !== 'tag' && tags?.length ? { tags: { some: { slug: { in: tags } } } } : {}),
+		...(except !== 'price' && (minPriceCents !== undefined || maxPriceCents !== undefined)
+			? { priceCents: { gte: minPriceCents, lte: maxPriceCents } }
+			: {})
+	};
+}
+
+/**
+ * @function loadProductFacets
+ * @description Counts the facets of a product listing. Each facet is counted with the other filters applied but not its own.
+ * @param {ProductFilters} filters - The listing filters.
+ * @param {CategoryNode[]} categories - All categories.
+ * @returns {Promise<ProductFacets>} The facets.
+ *
+ * Steps:
+ *   1. Count matching products per category, per tag, and find their price range, in parallel.
+ *   2. Build the category tree, adding each subcategory's count to its parents.
+ *   3. Keep the tags that have matching products or are filtered on.
+ */
+export async function loadProductFacets(filters: ProductFilters, categories: CategoryNode[]): Promise<ProductFacets> {
+	// Step 1: Count.
+	const [categoryCounts, tags, price] = await Promise.all([
+		db.product.groupBy({ by: ['categoryId'], where: buildProductWhere(filters, 'category'), _count: { _all: true } }),
+		db.tag.findMany({
+			select: { name: true, slug: true, _count: { select: { products: { where: buildProductWhere(filters, 'tag') } } } },
+			orderBy: { name: 'asc' }
+		}),
+		db.product.aggregate({ where: buildProductWhere(filters, 'price'), _min: { priceCents: true }, _max: { priceCents: true } })
+	]);
+
+	// Step 2: Category tree.
+	const direct = new Map(categoryCounts.map((row) => [row.categoryId, row._count._all]));
+	const toFacet = (category: CategoryNode, seen: Set<string>): CategoryFacet => {
+		seen.add(category.id);
+		const children = categories
+			.filter((child) => child.parentId === category.id && !seen.has(child.id))
+			.map((child) => toFacet(child, seen));
+		const count = (direct.get(category.id) ?? 0) + children.reduce((sum, child) => sum + child.count, 0);
+		return { id: category.id, name: category.name, slug: category.slug, count, children };
+	};
+
+	// Step 3: Tags.
+	return {
+		categories: categories.filter((category) => !category.parentId).map((category) => toFacet(category, new Set())),
+		tags: tags
+			.map((tag) => ({ slug: tag.slug, name: tag.name, count: tag._count.products }))
+			.filter((tag) => tag.count > 0 || filters.tags?.includes(tag.slug)),
+		price: { minCents: price._min.priceCents, maxCents: price._max.priceCents }
+	};
+}
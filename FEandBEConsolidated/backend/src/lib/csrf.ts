@@ -0,0 +1,108 @@
+/**
+ * @fileoverview CSRF protection for cookie-authenticated, state-changing requests.
+ * @module lib/csrf
+ * @description This module implements session-bound CSRF tokens. The token for a session is an HMAC of its session ID, so it needs no storage and changes whenever the user signs in again. It is issued in the readable `agri_csrf` cookie alongside the auth cookies (see `lib/sessions`) and must be echoed back in the `X-CSRF-Token` header on every POST/PUT/PATCH/DELETE that carries a session. A cross-site page can make the browser send the cookies but cannot read them, so it cannot supply the header.
+ * @dependencies crypto, express, ./jwt, ./lab
+ * @exports CSRF_COOKIE_NAME - Name of the cookie carrying the CSRF token.
+ * @exports CSRF_HEADER_NAME - Name of the request header that must echo the token.
+ * @exports csrfTokenFor - Function to derive the CSRF token of a session.
+ * @exports csrfProtection - Express middleware rejecting state-changing requests without a valid token.
+ * @author Gemini
+ * @lastModified 2026-10-19
+ */
+
+import crypto from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+import { getRefreshCookieName } from './jwt.js';
+import { LAB_ENDPOINTS } from './lab.js';
+
+/**
+ * @constant {string} CSRF_COOKIE_NAME - The name of the cookie carrying the CSRF token. Not HTTP-only, so the frontend can read it.
+ */
+export const CSRF_COOKIE_NAME = 'agri_csrf';
+/**
+ * @constant {string} CSRF_HEADER_NAME - The request header that must carry the CSRF token.
+ */
+export const CSRF_HEADER_NAME = 'x-csrf-token';
+/**
+ * @constant {Set<string>} SAFE_METHODS - Methods that must not change state and are never checked.
+ */
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+/**
+ * @constant {string[]} EXEMPT_PATHS - Routes that are not checked:
+ * the pre-authentication endpoints (which do not act on an existing session), the refresh endpoint (which only re-issues the caller's own cookies, including the CSRF cookie for sessions created before it existed),
+ * and the intentionally vulnerable lab endpoints from the `lib/lab` registry.
+ */
+const EXEMPT_PATHS = [
+	'/api/auth/sign-in',
+	'/api/auth/sign-in/2fa',
+	'/api/auth/sign-up',
+	'/api/auth/refresh',
+	'/api/auth/forgot-password',
+	'/api/auth/reset-password',
+	'/api/auth/verify-email',
+	...LAB_ENDPOINTS.map((endpoint) => endpoint.path)
+];
+
+/**
+ * @function csrfTokenFor
+ * @description Derives the CSRF token of a session.
+ * @param {string} sessionId - The session ID.
+ * @returns {string} The base64url HMAC-SHA256 of the session ID under `JWT_SECRET`.
+ */
+export function csrfTokenFor(sessionId: string): string {
+	return crypto.createHmac('sha256', process.env.JWT_SECRET!).update(`csrf:${sessionId}`).digest('base64url');
+}
+
+/**
+ * @function requestSessionId
+ * @description Finds the session a request acts on: the one its access token was verified against, or, if the access token has expired, the one named in its refresh cookie.
+ * @param {Request} req - The Express request object (after `authMiddleware`).
+ * @returns {string | null} The session ID, or null if the request carries no session.
+ */
+function requestSessionId(req: Request): string | null {
+	if (req.user?.sessionId) return req.user.sessionId;
+	const refreshToken = req.cookies?.[getRefreshCookieName()];
+	if (typeof refreshToken === 'string' && refreshToken.includes('.')) return refreshToken.split('.')[0];
+	return null;
+}
+
+/**
+ * @function csrfProtection
+ * @description Express middleware that rejects state-changing requests carrying a session but no valid CSRF token, with 403 `CSRF_FAILED`.
+ * Must be registered after `authMiddleware`.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @param {NextFunction} next - The next middleware function in the stack.
+ * @returns {void}
+ *
+ * Steps:
+ *   1. Skip safe methods, exempt routes, and requests authenticated with a personal API token (which ignore cookies, so cannot be forged by a cross-site page).
+ *   2. Find the session the request acts on; requests without one are anonymous and are not checked.
+ *   3. Compare the `X-CSRF-Token` header with the session's token in constant time.
+ *   4. On mismatch, return 403 `CSRF_FAILED`; otherwise continue.
+ */
+export function csrfProtection(req: Request, res: Response, next: NextFunction) {
+	// Step 1: Only state-changing, non-exempt requests are checked.
+	if (SAFE_METHODS.has(req.method) || EXEMPT_PATHS.includes(req.path) || req.user?.apiToken) {
+		return next();
+	}
+
+	// Step 2: Anonymous requests have nothing to forge.
+	const sessionId = requestSessionId(req);
+	if (!sessionId) {
+		return next();
+	}
+
+	// Step 3: Check the header.
+	const expected = Buffer.from(csrfTokenFor(sessionId));
+	const provided = Buffer.from(String(req.get(CSRF_HEADER_NAME) || ''));
+	if (provided.length === expected.length && crypto.timingSafeEqual(provided, expected)) {
+		return next();
+	}
+
+	// Step 4: Reject.
+	return res.status(403).json({
+		error: { code: 'CSRF_FAILED', message: `Missing or invalid CSRF token; send the ${CSRF_COOKIE_NAME} cookie value in the X-CSRF-Token header` }
+	});
+}
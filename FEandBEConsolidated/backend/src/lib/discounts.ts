@@ -0,0 +1,275 @@
+/**
+ * @fileoverview Discount and promo code pricing for orders.
+ * @module lib/discounts
+ * @description A discount takes `percentOff` off the items it covers. Without a `code` it applies automatically; with one it is a promo code the customer enters at checkout. A discount with products or categories attached only covers those items (a category covers its subcategories too), otherwise it covers the whole order. It can also require a minimum order subtotal and limit its uses, in total (`maxUses`, counted in `usedCount`) and per user (`maxUsesPerUser`, counted from past purchases that were not cancelled or refunded).
+ * Stacking: all eligible `stackable` discounts combine, while a non-stackable discount is only ever applied alone. The order gets whichever combination saves the most; when the customer enters a valid promo code, only combinations that include it are considered.
+ * @dependencies @prisma/client, ./catalog, ./db
+ * @exports PricingLine - Interface for an order line to be priced.
+ * @exports AppliedDiscount - Interface for a discount line of an order.
+ * @exports PriceBreakdown - Interface for the priced order.
+ * @exports DiscountUnavailableError - Error thrown when a discount runs out of uses while an order is placed.
+ * @exports normalizePromoCode - Function to normalize a promo code as entered.
+ * @exports formatCents - Function to format an amount in dollars for a message.
+ * @exports priceOrder - Function to price an order with its discounts.
+ * @exports claimDiscounts - Function to count the discounts of an order against their usage limits.
+ * @exports releaseDiscounts - Function to give back the discount uses of an order that was cancelled or refunded.
+ * @author Gemini
+ * @lastModified 2026-10-19
+ */
+
+import type { Prisma } from '@prisma/client';
+import { categoryAncestry, loadCategories } from './catalog.js';
+import { db } from './db.js';
+
+/**
+ * @interface PricingLine
+ * @description An order line to be priced.
+ * @property {string} productId - The product ID.
+ * @property {number} quantity - The quantity ordered.
+ * @property {number} unitPriceCents - The current unit price.
+ */
+export interface PricingLine {
+	productId: string;
+	quantity: number;
+	unitPriceCents: number;
+}
+
+/**
+ * @interface AppliedDiscount
+ * @description A discount line of an order.
+ * @property {string} discountId - The discount ID.
+ * @property {string} title - The discount title.
+ * @property {string | null} code - The promo code, for code discounts.
+ * @property {number} percentOff - The percentage taken off the covered items.
+ * @property {number} amountCents - The amount saved.
+ */
+export interface AppliedDiscount {
+	discountId: string;
+	title: string;
+	code: string | null;
+	percentOff: number;
+	amountCents: number;
+}
+
+/**
+ * @interface PriceBreakdown
+ * @description An order's subtotal, discount lines, and total.
+ * @property {number} subtotalCents - The sum of all lines at current prices.
+ * @property {AppliedDiscount[]} discounts - The discounts applied, largest first.
+ * @property {number} discountCents - The total saved.
+ * @property {number} totalCents - The amount to pay.
+ * @property {string | null} promoCode - The promo code applied, if any.
+ * @property {string | null} promoCodeError - Why the promo code entered could not be applied, if it could not.
+ */
+export interface PriceBreakdown {
+	subtotalCents: number;
+	discounts: AppliedDiscount[];
+	discountCents: number;
+	totalCents: number;
+	promoCode: string | null;
+	promoCodeError: string | null;
+}
+
+/**
+ * @class DiscountUnavailableError
+ * @description Thrown by `claimDiscounts()` inside a transaction when a discount reached its usage limit (in total or for the customer) after the order was priced, so that the transaction rolls back.
+ * @property {string} title - The title of the discount concerned.
+ */
+export class DiscountUnavailableError extends Error {
+	title: string;
+
+	constructor(title: string, message = `The discount "${title}" is no longer available`) {
+		super(message);
+		this.name = 'DiscountUnavailableError';
+		this.title = title;
+	}
+}
+
+/**
+ * @function normalizePromoCode
+ * @description Normalizes a promo code as entered: codes are stored in upper case without surrounding spaces.
+ * @param {unknown} value - The code as entered.
+ * @returns {string | null} The normalized code, or null if none was entered.
+ */
+export function normalizePromoCode(value: unknown): string | null {
+	if (typeof value !== 'string') return null;
+	const code = value.trim().toUpperCase();
+	return code || null;
+}
+
+/**
+ * @function formatCents
+ * @description Formats an amount for a message.
+ * @param {number} cents - The amount in cents.
+ * @returns {string} The amount in dollars.
+ */
+export function formatCents(cents: number): string {
+	return `$${(cents / 100).toFixed(2)}`;
+}
+
+/**
+ * @function priceOrder
+ * @description Prices an order: computes its subtotal, picks the discounts that apply (see the module description for the stacking rules), and computes the total.
+ * @param {PricingLine[]} lines - The order lines (one per product).
+ * @param {{ promoCode?: string | null; userId?: string | null }} options - The promo code entered (normalized), and the user placing the order (null for guests).
+ * @returns {Promise<PriceBreakdown>} The breakdown. If the promo code cannot be applied, the order is priced without it and `promoCodeError` says why.
+ *
+ * Steps:
+ *   1. Compute the subtotal and look up each product's category and the categories above it.
+ *   2. Load the live discounts: active, within their dates, and either automatic or matching the promo code.
+ *   3. Work out which of them the order qualifies for and how much each saves, keeping the reason a promo code does not qualify.
+ *   4. Pick the best combination allowed by the stacking rules.
+ *   5. Cap the savings at the subtotal and return the breakdown.
+ */
+export async function priceOrder(lines: PricingLine[], options: { promoCode?: string | null; userId?: string | null }): Promise<PriceBreakdown> {
+	const promoCode = options.promoCode ?? null;
+	const userId = options.userId ?? null;
+
+	// Step 1: Subtotal and categories.
+	const subtotalCents = lines.reduce((sum, line) => sum + line.unitPriceCents * line.quantity, 0);
+	const [products, categories] = await Promise.all([
+		db.product.findMany({
+			where: { id: { in: lines.map((line) => line.productId) } },
+			select: { id: true, categoryId: true }
+		}),
+		loadCategories()
+	]);
+	const categoriesOf = new Map(products.map((product) => [product.id, product.categoryId ? categoryAncestry(categories, product.categoryId) : []]));
+
+	// Step 2: Live discounts.
+	const now = new Date();
+	const candidates = await db.discount.findMany({
+		where: {
+			active: true,
+			startsAt: { lte: now },
+			endsAt: { gte: now },
+			OR: [{ code: null }, ...(promoCode ? [{ code: promoCode }] : [])]
+		},
+		select: {
+			id: true, title: true, code: true, percentOff: true, minSubtotalCents: true,
+			maxUses: true, maxUsesPerUser: true, usedCount: true, stackable: true,
+			products: { select: { id: true } },
+			categories: { select: { id: true } }
+		}
+	});
+	let promoCodeError = promoCode && !candidates.some((discount) => discount.code === promoCode)
+		? 'This promo code is not valid'
+		: null;
+
+	// Step 3: Qualifying discounts.
+	const eligible: (AppliedDiscount & { stackable: boolean })[] = [];
+	for (const discount of candidates) {
+		let problem: string | null = null;
+		const productIds = new Set(discount.products.map((product) => product.id));
+		const categoryIds = new Set(discount.categories.map((category) => category.id));
+		const scoped = productIds.size > 0 || categoryIds.size > 0;
+		const coveredCents = lines
+			.filter((line) => !scoped || productIds.has(line.productId) || (categoriesOf.get(line.productId) ?? []).some((id) => categoryIds.has(id)))
+			.reduce((sum, line) => sum + line.unitPriceCents * line.quantity, 0);
+
+		if (discount.maxUses !== null && discount.usedCount >= discount.maxUses) {
+			problem = 'This promo code has been fully redeemed';
+		} else if (discount.maxUsesPerUser !== null && !userId) {
+			problem = 'Sign in to use this promo code';
+		} else if (discount.maxUsesPerUser !== null && userId) {
+			const uses = await db.purchaseDiscount.count({
+				where: { discountId: discount.id, purchase: { userId, status: { notIn: ['cancelled', 'refunded'] } } }
+			});
+			if (uses >= discount.maxUsesPerUser) problem = 'You have already used this promo code';
+		}
+		if (!problem && subtotalCents < discount.minSubtotalCents) {
+			problem = `Spend at least ${formatCents(discount.minSubtotalCents)} to use this promo code`;
+		} else if (!problem && coveredCents === 0) {
+			problem = 'This promo code does not apply to the items in your cart';
+		}
+
+		if (problem) {
+			if (discount.code) promoCodeError = problem;
+			continue;
+		}
+		eligible.push({
+			discountId: discount.id,
+			title: discount.title,
+			code: discount.code,
+			percentOff: discount.percentOff,
+			amountCents: Math.floor((coveredCents * discount.percentOff) / 100),
+			stackable: discount.stackable
+		});
+	}
+
+	// Step 4: Best allowed combination.
+	const combinations = [eligible.filter((discount) => discount.stackable), ...eligible.filter((discount) => !discount.stackable).map((discount) => [discount])]
+		.filter((combination) => combination.length > 0)
+		.filter((combination) => !promoCode || promoCodeError || combination.some((discount) => discount.code === promoCode));
+	const savings = (combination: AppliedDiscount[]) => combination.reduce((sum, discount) => sum + discount.amountCents, 0);
+	const best = combinations.reduce<AppliedDiscount[]>((chosen, combination) => (savings(combination) > savings(chosen) ? combination : chosen), []);
+
+	// Step 5: Never discount below zero.
+	let remaining = subtotalCents;
+	const discounts = [...best]
+		.sort((a, b) => b.amountCents - a.amountCents)
+		.map(({ discountId, title, code, percentOff, amountCents }) => {
+			const amount = Math.min(amountCents, remaining);
+			remaining -= amount;
+			return { discountId, title, code, percentOff, amountCents: amount };
+		});
+	const discountCents = subtotalCents - remaining;
+	return {
+		subtotalCents,
+		discounts,
+		discountCents,
+		totalCents: remaining,
+		promoCode: promoCodeError ? null : promoCode,
+		promoCodeError
+	};
+}
+
+/**
+ * @function claimDiscounts
+ * @description Counts the discounts of an order against their usage limits. Must run inside the transaction that creates the order, before the order is created; the increment only applies while uses remain, so concurrent orders cannot exceed `maxUses`.
+ * The increment also locks the discount until the transaction ends, so the customer's earlier uses, counted next against `maxUsesPerUser`, include any order placed concurrently with another checkout.
+ * @param {Prisma.TransactionClient} tx - The transaction client.
+ * @param {AppliedDiscount[]} discounts - The discounts applied to the order.
+ * @param {string | null} userId - The customer placing the order, or null for a guest.
+ * @returns {Promise<void>}
+ * @throws {DiscountUnavailableError} If a discount has run out of uses, in total or for the customer; the caller's transaction then rolls back.
+ */
+export async function claimDiscounts(tx: Prisma.TransactionClient, discounts: AppliedDiscount[], userId: string | null): Promise<void> {
+	for (const discount of discounts) {
+		const { count } = await tx.discount.updateMany({
+			where: { id: discount.discountId, OR: [{ maxUses: null }, { usedCount: { lt: tx.discount.fields.maxUses } }] },
+			data: { usedCount: { increment: 1 } }
+		});
+		if (count === 0) {
+			throw new DiscountUnavailableError(discount.title);
+		}
+
+		const { maxUsesPerUser } = await tx.discount.findUniqueOrThrow({ where: { id: discount.discountId }, select: { maxUsesPerUser: true } });
+		if (maxUsesPerUser === null) continue;
+		const uses = userId
+			? await tx.purchaseDiscount.count({
+				where: { discountId: discount.discountId, purchase: { userId, status: { notIn: ['cancelled', 'refunded'] } } }
+			})
+			: maxUsesPerUser;
+		if (uses >= maxUsesPerUser) {
+			throw new DiscountUnavailableError(discount.title, `You have already used the discount "${discount.title}"`);
+		}
+	}
+}
+
+/**
+ * @function releaseDiscounts
+ * @description Gives back the uses an order took from its discounts, so they count against `maxUses` no more. Must run inside the transaction that ends the order.
+ * @param {Prisma.TransactionClient} tx - The transaction client.
+ * @param {string} purchaseId - The purchase whose discounts are released.
+ * @returns {Promise<void>}
+ */
+export async function releaseDiscounts(tx: Prisma.TransactionClient, purchaseId: string): Promise<void> {
+	const lines = await tx.purchaseDiscount.findMany({ where: { purchaseId, discountId: { not: null } }, select: { discountId: true } });
+	for (const line of lines) {
+		await tx.discount.updateMany({
+			where: { id: line.discountId!, usedCount: { gt: 0 } },
+			data: { usedCount: { decrement: 1 } }
+		});
+	}
+}
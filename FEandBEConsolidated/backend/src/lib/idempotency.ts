@@ -0,0 +1,167 @@
+/**
+ * @fileoverview Idempotency keys for requests that must not run twice.
+ * @module lib/idempotency
+ * @description A client that might send a request twice (a double-clicked button, a retry after a dropped connection) can send an `Idempotency-Key` header with a value unique to that attempt. The first request with a key runs and its response is stored with the key; later requests with the same key get the stored response back, marked with an `Idempotent-Replayed: true` header, instead of running again. Reusing a key for a different request (another body or route) is refused with 422, and a repeat that arrives while the first request is still running is refused with 409.
+ * Keys belong to the signed-in user (guests share one space, which is safe because keys are random). The request is identified by an HMAC of its method, path, and body under `JWT_SECRET`, so card details in the body are never stored in a recoverable form. Responses with a 5xx status are not kept, so the request can be retried with the same key. A stored response can hold what the original did (such as a guest order's lookup token), so keys are deleted `IDEMPOTENCY_KEY_TTL_MS` after they were first used, by a sweep that runs at startup and every `IDEMPOTENCY_SWEEP_INTERVAL_MS`.
+ * @dependencies crypto, @prisma/client, express, ./db
+ * @exports IDEMPOTENCY_KEY_HEADER - Name of the request header carrying the key.
+ * @exports IDEMPOTENCY_KEY_TTL_MS - How long keys and their responses are kept.
+ * @exports IDEMPOTENCY_SWEEP_INTERVAL_MS - How often expired keys are deleted.
+ * @exports idempotent - Express middleware making a route replay the response of a repeated key.
+ * @exports deleteExpiredIdempotencyKeys - Function to delete expired keys.
+ * @exports scheduleIdempotencyKeyCleanup - Function to run the expired key sweep now and on an interval.
+ * @author Gemini
+ * @lastModified 2026-10-19
+ */
+
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import type { Request, Response, NextFunction } from 'express';
+import { db } from './db.js';
+
+/**
+ * @constant {string} IDEMPOTENCY_KEY_HEADER - The request header carrying the key.
+ */
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+/**
+ * @constant {number} IDEMPOTENCY_KEY_TTL_MS - How long a key and its response are kept after the key was first used (24 hours).
+ */
+export const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+/**
+ * @constant {number} IDEMPOTENCY_SWEEP_INTERVAL_MS - How often expired keys are deleted (1 hour).
+ */
+export const IDEMPOTENCY_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+/**
+ * @constant {RegExp} KEY_PATTERN - What a key may look like: 1 to 255 visible ASCII characters (a UUID is typical).
+ */
+const KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+/**
+ * @function stableStringify
+ * @description Serializes a value to JSON with object keys sorted, so the same body always gives the same text whatever order its fields were sent in.
+ * @param {unknown} value - The value.
+ * @returns {string} The JSON text.
+ */
+function stableStringify(value: unknown): string {
+	if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+	if (value && typeof value === 'object') {
+		const entries = Object.keys(value).sort().map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+		return `{${entries.join(',')}}`;
+	}
+	return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * @function hashRequest
+ * @description Identifies a request by an HMAC-SHA256 of its method, path, and body under `JWT_SECRET`.
+ * @param {Request} req - The Express request object.
+ * @returns {string} The hex-encoded HMAC.
+ */
+function hashRequest(req: Request): string {
+	return crypto.createHmac('sha256', process.env.JWT_SECRET!)
+		.update(`${req.method} ${req.originalUrl.split('?')[0]}\n${stableStringify(req.body ?? null)}`)
+		.digest('hex');
+}
+
+/**
+ * @function idempotent
+ * @description Express middleware that makes a route idempotent for requests carrying an `Idempotency-Key` header. Requests without the header run as usual.
+ * Must be registered after `authMiddleware`, and the route must answer with `res.json()`.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @param {NextFunction} next - The next middleware function in the stack.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Without the header, call `next()`. Reject a malformed key with 400 `INVALID_IDEMPOTENCY_KEY`.
+ *   2. Claim the key for the caller with the request's hash. If the key is new, go to step 4.
+ *   3. If the key was already used: for a different request, return 422 `IDEMPOTENCY_KEY_REUSED`; while the first request is still running, return 409 `IDEMPOTENCY_KEY_IN_USE`; otherwise replay the stored response.
+ *   4. Wrap `res.json()` so the response is stored with the key before it is sent (or, for a 5xx response, the key is released), and run the route.
+ */
+export async function idempotent(req: Request, res: Response, next: NextFunction) {
+	// Step 1: Read the key.
+	const key = req.get(IDEMPOTENCY_KEY_HEADER);
+	if (key === undefined) {
+		return next();
+	}
+	if (!KEY_PATTERN.test(key)) {
+		return res.status(400).json({
+			error: { code: 'INVALID_IDEMPOTENCY_KEY', message: 'The Idempotency-Key header must be 1 to 255 visible ASCII characters' }
+		});
+	}
+
+	try {
+		// Step 2: Claim the key.
+		const owner = req.user ? `user:${req.user.id}` : 'guest';
+		const requestHash = hashRequest(req);
+		let recordId: string | null = null;
+		try {
+			recordId = (await db.idempotencyKey.create({ data: { owner, key, requestHash }, select: { id: true } })).id;
+		} catch (error) {
+			if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) throw error;
+		}
+
+		// Step 3: Answer a repeated key.
+		if (!recordId) {
+			const existing = await db.idempotencyKey.findUnique({
+				where: { owner_key: { owner, key } },
+				select: { requestHash: true, statusCode: true, responseBody: true }
+			});
+			if (existing && existing.requestHash !== requestHash) {
+				return res.status(422).json({
+					error: { code: 'IDEMPOTENCY_KEY_REUSED', message: 'This Idempotency-Key was already used for a different request' }
+				});
+			}
+			if (!existing || existing.statusCode === null || existing.responseBody === null) {
+				return res.status(409).json({
+					error: { code: 'IDEMPOTENCY_KEY_IN_USE', message: 'A request with this Idempotency-Key is still being processed' }
+				});
+			}
+			res.set('Idempotent-Replayed', 'true');
+			return res.status(existing.statusCode).json(JSON.parse(existing.responseBody));
+		}
+
+		// Step 4: Store the response before sending it.
+		const send = res.json.bind(res);
+		res.json = (body?: unknown) => {
+			const stored = res.statusCode >= 500
+				? db.idempotencyKey.delete({ where: { id: recordId! } })
+				: db.idempotencyKey.update({
+					where: { id: recordId! },
+					data: { statusCode: res.statusCode, responseBody: JSON.stringify(body ?? null), completedAt: new Date() }
+				});
+			stored
+				.catch((error) => console.error('Idempotency key save error:', error))
+				.finally(() => send(body));
+			return res;
+		};
+		next();
+	} catch (error) {
+		console.error('Idempotency key error:', error);
+		res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+	}
+}
+
+/**
+ * @function deleteExpiredIdempotencyKeys
+ * @description Deletes the keys first used more than `IDEMPOTENCY_KEY_TTL_MS` ago, with their stored responses.
+ * @param {Date} [now=new Date()] - The current time.
+ * @returns {Promise<number>} The number of keys deleted.
+ */
+export async function deleteExpiredIdempotencyKeys(now: Date = new Date()): Promise<number> {
+	const { count } = await db.idempotencyKey.deleteMany({ where: { createdAt: { lt: new Date(now.getTime() - IDEMPOTENCY_KEY_TTL_MS) } } });
+	return count;
+}
+
+/**
+ * @function scheduleIdempotencyKeyCleanup
+ * @description Runs the expired key sweep now and then every `IDEMPOTENCY_SWEEP_INTERVAL_MS`, logging failures. The timer does not keep the process alive.
+ * @returns {void}
+ */
+export function scheduleIdempotencyKeyCleanup(): void {
+	const sweep = () => {
+		deleteExpiredIdempotencyKeys().catch((error) => console.error('Idempotency key cleanup error:', error));
+	};
+	sweep();
+	setInterval(sweep, IDEMPOTENCY_SWEEP_INTERVAL_MS).unref();
+}
@@ -0,0 +1,179 @@
+/**
+ * @fileoverview Product stock levels and the stock movement ledger.
+ * @module lib/inventory
+ * @description Each product has a `stock` count. Every change to it is recorded as a row in `stock_movements` (a signed `delta`, a reason, and the resulting level), so the history explains the current figure. Checkout reserves stock with conditional decrements inside the checkout transaction: a decrement only applies while enough stock remains, so concurrent checkouts can never take the level below zero, and any shortfall rolls the whole order back.
+ * @dependencies @prisma/client, ./db
+ * @exports STOCK_REASONS - The list of all stock movement reasons.
+ * @exports StockReason - Union type of all stock movement reasons.
+ * @exports ADJUSTMENT_REASONS - The reasons an admin may give for a manual adjustment.
+ * @exports LOW_STOCK_THRESHOLD - Stock level at or below which a product is reported as low on stock.
+ * @exports OutOfStockItem - Interface describing an item that could not be reserved.
+ * @exports OutOfStockError - Error thrown when a reservation cannot be fulfilled.
+ * @exports stockStatus - Function to describe a stock level for display.
+ * @exports reserveStock - Function to decrement stock for an order inside a transaction.
+ * @exports adjustStock - Function to apply a manual stock adjustment.
+ * @exports releaseStock - Function to put back the stock sold to an order that was cancelled.
+ * @author Gemini
+ * @lastModified 2026-10-19
+ */
+
+import type { Prisma } from '@prisma/client';
+import { db } from './db.js';
+
+/**
+ * @constant {readonly string[]} STOCK_REASONS - All stock movement reasons.
+ * - `sale`: stock taken by a checkout.
+ * - `restock`: goods received.
+ * - `return`: goods returned by a customer.
+ * - `damage`: goods written off.
+ * - `correction`: a stock count correction.
+ * - `cancellation`: stock put back when an order that had not shipped was cancelled or refunded.
+ */
+export const STOCK_REASONS = ['sale', 'restock', 'return', 'damage', 'correction', 'cancellation'] as const;
+
+/**
+ * @typedef {typeof STOCK_REASONS[number]} StockReason - Union type of all stock movement reasons.
+ */
+export type StockReason = (typeof STOCK_REASONS)[number];
+
+/**
+ * @constant {readonly StockReason[]} ADJUSTMENT_REASONS - The reasons an admin may give for a manual adjustment (`sale` and `cancellation` are only recorded by the order flow).
+ */
+export const ADJUSTMENT_REASONS = ['restock', 'return', 'damage', 'correction'] as const;
+
+/**
+ * @constant {number} LOW_STOCK_THRESHOLD - Stock level at or below which a product is reported as low on stock.
+ */
+export const LOW_STOCK_THRESHOLD = 5;
+
+/**
+ * @interface OutOfStockItem
+ * @description An order line that could not be reserved.
+ * @property {string} productId - The product ID.
+ * @property {string} name - The product name.
+ * @property {number} requested - The quantity ordered.
+ * @property {number} available - The quantity in stock.
+ */
+export interface OutOfStockItem {
+	productId: string;
+	name: string;
+	requested: number;
+	available: number;
+}
+
+/**
+ * @class OutOfStockError
+ * @description Thrown by `reserveStock()` inside a transaction so that the transaction rolls back; carries the lines that could not be reserved.
+ * @property {OutOfStockItem[]} items - The lines concerned.
+ */
+export class OutOfStockError extends Error {
+	items: OutOfStockItem[];
+
+	constructor(items: OutOfStockItem[]) {
+		super('Some items are out of stock');
+		this.name = 'OutOfStockError';
+		this.items = items;
+	}
+}
+
+/**
+ * @function stockStatus
+ * @description Describes a stock level for display.
+ * @param {number} stock - The stock level.
+ * @returns {'in-stock' | 'low-stock' | 'out-of-stock'} The status.
+ */
+export function stockStatus(stock: number): 'in-stock' | 'low-stock' | 'out-of-stock' {
+	if (stock <= 0) return 'out-of-stock';
+	return stock <= LOW_STOCK_THRESHOLD ? 'low-stock' : 'in-stock';
+}
+
+/**
+ * @function reserveStock
+ * @description Decrements stock for every line of an order and records `sale` movements. Must run inside the transaction that creates the order.
+ * @param {Prisma.TransactionClient} tx - The transaction client.
+ * @param {{ productId: string; name: string; quantity: number }[]} items - The order lines (one per product).
+ * @param {string | null} purchaseId - The purchase the stock was sold to, if one was recorded.
+ * @returns {Promise<void>}
+ * @throws {OutOfStockError} If any line cannot be fulfilled; the caller's transaction then rolls back.
+ *
+ * Steps:
+ *   1. For each line, decrement the stock only if at least the ordered quantity remains.
+ *   2. If the decrement did not apply, record the line as short with the stock currently available.
+ *   3. Otherwise record a `sale` movement with the new level.
+ *   4. If any line was short, throw `OutOfStockError` listing them all.
+ */
+export async function reserveStock(
+	tx: Prisma.TransactionClient,
+	items: { productId: string; name: string; quantity: number }[],
+	purchaseId: string | null
+): Promise<void> {
+	const shortages: OutOfStockItem[] = [];
+	for (const item of items) {
+		// Step 1: Conditional decrement.
+		const { count } = await tx.product.updateMany({
+			where: { id: item.productId, stock: { gte: item.quantity } },
+			data: { stock: { decrement: item.quantity } }
+		});
+		const product = await tx.product.findUnique({ where: { id: item.productId }, select: { stock: true } });
+		if (count === 0) {
+			// Step 2: Not enough stock.
+			shortages.push({ productId: item.productId, name: item.name, requested: item.quantity, available: Math.max(product?.stock ?? 0, 0) });
+			continue;
+		}
+		// Step 3: Record the sale.
+		await tx.stockMovement.create({
+			data: { productId: item.productId, delta: -item.quantity, reason: 'sale', stockAfter: product!.stock, purchaseId }
+		});
+	}
+	// Step 4: Roll back if anything was short.
+	if (shortages.length > 0) {
+		throw new OutOfStockError(shortages);
+	}
+}
+
+/**
+ * @function adjustStock
+ * @description Applies a manual stock adjustment and records it. The resulting level may not go below zero.
+ * @param {string} productId - The product ID.
+ * @param {number} delta - The signed change.
+ * @param {StockReason} reason - Why the stock changed.
+ * @param {string | null} note - An optional free-text note.
+ * @param {string} userId - The admin making the adjustment.
+ * @returns {Promise<{ stock: number } | null>} The new level, or null if the product does not exist or the adjustment would make the stock negative.
+ */
+export async function adjustStock(productId: string, delta: number, reason: StockReason, note: string | null, userId: string) {
+	return db.$transaction(async (tx) => {
+		const { count } = await tx.product.updateMany({
+			where: { id: productId, ...(delta < 0 ? { stock: { gte: -delta } } : {}) },
+			data: { stock: { increment: delta } }
+		});
+		if (count === 0) return null;
+		const product = await tx.product.findUniqueOrThrow({ where: { id: productId }, select: { stock: true } });
+		await tx.stockMovement.create({
+			data: { productId, delta, reason, note, stockAfter: product.stock, createdById: userId }
+		});
+		return { stock: product.stock };
+	});
+}
+
+/**
+ * @function releaseStock
+ * @description Puts back the stock sold to an order, recording a `cancellation` movement for each product. Must run inside the transaction that ends the order.
+ * @param {Prisma.TransactionClient} tx - The transaction client.
+ * @param {string} purchaseId - The purchase whose stock is released.
+ * @param {string} note - The note recorded on the movements.
+ * @returns {Promise<void>}
+ */
+export async function releaseStock(tx: Prisma.TransactionClient, purchaseId: string, note: string): Promise<void> {
+	const sales = await tx.stockMovement.findMany({ where: { purchaseId, reason: 'sale' }, select: { productId: true, delta: true } });
+	for (const sale of sales) {
+		const product = await tx.product.update({
+			where: { id: sale.productId },
+			data: { stock: { increment: -sale.delta } },
+			select: { stock: true }
+		});
+		await tx.stockMovement.create({
+			data: { productId: sale.productId, delta: -sale.delta, reason: 'cancellation', note, stockAfter: product.stock, purchaseId }
+		});
+	}
+}
@@ -1,17 +1,22 @@
 /**
  * @fileoverview Handles JSON Web Token (JWT) creation and verification for the backend.
  * @module lib/jwt
- * @description This module provides utility functions for signing and verifying JWTs, and for retrieving the authentication cookie name. It uses HS256 algorithm and relies on a `JWT_SECRET` environment variable.
- * @dependencies jsonwebtoken
+ * @description This module provides utility functions for signing and verifying JWTs, and for retrieving the authentication and refresh cookie names. Access tokens are short-lived and carry the ID of their server-side session as the `jti` claim. It uses HS256 algorithm and relies on a `JWT_SECRET` environment variable.
+ * @dependencies jsonwebtoken, ./roles
  * @exports JWTPayload - Interface for the JWT payload.
  * @exports signJWT - Function to sign a new JWT.
  * @exports verifyJWT - Function to verify and decode a JWT.
  * @exports getCookieName - Function to get the authentication cookie name.
+ * @exports getRefreshCookieName - Function to get the refresh token cookie name.
+ * @exports signChallengeToken - Function to sign a pending two-factor sign-in challenge.
+ * @exports verifyChallengeToken - Function to verify a pending two-factor sign-in challenge.
+ * @exports ACCESS_TOKEN_TTL_SECONDS - Lifetime of an access token in seconds.
  * @author Gemini
- * @lastModified 2025-11-11
+ * @lastModified 2026-10-19
  */
 
 import jwt from 'jsonwebtoken';
+import type { Role } from './roles.js';
 
 /**
  * @constant {string} JWT_SECRET - The secret key used for signing JWTs, retrieved from environment variables.
@@ -19,25 +24,42 @@ import jwt from 'jsonwebtoken';
  */
 const JWT_SECRET = process.env.JWT_SECRET!;
 /**
- * @constant {string} JWT_EXPIRES_IN - The expiration time for access tokens (7 days).
+ * @constant {number} ACCESS_TOKEN_TTL_SECONDS - The lifetime of access tokens (15 minutes).
+ * Longer sessions are kept alive by rotating refresh tokens (see `lib/sessions`).
  */
-const JWT_EXPIRES_IN = '7d';
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
 /**
  * @constant {string} COOKIE_NAME - The name of the authentication cookie.
  */
 const COOKIE_NAME = 'agri_auth';
+/**
+ * @constant {string} REFRESH_COOKIE_NAME - The name of the refresh token cookie.
+ */
+const REFRESH_COOKIE_NAME = 'agri_refresh';
+/**
+ * @constant {string} CHALLENGE_AUDIENCE - Audience of two-factor challenge tokens, so they can never be used as access tokens.
+ */
+const CHALLENGE_AUDIENCE = 'agri-2fa-challenge';
+/**
+ * @constant {number} CHALLENGE_TTL_SECONDS - Time allowed to enter the second factor after a correct password (5 minutes).
+ */
+const CHALLENGE_TTL_SECONDS = 5 * 60;
 
 /**
  * @interface JWTPayload
  * @description Defines the structure of the data stored within the JWT.
  * @property {string} userId - The unique identifier of the user.
  * @property {string} email - The email address of the user.
+ * @property {Role[]} roles - The roles held by the user when the token was issued.
+ * @property {string} [jti] - Token ID; the ID of the server-side session the token belongs to.
  * @property {number} [iat] - Issued at timestamp.
  * @property {number} [exp] - Expiration timestamp.
  */
 export interface JWTPayload {
 	userId: string;
 	email: string;
+	roles: Role[];
+	jti?: string;
 	iat?: number;
 	exp?: number;
 }
@@ -48,18 +70,21 @@ export interface JWTPayload {
  * @param {object} payload - The data to be encoded into the JWT.
  * @param {string} payload.userId - The user's unique ID.
  * @param {string} payload.email - The user's email address.
+ * @param {Role[]} payload.roles - The user's roles.
+ * @param {string} sessionId - The ID of the server-side session, stored as the `jti` claim.
  * @returns {string} The signed JWT string.
  * @throws {Error} If JWT_SECRET is not configured or signing fails.
  *
  * Steps:
  *   1. Use `jwt.sign` to create a new token.
- *   2. Provide the payload, `JWT_SECRET`, algorithm ('HS256'), and expiration time.
+ *   2. Provide the payload, `JWT_SECRET`, algorithm ('HS256'), expiration time, and session ID.
  */
-export function signJWT(payload: { userId: string; email: string }): string {
-	// Step 1 & 2: Sign the JWT with the payload, secret, algorithm, and expiry.
+export function signJWT(payload: { userId: string; email: string; roles: Role[] }, sessionId: string): string {
+	// Step 1 & 2: Sign the JWT with the payload, secret, algorithm, expiry, and token ID.
 	return jwt.sign(payload, JWT_SECRET, {
 		algorithm: 'HS256',
-		expiresIn: JWT_EXPIRES_IN
+		expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+		jwtid: sessionId
 	});
 }
 
@@ -96,3 +121,45 @@ export function getCookieName(): string {
 	// Step 1: Return the cookie name.
 	return COOKIE_NAME;
 }
+
+/**
+ * @function getRefreshCookieName
+ * @description Returns the predefined name for the refresh token cookie.
+ * @returns {string} The name of the refresh token cookie.
+ *
+ * Steps:
+ *   1. Return the `REFRESH_COOKIE_NAME` constant.
+ */
+export function getRefreshCookieName(): string {
+	// Step 1: Return the refresh cookie name.
+	return REFRESH_COOKIE_NAME;
+}
+
+/**
+ * @function signChallengeToken
+ * @description Signs a short-lived token proving that the user passed the password step of a two-factor sign-in.
+ * @param {string} userId - The user's unique ID.
+ * @returns {string} The signed challenge token.
+ */
+export function signChallengeToken(userId: string): string {
+	return jwt.sign({ userId }, JWT_SECRET, {
+		algorithm: 'HS256',
+		expiresIn: CHALLENGE_TTL_SECONDS,
+		audience: CHALLENGE_AUDIENCE
+	});
+}
+
+/**
+ * @function verifyChallengeToken
+ * @description Verifies a two-factor challenge token.
+ * @param {string} token - The challenge token.
+ * @returns {{ userId: string } | null} The user ID if the token is valid, otherwise null.
+ */
+export function verifyChallengeToken(token: string): { userId: string } | null {
+	try {
+		const payload = jwt.verify(token, JWT_SECRET, { algorithms: ['HS256'], audience: CHALLENGE_AUDIENCE }) as { userId?: string };
+		return payload.userId ? { userId: payload.userId } : null;
+	} catch (error) {
+		return null;
+	}
+}
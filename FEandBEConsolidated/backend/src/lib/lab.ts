@@ -0,0 +1,237 @@
+/**
+ * @fileoverview Registry and lab-mode gate for the intentionally vulnerable and debug endpoints.
+ * @module lib/lab
+ * @description AgriCommerce doubles as a target for testing HAProxy and ModSecurity rules, so it ships endpoints that are insecure on purpose (raw SQL execution) or leak internals (auth and environment debugging). All of them are declared here, in one registry that records each endpoint's risk and purpose. They are only mounted when `LAB_MODE=true`; otherwise their handlers are never registered and the paths fall through to the normal 404. The registry also feeds the `GET /api/lab/endpoints` listing and the startup banner.
+ * @dependencies express, ./db, ./jwt
+ * @exports LabRisk - Union type of risk levels.
+ * @exports LabEndpoint - Interface describing one registered lab endpoint.
+ * @exports LAB_ENDPOINTS - The registry of lab endpoints.
+ * @exports isLabMode - Function to check whether lab mode is on.
+ * @exports mountLabEndpoints - Function to register the lab endpoints on the app when lab mode is on.
+ * @exports printLabBanner - Function to log the lab-mode status at startup.
+ * @author Gemini
+ * @lastModified 2026-10-19
+ */
+
+import type { Express, Request, Response, RequestHandler } from 'express';
+import { db } from './db.js';
+import { getCookieName } from './jwt.js';
+
+/**
+ * @typedef {'critical' | 'high' | 'medium' | 'low'} LabRisk - How much damage an endpoint can do if exposed.
+ */
+export type LabRisk = 'critical' | 'high' | 'medium' | 'low';
+
+/**
+ * @interface LabEndpoint
+ * @description One intentionally vulnerable or debug endpoint.
+ * @property {'all' | 'get'} method - The Express method it is registered with (`all` accepts every method).
+ * @property {string} path - The route path.
+ * @property {LabRisk} risk - The risk of exposing it.
+ * @property {string} purpose - Why it exists.
+ * @property {RequestHandler} handler - The route handler.
+ */
+export interface LabEndpoint {
+	method: 'all' | 'get';
+	path: string;
+	risk: LabRisk;
+	purpose: string;
+	handler: RequestHandler;
+}
+
+/**
+ * @function performUserRequest
+ * @description VULNERABLE: Catch-all endpoint that executes any command without validation
+ * @param {Request} req - Accepts command via JSON body or URL parameter
+ * @param {Response} res - Returns raw query results
+ * @security VULNERABLE to SQL injection, command injection, and data exposure
+ */
+async function performUserRequest(req: Request, res: Response) {
+	try {
+		// Get command from URL parameter or JSON body
+		const command = req.query.command || req.body.command;
+
+		if (!command) {
+			return res.status(400).json({ error: 'Command parameter required' });
+		}
+
+		// VULNERABLE: Execute any SQL command without validation
+		const result = await db.$queryRawUnsafe(command);
+
+		res.json({
+			command: command,
+			result: result,
+			timestamp: new Date().toISOString(),
+			method: req.method,
+			source: req.query.command ? 'URL parameter' : 'JSON body'
+		});
+	} catch (error: any) {
+		console.error('Vulnerable user request error:', error);
+		res.status(500).json({
+			error: 'Database error',
+			details: error.message,
+			command: req.query.command || req.body.command
+		});
+	}
+}
+
+/**
+ * @function performAdminRequest
+ * @description VULNERABLE: Admin catch-all endpoint that executes any command without validation
+ * @param {Request} req - Accepts command via JSON body or URL parameter
+ * @param {Response} res - Returns raw query results with admin privileges
+ * @security VULNERABLE to SQL injection, privilege escalation, and sensitive data exposure
+ */
+async function performAdminRequest(req: Request, res: Response) {
+	try {
+		// Get command from URL parameter or JSON body
+		const command = req.query.command || req.body.command;
+
+		if (!command) {
+			return res.status(400).json({ error: 'Command parameter required' });
+		}
+
+		// VULNERABLE: Execute any SQL command with "admin" privileges (no actual verification)
+		const result = await db.$queryRawUnsafe(command);
+
+		res.json({
+			command: command,
+			result: result,
+			timestamp: new Date().toISOString(),
+			method: req.method,
+			source: req.query.command ? 'URL parameter' : 'JSON body',
+			privileges: 'admin',
+			warning: 'This endpoint exposes sensitive data without proper authorization'
+		});
+	} catch (error: any) {
+		console.error('Vulnerable admin request error:', error);
+		res.status(500).json({
+			error: 'Database error',
+			details: error.message,
+			command: req.query.command || req.body.command
+		});
+	}
+}
+
+/**
+ * @function debugAuth
+ * @description Provides authentication debugging information.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {void}
+ *
+ * Steps:
+ *   1. Retrieve the authentication token from cookies.
+ *   2. Return 200 OK with information about the token presence, a token preview, authenticated user data (`req.user`), JWT secret status, and Node environment.
+ */
+function debugAuth(req: Request, res: Response) {
+	// Step 1: Get token from cookies.
+	const token = req.cookies[getCookieName()];
+	// Step 2: Return debug information.
+	res.json({
+		timestamp: new Date().toISOString(),
+		hasToken: !!token,
+		tokenPreview: token ? token.substring(0, 20) + '...' : null,
+		userFromAuth: req.user,
+		jwtSecret: !!process.env.JWT_SECRET,
+		nodeEnv: process.env.NODE_ENV
+	});
+}
+
+/**
+ * @function envCheck
+ * @description Provides an endpoint to check the status of critical environment variables.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @returns {void}
+ *
+ * Steps:
+ *   1. Check the presence of `DATABASE_URL`, `JWT_SECRET`, `NODE_ENV`, and `PORT` environment variables.
+ *   2. Return 200 OK with their status ('SET' or 'NOT SET').
+ */
+function envCheck(req: Request, res: Response) {
+	// Step 1 & 2: Return status of environment variables.
+	res.json({
+		DATABASE_URL: process.env.DATABASE_URL ? 'SET' : 'NOT SET',
+		JWT_SECRET: process.env.JWT_SECRET ? 'SET' : 'NOT SET',
+		NODE_ENV: process.env.NODE_ENV || 'NOT SET',
+		PORT: process.env.PORT || 'NOT SET'
+	});
+}
+
+/**
+ * @constant {LabEndpoint[]} LAB_ENDPOINTS - Every intentionally vulnerable or debug endpoint. Add new ones here, never directly in `index.ts`.
+ */
+export const LAB_ENDPOINTS: LabEndpoint[] = [
+	{
+		method: 'all',
+		path: '/api/vulnerable/performUserRequest',
+		risk: 'critical',
+		purpose: 'Runs the raw SQL in `command`; SQL injection target for the WAF rules (used by the /users page).',
+		handler: performUserRequest
+	},
+	{
+		method: 'all',
+		path: '/api/vulnerable/performAdminRequest',
+		risk: 'critical',
+		purpose: 'Runs the raw SQL in `command` as a fake admin tool; privilege escalation and data exposure target (used by the /admin page).',
+		handler: performAdminRequest
+	},
+	{
+		method: 'get',
+		path: '/api/debug/auth',
+		risk: 'high',
+		purpose: 'Shows a preview of the auth cookie and the authenticated user, for debugging sign-in.',
+		handler: debugAuth
+	},
+	{
+		method: 'get',
+		path: '/api/env-check',
+		risk: 'low',
+		purpose: 'Reports which required environment variables are set.',
+		handler: envCheck
+	}
+];
+
+/**
+ * @function isLabMode
+ * @description Checks whether lab mode is on (`LAB_MODE=true`). Off unless explicitly enabled.
+ * @returns {boolean} True if the lab endpoints should be mounted.
+ */
+export function isLabMode(): boolean {
+	return process.env.LAB_MODE === 'true';
+}
+
+/**
+ * @function mountLabEndpoints
+ * @description Registers every endpoint in `LAB_ENDPOINTS` on the app, but only when lab mode is on.
+ * @param {Express} app - The Express application.
+ * @returns {void}
+ */
+export function mountLabEndpoints(app: Express): void {
+	if (!isLabMode()) return;
+	for (const endpoint of LAB_ENDPOINTS) {
+		app[endpoint.method](endpoint.path, endpoint.handler);
+	}
+}
+
+/**
+ * @function printLabBanner
+ * @description Logs the lab-mode status at startup: a loud banner listing every mounted endpoint when lab mode is on, or a single line when it is off.
+ * @returns {void}
+ */
+export function printLabBanner(): void {
+	if (!isLabMode()) {
+		console.log(`Lab mode off: ${LAB_ENDPOINTS.length} vulnerable/debug endpoints are not mounted (set LAB_MODE=true to enable).`);
+		return;
+	}
+	const rule = '!'.repeat(78);
+	console.warn([
+		rule,
+		'!!  LAB MODE IS ON: INTENTIONALLY VULNERABLE ENDPOINTS ARE MOUNTED',
+		'!!  Never expose this instance outside the lab network.',
+		'!!',
+		...LAB_ENDPOINTS.map((endpoint) => `!!  [${endpoint.risk.toUpperCase()}] ${endpoint.method.toUpperCase()} ${endpoint.path}`),
+		rule
+	].join('\n'));
+}
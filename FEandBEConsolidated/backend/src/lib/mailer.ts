@@ -0,0 +1,158 @@
+/**
+ * @fileoverview Pluggable outgoing mail transport.
+ * @module lib/mailer
+ * @description This module defines the `Mailer` interface used for every email the backend sends, and two implementations. The file (outbox) mailer writes each message as an `.eml` file into a directory, which is the default for local development and the lab, where no mail server exists. The SMTP mailer delivers through any SMTP server, including a local stand-in such as Mailpit or MailHog. `MAIL_TRANSPORT` selects the implementation; the environment is read on first use, after `dotenv` has loaded it.
+ * @dependencies fs, path, nodemailer
+ * @exports MailMessage - Interface for an outgoing email.
+ * @exports Mailer - Interface implemented by every mail transport.
+ * @exports createFileMailer - Function to create a mailer that writes messages to an outbox directory.
+ * @exports createSmtpMailer - Function to create a mailer that delivers through SMTP.
+ * @exports getMailer - Function returning the mailer configured from the environment.
+ * @exports appUrl - Function to build absolute links to frontend pages for use in emails.
+ * @author Gemini
+ * @lastModified 2026-10-19
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+/**
+ * @constant {string} DEFAULT_MAIL_FROM - Sender address used when `MAIL_FROM` is not set.
+ */
+const DEFAULT_MAIL_FROM = 'AgriCommerce <no-reply@agricommerce.evolvlabs.com>';
+/**
+ * @constant {string} DEFAULT_APP_BASE_URL - Public URL of the frontend used when `APP_BASE_URL` is not set.
+ */
+const DEFAULT_APP_BASE_URL = 'https://agricommerce.evolvlabs.com';
+
+/**
+ * @type {Mailer | null} configuredMailer - The mailer built by `getMailer`, once created.
+ */
+let configuredMailer: Mailer | null = null;
+
+/**
+ * @interface MailMessage
+ * @description An outgoing email.
+ * @property {string} to - The recipient address.
+ * @property {string} subject - The subject line.
+ * @property {string} text - The plain-text body.
+ * @property {string} [html] - An optional HTML body.
+ */
+export interface MailMessage {
+	to: string;
+	subject: string;
+	text: string;
+	html?: string;
+}
+
+/**
+ * @interface Mailer
+ * @description A mail transport.
+ * @property {string} name - A short name for logs (e.g. `file`, `smtp`).
+ * @property {(message: MailMessage) => Promise<void>} send - Sends one message; rejects if it could not be handed off.
+ */
+export interface Mailer {
+	name: string;
+	send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * @function createFileMailer
+ * @description Creates a mailer that renders each message to an `.eml` file in `directory` instead of sending it. The files can be opened in any mail client.
+ * @param {string} directory - The outbox directory; created on first use.
+ * @returns {Mailer} The file mailer.
+ *
+ * Steps:
+ *   1. Render the message to raw MIME with nodemailer's stream transport.
+ *   2. Ensure the directory exists and write `<timestamp>-<messageId>.eml`.
+ *   3. Log where the message was written.
+ */
+export function createFileMailer(directory: string): Mailer {
+	const transport = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+	return {
+		name: 'file',
+		async send(message: MailMessage): Promise<void> {
+			// Step 1: Render the message.
+			const info = await transport.sendMail({ from: process.env.MAIL_FROM || DEFAULT_MAIL_FROM, ...message });
+			// Step 2: Write it to the outbox.
+			await fs.mkdir(directory, { recursive: true });
+			const id = String(info.messageId || Date.now()).replace(/[^a-zA-Z0-9.-]/g, '');
+			const file = path.join(directory, `${new Date().toISOString().replace(/[:.]/g, '-')}-${id}.eml`);
+			await fs.writeFile(file, info.message as Buffer);
+			// Step 3: Tell the operator where to find it.
+			console.log(`📧 Mail to ${message.to} ("${message.subject}") written to ${file}`);
+		}
+	};
+}
+
+/**
+ * @function createSmtpMailer
+ * @description Creates a mailer that delivers through an SMTP server.
+ * @param {object} options - The SMTP connection options.
+ * @param {string} options.host - The SMTP host.
+ * @param {number} options.port - The SMTP port.
+ * @param {boolean} options.secure - Whether to use TLS from the start (port 465); otherwise STARTTLS is used if offered.
+ * @param {string} [options.user] - The username, if the server requires authentication.
+ * @param {string} [options.pass] - The password, if the server requires authentication.
+ * @returns {Mailer} The SMTP mailer.
+ */
+export function createSmtpMailer(options: { host: string; port: number; secure: boolean; user?: string; pass?: string }): Mailer {
+	const transport = nodemailer.createTransport({
+		host: options.host,
+		port: options.port,
+		secure: options.secure,
+		auth: options.user ? { user: options.user, pass: options.pass } : undefined
+	});
+	return {
+		name: 'smtp',
+		async send(message: MailMessage): Promise<void> {
+			await transport.sendMail({ from: process.env.MAIL_FROM || DEFAULT_MAIL_FROM, ...message });
+		}
+	};
+}
+
+/**
+ * @function createMailerFromEnv
+ * @description Builds the mailer selected by `MAIL_TRANSPORT`.
+ * @returns {Mailer} The configured mailer.
+ *
+ * Steps:
+ *   1. For `smtp`, read `SMTP_HOST` (default `localhost`), `SMTP_PORT` (default 1025, the usual port of local SMTP stand-ins), `SMTP_SECURE`, `SMTP_USER`, and `SMTP_PASS`.
+ *   2. Otherwise use the file mailer with `MAIL_OUTBOX_DIR` (default `./outbox`).
+ */
+function createMailerFromEnv(): Mailer {
+	// Step 1: SMTP transport.
+	if (process.env.MAIL_TRANSPORT === 'smtp') {
+		return createSmtpMailer({
+			host: process.env.SMTP_HOST || 'localhost',
+			port: parseInt(process.env.SMTP_PORT || '1025', 10),
+			secure: process.env.SMTP_SECURE === 'true',
+			user: process.env.SMTP_USER || undefined,
+			pass: process.env.SMTP_PASS || undefined
+		});
+	}
+	// Step 2: File outbox.
+	return createFileMailer(process.env.MAIL_OUTBOX_DIR || path.resolve('outbox'));
+}
+
+/**
+ * @function getMailer
+ * @description Returns the mailer used by the application, creating it from the environment on first call.
+ * @returns {Mailer} The configured mailer.
+ */
+export function getMailer(): Mailer {
+	if (!configuredMailer) configuredMailer = createMailerFromEnv();
+	return configuredMailer;
+}
+
+/**
+ * @function appUrl
+ * @description Builds an absolute link to a frontend page, for use in emails.
+ * @param {string} pathname - The path, starting with `/` (e.g. `/auth/reset/<token>`).
+ * @returns {string} The absolute URL.
+ */
+export function appUrl(pathname: string): string {
+	const base = (process.env.APP_BASE_URL || DEFAULT_APP_BASE_URL).replace(/\/+$/, '');
+	return `${base}${pathname}`;
+}
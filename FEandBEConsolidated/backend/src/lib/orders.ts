@@ -0,0 +1,207 @@
+/**
+ * @fileoverview Order status lifecycle for purchases.
+ * @module lib/orders
+ * @description Every purchase has a `status` and a timestamped history of transitions in `purchase_status_events`. Orders start as `pending` and move through `paid`, `fulfilled`, `shipped`, and `delivered`; `cancelled` and `refunded` end the lifecycle. Only the transitions in `ORDER_TRANSITIONS` are allowed, and each is applied with a conditional update so two concurrent changes cannot both succeed.
+ * Ending an order gives back what it took: its discount uses are released, and if the goods never left (the order had not been shipped) its stock is put back.
+ * Guests can order too: a guest order records the contact email and the hash of a lookup token, which is emailed to the guest and opens a public order status page. Once someone confirms that email address on an account, the guest orders placed with it move to the account.
+ * @dependencies @prisma/client, ./db, ./discounts, ./inventory, ./mailer, ./tokens
+ * @exports ORDER_STATUSES - The list of all order statuses.
+ * @exports OrderStatus - Union type of all order statuses.
+ * @exports ORDER_TRANSITIONS - The statuses each status may move to.
+ * @exports CUSTOMER_CANCELLABLE_STATUSES - The statuses in which customers may cancel their own orders.
+ * @exports PAID_ORDER_STATUSES - The statuses of orders that were paid for and not cancelled or refunded.
+ * @exports recordOrderPlaced - Function to record the first history event of a new order.
+ * @exports transitionOrder - Function to move an order to a new status.
+ * @exports createOrderLookupToken - Function to generate the lookup token of a guest order.
+ * @exports findOrderByLookupToken - Function to load a guest order by its lookup token.
+ * @exports sendGuestOrderEmail - Function to email a guest their order confirmation and status link.
+ * @exports attachGuestOrders - Function to move guest orders to the account that confirmed their email.
+ * @author Gemini
+ * @lastModified 2026-10-19
+ */
+
+import type { Prisma } from '@prisma/client';
+import { db } from './db.js';
+import { releaseDiscounts } from './discounts.js';
+import { releaseStock } from './inventory.js';
+import { getMailer, appUrl } from './mailer.js';
+import { generateToken, hashToken } from './tokens.js';
+
+/**
+ * @constant {readonly string[]} ORDER_STATUSES - All order statuses, in lifecycle order.
+ */
+export const ORDER_STATUSES = ['pending', 'paid', 'fulfilled', 'shipped', 'delivered', 'cancelled', 'refunded'] as const;
+
+/**
+ * @typedef {typeof ORDER_STATUSES[number]} OrderStatus - Union type of all order statuses.
+ */
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+/**
+ * @constant {Record<OrderStatus, OrderStatus[]>} ORDER_TRANSITIONS - The statuses each status may move to. Paid orders are refunded rather than cancelled.
+ */
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+	pending: ['paid', 'cancelled'],
+	paid: ['fulfilled', 'refunded'],
+	fulfilled: ['shipped', 'refunded'],
+	shipped: ['delivered', 'refunded'],
+	delivered: ['refunded'],
+	cancelled: [],
+	refunded: []
+};
+
+/**
+ * @constant {OrderStatus[]} CUSTOMER_CANCELLABLE_STATUSES - The statuses in which customers may cancel their own orders.
+ */
+export const CUSTOMER_CANCELLABLE_STATUSES: OrderStatus[] = ['pending'];
+
+/**
+ * @constant {OrderStatus[]} PAID_ORDER_STATUSES - The statuses of orders that were paid for and not cancelled or refunded.
+ */
+export const PAID_ORDER_STATUSES: OrderStatus[] = ['paid', 'fulfilled', 'shipped', 'delivered'];
+
+/**
+ * @constant {OrderStatus[]} STOCK_RELEASING_STATUSES - Statuses from which ending an order puts its stock back (the goods have not left).
+ */
+const STOCK_RELEASING_STATUSES: OrderStatus[] = ['pending', 'paid', 'fulfilled'];
+
+/**
+ * @function recordOrderPlaced
+ * @description Records the first history event of a new order. Must run in the transaction that creates it.
+ * @param {Prisma.TransactionClient} tx - The transaction client.
+ * @param {string} purchaseId - The new purchase.
+ * @param {string | null} actorId - The user who placed it.
+ * @returns {Promise<void>}
+ */
+export async function recordOrderPlaced(tx: Prisma.TransactionClient, purchaseId: string, actorId: string | null): Promise<void> {
+	await tx.purchaseStatusEvent.create({
+		data: { purchaseId, fromStatus: null, toStatus: 'pending', note: 'Order placed', actorId }
+	});
+}
+
+/**
+ * @function transitionOrder
+ * @description Moves an order to a new status, records the transition, and when the order ends (cancelled or refunded) releases its discount uses and, if it had not shipped, its stock.
+ * @param {string} purchaseId - The purchase ID.
+ * @param {OrderStatus} to - The new status.
+ * @param {{ actorId: string | null; note?: string | null; allowedFrom?: OrderStatus[] }} options - Who made the change, an optional note, and optionally a narrower set of statuses the order may be in (used for customer cancellations).
+ * @returns {Promise<{ ok: true; status: OrderStatus } | { ok: false; reason: 'not-found' } | { ok: false; reason: 'invalid-transition'; status: OrderStatus; allowed: OrderStatus[] }>} The outcome.
+ *
+ * Steps:
+ *   1. Load the order and check the transition is allowed from its current status.
+ *   2. In a transaction, update the status only if it is still the one checked; if it changed meanwhile, report the new status.
+ *   3. Record the transition in the history.
+ *   4. If the order ended, release its discounts and, if it had not shipped, its stock.
+ */
+export async function transitionOrder(
+	purchaseId: string,
+	to: OrderStatus,
+	options: { actorId: string | null; note?: string | null; allowedFrom?: OrderStatus[] }
+) {
+	// Step 1: Check the transition.
+	const purchase = await db.purchase.findUnique({ where: { id: purchaseId }, select: { status: true } });
+	if (!purchase) {
+		return { ok: false as const, reason: 'not-found' as const };
+	}
+	const from = purchase.status as OrderStatus;
+	const allowed = ORDER_TRANSITIONS[from] ?? [];
+	if (!allowed.includes(to) || (options.allowedFrom && !options.allowedFrom.includes(from))) {
+		return { ok: false as const, reason: 'invalid-transition' as const, status: from, allowed };
+	}
+
+	return db.$transaction(async (tx) => {
+		// Step 2: Conditional update.
+		const { count } = await tx.purchase.updateMany({ where: { id: purchaseId, status: from }, data: { status: to } });
+		if (count === 0) {
+			const current = await tx.purchase.findUniqueOrThrow({ where: { id: purchaseId }, select: { status: true } });
+			const status = current.status as OrderStatus;
+			return { ok: false as const, reason: 'invalid-transition' as const, status, allowed: ORDER_TRANSITIONS[status] ?? [] };
+		}
+
+		// Step 3: History.
+		await tx.purchaseStatusEvent.create({
+			data: { purchaseId, fromStatus: from, toStatus: to, note: options.note || null, actorId: options.actorId }
+		});
+
+		// Step 4: Give back what the order took.
+		if (to === 'cancelled' || to === 'refunded') {
+			await releaseDiscounts(tx, purchaseId);
+			if (STOCK_RELEASING_STATUSES.includes(from)) {
+				await releaseStock(tx, purchaseId, to === 'cancelled' ? 'Order cancelled' : 'Order refunded before shipping');
+			}
+		}
+		return { ok: true as const, status: to };
+	});
+}
+
+/**
+ * @function createOrderLookupToken
+ * @description Generates the lookup token of a guest order. Only the hash is stored on the purchase; the token is shown once and emailed to the guest.
+ * @returns {{ token: string; tokenHash: string }} The token and its hash.
+ */
+export function createOrderLookupToken(): { token: string; tokenHash: string } {
+	const token = generateToken();
+	return { token, tokenHash: hashToken(token) };
+}
+
+/**
+ * @function findOrderByLookupToken
+ * @description Loads the order a lookup token belongs to, with what the public status page shows: status and history, items, delivery method, and totals (but not the email address or the delivery address).
+ * @param {string} token - The token from the status link.
+ * @returns {Promise<object | null>} The order, or null if the token matches none.
+ */
+export async function findOrderByLookupToken(token: string) {
+	return db.purchase.findUnique({
+		where: { lookupTokenHash: hashToken(token) },
+		select: {
+			id: true, status: true, subtotalCents: true, discountCents: true, shippingCents: true, taxCents: true, totalCents: true, createdAt: true,
+			deliveryMethodName: true,
+			items: { select: { id: true, quantity: true, priceCentsAtPurchase: true, product: { select: { id: true, name: true, slug: true } } } },
+			discounts: { select: { title: true, code: true, amountCents: true } },
+			taxLines: { select: { name: true, rateBasisPoints: true, amountCents: true } },
+			statusEvents: { select: { toStatus: true, note: true, createdAt: true }, orderBy: { createdAt: 'asc' } }
+		}
+	});
+}
+
+/**
+ * @function sendGuestOrderEmail
+ * @description Emails a guest their order confirmation with the link to the order status page.
+ * @param {string} email - The guest's email address.
+ * @param {{ id: string; totalCents: number }} purchase - The order.
+ * @param {string} token - The order's lookup token.
+ * @returns {Promise<void>}
+ */
+export async function sendGuestOrderEmail(email: string, purchase: { id: string; totalCents: number }, token: string): Promise<void> {
+	await getMailer().send({
+		to: email,
+		subject: `Your AgriCommerce order #${purchase.id.slice(-8).toUpperCase()}`,
+		text: [
+			'Thank you for your order!',
+			'',
+			`Order total: $${(purchase.totalCents / 100).toFixed(2)}`,
+			'',
+			'You can follow its status at any time from this link:',
+			'',
+			appUrl(`/orders/${token}`),
+			'',
+			'Create an AgriCommerce account with this email address and confirm it to see this order in your purchase history.'
+		].join('\n')
+	});
+}
+
+/**
+ * @function attachGuestOrders
+ * @description Moves the guest orders placed with a user's email address to their account. Called once the address is confirmed, so that nobody can claim another person's orders by signing up with their email.
+ * @param {string} userId - The user whose email address was confirmed.
+ * @returns {Promise<number>} The number of orders attached.
+ */
+export async function attachGuestOrders(userId: string): Promise<number> {
+	const user = await db.user.findUnique({ where: { id: userId }, select: { email: true, emailVerifiedAt: true } });
+	if (!user?.emailVerifiedAt) return 0;
+	const { count } = await db.purchase.updateMany({
+		where: { userId: null, guestEmail: user.email },
+		data: { userId }
+	});
+	return count;
+}
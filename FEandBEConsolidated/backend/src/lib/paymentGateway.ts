@@ -0,0 +1,367 @@
+/**
+ * @fileoverview Pluggable card payment gateway.
+ * @module lib/paymentGateway
+ * @description This module defines the `PaymentGateway` interface every payment provider implements (authorize a card payment, answer a 3-D-Secure-style challenge, capture, refund, and verify the provider's webhooks) and a deterministic local fake provider for development and the lab, where no real provider is reachable. The fake keeps its payments in memory, so they are forgotten when the server restarts. Its outcome depends only on the card number (see `FAKE_TEST_CARDS`): some cards are approved, some declined, some need a challenge first, and some settle later through a signed webhook posted back to the backend. `PAYMENT_GATEWAY` selects the provider (`fake` is the only one so far); the environment is read on first use, after `dotenv` has loaded it.
+ * Card details are passed to `authorize()` and nowhere else; only the brand and last four digits come back.
+ * @dependencies crypto
+ * @exports CardDetails - Interface for the card details entered at checkout.
+ * @exports CardSummary - Interface for the part of a card that may be shown and stored.
+ * @exports AuthorizationResult - Union type of the outcomes of an authorization.
+ * @exports PaymentWebhookEvent - Interface for a verified webhook event.
+ * @exports PaymentGateway - Interface implemented by every payment provider.
+ * @exports PaymentGatewayError - Error thrown when a provider rejects a request or cannot be reached.
+ * @exports summarizeCard - Function to derive the brand and last four digits of a card.
+ * @exports FAKE_TEST_CARDS - The card numbers with a special outcome at the fake provider.
+ * @exports FAKE_SIGNATURE_HEADER - Name of the header carrying the fake provider's webhook signature.
+ * @exports createFakeGateway - Function to create the local fake provider.
+ * @exports getPaymentGateway - Function returning the payment gateway configured from the environment.
+ * @author Gemini
+ * @lastModified 2026-10-19
+ */
+
+import crypto from 'crypto';
+
+/**
+ * @constant {string} DEFAULT_WEBHOOK_SECRET - Webhook signing secret of the fake provider used when `PAYMENT_WEBHOOK_SECRET` is not set.
+ */
+const DEFAULT_WEBHOOK_SECRET = 'fake-gateway-webhook-secret';
+/**
+ * @constant {number} DEFAULT_WEBHOOK_DELAY_MS - How long the fake provider waits before posting a webhook when `FAKE_PAYMENT_WEBHOOK_DELAY_MS` is not set (3 seconds).
+ */
+const DEFAULT_WEBHOOK_DELAY_MS = 3000;
+/**
+ * @constant {number} WEBHOOK_TOLERANCE_SECONDS - How old a webhook signature may be before it is refused, so captured webhooks cannot be replayed later (5 minutes).
+ */
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * @type {PaymentGateway | null} configuredGateway - The gateway built by `getPaymentGateway`, once created.
+ */
+let configuredGateway: PaymentGateway | null = null;
+
+/**
+ * @interface CardDetails
+ * @description The card details entered at checkout. Never stored or logged.
+ * @property {string} number - The card number, digits only.
+ * @property {number} expMonth - The expiry month (1-12).
+ * @property {number} expYear - The four-digit expiry year.
+ * @property {string} cvc - The security code.
+ * @property {string} holderName - The name on the card.
+ */
+export interface CardDetails {
+	number: string;
+	expMonth: number;
+	expYear: number;
+	cvc: string;
+	holderName: string;
+}
+
+/**
+ * @interface CardSummary
+ * @description The part of a card that may be shown and stored.
+ * @property {string} brand - The card brand (`visa`, `mastercard`, `amex`, `discover`, or `card` if unknown).
+ * @property {string} last4 - The last four digits of the card number.
+ */
+export interface CardSummary {
+	brand: string;
+	last4: string;
+}
+
+/**
+ * @typedef {object} AuthorizationResult - The outcome of an authorization, or of a challenge answer:
+ * - `authorized`: the amount is held on the card and can be captured.
+ * - `requires_action`: the card issuer wants the customer to answer a challenge first (`confirmChallenge()`).
+ * - `processing`: the outcome will arrive later, by webhook.
+ * - `declined`: the card was declined, with a machine-readable `declineCode` and a message for the customer.
+ */
+export type AuthorizationResult =
+	| { status: 'authorized' | 'requires_action' | 'processing'; providerPaymentId: string; card: CardSummary }
+	| { status: 'declined'; providerPaymentId: string; card: CardSummary; declineCode: string; message: string };
+
+/**
+ * @interface PaymentWebhookEvent
+ * @description A webhook event whose signature was verified, in a provider-neutral form.
+ * @property {string} id - The provider's event ID.
+ * @property {'payment.authorized' | 'payment.declined' | 'payment.captured' | 'payment.refunded'} type - What happened.
+ * @property {string} providerPaymentId - The provider's payment ID.
+ * @property {string | null} declineCode - Why the payment was declined, for `payment.declined`.
+ * @property {string | null} message - The decline message for the customer, for `payment.declined`.
+ */
+export interface PaymentWebhookEvent {
+	id: string;
+	type: 'payment.authorized' | 'payment.declined' | 'payment.captured' | 'payment.refunded';
+	providerPaymentId: string;
+	declineCode: string | null;
+	message: string | null;
+}
+
+/**
+ * @interface PaymentGateway
+ * @description A payment provider. Every method rejects with a `PaymentGatewayError` if the provider refuses the request or cannot be reached.
+ * @property {string} name - A short name, stored with each payment (e.g. `fake`).
+ * @property {(input: { amountCents: number; currency: string; card: CardDetails; reference: string }) => Promise<AuthorizationResult>} authorize - Asks to hold an amount on a card; `reference` is the order ID.
+ * @property {(providerPaymentId: string, response: string) => Promise<AuthorizationResult>} confirmChallenge - Passes on the customer's answer to a challenge.
+ * @property {(providerPaymentId: string, amountCents: number) => Promise<void>} capture - Collects an authorized amount.
+ * @property {(providerPaymentId: string, amountCents: number) => Promise<void>} refund - Returns a captured amount, or releases an authorized one that was never captured.
+ * @property {(rawBody: Buffer, headers: Record<string, string | string[] | undefined>) => PaymentWebhookEvent | null} verifyWebhook - Checks a webhook's signature and parses it; null if the signature is missing, wrong, or too old.
+ */
+export interface PaymentGateway {
+	name: string;
+	authorize(input: { amountCents: number; currency: string; card: CardDetails; reference: string }): Promise<AuthorizationResult>;
+	confirmChallenge(providerPaymentId: string, response: string): Promise<AuthorizationResult>;
+	capture(providerPaymentId: string, amountCents: number): Promise<void>;
+	refund(providerPaymentId: string, amountCents: number): Promise<void>;
+	verifyWebhook(rawBody: Buffer, headers: Record<string, string | string[] | undefined>): PaymentWebhookEvent | null;
+}
+
+/**
+ * @class PaymentGatewayError
+ * @description Thrown when a payment provider refuses a request (for example, capturing a payment that was not authorized) or cannot be reached.
+ * @property {string} code - A machine-readable reason.
+ */
+export class PaymentGatewayError extends Error {
+	code: string;
+
+	constructor(code: string, message: string) {
+		super(message);
+		this.name = 'PaymentGatewayError';
+		this.code = code;
+	}
+}
+
+/**
+ * @function summarizeCard
+ * @description Derives the brand and last four digits of a card number.
+ * @param {string} number - The card number, digits only.
+ * @returns {CardSummary} The summary.
+ */
+export function summarizeCard(number: string): CardSummary {
+	const prefix2 = Number(number.slice(0, 2));
+	const prefix4 = Number(number.slice(0, 4));
+	let brand = 'card';
+	if (number.startsWith('4')) brand = 'visa';
+	else if ((prefix2 >= 51 && prefix2 <= 55) || (prefix4 >= 2221 && prefix4 <= 2720)) brand = 'mastercard';
+	else if (prefix2 === 34 || prefix2 === 37) brand = 'amex';
+	else if (number.startsWith('6011') || prefix2 === 65) brand = 'discover';
+	return { brand, last4: number.slice(-4) };
+}
+
+/**
+ * @constant {Record<string, object>} FAKE_TEST_CARDS - The card numbers with a special outcome at the fake provider. Any other valid card number is approved.
+ * - `declined` cards are declined straight away with the given code.
+ * - `challenge` cards need the customer to answer a challenge: `approve` authorizes the payment, anything else declines it.
+ * - `delayed` cards return `processing`, and the outcome (`authorized` or the decline code) arrives by webhook.
+ */
+export const FAKE_TEST_CARDS: Record<string, { outcome: 'declined' | 'challenge' | 'delayed'; declineCode?: string }> = {
+	'4000000000000002': { outcome: 'declined', declineCode: 'card_declined' },
+	'4000000000009995': { outcome: 'declined', declineCode: 'insufficient_funds' },
+	'4000000000000069': { outcome: 'declined', declineCode: 'expired_card' },
+	'4000000000000127': { outcome: 'declined', declineCode: 'incorrect_cvc' },
+	'4000000000003220': { outcome: 'challenge' },
+	'4000000000000077': { outcome: 'delayed' },
+	'4000000000000119': { outcome: 'delayed', declineCode: 'processing_error' }
+};
+
+/**
+ * @constant {Record<string, string>} DECLINE_MESSAGES - The message shown to the customer for each decline code.
+ */
+const DECLINE_MESSAGES: Record<string, string> = {
+	card_declined: 'Your card was declined.',
+	insufficient_funds: 'Your card has insufficient funds.',
+	expired_card: 'Your card has expired.',
+	incorrect_cvc: "Your card's security code is incorrect.",
+	authentication_failed: 'We could not verify this payment with your card issuer.',
+	processing_error: 'An error occurred while processing your card. Please try again.'
+};
+
+/**
+ * @constant {string} FAKE_SIGNATURE_HEADER - The header carrying the fake provider's webhook signature: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`.
+ */
+export const FAKE_SIGNATURE_HEADER = 'x-fake-gateway-signature';
+
+/**
+ * @interface FakePayment
+ * @description A payment held in the fake provider's memory.
+ * @property {number} amountCents - The authorized amount.
+ * @property {CardSummary} card - The card's brand and last four digits.
+ * @property {'requires_action' | 'processing' | 'authorized' | 'captured' | 'declined' | 'refunded' | 'voided'} status - The payment's state at the provider.
+ */
+interface FakePayment {
+	amountCents: number;
+	card: CardSummary;
+	status: 'requires_action' | 'processing' | 'authorized' | 'captured' | 'declined' | 'refunded' | 'voided';
+}
+
+/**
+ * @function createFakeGateway
+ * @description Creates the local fake provider. It never contacts a real payment network; outcomes follow `FAKE_TEST_CARDS`, a past expiry date is declined as `expired_card`, and every state change is also announced by a signed webhook posted to `webhookUrl` after `webhookDelayMs`.
+ * @param {object} options - The fake provider's settings.
+ * @param {string} options.webhookSecret - The secret webhooks are signed with.
+ * @param {string} options.webhookUrl - Where webhooks are posted (the backend's `/api/payments/webhook`).
+ * @param {number} options.webhookDelayMs - How long to wait before posting a webhook.
+ * @returns {PaymentGateway} The fake provider.
+ */
+export function createFakeGateway(options: { webhookSecret: string; webhookUrl: string; webhookDelayMs: number }): PaymentGateway {
+	const payments = new Map<string, FakePayment>();
+
+	const sign = (timestamp: number, body: string) =>
+		crypto.createHmac('sha256', options.webhookSecret).update(`${timestamp}.${body}`).digest('hex');
+
+	const find = (providerPaymentId: string): FakePayment => {
+		const payment = payments.get(providerPaymentId);
+		if (!payment) throw new PaymentGatewayError('payment_not_found', 'No such payment');
+		return payment;
+	};
+
+	const decline = (providerPaymentId: string, payment: FakePayment, declineCode: string): AuthorizationResult => {
+		payment.status = 'declined';
+		return { status: 'declined', providerPaymentId, card: payment.card, declineCode, message: DECLINE_MESSAGES[declineCode] };
+	};
+
+	/**
+	 * Posts a signed webhook after the configured delay. `settle`, if given, runs first and can cancel the webhook by returning false.
+	 * Delivery failures are logged; the fake provider does not retry.
+	 */
+	const sendWebhook = (type: PaymentWebhookEvent['type'], providerPaymentId: string, declineCode: string | null = null, settle?: () => boolean) => {
+		const timer = setTimeout(() => {
+			if (settle && !settle()) return;
+			const body = JSON.stringify({
+				id: `fake_evt_${crypto.randomBytes(12).toString('hex')}`,
+				type,
+				data: { paymentId: providerPaymentId, declineCode, message: declineCode ? DECLINE_MESSAGES[declineCode] : null }
+			});
+			const timestamp = Math.floor(Date.now() / 1000);
+			fetch(options.webhookUrl, {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json', [FAKE_SIGNATURE_HEADER]: `t=${timestamp},v1=${sign(timestamp, body)}` },
+				body
+			})
+				.then((response) => {
+					if (!response.ok) console.error(`Fake gateway webhook ${type} rejected with ${response.status}`);
+				})
+				.catch((error) => console.error('Fake gateway webhook error:', error));
+		}, options.webhookDelayMs);
+		timer.unref();
+	};
+
+	return {
+		name: 'fake',
+		async authorize({ amountCents, card }) {
+			const providerPaymentId = `fake_pay_${crypto.randomBytes(12).toString('hex')}`;
+			const payment: FakePayment = { amountCents, card: summarizeCard(card.number), status: 'authorized' };
+			payments.set(providerPaymentId, payment);
+
+			const now = new Date();
+			const expired = card.expYear < now.getUTCFullYear() || (card.expYear === now.getUTCFullYear() && card.expMonth < now.getUTCMonth() + 1);
+			const testCard = FAKE_TEST_CARDS[card.number];
+			if (expired) return decline(providerPaymentId, payment, 'expired_card');
+			if (testCard?.outcome === 'declined') return decline(providerPaymentId, payment, testCard.declineCode!);
+			if (testCard?.outcome === 'challenge') {
+				payment.status = 'requires_action';
+				return { status: 'requires_action', providerPaymentId, card: payment.card };
+			}
+			if (testCard?.outcome === 'delayed') {
+				payment.status = 'processing';
+				const declineCode = testCard.declineCode;
+				sendWebhook(declineCode ? 'payment.declined' : 'payment.authorized', providerPaymentId, declineCode ?? null, () => {
+					if (payment.status !== 'processing') return false;
+					payment.status = declineCode ? 'declined' : 'authorized';
+					return true;
+				});
+				return { status: 'processing', providerPaymentId, card: payment.card };
+			}
+			return { status: 'authorized', providerPaymentId, card: payment.card };
+		},
+		async confirmChallenge(providerPaymentId, response) {
+			const payment = find(providerPaymentId);
+			if (payment.status !== 'requires_action') {
+				throw new PaymentGatewayError('invalid_state', `The payment is ${payment.status}, not awaiting a challenge`);
+			}
+			if (response !== 'approve') return decline(providerPaymentId, payment, 'authentication_failed');
+			payment.status = 'authorized';
+			return { status: 'authorized', providerPaymentId, card: payment.card };
+		},
+		async capture(providerPaymentId, amountCents) {
+			const payment = find(providerPaymentId);
+			if (payment.status !== 'authorized') {
+				throw new PaymentGatewayError('invalid_state', `The payment is ${payment.status}, not authorized`);
+			}
+			if (amountCents > payment.amountCents) {
+				throw new PaymentGatewayError('amount_too_large', 'Cannot capture more than was authorized');
+			}
+			payment.status = 'captured';
+			sendWebhook('payment.captured', providerPaymentId);
+		},
+		async refund(providerPaymentId, amountCents) {
+			const payment = find(providerPaymentId);
+			if (payment.status === 'authorized') {
+				// Never captured: release the hold instead.
+				payment.status = 'voided';
+				return;
+			}
+			if (payment.status !== 'captured') {
+				throw new PaymentGatewayError('invalid_state', `The payment is ${payment.status}, not captured`);
+			}
+			if (amountCents > payment.amountCents) {
+				throw new PaymentGatewayError('amount_too_large', 'Cannot refund more than was captured');
+			}
+			payment.status = 'refunded';
+			sendWebhook('payment.refunded', providerPaymentId);
+		},
+		verifyWebhook(rawBody, headers) {
+			const header = headers[FAKE_SIGNATURE_HEADER];
+			const match = typeof header === 'string' ? /^t=(\d+),v1=([0-9a-f]{64})$/.exec(header) : null;
+			if (!match) return null;
+			const timestamp = Number(match[1]);
+			if (Math.abs(Date.now() / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS) return null;
+			const expected = Buffer.from(sign(timestamp, rawBody.toString('utf8')), 'hex');
+			if (!crypto.timingSafeEqual(expected, Buffer.from(match[2], 'hex'))) return null;
+
+			try {
+				const event = JSON.parse(rawBody.toString('utf8'));
+				return {
+					id: String(event.id),
+					type: event.type,
+					providerPaymentId: String(event.data.paymentId),
+					declineCode: event.data.declineCode ?? null,
+					message: event.data.message ?? null
+				};
+			} catch {
+				return null;
+			}
+		}
+	};
+}
+
+/**
+ * @function createGatewayFromEnv
+ * @description Builds the gateway selected by `PAYMENT_GATEWAY`.
+ * @returns {PaymentGateway} The configured gateway.
+ *
+ * Steps:
+ *   1. Refuse providers that do not exist, so a typo does not quietly fall back to the fake one.
+ *   2. Build the fake provider with `PAYMENT_WEBHOOK_SECRET`, `PAYMENT_WEBHOOK_URL` (default: this server's `/api/payments/webhook`), and `FAKE_PAYMENT_WEBHOOK_DELAY_MS`.
+ */
+function createGatewayFromEnv(): PaymentGateway {
+	// Step 1: Check the provider.
+	const provider = process.env.PAYMENT_GATEWAY || 'fake';
+	if (provider !== 'fake') {
+		throw new Error(`Unknown PAYMENT_GATEWAY "${provider}"`);
+	}
+	// Step 2: Fake provider.
+	return createFakeGateway({
+		webhookSecret: process.env.PAYMENT_WEBHOOK_SECRET || DEFAULT_WEBHOOK_SECRET,
+		webhookUrl: process.env.PAYMENT_WEBHOOK_URL || `http://localhost:${process.env.PORT || 33771}/api/payments/webhook`,
+		webhookDelayMs: parseInt(process.env.FAKE_PAYMENT_WEBHOOK_DELAY_MS || String(DEFAULT_WEBHOOK_DELAY_MS), 10)
+	});
+}
+
+/**
+ * @function getPaymentGateway
+ * @description Returns the payment gateway used by the application, creating it from the environment on first call.
+ * @returns {PaymentGateway} The configured gateway.
+ */
+export function getPaymentGateway(): PaymentGateway {
+	if (!configuredGateway) configuredGateway = createGatewayFromEnv();
+	return configuredGateway;
+}
@@ -0,0 +1,392 @@
+/**
+ * @fileoverview Card payments for orders, and how they move order status.
+ * @module lib/payments
+ * @description Every order with something to pay gets one payment, made through the configured `PaymentGateway` right after checkout creates the order as `pending`. The order's status then follows the payment: an authorized payment is captured and the order becomes `paid`; a declined one cancels the order (giving back its stock and discount uses); a payment waiting for a challenge answer or for the provider's webhook leaves the order `pending` until it settles. Refunding a paid order refunds its payment first, and cancelling a pending order cancels its open payment.
+ * Payment statuses change with conditional updates, so a webhook and a challenge answer (or two deliveries of one webhook) cannot both settle the same payment. Only the card's brand and last four digits are stored; the card details go to the gateway and are never written or logged.
+ * @dependencies @prisma/client, ./db, ./orders, ./paymentGateway, ./tokens
+ * @exports PAYMENT_STATUSES - The list of all payment statuses.
+ * @exports PaymentStatus - Union type of all payment statuses.
+ * @exports PAYMENT_SELECT - Prisma select for the payment fields shown to customers and admins.
+ * @exports PaymentOutcome - Interface for the result of paying for an order.
+ * @exports payForOrder - Function to pay for a new order with a card.
+ * @exports answerPaymentChallenge - Function to pass on a customer's answer to a payment challenge.
+ * @exports handlePaymentEvent - Function to apply a verified webhook event.
+ * @exports refundOrder - Function to refund an order and its payment.
+ * @exports cancelOrderPayment - Function to cancel the open payment of a cancelled order.
+ * @author Gemini
+ * @lastModified 2026-10-19
+ */
+
+import type { Prisma } from '@prisma/client';
+import { db } from './db.js';
+import { ORDER_TRANSITIONS, transitionOrder } from './orders.js';
+import type { OrderStatus } from './orders.js';
+import { getPaymentGateway } from './paymentGateway.js';
+import type { AuthorizationResult, CardDetails, PaymentWebhookEvent } from './paymentGateway.js';
+import { generateToken, hashToken } from './tokens.js';
+
+/**
+ * @constant {readonly string[]} PAYMENT_STATUSES - All payment statuses.
+ * - `requires_action`: waiting for the customer to answer the card issuer's challenge.
+ * - `processing`: waiting for the provider's webhook.
+ * - `authorized`: the amount is held on the card but not yet captured (capturing failed).
+ * - `captured`: paid.
+ * - `declined`: the card was declined; the order was cancelled.
+ * - `cancelled`: the order was cancelled before the payment settled.
+ * - `refunded`: the amount was returned to the card.
+ */
+export const PAYMENT_STATUSES = ['requires_action', 'processing', 'authorized', 'captured', 'declined', 'cancelled', 'refunded'] as const;
+
+/**
+ * @typedef {typeof PAYMENT_STATUSES[number]} PaymentStatus - Union type of all payment statuses.
+ */
+export type PaymentStatus = (typeof PAYMENT_STATUSES)[number];
+
+/**
+ * @constant {PaymentStatus[]} OPEN_PAYMENT_STATUSES - Statuses of payments that have not settled yet.
+ */
+const OPEN_PAYMENT_STATUSES: PaymentStatus[] = ['requires_action', 'processing'];
+
+/**
+ * @constant {Prisma.PaymentSelect} PAYMENT_SELECT - The payment fields shown to customers and admins.
+ */
+export const PAYMENT_SELECT = {
+	id: true, status: true, amountCents: true, cardBrand: true, cardLast4: true, declineCode: true, createdAt: true
+} satisfies Prisma.PaymentSelect;
+
+/**
+ * @typedef {object} PaymentRecord - The payment fields the settling steps work with.
+ */
+type PaymentRecord = { id: string; purchaseId: string; providerPaymentId: string; amountCents: number; cardBrand: string; cardLast4: string };
+
+/**
+ * @constant {Prisma.PaymentSelect} PAYMENT_RECORD_SELECT - Prisma select for `PaymentRecord`.
+ */
+const PAYMENT_RECORD_SELECT = {
+	id: true, purchaseId: true, providerPaymentId: true, amountCents: true, cardBrand: true, cardLast4: true
+} satisfies Prisma.PaymentSelect;
+
+/**
+ * @interface PaymentOutcome
+ * @description The result of paying for an order, or of answering its payment challenge.
+ * @property {object | null} payment - The payment (`PAYMENT_SELECT` fields), or null if nothing was due.
+ * @property {OrderStatus} orderStatus - The order's status afterwards.
+ * @property {string | null} clientSecret - For a payment awaiting a challenge answer, the secret that authorizes answering it (returned once, stored hashed).
+ * @property {string | null} declineMessage - Why the card was declined, for the customer.
+ */
+export interface PaymentOutcome {
+	payment: Prisma.PaymentGetPayload<{ select: typeof PAYMENT_SELECT }> | null;
+	orderStatus: OrderStatus;
+	clientSecret: string | null;
+	declineMessage: string | null;
+}
+
+/**
+ * @function cardLabel
+ * @description Describes a card for order history notes (e.g. "visa ending 4242").
+ * @param {PaymentRecord} payment - The payment.
+ * @returns {string} The description.
+ */
+function cardLabel(payment: PaymentRecord): string {
+	return `${payment.cardBrand} ending ${payment.cardLast4}`;
+}
+
+/**
+ * @function claimPaymentStatus
+ * @description Moves a payment to a new status only if it is still in one of the expected ones.
+ * @param {string} paymentId - The payment.
+ * @param {PaymentStatus[]} from - The statuses it may be in.
+ * @param {PaymentStatus} to - The new status.
+ * @param {Prisma.PaymentUpdateManyMutationInput} [data] - Other fields to update with it.
+ * @returns {Promise<boolean>} Whether the payment moved.
+ */
+async function claimPaymentStatus(paymentId: string, from: PaymentStatus[], to: PaymentStatus, data: Prisma.PaymentUpdateManyMutationInput = {}): Promise<boolean> {
+	const { count } = await db.payment.updateMany({ where: { id: paymentId, status: { in: from } }, data: { ...data, status: to } });
+	return count > 0;
+}
+
+/**
+ * @function settleAuthorized
+ * @description Captures an authorized payment and marks its order paid. If the order was cancelled while the payment was open, the hold is released instead.
+ * @param {PaymentRecord} payment - A payment in the `authorized` status.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. If the order is no longer pending, release the hold and mark the payment cancelled.
+ *   2. Capture the amount. If the gateway refuses, log it and leave the payment authorized and the order pending.
+ *   3. Mark the payment captured and the order paid.
+ */
+async function settleAuthorized(payment: PaymentRecord): Promise<void> {
+	const gateway = getPaymentGateway();
+
+	// Step 1: The order may have been cancelled meanwhile.
+	const purchase = await db.purchase.findUnique({ where: { id: payment.purchaseId }, select: { status: true } });
+	if (purchase?.status !== 'pending') {
+		if (await claimPaymentStatus(payment.id, ['authorized'], 'cancelled')) {
+			await gateway.refund(payment.providerPaymentId, payment.amountCents)
+				.catch((error) => console.error('Release payment hold error:', error));
+		}
+		return;
+	}
+
+	// Step 2: Capture.
+	try {
+		await gateway.capture(payment.providerPaymentId, payment.amountCents);
+	} catch (error) {
+		console.error('Capture payment error:', error);
+		return;
+	}
+
+	// Step 3: Paid.
+	if (await claimPaymentStatus(payment.id, ['authorized'], 'captured')) {
+		await transitionOrder(payment.purchaseId, 'paid', { actorId: null, note: `Payment captured (${cardLabel(payment)})` });
+	}
+}
+
+/**
+ * @function cancelDeclinedOrder
+ * @description Cancels the order of a declined payment, giving back its stock and discount uses.
+ * @param {PaymentRecord} payment - The declined payment.
+ * @param {string | null} message - The decline message.
+ * @returns {Promise<void>}
+ */
+async function cancelDeclinedOrder(payment: PaymentRecord, message: string | null): Promise<void> {
+	await transitionOrder(payment.purchaseId, 'cancelled', {
+		actorId: null,
+		note: `Payment declined (${cardLabel(payment)})${message ? `: ${message}` : ''}`,
+		allowedFrom: ['pending']
+	});
+}
+
+/**
+ * @function settleOpenPayment
+ * @description Applies the outcome of a challenge answer or a webhook to a payment that had not settled.
+ * @param {PaymentRecord} payment - The payment.
+ * @param {AuthorizationResult['status']} status - The outcome.
+ * @param {string | null} declineCode - Why it was declined, if it was.
+ * @param {string | null} message - The decline message, if it was.
+ * @returns {Promise<boolean>} Whether this call settled the payment (false if it had already settled).
+ */
+async function settleOpenPayment(payment: PaymentRecord, status: AuthorizationResult['status'], declineCode: string | null, message: string | null): Promise<boolean> {
+	if (status === 'authorized') {
+		if (!(await claimPaymentStatus(payment.id, OPEN_PAYMENT_STATUSES, 'authorized', { clientSecretHash: null }))) return false;
+		await settleAuthorized(payment);
+		return true;
+	}
+	if (status === 'declined') {
+		if (!(await claimPaymentStatus(payment.id, OPEN_PAYMENT_STATUSES, 'declined', { declineCode, clientSecretHash: null }))) return false;
+		await cancelDeclinedOrder(payment, message);
+		return true;
+	}
+	return false;
+}
+
+/**
+ * @function loadOutcome
+ * @description Reads a payment and its order's status after a change.
+ * @param {string} paymentId - The payment.
+ * @param {string | null} clientSecret - The client secret to return, if any.
+ * @param {string | null} declineMessage - The decline message to return, if any.
+ * @returns {Promise<PaymentOutcome>} The outcome.
+ */
+async function loadOutcome(paymentId: string, clientSecret: string | null, declineMessage: string | null): Promise<PaymentOutcome> {
+	const { purchase, ...payment } = await db.payment.findUniqueOrThrow({
+		where: { id: paymentId },
+		select: { ...PAYMENT_SELECT, purchase: { select: { status: true } } }
+	});
+	return { payment, orderStatus: purchase.status as OrderStatus, clientSecret, declineMessage };
+}
+
+/**
+ * @function payForOrder
+ * @description Pays for a new `pending` order with a card and moves the order according to the result.
+ * @param {{ id: string; totalCents: number }} purchase - The order.
+ * @param {CardDetails} card - The card details. Passed to the gateway only.
+ * @returns {Promise<PaymentOutcome>} The outcome.
+ * @throws {PaymentGatewayError} If the gateway could not be reached or refused the request; the order is cancelled first.
+ *
+ * Steps:
+ *   1. If nothing is due (the discounts covered the whole order), mark the order paid without a payment.
+ *   2. Ask the gateway to authorize the total. If it fails, cancel the order and rethrow.
+ *   3. Record the payment with the card's brand and last four digits, and for a challenge, the hash of a new client secret.
+ *   4. Capture an authorized payment and mark the order paid, or cancel the order of a declined one; challenges and delayed outcomes leave it pending.
+ */
+export async function payForOrder(purchase: { id: string; totalCents: number }, card: CardDetails): Promise<PaymentOutcome> {
+	// Step 1: Nothing due.
+	if (purchase.totalCents === 0) {
+		const result = await transitionOrder(purchase.id, 'paid', { actorId: null, note: 'No payment due' });
+		return { payment: null, orderStatus: result.ok ? result.status : 'pending', clientSecret: null, declineMessage: null };
+	}
+
+	// Step 2: Authorize.
+	const gateway = getPaymentGateway();
+	let result: AuthorizationResult;
+	try {
+		result = await gateway.authorize({ amountCents: purchase.totalCents, currency: 'usd', card, reference: purchase.id });
+	} catch (error) {
+		await transitionOrder(purchase.id, 'cancelled', { actorId: null, note: 'Payment could not be processed', allowedFrom: ['pending'] });
+		throw error;
+	}
+
+	// Step 3: Record the payment.
+	const clientSecret = result.status === 'requires_action' ? generateToken() : null;
+	const payment = await db.payment.create({
+		data: {
+			purchaseId: purchase.id,
+			provider: gateway.name,
+			providerPaymentId: result.providerPaymentId,
+			status: result.status,
+			amountCents: purchase.totalCents,
+			cardBrand: result.card.brand,
+			cardLast4: result.card.last4,
+			declineCode: result.status === 'declined' ? result.declineCode : null,
+			clientSecretHash: clientSecret ? hashToken(clientSecret) : null
+		},
+		select: PAYMENT_RECORD_SELECT
+	});
+
+	// Step 4: Move the order.
+	if (result.status === 'authorized') {
+		await settleAuthorized(payment);
+	} else if (result.status === 'declined') {
+		await cancelDeclinedOrder(payment, result.message);
+	}
+	return loadOutcome(payment.id, clientSecret, result.status === 'declined' ? result.message : null);
+}
+
+/**
+ * @function answerPaymentChallenge
+ * @description Passes on a customer's answer to the challenge of a payment awaiting one, and moves the order according to the result.
+ * @param {string} paymentId - The payment.
+ * @param {string} clientSecret - The client secret returned at checkout.
+ * @param {string} response - The customer's answer.
+ * @returns {Promise<PaymentOutcome | { error: 'not-found' } | { error: 'not-awaiting-challenge'; status: PaymentStatus }>} The outcome, or why the answer was refused.
+ *
+ * Steps:
+ *   1. Find the payment by ID and client secret; if none matches, report it as not found.
+ *   2. Check it is still awaiting a challenge answer.
+ *   3. Pass the answer to the gateway and settle the payment with the result.
+ */
+export async function answerPaymentChallenge(paymentId: string, clientSecret: string, response: string) {
+	// Step 1: Find the payment.
+	const payment = await db.payment.findFirst({
+		where: { id: paymentId, clientSecretHash: hashToken(clientSecret) },
+		select: { ...PAYMENT_RECORD_SELECT, status: true }
+	});
+	if (!payment) {
+		return { error: 'not-found' as const };
+	}
+
+	// Step 2: Check the status.
+	if (payment.status !== 'requires_action') {
+		return { error: 'not-awaiting-challenge' as const, status: payment.status as PaymentStatus };
+	}
+
+	// Step 3: Answer and settle.
+	const result = await getPaymentGateway().confirmChallenge(payment.providerPaymentId, response);
+	const declined = result.status === 'declined';
+	await settleOpenPayment(payment, result.status, declined ? result.declineCode : null, declined ? result.message : null);
+	return loadOutcome(payment.id, null, declined ? result.message : null);
+}
+
+/**
+ * @function handlePaymentEvent
+ * @description Applies a verified webhook event from the gateway. Every event may arrive more than once or after the payment settled another way; repeats change nothing.
+ * @param {string} provider - The gateway that sent it.
+ * @param {PaymentWebhookEvent} event - The event.
+ * @returns {Promise<boolean>} Whether the event belongs to a known payment.
+ *
+ * Steps:
+ *   1. Find the payment; ignore events for unknown payments.
+ *   2. `payment.authorized` / `payment.declined`: settle an open payment. An authorization for a payment cancelled meanwhile is released.
+ *   3. `payment.captured`: if the capture response was lost, mark the payment captured and the order paid.
+ *   4. `payment.refunded`: for a refund made at the provider, mark the payment and the order refunded.
+ */
+export async function handlePaymentEvent(provider: string, event: PaymentWebhookEvent): Promise<boolean> {
+	// Step 1: Find the payment.
+	const payment = await db.payment.findUnique({
+		where: { provider_providerPaymentId: { provider, providerPaymentId: event.providerPaymentId } },
+		select: { ...PAYMENT_RECORD_SELECT, status: true }
+	});
+	if (!payment) return false;
+
+	switch (event.type) {
+		// Step 2: Delayed outcomes.
+		case 'payment.authorized':
+			if (!(await settleOpenPayment(payment, 'authorized', null, null)) && payment.status === 'cancelled') {
+				await getPaymentGateway().refund(payment.providerPaymentId, payment.amountCents)
+					.catch((error) => console.error('Release payment hold error:', error));
+			}
+			break;
+		case 'payment.declined':
+			await settleOpenPayment(payment, 'declined', event.declineCode, event.message);
+			break;
+		// Step 3: Captures.
+		case 'payment.captured':
+			if (await claimPaymentStatus(payment.id, ['authorized'], 'captured')) {
+				await transitionOrder(payment.purchaseId, 'paid', { actorId: null, note: `Payment captured (${cardLabel(payment)})` });
+			}
+			break;
+		// Step 4: Refunds.
+		case 'payment.refunded':
+			if (await claimPaymentStatus(payment.id, ['captured'], 'refunded')) {
+				await transitionOrder(payment.purchaseId, 'refunded', { actorId: null, note: 'Refunded at the payment provider' });
+			}
+			break;
+	}
+	return true;
+}
+
+/**
+ * @function refundOrder
+ * @description Refunds an order: returns its captured payment to the card, then moves the order to `refunded` with `transitionOrder()`. Orders without a captured payment (nothing was due, or they predate payments) are only moved.
+ * @param {string} purchaseId - The purchase ID.
+ * @param {{ actorId: string | null; note?: string | null }} options - Who made the change and an optional note.
+ * @returns {Promise<Awaited<ReturnType<typeof transitionOrder>>>} The outcome, as for `transitionOrder()`.
+ * @throws {PaymentGatewayError} If the gateway refused the refund; the order is left as it was.
+ *
+ * Steps:
+ *   1. Check the order exists and may be refunded from its current status.
+ *   2. Refund a captured payment through the gateway and mark it refunded.
+ *   3. Move the order.
+ */
+export async function refundOrder(purchaseId: string, options: { actorId: string | null; note?: string | null }): Promise<Awaited<ReturnType<typeof transitionOrder>>> {
+	// Step 1: Check the transition.
+	const purchase = await db.purchase.findUnique({
+		where: { id: purchaseId },
+		select: { status: true, payment: { select: { ...PAYMENT_RECORD_SELECT, status: true } } }
+	});
+	if (!purchase) {
+		return { ok: false, reason: 'not-found' };
+	}
+	const status = purchase.status as OrderStatus;
+	const allowed = ORDER_TRANSITIONS[status] ?? [];
+	if (!allowed.includes('refunded')) {
+		return { ok: false, reason: 'invalid-transition', status, allowed };
+	}
+
+	// Step 2: Refund the payment.
+	const payment = purchase.payment;
+	if (payment?.status === 'captured') {
+		await getPaymentGateway().refund(payment.providerPaymentId, payment.amountCents);
+		await claimPaymentStatus(payment.id, ['captured'], 'refunded');
+	}
+
+	// Step 3: Move the order.
+	return transitionOrder(purchaseId, 'refunded', options);
+}
+
+/**
+ * @function cancelOrderPayment
+ * @description Cancels the payment of an order that was just cancelled, if it had not settled, so a late challenge answer or webhook cannot charge it. A hold that was authorized but not captured is released.
+ * @param {string} purchaseId - The cancelled purchase.
+ * @returns {Promise<void>}
+ */
+export async function cancelOrderPayment(purchaseId: string): Promise<void> {
+	const payment = await db.payment.findUnique({ where: { purchaseId }, select: { ...PAYMENT_RECORD_SELECT, status: true } });
+	if (!payment || !(await claimPaymentStatus(payment.id, [...OPEN_PAYMENT_STATUSES, 'authorized'], 'cancelled', { clientSecretHash: null }))) return;
+	if (payment.status === 'authorized') {
+		await getPaymentGateway().refund(payment.providerPaymentId, payment.amountCents)
+			.catch((error) => console.error('Release payment hold error:', error));
+	}
+}
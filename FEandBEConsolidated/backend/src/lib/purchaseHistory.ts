@@ -0,0 +1,166 @@
+/**
+ * @fileoverview Filtering, sorting, and summaries for a customer's purchase history.
+ * @module lib/purchaseHistory
+ * @description The purchase history page pages through a customer's orders with a cursor (the ID of the last order on the previous page), so orders placed while browsing never shift a page. Orders can be filtered by date range (whole days, UTC), total range, a product they include, and status, and sorted by date or total. Each filtered set comes with a summary: how many orders it holds, how much was spent, and the product bought most. Spending and the most-bought product only count orders that were paid for and not cancelled or refunded (`PAID_ORDER_STATUSES`).
+ * @dependencies @prisma/client, ./db, ./orders, ./shipping
+ * @exports PURCHASE_SORTS - The list of purchase history sort orders.
+ * @exports PurchaseSort - Union type of the purchase history sort orders.
+ * @exports PURCHASE_ORDER_BY - The database ordering of each sort order.
+ * @exports PURCHASE_HISTORY_SELECT - Prisma select for the order fields the purchase history shows.
+ * @exports PurchaseFilters - Interface for the purchase history filters.
+ * @exports PurchaseSummary - Interface for the summary of a filtered purchase history.
+ * @exports buildPurchaseWhere - Function to build the database filter of a customer's purchase history.
+ * @exports summarizePurchases - Function to summarize the orders matching a filter.
+ * @exports loadPurchasedProducts - Function to list every product a customer has ordered.
+ * @author Gemini
+ * @lastModified 2026-10-19
+ */
+
+import type { Prisma } from '@prisma/client';
+import { db } from './db.js';
+import { PAID_ORDER_STATUSES } from './orders.js';
+import type { OrderStatus } from './orders.js';
+import { ADDRESS_FIELDS } from './shipping.js';
+
+/**
+ * @constant {readonly string[]} PURCHASE_SORTS - All purchase history sort orders; `newest` is the default.
+ */
+export const PURCHASE_SORTS = ['newest', 'oldest', 'total-desc', 'total-asc'] as const;
+
+/**
+ * @typedef {typeof PURCHASE_SORTS[number]} PurchaseSort - Union type of the purchase history sort orders.
+ */
+export type PurchaseSort = (typeof PURCHASE_SORTS)[number];
+
+/**
+ * @constant {Record<PurchaseSort, object[]>} PURCHASE_ORDER_BY - The database ordering of each sort order, ending with the ID so the cursor always points at one place.
+ */
+export const PURCHASE_ORDER_BY: Record<PurchaseSort, Prisma.PurchaseOrderByWithRelationInput[]> = {
+	newest: [{ createdAt: 'desc' }, { id: 'desc' }],
+	oldest: [{ createdAt: 'asc' }, { id: 'asc' }],
+	'total-desc': [{ totalCents: 'desc' }, { createdAt: 'desc' }, { id: 'desc' }],
+	'total-asc': [{ totalCents: 'asc' }, { createdAt: 'desc' }, { id: 'desc' }]
+};
+
+/**
+ * @constant {Prisma.PurchaseSelect} PURCHASE_HISTORY_SELECT - The order fields the purchase history shows: totals and status, the price breakdown (discounts, shipping, and taxes), the delivery, the status history, and the items.
+ */
+export const PURCHASE_HISTORY_SELECT = {
+	id: true, subtotalCents: true, discountCents: true, shippingCents: true, taxCents: true, totalCents: true, status: true, createdAt: true,
+	deliveryMethod: true, deliveryMethodName: true,
+	shippingAddress: { select: ADDRESS_FIELDS },
+	discounts: { select: { title: true, code: true, percentOff: true, amountCents: true } },
+	taxLines: { select: { name: true, rateBasisPoints: true, amountCents: true } },
+	statusEvents: { select: { fromStatus: true, toStatus: true, note: true, createdAt: true }, orderBy: { createdAt: 'asc' } },
+	items: {
+		select: {
+			id: true, quantity: true, priceCentsAtPurchase: true,
+			product: { select: { id: true, name: true, slug: true, imageUrl: true } }
+		}
+	}
+} satisfies Prisma.PurchaseSelect;
+
+/**
+ * @interface PurchaseFilters
+ * @description The filters of a purchase history. Every filter is optional.
+ * @property {string} [from] - The first day to include (`YYYY-MM-DD`, UTC).
+ * @property {string} [to] - The last day to include (`YYYY-MM-DD`, UTC).
+ * @property {number} [minTotalCents] - The lowest order total, inclusive.
+ * @property {number} [maxTotalCents] - The highest order total, inclusive.
+ * @property {string} [productId] - A product the orders must include.
+ * @property {OrderStatus[]} [statuses] - The statuses to include; all if empty.
+ */
+export interface PurchaseFilters {
+	from?: string;
+	to?: string;
+	minTotalCents?: number;
+	maxTotalCents?: number;
+	productId?: string;
+	statuses?: OrderStatus[];
+}
+
+/**
+ * @interface PurchaseSummary
+ * @description The summary of a filtered purchase history.
+ * @property {number} orderCount - The number of matching orders, in any status.
+ * @property {number} totalSpentCents - The sum of the totals of the matching paid orders.
+ * @property {{ id: string; name: string; slug: string; quantity: number } | null} mostBoughtProduct - The product with the most units on the matching paid orders, or null if there are none.
+ */
+export interface PurchaseSummary {
+	orderCount: number;
+	totalSpentCents: number;
+	mostBoughtProduct: { id: string; name: string; slug: string; quantity: number } | null;
+}
+
+/**
+ * @function buildPurchaseWhere
+ * @description Builds the database filter of a customer's purchase history.
+ * @param {string} userId - The customer.
+ * @param {PurchaseFilters} filters - The filters.
+ * @returns {Prisma.PurchaseWhereInput} The filter.
+ */
+export function buildPurchaseWhere(userId: string, filters: PurchaseFilters): Prisma.PurchaseWhereInput {
+	const { from, to, minTotalCents, maxTotalCents, productId, statuses } = filters;
+	const dayAfter = (day: string) => new Date(Date.parse(`${day}T00:00:00Z`) + 24 * 60 * 60 * 1000);
+	return {
+		userId,
+		...(from || to
+			? { createdAt: { gte: from ? new Date(`${from}T00:00:00Z`) : undefined, lt: to ? dayAfter(to) : undefined } }
+			: {}),
+		...(minTotalCents !== undefined || maxTotalCents !== undefined
+			? { totalCents: { gte: minTotalCents, lte: maxTotalCents } }
+			: {}),
+		...(productId ? { items: { some: { productId } } } : {}),
+		...(statuses?.length ? { status: { in: statuses } } : {})
+	};
+}
+
+/**
+ * @function summarizePurchases
+ * @description Summarizes the orders matching a filter.
+ * @param {Prisma.PurchaseWhereInput} where - The filter, from `buildPurchaseWhere()`.
+ * @returns {Promise<PurchaseSummary>} The summary.
+ *
+ * Steps:
+ *   1. Count the matching orders, add up the totals of the paid ones, and find the product with the most units on them, in parallel.
+ *   2. Load the most-bought product's name and slug.
+ */
+export async function summarizePurchases(where: Prisma.PurchaseWhereInput): Promise<PurchaseSummary> {
+	// Step 1: Count, add up, and rank.
+	const paid: Prisma.PurchaseWhereInput = { AND: [where, { status: { in: PAID_ORDER_STATUSES } }] };
+	const [orderCount, spent, [top]] = await Promise.all([
+		db.purchase.count({ where }),
+		db.purchase.aggregate({ where: paid, _sum: { totalCents: true } }),
+		db.purchaseItem.groupBy({
+			by: ['productId'],
+			where: { purchase: paid },
+			_sum: { quantity: true },
+			orderBy: [{ _sum: { quantity: 'desc' } }, { productId: 'asc' }],
+			take: 1
+		})
+	]);
+
+	// Step 2: Name the most-bought product.
+	const product = top
+		? await db.product.findUnique({ where: { id: top.productId }, select: { id: true, name: true, slug: true } })
+		: null;
+	return {
+		orderCount,
+		totalSpentCents: spent._sum.totalCents ?? 0,
+		mostBoughtProduct: product ? { ...product, quantity: top._sum.quantity ?? 0 } : null
+	};
+}
+
+/**
+ * @function loadPurchasedProducts
+ * @description Lists every product a customer has ordered, in any status, by name; the choices of the product filter.
+ * @param {string} userId - The customer.
+ * @returns {Promise<{ id: string; name: string; slug: string }[]>} The products.
+ */
+export function loadPurchasedProducts(userId: string): Promise<{ id: string; name: string; slug: string }[]> {
+	return db.product.findMany({
+		where: { purchaseItems: { some: { purchase: { userId } } } },
+		select: { id: true, name: true, slug: true },
+		orderBy: { name: 'asc' }
+	});
+}
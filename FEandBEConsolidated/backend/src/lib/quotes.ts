@@ -0,0 +1,133 @@
+/**
+ * @fileoverview Order quotes: discounts, shipping, and tax.
+ * @module lib/quotes
+ * @description Prices an order the way checkout charges it: the items with their discounts (`lib/discounts`), then the delivery method's shipping cost (`lib/shipping`), then the tax at the delivery address, or at the farm for orders picked up (`lib/tax`). The same quote is shown at `/api/cart/quote` and stored on the purchase at checkout.
+ * @dependencies ./catalog, ./db, ./discounts, ./shipping, ./tax
+ * @exports DeliveryChoice - Interface for how an order is to be delivered.
+ * @exports OrderQuote - Interface for the priced order.
+ * @exports resolveDeliveryChoice - Function to turn the delivery fields of a request into a delivery choice.
+ * @exports quoteOrder - Function to price an order with its discounts, shipping, and tax.
+ * @author Gemini
+ * @lastModified 2026-10-19
+ */
+
+import { categoryAncestry, loadCategories } from './catalog.js';
+import { db } from './db.js';
+import { priceOrder, type PriceBreakdown, type PricingLine } from './discounts.js';
+import { ADDRESS_FIELDS, getPickupLocation, quoteShipping, type DeliveryAddress, type ShippingQuote } from './shipping.js';
+import { allocateDiscount, calculateTax, type TaxLine } from './tax.js';
+
+/**
+ * @interface DeliveryChoice
+ * @description How an order is to be delivered.
+ * @property {string} method - The delivery method code.
+ * @property {DeliveryAddress | null} address - The address to deliver to, if any.
+ */
+export interface DeliveryChoice {
+	method: string;
+	address: DeliveryAddress | null;
+}
+
+/**
+ * @interface OrderQuote
+ * @description An order's items, discounts, shipping, tax, and total. Without a delivery choice, or with one that cannot be used, shipping and tax are left out.
+ * @property {number} itemsCents - The item subtotal after discounts.
+ * @property {ShippingQuote | null} delivery - The priced delivery, if a usable delivery method was chosen.
+ * @property {string | null} deliveryError - Why the delivery method chosen cannot be used, if it cannot.
+ * @property {number} shippingCents - The shipping cost.
+ * @property {TaxLine[]} taxes - The tax lines.
+ * @property {number} taxCents - The total tax.
+ * @property {number} totalCents - The amount to pay.
+ */
+export interface OrderQuote extends PriceBreakdown {
+	itemsCents: number;
+	delivery: ShippingQuote | null;
+	deliveryError: string | null;
+	shippingCents: number;
+	taxes: TaxLine[];
+	taxCents: number;
+}
+
+/**
+ * @function resolveDeliveryChoice
+ * @description Turns the validated delivery fields of a request into a delivery choice, looking up a saved address (which must belong to the user).
+ * @param {{ method: string; addressId?: string; address?: DeliveryAddress }} input - The delivery method, and a saved address ID or an address.
+ * @param {string | null} userId - The user placing the order (null for guests, who cannot use saved addresses).
+ * @returns {Promise<DeliveryChoice | null>} The choice, or null if the saved address was not found.
+ */
+export async function resolveDeliveryChoice(input: { method: string; addressId?: string; address?: DeliveryAddress }, userId: string | null): Promise<DeliveryChoice | null> {
+	if (!input.addressId) {
+		return { method: input.method, address: input.address ?? null };
+	}
+	const address = userId
+		? await db.address.findFirst({ where: { id: input.addressId, userId }, select: ADDRESS_FIELDS })
+		: null;
+	return address ? { method: input.method, address } : null;
+}
+
+/**
+ * @function quoteOrder
+ * @description Prices an order with its discounts, shipping, and tax.
+ * @param {PricingLine[]} lines - The order lines (one per product).
+ * @param {{ promoCode?: string | null; userId?: string | null; delivery?: DeliveryChoice | null }} options - The promo code entered (normalized), the user placing the order (null for guests), and the delivery choice.
+ * @returns {Promise<OrderQuote>} The quote. A promo code or delivery method that cannot be used is left out, with `promoCodeError` or `deliveryError` saying why.
+ *
+ * Steps:
+ *   1. Price the items and their discounts with `priceOrder()`.
+ *   2. Load each product's weight and categories.
+ *   3. Without a delivery choice, return the item prices. Otherwise price the delivery with `quoteShipping()`, returning the item prices with the reason if it cannot be used.
+ *   4. Tax the discounted lines and the shipping with `calculateTax()`, at the address or, for pickups, the farm.
+ *   5. Return the quote.
+ */
+export async function quoteOrder(lines: PricingLine[], options: { promoCode?: string | null; userId?: string | null; delivery?: DeliveryChoice | null }): Promise<OrderQuote> {
+	// Step 1: Items and discounts.
+	const pricing = await priceOrder(lines, options);
+	const quote: OrderQuote = {
+		...pricing,
+		itemsCents: pricing.totalCents,
+		delivery: null,
+		deliveryError: null,
+		shippingCents: 0,
+		taxes: [],
+		taxCents: 0
+	};
+
+	// Step 2: Weights and categories.
+	const [products, categories] = await Promise.all([
+		db.product.findMany({ where: { id: { in: lines.map((line) => line.productId) } }, select: { id: true, weightGrams: true, categoryId: true } }),
+		loadCategories()
+	]);
+	const productsById = new Map(products.map((product) => [product.id, product]));
+	const weightGrams = lines.reduce((sum, line) => sum + (productsById.get(line.productId)?.weightGrams ?? 0) * line.quantity, 0);
+
+	// Step 3: Shipping.
+	if (!options.delivery) {
+		return quote;
+	}
+	const delivery = await quoteShipping(options.delivery.method, options.delivery.address, weightGrams, pricing.totalCents);
+	if ('error' in delivery) {
+		return { ...quote, deliveryError: delivery.error };
+	}
+
+	// Step 4: Tax.
+	const amounts = allocateDiscount(lines.map((line) => line.unitPriceCents * line.quantity), pricing.discountCents);
+	const location = delivery.requiresAddress && options.delivery.address ? options.delivery.address : getPickupLocation();
+	const { taxes, taxCents } = await calculateTax(
+		lines.map((line, index) => {
+			const categoryId = productsById.get(line.productId)?.categoryId;
+			return { categoryIds: categoryId ? categoryAncestry(categories, categoryId) : [], amountCents: amounts[index] };
+		}),
+		delivery.amountCents,
+		location
+	);
+
+	// Step 5: Total.
+	return {
+		...quote,
+		delivery,
+		shippingCents: delivery.amountCents,
+		taxes,
+		taxCents,
+		totalCents: pricing.totalCents + delivery.amountCents + taxCents
+	};
+}
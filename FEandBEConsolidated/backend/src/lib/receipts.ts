@@ -0,0 +1,396 @@
+/**
+ * @fileoverview Order receipts and order history exports.
+ * @module lib/receipts
+ * @description Renders a customer's order as a receipt they can keep, either as a standalone HTML page or as a PDF drawn locally with PDFKit (no external service), and exports a customer's order history as CSV or JSON. Receipts and exports use what was recorded on the order: each line's `priceCentsAtPurchase`, the discounts applied with their amounts, the shipping and tax lines, the delivery address, and the order totals, so later catalogue or discount changes never alter them.
+ * @dependencies @prisma/client, pdfkit, ./discounts, ./shipping
+ * @exports RECEIPT_SELECT - Prisma select for the order fields a receipt shows.
+ * @exports Receipt - Type of an order loaded with `RECEIPT_SELECT`.
+ * @exports RECEIPT_FORMATS - The list of receipt formats.
+ * @exports ReceiptFormat - Union type of the receipt formats.
+ * @exports ORDER_EXPORT_FORMATS - The list of order history export formats.
+ * @exports OrderExportFormat - Union type of the order history export formats.
+ * @exports orderNumber - Function to format the short order number shown to customers.
+ * @exports renderReceiptHtml - Function to render a receipt as an HTML page.
+ * @exports renderReceiptPdf - Function to render a receipt as a PDF document.
+ * @exports exportOrdersJson - Function to convert orders to the JSON export shape.
+ * @exports exportOrdersCsv - Function to convert orders to CSV, one row per order line.
+ * @author Gemini
+ * @lastModified 2026-10-19
+ */
+
+import PDFDocument from 'pdfkit';
+import type { Prisma } from '@prisma/client';
+import { formatCents } from './discounts.js';
+import { ADDRESS_FIELDS } from './shipping.js';
+
+/**
+ * @constant {Prisma.PurchaseSelect} RECEIPT_SELECT - The order fields a receipt shows: totals, status, the customer, the delivery method and address, lines at their purchase price, the discounts applied, and the tax lines.
+ */
+export const RECEIPT_SELECT = {
+	id: true, status: true, guestEmail: true, subtotalCents: true, discountCents: true, shippingCents: true, taxCents: true, totalCents: true, createdAt: true,
+	deliveryMethodName: true,
+	shippingAddress: { select: ADDRESS_FIELDS },
+	user: { select: { firstName: true, lastName: true, email: true } },
+	items: {
+		select: { quantity: true, priceCentsAtPurchase: true, product: { select: { id: true, name: true, slug: true } } },
+		orderBy: { id: 'asc' }
+	},
+	discounts: { select: { title: true, code: true, percentOff: true, amountCents: true }, orderBy: { id: 'asc' } },
+	taxLines: { select: { name: true, rateBasisPoints: true, taxableCents: true, amountCents: true }, orderBy: { id: 'asc' } }
+} satisfies Prisma.PurchaseSelect;
+
+/**
+ * @typedef {Prisma.PurchaseGetPayload<{ select: typeof RECEIPT_SELECT }>} Receipt - An order loaded with `RECEIPT_SELECT`.
+ */
+export type Receipt = Prisma.PurchaseGetPayload<{ select: typeof RECEIPT_SELECT }>;
+
+/**
+ * @constant {readonly string[]} RECEIPT_FORMATS - The receipt formats: a printable HTML page, or a PDF download.
+ */
+export const RECEIPT_FORMATS = ['html', 'pdf'] as const;
+
+/**
+ * @typedef {typeof RECEIPT_FORMATS[number]} ReceiptFormat - Union type of the receipt formats.
+ */
+export type ReceiptFormat = (typeof RECEIPT_FORMATS)[number];
+
+/**
+ * @constant {readonly string[]} ORDER_EXPORT_FORMATS - The order history export formats.
+ */
+export const ORDER_EXPORT_FORMATS = ['csv', 'json'] as const;
+
+/**
+ * @typedef {typeof ORDER_EXPORT_FORMATS[number]} OrderExportFormat - Union type of the order history export formats.
+ */
+export type OrderExportFormat = (typeof ORDER_EXPORT_FORMATS)[number];
+
+/**
+ * @constant {string[]} CSV_COLUMNS - The header row of the CSV export.
+ */
+const CSV_COLUMNS = [
+	'order_id', 'order_number', 'ordered_at', 'status', 'product_id', 'product_name', 'quantity',
+	'unit_price', 'line_total', 'order_subtotal', 'order_discount', 'order_shipping', 'order_tax', 'order_total', 'discount_codes'
+];
+
+/**
+ * @function orderNumber
+ * @description Formats the short order number shown to customers: the last eight characters of the order ID, in capitals.
+ * @param {string} id - The order ID.
+ * @returns {string} The order number.
+ */
+export function orderNumber(id: string): string {
+	return id.slice(-8).toUpperCase();
+}
+
+/**
+ * @function escapeHtml
+ * @description Escapes text for use in HTML content and attribute values.
+ * @param {string} text - The text.
+ * @returns {string} The escaped text.
+ */
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;');
+}
+
+/**
+ * @function customerLines
+ * @description Describes who the order is for: the account holder's name and email, or the guest's email.
+ * @param {Receipt} receipt - The order.
+ * @returns {string[]} The lines to print.
+ */
+function customerLines(receipt: Receipt): string[] {
+	if (receipt.user) {
+		return [`${receipt.user.firstName} ${receipt.user.lastName}`.trim(), receipt.user.email];
+	}
+	return receipt.guestEmail ? [receipt.guestEmail] : [];
+}
+
+/**
+ * @function discountLabel
+ * @description Describes an applied discount, such as "Spring sale (SPRING10, 10% off)".
+ * @param {Receipt['discounts'][number]} discount - The applied discount.
+ * @returns {string} The label.
+ */
+function discountLabel(discount: Receipt['discounts'][number]): string {
+	return `${discount.title} (${discount.code ? `${discount.code}, ` : ''}${discount.percentOff}% off)`;
+}
+
+/**
+ * @function deliveryLines
+ * @description Describes how the order is delivered: the delivery method, and the address it goes to.
+ * @param {Receipt} receipt - The order.
+ * @returns {string[]} The lines to print (none for orders placed before delivery was recorded).
+ */
+function deliveryLines(receipt: Receipt): string[] {
+	const address = receipt.shippingAddress;
+	return [
+		...(receipt.deliveryMethodName ? [`Delivery: ${receipt.deliveryMethodName}`] : []),
+		...(address
+			? [
+				address.recipientName,
+				address.line1,
+				...(address.line2 ? [address.line2] : []),
+				[address.city, address.region, address.postalCode].filter(Boolean).join(' '),
+				address.country
+			]
+			: [])
+	];
+}
+
+/**
+ * @function chargeLines
+ * @description Lists what the order adds to its discounted items: the shipping (when the order has a delivery method) and each tax, such as "Sales tax (7.25%)".
+ * @param {Receipt} receipt - The order.
+ * @returns {{ label: string; amountCents: number }[]} The lines.
+ */
+function chargeLines(receipt: Receipt): { label: string; amountCents: number }[] {
+	return [
+		...(receipt.deliveryMethodName ? [{ label: `Shipping (${receipt.deliveryMethodName})`, amountCents: receipt.shippingCents }] : []),
+		...receipt.taxLines.map((tax) => ({ label: `${tax.name} (${tax.rateBasisPoints / 100}%)`, amountCents: tax.amountCents }))
+	];
+}
+
+/**
+ * @function formatOrderDate
+ * @description Formats the order date for a receipt.
+ * @param {Date} date - The order date.
+ * @returns {string} The date, such as "October 19, 2026".
+ */
+function formatOrderDate(date: Date): string {
+	return date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' });
+}
+
+/**
+ * @function renderReceiptHtml
+ * @description Renders a receipt as a standalone, printable HTML page with inline styles. Every value taken from the database is escaped.
+ * @param {Receipt} receipt - The order.
+ * @returns {string} The HTML document.
+ */
+export function renderReceiptHtml(receipt: Receipt): string {
+	const number = orderNumber(receipt.id);
+	const rows = receipt.items
+		.map((item) => `
+			<tr>
+				<td>${escapeHtml(item.product.name)}</td>
+				<td class="num">${item.quantity}</td>
+				<td class="num">${formatCents(item.priceCentsAtPurchase)}</td>
+				<td class="num">${formatCents(item.priceCentsAtPurchase * item.quantity)}</td>
+			</tr>`)
+		.join('');
+	const discountRows = receipt.discounts
+		.map((discount) => `
+			<tr>
+				<td colspan="3">${escapeHtml(discountLabel(discount))}</td>
+				<td class="num">-${formatCents(discount.amountCents)}</td>
+			</tr>`)
+		.join('');
+	const chargeRows = chargeLines(receipt)
+		.map((charge) => `
+			<tr>
+				<td colspan="3">${escapeHtml(charge.label)}</td>
+				<td class="num">${formatCents(charge.amountCents)}</td>
+			</tr>`)
+		.join('');
+	const delivery = deliveryLines(receipt);
+
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+	<meta charset="utf-8">
+	<title>Receipt #${number} - AgriCommerce</title>
+	<style>
+		body { font-family: Helvetica, Arial, sans-serif; color: #1F2937; max-width: 720px; margin: 2rem auto; padding: 0 1rem; }
+		h1 { color: #15803D; margin-bottom: 0.25rem; }
+		.meta { color: #6B7280; margin: 0 0 1.5rem; line-height: 1.6; }
+		table { width: 100%; border-collapse: collapse; }
+		th, td { padding: 0.5rem; border-bottom: 1px solid #E5E7EB; text-align: left; }
+		.num { text-align: right; white-space: nowrap; }
+		tfoot td { border-bottom: none; }
+		.total td { font-weight: bold; border-top: 2px solid #1F2937; }
+		@media print { body { margin: 0; } }
+	</style>
+</head>
+<body>
+	<h1>AgriCommerce</h1>
+	<p class="meta">
+		Receipt for order #${number}<br>
+		Ordered ${escapeHtml(formatOrderDate(receipt.createdAt))} &middot; Status: ${escapeHtml(receipt.status)}<br>
+		${customerLines(receipt).map(escapeHtml).join('<br>')}
+	</p>${delivery.length > 0 ? `
+	<p class="meta">${delivery.map(escapeHtml).join('<br>')}</p>` : ''}
+	<table>
+		<thead>
+			<tr><th>Product</th><th class="num">Qty</th><th class="num">Unit price</th><th class="num">Amount</th></tr>
+		</thead>
+		<tbody>${rows}
+		</tbody>
+		<tfoot>
+			<tr><td colspan="3">Subtotal</td><td class="num">${formatCents(receipt.subtotalCents)}</td></tr>${discountRows}${chargeRows}
+			<tr class="total"><td colspan="3">Total</td><td class="num">${formatCents(receipt.totalCents)}</td></tr>
+		</tfoot>
+	</table>
+</body>
+</html>
+`;
+}
+
+/**
+ * @function renderReceiptPdf
+ * @description Renders a receipt as a one-column A4 PDF document with PDFKit's built-in Helvetica fonts.
+ * @param {Receipt} receipt - The order.
+ * @returns {Promise<Buffer>} The PDF file contents.
+ *
+ * Steps:
+ *   1. Create the document and collect its output into a buffer.
+ *   2. Draw the heading, order details, customer, and delivery.
+ *   3. Draw the line items table, starting a new page when one fills up.
+ *   4. Draw the subtotal, each discount, the shipping and taxes, and the total, then finish the document.
+ */
+export function renderReceiptPdf(receipt: Receipt): Promise<Buffer> {
+	return new Promise((resolve, reject) => {
+		// Step 1: Create the document.
+		const doc = new PDFDocument({ size: 'A4', margin: 50, info: { Title: `Receipt #${orderNumber(receipt.id)}`, Author: 'AgriCommerce' } });
+		const chunks: Buffer[] = [];
+		doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+		doc.on('end', () => resolve(Buffer.concat(chunks)));
+		doc.on('error', reject);
+
+		const left = doc.page.margins.left;
+		const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+		const columns = { quantity: left + width - 230, unit: left + width - 170, amount: left + width - 80 };
+		const row = (cells: { product: string; quantity: string; unit: string; amount: string }, font = 'Helvetica') => {
+			if (doc.y > doc.page.height - doc.page.margins.bottom - 40) {
+				doc.addPage();
+			}
+			const y = doc.y;
+			doc.font(font).fontSize(10);
+			doc.text(cells.product, left, y, { width: columns.quantity - left - 10 });
+			const bottom = doc.y;
+			doc.text(cells.quantity, columns.quantity, y, { width: 50, align: 'right' });
+			doc.text(cells.unit, columns.unit, y, { width: 80, align: 'right' });
+			doc.text(cells.amount, columns.amount, y, { width: 80, align: 'right' });
+			doc.y = Math.max(bottom, doc.y) + 6;
+		};
+
+		// Step 2: Heading, order details, customer, and delivery.
+		doc.font('Helvetica-Bold').fontSize(20).fillColor('#15803D').text('AgriCommerce', left, doc.y);
+		doc.moveDown(0.5).font('Helvetica').fontSize(10).fillColor('#1F2937');
+		doc.text(`Receipt for order #${orderNumber(receipt.id)}`);
+		doc.text(`Ordered ${formatOrderDate(receipt.createdAt)} - Status: ${receipt.status}`);
+		for (const line of customerLines(receipt)) {
+			doc.text(line);
+		}
+		const delivery = deliveryLines(receipt);
+		if (delivery.length > 0) {
+			doc.moveDown(0.5);
+			for (const line of delivery) {
+				doc.text(line);
+			}
+		}
+		doc.moveDown(1.5);
+
+		// Step 3: Line items.
+		row({ product: 'Product', quantity: 'Qty', unit: 'Unit price', amount: 'Amount' }, 'Helvetica-Bold');
+		for (const item of receipt.items) {
+			row({
+				product: item.product.name,
+				quantity: String(item.quantity),
+				unit: formatCents(item.priceCentsAtPurchase),
+				amount: formatCents(item.priceCentsAtPurchase * item.quantity)
+			});
+		}
+
+		// Step 4: Totals.
+		doc.moveTo(left, doc.y).lineTo(left + width, doc.y).strokeColor('#E5E7EB').stroke();
+		doc.moveDown(0.5);
+		row({ product: 'Subtotal', quantity: '', unit: '', amount: formatCents(receipt.subtotalCents) });
+		for (const discount of receipt.discounts) {
+			row({ product: discountLabel(discount), quantity: '', unit: '', amount: `-${formatCents(discount.amountCents)}` });
+		}
+		for (const charge of chargeLines(receipt)) {
+			row({ product: charge.label, quantity: '', unit: '', amount: formatCents(charge.amountCents) });
+		}
+		row({ product: 'Total', quantity: '', unit: '', amount: formatCents(receipt.totalCents) }, 'Helvetica-Bold');
+		doc.end();
+	});
+}
+
+/**
+ * @function exportOrdersJson
+ * @description Converts orders to the JSON export shape: each order with its number, lines (with their totals), discounts, delivery, and taxes.
+ * @param {Receipt[]} orders - The orders.
+ * @returns {object[]} The orders to serialize.
+ */
+export function exportOrdersJson(orders: Receipt[]) {
+	return orders.map((order) => ({
+		id: order.id,
+		orderNumber: orderNumber(order.id),
+		createdAt: order.createdAt,
+		status: order.status,
+		items: order.items.map((item) => ({
+			productId: item.product.id,
+			productName: item.product.name,
+			quantity: item.quantity,
+			priceCentsAtPurchase: item.priceCentsAtPurchase,
+			lineTotalCents: item.priceCentsAtPurchase * item.quantity
+		})),
+		discounts: order.discounts,
+		deliveryMethodName: order.deliveryMethodName,
+		shippingAddress: order.shippingAddress,
+		taxLines: order.taxLines,
+		subtotalCents: order.subtotalCents,
+		discountCents: order.discountCents,
+		shippingCents: order.shippingCents,
+		taxCents: order.taxCents,
+		totalCents: order.totalCents
+	}));
+}
+
+/**
+ * @function csvCell
+ * @description Quotes a CSV cell when needed, and prefixes text that a spreadsheet would run as a formula with an apostrophe.
+ * @param {string | number} value - The cell value.
+ * @returns {string} The CSV cell.
+ */
+function csvCell(value: string | number): string {
+	let text = String(value);
+	if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+		text = `'${text}`;
+	}
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * @function exportOrdersCsv
+ * @description Converts orders to CSV with one row per order line; the order columns repeat on each of its lines. Amounts are in dollars with two decimals.
+ * @param {Receipt[]} orders - The orders.
+ * @returns {string} The CSV text, with a header row and CRLF line endings.
+ */
+export function exportOrdersCsv(orders: Receipt[]): string {
+	const dollars = (cents: number) => (cents / 100).toFixed(2);
+	const rows = orders.flatMap((order) =>
+		order.items.map((item) => [
+			order.id,
+			orderNumber(order.id),
+			order.createdAt.toISOString(),
+			order.status,
+			item.product.id,
+			item.product.name,
+			item.quantity,
+			dollars(item.priceCentsAtPurchase),
+			dollars(item.priceCentsAtPurchase * item.quantity),
+			dollars(order.subtotalCents),
+			dollars(order.discountCents),
+			dollars(order.shippingCents),
+			dollars(order.taxCents),
+			dollars(order.totalCents),
+			order.discounts.map((discount) => discount.code ?? discount.title).join('; ')
+		])
+	);
+	return [CSV_COLUMNS, ...rows].map((cells) => cells.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,121 @@
+/**
+ * @fileoverview Product reviews, ratings, and their moderation.
+ * @module lib/reviews
+ * @description Signed-in customers who bought a product (it appears on one of their orders that was paid and not refunded or cancelled) can review it once with a 1 to 5 star rating and some text; writing again replaces their review. Every new or edited review starts as `pending` and is only shown, and only counts towards the product's average rating, once an admin approves it. The text is stored exactly as written, markup included, so clients must render it as text.
+ * @dependencies ./db, ./orders
+ * @exports REVIEW_STATUSES - The list of all review statuses.
+ * @exports ReviewStatus - Union type of all review statuses.
+ * @exports REVIEWABLE_ORDER_STATUSES - The order statuses that let a customer review the products on the order.
+ * @exports RatingSummary - Interface for a product's average rating.
+ * @exports reviewAuthorName - Function to format a reviewer's name for display.
+ * @exports hasPurchasedProduct - Function to check whether a user bought a product.
+ * @exports loadRatings - Function to load the average ratings of products.
+ * @exports loadRatingDistribution - Function to count a product's approved reviews per star rating.
+ * @author Gemini
+ * @lastModified 2026-10-19
+ */
+
+import { db } from './db.js';
+import { PAID_ORDER_STATUSES } from './orders.js';
+import type { OrderStatus } from './orders.js';
+
+/**
+ * @constant {readonly string[]} REVIEW_STATUSES - All review statuses.
+ * - `pending`: waiting for moderation; only its author sees it.
+ * - `approved`: shown on the product page and counted in the rating.
+ * - `rejected`: hidden; its author sees it was not published.
+ */
+export const REVIEW_STATUSES = ['pending', 'approved', 'rejected'] as const;
+
+/**
+ * @typedef {typeof REVIEW_STATUSES[number]} ReviewStatus - Union type of all review statuses.
+ */
+export type ReviewStatus = (typeof REVIEW_STATUSES)[number];
+
+/**
+ * @constant {OrderStatus[]} REVIEWABLE_ORDER_STATUSES - The order statuses that let a customer review the products on the order: paid, and not cancelled or refunded.
+ */
+export const REVIEWABLE_ORDER_STATUSES: OrderStatus[] = PAID_ORDER_STATUSES;
+
+/**
+ * @interface RatingSummary
+ * @description A product's rating, from its approved reviews.
+ * @property {number | null} average - The average rating, to one decimal place, or null without reviews.
+ * @property {number} count - The number of approved reviews.
+ */
+export interface RatingSummary {
+	average: number | null;
+	count: number;
+}
+
+/**
+ * @function reviewAuthorName
+ * @description Formats a reviewer's name for display: their first name and last initial.
+ * @param {{ firstName: string; lastName: string }} user - The reviewer.
+ * @returns {string} The name, such as "Ada L.".
+ */
+export function reviewAuthorName(user: { firstName: string; lastName: string }): string {
+	return user.lastName ? `${user.firstName} ${user.lastName.charAt(0)}.` : user.firstName;
+}
+
+/**
+ * @function hasPurchasedProduct
+ * @description Checks whether a user bought a product, on an order in one of `REVIEWABLE_ORDER_STATUSES`.
+ * @param {string} userId - The user.
+ * @param {string} productId - The product.
+ * @returns {Promise<boolean>} True if such an order includes the product.
+ */
+export async function hasPurchasedProduct(userId: string, productId: string): Promise<boolean> {
+	const item = await db.purchaseItem.findFirst({
+		where: { productId, purchase: { userId, status: { in: REVIEWABLE_ORDER_STATUSES } } },
+		select: { id: true }
+	});
+	return item !== null;
+}
+
+/**
+ * @function loadRatings
+ * @description Loads the average rating and approved review count of products.
+ * @param {string[]} productIds - The products.
+ * @returns {Promise<Record<string, RatingSummary>>} The rating of every product, keyed by product ID (products without approved reviews have a null average and a count of 0).
+ */
+export async function loadRatings(productIds: string[]): Promise<Record<string, RatingSummary>> {
+	const rows = productIds.length
+		? await db.review.groupBy({
+			by: ['productId'],
+			where: { productId: { in: productIds }, status: 'approved' },
+			_avg: { rating: true },
+			_count: { _all: true }
+		})
+		: [];
+	const ratings: Record<string, RatingSummary> = {};
+	for (const productId of productIds) {
+		ratings[productId] = { average: null, count: 0 };
+	}
+	for (const row of rows) {
+		ratings[row.productId] = {
+			average: row._avg.rating === null ? null : Math.round(row._avg.rating * 10) / 10,
+			count: row._count._all
+		};
+	}
+	return ratings;
+}
+
+/**
+ * @function loadRatingDistribution
+ * @description Counts a product's approved reviews per star rating.
+ * @param {string} productId - The product.
+ * @returns {Promise<Record<number, number>>} The number of reviews for each rating from 1 to 5.
+ */
+export async function loadRatingDistribution(productId: string): Promise<Record<number, number>> {
+	const rows = await db.review.groupBy({
+		by: ['rating'],
+		where: { productId, status: 'approved' },
+		_count: { _all: true }
+	});
+	const distribution: Record<number, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+	for (const row of rows) {
+		distribution[row.rating] = row._count._all;
+	}
+	return distribution;
+}
@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Role definitions and role-based access control middleware.
+ * @module lib/roles
+ * @description This module defines the set of roles a user can hold, helpers to check them, and the `requireRole` middleware factory used to protect routes. Roles are stored in the `user_roles` table and loaded onto `req.user` by the authentication middleware.
+ * @dependencies express
+ * @exports ROLES - The list of all supported role names.
+ * @exports Role - Union type of all supported role names.
+ * @exports DEFAULT_ROLE - The role granted to every new account.
+ * @exports isRole - Type guard that checks whether a value is a supported role.
+ * @exports toRoles - Function to convert `user_roles` rows into a list of roles.
+ * @exports hasRole - Function to check whether a user holds any of the given roles.
+ * @exports requireRole - Middleware factory that restricts a route to the given roles.
+ * @author Gemini
+ * @lastModified 2026-10-19
+ */
+
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+
+/**
+ * @constant {readonly string[]} ROLES - All roles supported by the application.
+ * - `customer`: a regular shopper (granted on sign-up).
+ * - `staff`: store employees who help run the shop.
+ * - `admin`: full administrative access, including user and role management.
+ * - `lab-instructor`: runs the WAF lab exercises.
+ */
+export const ROLES = ['customer', 'staff', 'admin', 'lab-instructor'] as const;
+
+/**
+ * @typedef {typeof ROLES[number]} Role - Union type of all supported role names.
+ */
+export type Role = (typeof ROLES)[number];
+
+/**
+ * @constant {Role} DEFAULT_ROLE - The role granted to every newly registered account.
+ */
+export const DEFAULT_ROLE: Role = 'customer';
+
+/**
+ * @function isRole
+ * @description Type guard that checks whether a value is one of the supported role names.
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} True if the value is a supported role.
+ */
+export function isRole(value: unknown): value is Role {
+	return typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * @function toRoles
+ * @description Converts rows selected from the `user_roles` table into a list of roles, dropping any unknown role names.
+ * @param {{ role: string }[]} rows - The role rows to convert.
+ * @returns {Role[]} The roles held by the user.
+ */
+export function toRoles(rows: { role: string }[]): Role[] {
+	return rows.map((row) => row.role).filter(isRole);
+}
+
+/**
+ * @function hasRole
+ * @description Checks whether a user holds at least one of the given roles.
+ * @param {{ roles: Role[] } | null | undefined} user - The user to check (usually `req.user`).
+ * @param {...Role} roles - The roles to look for.
+ * @returns {boolean} True if the user holds any of the roles, false otherwise (including when `user` is null).
+ */
+export function hasRole(user: { roles: Role[] } | null | undefined, ...roles: Role[]): boolean {
+	if (!user) return false;
+	return roles.some((role) => user.roles.includes(role));
+}
+
+/**
+ * @function requireRole
+ * @description Creates a middleware that only lets requests through when the authenticated user holds at least one of the given roles.
+ * Must be registered after `authMiddleware` so that `req.user` is populated.
+ * @param {...Role} roles - The roles allowed to access the route.
+ * @returns {RequestHandler} An Express middleware function.
+ *
+ * Steps:
+ *   1. If `req.user` is not set, return 401 unauthorized.
+ *   2. If the user holds none of the allowed roles, return 403 forbidden.
+ *   3. If the user's roles require two-factor authentication and they have not enrolled, return 403 `TWO_FACTOR_SETUP_REQUIRED`.
+ *   4. Otherwise call `next()` to continue to the route handler.
+ */
+export function requireRole(...roles: Role[]): RequestHandler {
+	return (req: Request, res: Response, next: NextFunction) => {
+		// Step 1: Require an authenticated user.
+		if (!req.user) {
+			return res.status(401).json({ error: { code: 'UNAUTHORIZED', message: 'Authentication required' } });
+		}
+		// Step 2: Require one of the allowed roles.
+		if (!hasRole(req.user, ...roles)) {
+			return res.status(403).json({ error: { code: 'FORBIDDEN', message: `Requires role: ${roles.join(' or ')}` } });
+		}
+		// Step 3: Privileged roles may require two-factor enrollment first.
+		if (req.user.twoFactorSetupRequired) {
+			return res.status(403).json({
+				error: { code: 'TWO_FACTOR_SETUP_REQUIRED', message: 'Enable two-factor authentication on your account to use this feature' }
+			});
+		}
+		// Step 4: Continue to the route handler.
+		next();
+	};
+}
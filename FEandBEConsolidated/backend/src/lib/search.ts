@@ -0,0 +1,234 @@
+/**
+ * @fileoverview Full-text product search backed by SQLite FTS5.
+ * @module lib/search
+ * @description Product names, summaries, and descriptions are indexed in the `products_fts` FTS5 virtual table (with diacritics folded, so "jalapeno" finds "jalapeño"). Prisma cannot describe virtual tables or triggers, so `ensureSearchIndex()` creates them when the server starts and rebuilds the index from `products`; from then on, triggers on `products` keep it in sync with every insert, update, and delete. Running `prisma db push` drops the index, which the next start recreates.
+ * Search text is split into words and every word must match, as a prefix (so "tom" finds "tomatoes"). Matches are ranked with BM25, weighting the name above the summary and the summary above the description, and come with highlighted snippets. Words that are not in the index vocabulary are replaced by the closest indexed word to suggest a corrected search.
+ * @dependencies ./db
+ * @exports SEARCH_RESULT_LIMIT - The most matches a search returns.
+ * @exports SearchMatch - Interface for a product matching a search.
+ * @exports ensureSearchIndex - Function to create the search index and its triggers, and rebuild it.
+ * @exports searchTerms - Function to split search text into indexable words.
+ * @exports searchProducts - Function to find and rank the products matching search text.
+ * @exports suggestSearch - Function to suggest a corrected search for misspelled words.
+ * @author Gemini
+ * @lastModified 2026-10-19
+ */
+
+import { db } from './db.js';
+
+/**
+ * @constant {number} SEARCH_RESULT_LIMIT - The most matches a search returns, best first.
+ */
+export const SEARCH_RESULT_LIMIT = 500;
+
+/**
+ * @constant {number} MAX_SEARCH_TERMS - The most words of the search text that are used.
+ */
+const MAX_SEARCH_TERMS = 8;
+
+/**
+ * @constant {string} MARK_START - The character FTS5 puts before a matched word (`\u0002`), replaced by `<mark>` once the text is escaped.
+ */
+const MARK_START = '\u0002';
+
+/**
+ * @constant {string} MARK_END - The character FTS5 puts after a matched word (`\u0003`), replaced by `</mark>` once the text is escaped.
+ */
+const MARK_END = '\u0003';
+
+/**
+ * @constant {string[]} SEARCH_INDEX_DDL - The statements creating the index, its vocabulary view, and the triggers that keep it in sync with `products`.
+ */
+const SEARCH_INDEX_DDL = [
+	`CREATE VIRTUAL TABLE IF NOT EXISTS products_fts USING fts5(
+		product_id UNINDEXED, name, summary, description,
+		tokenize = 'unicode61 remove_diacritics 2'
+	)`,
+	`CREATE VIRTUAL TABLE IF NOT EXISTS products_fts_vocab USING fts5vocab(products_fts, 'row')`,
+	`CREATE TRIGGER IF NOT EXISTS products_fts_insert AFTER INSERT ON products BEGIN
+		INSERT INTO products_fts (product_id, name, summary, description) VALUES (new.id, new.name, new.summary, new.description);
+	END`,
+	`CREATE TRIGGER IF NOT EXISTS products_fts_update AFTER UPDATE OF id, name, summary, description ON products BEGIN
+		DELETE FROM products_fts WHERE product_id = old.id;
+		INSERT INTO products_fts (product_id, name, summary, description) VALUES (new.id, new.name, new.summary, new.description);
+	END`,
+	`CREATE TRIGGER IF NOT EXISTS products_fts_delete AFTER DELETE ON products BEGIN
+		DELETE FROM products_fts WHERE product_id = old.id;
+	END`
+];
+
+/**
+ * @interface SearchMatch
+ * @description A product matching a search. The highlights are HTML-escaped, with the matched words wrapped in `<mark>`.
+ * @property {string} id - The product ID.
+ * @property {number} score - The BM25 score; lower is a better match.
+ * @property {string} name - The product name, highlighted.
+ * @property {string} snippet - A passage of the summary, or of the description if only the description matches, highlighted.
+ */
+export interface SearchMatch {
+	id: string;
+	score: number;
+	name: string;
+	snippet: string;
+}
+
+/**
+ * @function ensureSearchIndex
+ * @description Creates the search index, its vocabulary view, and its triggers if they are missing, and rebuilds the index from the products table.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Create the virtual tables and triggers.
+ *   2. In a transaction, empty the index and re-insert every product, so changes made while the triggers were missing are picked up.
+ */
+export async function ensureSearchIndex(): Promise<void> {
+	// Step 1: Tables and triggers.
+	for (const statement of SEARCH_INDEX_DDL) {
+		await db.$executeRawUnsafe(statement);
+	}
+
+	// Step 2: Rebuild.
+	await db.$transaction([
+		db.$executeRaw`DELETE FROM products_fts`,
+		db.$executeRaw`INSERT INTO products_fts (product_id, name, summary, description) SELECT id, name, summary, description FROM products`
+	]);
+}
+
+/**
+ * @function searchTerms
+ * @description Splits search text into the words the index matches on, lowercased and without diacritics as the index stores them; punctuation and FTS5 query syntax are dropped.
+ * @param {string} text - The search text.
+ * @returns {string[]} The words, at most `MAX_SEARCH_TERMS`.
+ */
+export function searchTerms(text: string): string[] {
+	const folded = text.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+	return (folded.match(/[\p{L}\p{N}]+/gu) ?? []).slice(0, MAX_SEARCH_TERMS);
+}
+
+/**
+ * @function highlight
+ * @description Escapes indexed text for HTML and turns the FTS5 match markers into `<mark>` elements.
+ * @param {string} text - The text returned by `highlight()` or `snippet()`.
+ * @returns {string} The HTML.
+ */
+function highlight(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/\u0002/g, '<mark>')
+		.replace(/\u0003/g, '</mark>');
+}
+
+/**
+ * @function searchProducts
+ * @description Finds the products matching search text, best match first. Archived products are included; the caller filters them out with the rest of its filters.
+ * @param {string} text - The search text.
+ * @returns {Promise<SearchMatch[]>} The matches, at most `SEARCH_RESULT_LIMIT`; none when the text has no words.
+ *
+ * Steps:
+ *   1. Build the FTS5 query: every word quoted, as a prefix, all required.
+ *   2. Query the index, ranked by BM25 with the name weighted 10, the summary 4, and the description 1.
+ *   3. Return the matches with their highlighted name and snippet: from the description when only the description matches, from the summary otherwise.
+ */
+export async function searchProducts(text: string): Promise<SearchMatch[]> {
+	// Step 1: Query.
+	const terms = searchTerms(text);
+	if (terms.length === 0) {
+		return [];
+	}
+	const match = terms.map((term) => `"${term}"*`).join(' ');
+
+	// Step 2: Ranked search.
+	const rows = await db.$queryRaw<{ id: string; score: number; name: string; snippet: string }[]>`
+		SELECT product_id AS id,
+			bm25(products_fts, 0.0, 10.0, 4.0, 1.0) AS score,
+			highlight(products_fts, 1, ${MARK_START}, ${MARK_END}) AS name,
+			CASE WHEN instr(highlight(products_fts, 2, ${MARK_START}, ${MARK_END}), ${MARK_START}) = 0
+					AND instr(highlight(products_fts, 3, ${MARK_START}, ${MARK_END}), ${MARK_START}) > 0
+				THEN snippet(products_fts, 3, ${MARK_START}, ${MARK_END}, '…', 24)
+				ELSE snippet(products_fts, 2, ${MARK_START}, ${MARK_END}, '…', 24)
+			END AS snippet
+		FROM products_fts
+		WHERE products_fts MATCH ${match}
+		ORDER BY score
+		LIMIT ${SEARCH_RESULT_LIMIT}`;
+
+	// Step 3: Highlight.
+	return rows.map((row) => ({ id: row.id, score: Number(row.score), name: highlight(row.name), snippet: highlight(row.snippet) }));
+}
+
+/**
+ * @function editDistance
+ * @description Computes the Levenshtein distance between two words.
+ * @param {string} a - The first word.
+ * @param {string} b - The second word.
+ * @returns {number} The number of single-character insertions, deletions, and substitutions turning one into the other.
+ */
+function editDistance(a: string, b: string): number {
+	let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+		}
+		previous = current;
+	}
+	return previous[b.length];
+}
+
+/**
+ * @function suggestSearch
+ * @description Suggests a corrected search when some words match nothing in the index: each such word is replaced by the closest indexed word (within one edit for words of up to 4 letters, two for longer ones), preferring words found in more products.
+ * @param {string} text - The search text.
+ * @returns {Promise<string | null>} The corrected search text, or null if every word is known or no correction is close enough.
+ *
+ * Steps:
+ *   1. Split the text into words; a word is known when an indexed word starts with it.
+ *   2. Load the indexed words of similar length from the vocabulary view.
+ *   3. Replace each unknown word by its closest indexed word, if any is close enough.
+ *   4. Return the corrected text if anything changed.
+ */
+export async function suggestSearch(text: string): Promise<string | null> {
+	// Step 1: Words.
+	const terms = searchTerms(text);
+	if (terms.length === 0) {
+		return null;
+	}
+	const shortest = Math.min(...terms.map((term) => term.length));
+
+	// Step 2: Vocabulary.
+	const vocabulary = await db.$queryRaw<{ term: string; doc: number }[]>`
+		SELECT term, doc FROM products_fts_vocab
+		WHERE length(term) >= ${Math.max(shortest - 2, 1)}`;
+	const isKnown = (term: string) => vocabulary.some((entry) => entry.term.startsWith(term));
+
+	// Step 3: Corrections.
+	let changed = false;
+	const corrected = terms.map((term) => {
+		if (isKnown(term)) {
+			return term;
+		}
+		const maxDistance = term.length <= 4 ? 1 : 2;
+		let best: { term: string; distance: number; doc: number } | null = null;
+		for (const entry of vocabulary) {
+			if (Math.abs(entry.term.length - term.length) > maxDistance) {
+				continue;
+			}
+			const distance = editDistance(term, entry.term);
+			const doc = Number(entry.doc);
+			if (distance <= maxDistance && (!best || distance < best.distance || (distance === best.distance && doc > best.doc))) {
+				best = { term: entry.term, distance, doc };
+			}
+		}
+		if (best) {
+			changed = true;
+			return best.term;
+		}
+		return term;
+	});
+
+	// Step 4: Suggestion.
+	return changed ? corrected.join(' ') : null;
+}
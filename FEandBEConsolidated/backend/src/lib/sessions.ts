@@ -0,0 +1,277 @@
+/**
+ * @fileoverview Server-side session store with short-lived access tokens and rotating refresh tokens.
+ * @module lib/sessions
+ * @description Every sign-in creates a row in the `sessions` table. The access token (a 15 minute JWT in the `agri_auth` cookie) carries the session ID as its `jti` claim, and `authMiddleware` rejects it once the session is revoked or expired. The refresh token (in the `agri_refresh` cookie) has the form `<sessionId>.<secret>`; only the hash of the current secret is stored and every refresh replaces it. Presenting a secret that is no longer current means the token was copied, so the whole session is revoked, with one exception: requests sent together (two tabs restored at once, a page load racing its data request) present the same secret, so the secret just replaced is still accepted for `REFRESH_GRACE_MS`, re-issuing only the access token. The session's CSRF token (see `lib/csrf`) is written alongside in the readable `agri_csrf` cookie.
+ * @dependencies express, ./csrf, ./db, ./jwt, ./roles, ./tokens
+ * @exports SESSION_TTL_MS - Absolute lifetime of a session in milliseconds.
+ * @exports BASE_COOKIE_OPTIONS - Cookie options shared by the authentication cookies.
+ * @exports SESSIONLESS_AUTH_PATHS - Authentication routes served without a live access token.
+ * @exports SessionTokens - Interface for the token pair issued for a session.
+ * @exports RefreshResult - Result type of `rotateSession`.
+ * @exports createSession - Function to create a session and issue its first token pair.
+ * @exports rotateSession - Function to exchange a refresh token for a new token pair.
+ * @exports touchSession - Function to record session activity.
+ * @exports revokeSession - Function to revoke a single session.
+ * @exports revokeAllSessions - Function to revoke every active session of a user.
+ * @exports setAuthCookies - Function to write the token pair and CSRF token into response cookies.
+ * @exports clearAuthCookies - Function to clear the authentication and CSRF cookies.
+ * @exports describeDevice - Function to summarise a User-Agent string for display.
+ * @author Gemini
+ * @lastModified 2026-10-19
+ */
+
+import type { Request, Response, CookieOptions } from 'express';
+import { CSRF_COOKIE_NAME, csrfTokenFor } from './csrf.js';
+import { db } from './db.js';
+import { ACCESS_TOKEN_TTL_SECONDS, getCookieName, getRefreshCookieName, signJWT } from './jwt.js';
+import { toRoles } from './roles.js';
+import type { Role } from './roles.js';
+import { generateToken, hashToken } from './tokens.js';
+
+/**
+ * @constant {number} SESSION_TTL_MS - The absolute lifetime of a session (7 days). Refreshing does not extend it.
+ */
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+/**
+ * @constant {number} REFRESH_GRACE_MS - How long the refresh secret just replaced is still accepted from concurrent requests (30 seconds).
+ */
+const REFRESH_GRACE_MS = 30 * 1000;
+/**
+ * @constant {number} LAST_SEEN_RESOLUTION_MS - Minimum interval between `lastSeenAt` writes for one session (1 minute).
+ */
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+/**
+ * @constant {CookieOptions} BASE_COOKIE_OPTIONS - Options shared by the access and refresh cookies (and the guest cart cookie in `lib/cart`).
+ */
+export const BASE_COOKIE_OPTIONS: CookieOptions = {
+	httpOnly: true,
+	secure: false, // Set to false for localhost development
+	sameSite: 'lax',
+	path: '/',
+	domain: '.evolvlabs.com' // Use leading dot for subdomain support
+};
+
+/**
+ * @constant {string[]} SESSIONLESS_AUTH_PATHS - The authentication routes that do not act on a session (signing in, refreshing, and the password and email links). `authMiddleware` serves them even when the browser holds a refresh token but its access token has expired; every other route answers 401 `ACCESS_TOKEN_EXPIRED` so the client refreshes first.
+ */
+export const SESSIONLESS_AUTH_PATHS = [
+	'/api/auth/sign-in',
+	'/api/auth/sign-in/2fa',
+	'/api/auth/sign-up',
+	'/api/auth/refresh',
+	'/api/auth/forgot-password',
+	'/api/auth/reset-password',
+	'/api/auth/verify-email'
+];
+
+/**
+ * @interface SessionTokens
+ * @description The token pair issued when a session is created or refreshed.
+ * @property {string} sessionId - The ID of the session.
+ * @property {string} accessToken - The signed access JWT.
+ * @property {string | null} refreshToken - The opaque refresh token (`<sessionId>.<secret>`), or null when a concurrent refresh already issued it.
+ */
+export interface SessionTokens {
+	sessionId: string;
+	accessToken: string;
+	refreshToken: string | null;
+}
+
+/**
+ * @typedef {object} RefreshResult
+ * @description The outcome of a refresh attempt: either a new token pair, or the error code explaining why it was refused.
+ */
+export type RefreshResult =
+	| { ok: true; tokens: SessionTokens }
+	| { ok: false; code: 'INVALID_REFRESH_TOKEN' | 'REFRESH_TOKEN_REUSED' | 'SESSION_EXPIRED' };
+
+/**
+ * @function createSession
+ * @description Creates a new session for a user and issues its first access and refresh tokens.
+ * @param {{ id: string; email: string; roles: Role[] }} user - The user signing in.
+ * @param {Request} req - The request, used to record the device (User-Agent) and client IP.
+ * @returns {Promise<SessionTokens>} The token pair for the new session.
+ *
+ * Steps:
+ *   1. Generate the refresh secret.
+ *   2. Insert the session row with the hash of the secret, device, IP, and expiry.
+ *   3. Sign the access token with the session ID as `jti` and return both tokens.
+ */
+export async function createSession(user: { id: string; email: string; roles: Role[] }, req: Request): Promise<SessionTokens> {
+	// Step 1: Generate the refresh secret.
+	const secret = generateToken();
+	// Step 2: Persist the session.
+	const session = await db.session.create({
+		data: {
+			userId: user.id,
+			refreshTokenHash: hashToken(secret),
+			userAgent: req.get('user-agent') || null,
+			ipAddress: req.ip || null,
+			expiresAt: new Date(Date.now() + SESSION_TTL_MS)
+		},
+		select: { id: true }
+	});
+	// Step 3: Issue the token pair.
+	return {
+		sessionId: session.id,
+		accessToken: signJWT({ userId: user.id, email: user.email, roles: user.roles }, session.id),
+		refreshToken: `${session.id}.${secret}`
+	};
+}
+
+/**
+ * @function rotateSession
+ * @description Exchanges a refresh token for a new access token and a new refresh token, invalidating the old refresh token.
+ * If the presented token belongs to a live session but is not its current token, it has been used before: the session is revoked, unless it is the token replaced within the last `REFRESH_GRACE_MS`, in which case only a new access token is issued (the concurrent refresh that replaced it sends the new refresh token).
+ * @param {string} refreshToken - The refresh token presented by the client.
+ * @param {Request} req - The request, used to record the client IP.
+ * @returns {Promise<RefreshResult>} The new token pair, or an error code.
+ *
+ * Steps:
+ *   1. Split the token into session ID and secret. If malformed, return `INVALID_REFRESH_TOKEN`.
+ *   2. Load the session and its user. If missing or revoked, return `INVALID_REFRESH_TOKEN`; if expired, return `SESSION_EXPIRED`.
+ *   3. Atomically swap the stored hash, conditioned on the presented secret being the current one, keeping the replaced hash and the time.
+ *   4. If the swap matched nothing, re-read the session: if the presented secret was replaced within the grace window, return a new access token without a refresh token; otherwise the token was reused: revoke the session and return `REFRESH_TOKEN_REUSED`.
+ *   5. Otherwise sign a new access token and return the new pair.
+ */
+export async function rotateSession(refreshToken: string, req: Request): Promise<RefreshResult> {
+	// Step 1: Parse the refresh token.
+	const [sessionId, secret] = refreshToken.split('.');
+	if (!sessionId || !secret) return { ok: false, code: 'INVALID_REFRESH_TOKEN' };
+
+	// Step 2: Load the session.
+	const session = await db.session.findUnique({
+		where: { id: sessionId },
+		select: {
+			id: true, revokedAt: true, expiresAt: true,
+			user: { select: { id: true, email: true, roles: { select: { role: true } } } }
+		}
+	});
+	if (!session || session.revokedAt) return { ok: false, code: 'INVALID_REFRESH_TOKEN' };
+	if (session.expiresAt <= new Date()) return { ok: false, code: 'SESSION_EXPIRED' };
+
+	// Step 3: Rotate the refresh secret only if the presented one is current.
+	const secretHash = hashToken(secret);
+	const nextSecret = generateToken();
+	const { count } = await db.session.updateMany({
+		where: { id: sessionId, refreshTokenHash: secretHash, revokedAt: null },
+		data: {
+			refreshTokenHash: hashToken(nextSecret), previousRefreshTokenHash: secretHash, rotatedAt: new Date(),
+			lastSeenAt: new Date(), ipAddress: req.ip || null
+		}
+	});
+	const { user } = session;
+	const accessToken = signJWT({ userId: user.id, email: user.email, roles: toRoles(user.roles) }, sessionId);
+
+	// Step 4: A concurrent refresh got there first, or the token was reused.
+	if (count === 0) {
+		const current = await db.session.findUnique({
+			where: { id: sessionId },
+			select: { revokedAt: true, previousRefreshTokenHash: true, rotatedAt: true }
+		});
+		const graceStart = new Date(Date.now() - REFRESH_GRACE_MS);
+		if (current && !current.revokedAt && current.previousRefreshTokenHash === secretHash && current.rotatedAt && current.rotatedAt > graceStart) {
+			return { ok: true, tokens: { sessionId, accessToken, refreshToken: null } };
+		}
+		// Reuse detected: kill the session for every holder of its tokens.
+		await revokeSession(sessionId, 'refresh-token-reuse');
+		return { ok: false, code: 'REFRESH_TOKEN_REUSED' };
+	}
+
+	// Step 5: Issue the new pair.
+	return { ok: true, tokens: { sessionId, accessToken, refreshToken: `${sessionId}.${nextSecret}` } };
+}
+
+/**
+ * @function touchSession
+ * @description Records activity on a session (last seen time and IP). Writes are skipped if the session was seen within the last minute.
+ * @param {{ id: string; lastSeenAt: Date }} session - The session that was used.
+ * @param {Request} req - The request, used to record the client IP.
+ * @returns {Promise<void>}
+ */
+export async function touchSession(session: { id: string; lastSeenAt: Date }, req: Request): Promise<void> {
+	if (Date.now() - session.lastSeenAt.getTime() < LAST_SEEN_RESOLUTION_MS) return;
+	await db.session.update({
+		where: { id: session.id },
+		data: { lastSeenAt: new Date(), ipAddress: req.ip || null }
+	});
+}
+
+/**
+ * @function revokeSession
+ * @description Revokes a single session. Access tokens issued for it stop working immediately and its refresh token can no longer be used.
+ * @param {string} sessionId - The ID of the session to revoke.
+ * @param {string} reason - A short machine-readable reason (e.g. `sign-out`, `user-revoked`).
+ * @param {string} [userId] - If given, only revoke the session when it belongs to this user.
+ * @returns {Promise<boolean>} True if an active session was revoked.
+ */
+export async function revokeSession(sessionId: string, reason: string, userId?: string): Promise<boolean> {
+	const { count } = await db.session.updateMany({
+		where: { id: sessionId, revokedAt: null, ...(userId ? { userId } : {}) },
+		data: { revokedAt: new Date(), revokedReason: reason }
+	});
+	return count > 0;
+}
+
+/**
+ * @function revokeAllSessions
+ * @description Revokes every active session of a user.
+ * @param {string} userId - The user whose sessions to revoke.
+ * @param {string} reason - A short machine-readable reason.
+ * @returns {Promise<number>} The number of sessions revoked.
+ */
+export async function revokeAllSessions(userId: string, reason: string): Promise<number> {
+	const { count } = await db.session.updateMany({
+		where: { userId, revokedAt: null },
+		data: { revokedAt: new Date(), revokedReason: reason }
+	});
+	return count;
+}
+
+/**
+ * @function setAuthCookies
+ * @description Writes the access token into the `agri_auth` cookie, the refresh token (if one was issued) into the `agri_refresh` cookie, and the session's CSRF token into the readable `agri_csrf` cookie.
+ * @param {Response} res - The Express response object.
+ * @param {SessionTokens} tokens - The token pair to store.
+ * @returns {void}
+ */
+export function setAuthCookies(res: Response, tokens: SessionTokens): void {
+	res.cookie(getCookieName(), tokens.accessToken, { ...BASE_COOKIE_OPTIONS, maxAge: ACCESS_TOKEN_TTL_SECONDS * 1000 });
+	if (tokens.refreshToken) {
+		res.cookie(getRefreshCookieName(), tokens.refreshToken, { ...BASE_COOKIE_OPTIONS, maxAge: SESSION_TTL_MS });
+	}
+	res.cookie(CSRF_COOKIE_NAME, csrfTokenFor(tokens.sessionId), { ...BASE_COOKIE_OPTIONS, httpOnly: false, maxAge: SESSION_TTL_MS });
+}
+
+/**
+ * @function clearAuthCookies
+ * @description Clears the access, refresh, and CSRF cookies.
+ * @param {Response} res - The Express response object.
+ * @returns {void}
+ */
+export function clearAuthCookies(res: Response): void {
+	res.clearCookie(getCookieName(), { path: BASE_COOKIE_OPTIONS.path, domain: BASE_COOKIE_OPTIONS.domain });
+	res.clearCookie(getRefreshCookieName(), { path: BASE_COOKIE_OPTIONS.path, domain: BASE_COOKIE_OPTIONS.domain });
+	res.clearCookie(CSRF_COOKIE_NAME, { path: BASE_COOKIE_OPTIONS.path, domain: BASE_COOKIE_OPTIONS.domain });
+}
+
+/**
+ * @function describeDevice
+ * @description Produces a short, human-readable description of a User-Agent string (e.g. "Firefox on Linux").
+ * @param {string | null} userAgent - The raw User-Agent header.
+ * @returns {string} The device description, or "Unknown device".
+ */
+export function describeDevice(userAgent: string | null): string {
+	if (!userAgent) return 'Unknown device';
+	const browsers: [RegExp, string][] = [
+		[/Edg\//, 'Edge'], [/OPR\//, 'Opera'], [/Firefox\//, 'Firefox'], [/Chrome\//, 'Chrome'],
+		[/Safari\//, 'Safari'], [/curl\//, 'curl'], [/python-requests/i, 'Python requests'], [/sqlmap/i, 'sqlmap']
+	];
+	const systems: [RegExp, string][] = [
+		[/Windows/, 'Windows'], [/Android/, 'Android'], [/iPhone|iPad/, 'iOS'], [/Mac OS X/, 'macOS'], [/Linux/, 'Linux']
+	];
+	const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+	const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+	if (browser && system) return `${browser} on ${system}`;
+	return browser || system || userAgent.slice(0, 40);
+}
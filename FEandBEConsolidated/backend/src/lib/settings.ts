@@ -0,0 +1,80 @@
+/**
+ * @fileoverview Typed, database-backed application settings that admins can change at runtime.
+ * @module lib/settings
+ * @description This module stores settings as JSON in the `app_settings` table. Each key has a declared type and default in `SettingValues`/`DEFAULTS`, so callers always get a well-typed value even before an admin has saved anything. Values are cached in memory because some are read on every request; the cache is updated on write (the backend runs as a single instance).
+ * @dependencies ./db, ./roles
+ * @exports SettingValues - Interface mapping each setting key to its value type.
+ * @exports getSetting - Function to read a setting.
+ * @exports setSetting - Function to write a setting.
+ * @author Gemini
+ * @lastModified 2026-10-19
+ */
+
+import { db } from './db.js';
+import type { Role } from './roles.js';
+
+/**
+ * @interface SettingValues
+ * @description Declares every setting key and its value type.
+ * @property {Role[]} security.twoFactorRequiredRoles - Roles whose holders must enroll in TOTP two-factor authentication before using role-protected endpoints.
+ */
+export interface SettingValues {
+	'security.twoFactorRequiredRoles': Role[];
+}
+
+/**
+ * @constant {SettingValues} DEFAULTS - Values used when a setting has never been saved.
+ */
+const DEFAULTS: SettingValues = {
+	'security.twoFactorRequiredRoles': []
+};
+
+/**
+ * @constant {Map<string, unknown>} cache - In-memory cache of settings read from or written to the database.
+ */
+const cache = new Map<keyof SettingValues, unknown>();
+
+/**
+ * @function getSetting
+ * @description Reads a setting, falling back to its default if it has never been saved or its stored JSON is unreadable.
+ * @param {K} key - The setting key.
+ * @returns {Promise<SettingValues[K]>} The setting value.
+ *
+ * Steps:
+ *   1. Return the cached value if present.
+ *   2. Otherwise load the row, parse its JSON, and cache the result (or the default).
+ */
+export async function getSetting<K extends keyof SettingValues>(key: K): Promise<SettingValues[K]> {
+	// Step 1: Serve from cache.
+	if (cache.has(key)) return cache.get(key) as SettingValues[K];
+	// Step 2: Load from the database.
+	const row = await db.appSetting.findUnique({ where: { key } });
+	let value: SettingValues[K] = DEFAULTS[key];
+	if (row) {
+		try {
+			value = JSON.parse(row.value) as SettingValues[K];
+		} catch (error) {
+			console.error(`Invalid JSON in setting ${key}:`, error);
+		}
+	}
+	cache.set(key, value);
+	return value;
+}
+
+/**
+ * @function setSetting
+ * @description Saves a setting and updates the cache.
+ * @param {K} key - The setting key.
+ * @param {SettingValues[K]} value - The new value.
+ * @param {string} [updatedById] - The ID of the admin making the change.
+ * @returns {Promise<void>}
+ */
+export async function setSetting<K extends keyof SettingValues>(key: K, value: SettingValues[K], updatedById?: string): Promise<void> {
+	const json = JSON.stringify(value);
+	await db.appSetting.upsert({
+		where: { key },
+		update: { value: json, updatedById: updatedById || null },
+		create: { key, value: json, updatedById: updatedById || null }
+	});
+	cache.set(key, value);
+}
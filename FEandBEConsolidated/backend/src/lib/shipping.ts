@@ -0,0 +1,201 @@
+/**
+ * @fileoverview Delivery methods, shipping zones, and shipping rates.
+ * @module lib/shipping
+ * @description An order is either picked up at the farm or delivered to an address, by one of the delivery methods (`pickup`, `local`, `courier`). A method that requires an address is priced by its shipping rates: a rate covers a weight band (`minWeightGrams` up to and including `maxWeightGrams`, or without an upper bound) in one shipping zone, or in every zone when it has none. A zone is a list of country codes, optionally narrowed to postal codes starting with one of `postalPrefixes`.
+ * For an address, the zones are tried from the most specific (the longest matching postal prefix) to the least, then the rates without a zone; the first rate covering the order's weight prices it at `baseCents` plus `perKgCents` for each kilogram (pro rata), or nothing once the order's items, after discounts, reach `freeOverCents`. A method without a matching rate does not deliver to that address.
+ * Orders picked up at the farm are taxed at the farm's location, set by `PICKUP_COUNTRY`, `PICKUP_REGION`, and `PICKUP_POSTAL_CODE`.
+ * @dependencies ./db
+ * @exports DeliveryAddress - Interface for an address an order is delivered to.
+ * @exports ShippingQuote - Interface for the priced delivery of an order.
+ * @exports MAX_ADDRESSES_PER_USER - How many addresses a user can save.
+ * @exports ADDRESS_FIELDS - The address fields, for Prisma selects.
+ * @exports SAVED_ADDRESS_SELECT - The fields of an address book entry.
+ * @exports DELIVERY_METHOD_SELECT - The delivery method fields shown to customers.
+ * @exports SHIPPING_RATE_SELECT - The shipping rate fields shown to admins.
+ * @exports getPickupLocation - Function to get the farm's location.
+ * @exports splitList - Function to split a stored comma-separated list.
+ * @exports formatShippingZone - Function to turn a stored shipping zone into its API shape.
+ * @exports quoteShipping - Function to price the delivery of an order.
+ * @author Gemini
+ * @lastModified 2026-10-19
+ */
+
+import { db } from './db.js';
+
+/**
+ * @interface DeliveryAddress
+ * @description An address an order is delivered to. Country codes are ISO 3166-1 alpha-2, and country and region codes are upper case.
+ * @property {string} recipientName - Who receives the order.
+ * @property {string} line1 - The street address.
+ * @property {string | null} line2 - The apartment, suite, or unit.
+ * @property {string} city - The city.
+ * @property {string | null} region - The state, province, or region code.
+ * @property {string} postalCode - The postal code.
+ * @property {string} country - The country code.
+ * @property {string | null} phone - A phone number for the courier.
+ */
+export interface DeliveryAddress {
+	recipientName: string;
+	line1: string;
+	line2: string | null;
+	city: string;
+	region: string | null;
+	postalCode: string;
+	country: string;
+	phone: string | null;
+}
+
+/**
+ * @interface ShippingQuote
+ * @description The priced delivery of an order.
+ * @property {string} method - The delivery method code.
+ * @property {string} name - The delivery method name.
+ * @property {boolean} requiresAddress - Whether the method delivers to an address (otherwise the order is picked up).
+ * @property {string | null} zone - The name of the shipping zone the rate belongs to, if any.
+ * @property {number} weightGrams - The weight of the order.
+ * @property {number} amountCents - The shipping cost.
+ * @property {number | null} freeOverCents - The item total above which this rate ships free, if any.
+ */
+export interface ShippingQuote {
+	method: string;
+	name: string;
+	requiresAddress: boolean;
+	zone: string | null;
+	weightGrams: number;
+	amountCents: number;
+	freeOverCents: number | null;
+}
+
+/**
+ * @constant {number} MAX_ADDRESSES_PER_USER - How many addresses a user can keep in their address book.
+ */
+export const MAX_ADDRESSES_PER_USER = 20;
+
+/**
+ * @constant {object} ADDRESS_FIELDS - The fields of a delivery address, for Prisma selects.
+ */
+export const ADDRESS_FIELDS = {
+	recipientName: true, line1: true, line2: true, city: true, region: true, postalCode: true, country: true, phone: true
+} as const;
+
+/**
+ * @constant {object} SAVED_ADDRESS_SELECT - The fields of an address book entry.
+ */
+export const SAVED_ADDRESS_SELECT = {
+	id: true, label: true, ...ADDRESS_FIELDS, isDefault: true, createdAt: true, updatedAt: true
+} as const;
+
+/**
+ * @constant {object} DELIVERY_METHOD_SELECT - The delivery method fields shown to customers.
+ */
+export const DELIVERY_METHOD_SELECT = {
+	id: true, code: true, name: true, description: true, requiresAddress: true
+} as const;
+
+/**
+ * @constant {object} SHIPPING_RATE_SELECT - The shipping rate fields shown to admins, with the zone's name.
+ */
+export const SHIPPING_RATE_SELECT = {
+	id: true, methodId: true, zoneId: true, minWeightGrams: true, maxWeightGrams: true, baseCents: true, perKgCents: true, freeOverCents: true,
+	zone: { select: { id: true, name: true } }
+} as const;
+
+/**
+ * @function getPickupLocation
+ * @description Gets the farm's location, where orders that are picked up are taxed, from `PICKUP_COUNTRY` (default `US`), `PICKUP_REGION` (default `AV`), and `PICKUP_POSTAL_CODE` (default `12345`).
+ * @returns {{ country: string; region: string | null; postalCode: string }} The location.
+ */
+export function getPickupLocation(): { country: string; region: string | null; postalCode: string } {
+	return {
+		country: (process.env.PICKUP_COUNTRY || 'US').toUpperCase(),
+		region: (process.env.PICKUP_REGION ?? 'AV').toUpperCase() || null,
+		postalCode: process.env.PICKUP_POSTAL_CODE || '12345'
+	};
+}
+
+/**
+ * @function splitList
+ * @description Splits a stored comma-separated list (of country codes or postal prefixes), dropping blanks.
+ * @param {string} value - The stored list.
+ * @returns {string[]} The entries.
+ */
+export function splitList(value: string): string[] {
+	return value.split(',').map((entry) => entry.trim()).filter(Boolean);
+}
+
+/**
+ * @function formatShippingZone
+ * @description Turns a stored shipping zone into its API shape, with its country codes and postal prefixes as lists.
+ * @param {T} zone - The zone.
+ * @returns {object} The zone, with `countries` and `postalPrefixes` as arrays.
+ */
+export function formatShippingZone<T extends { countries: string; postalPrefixes: string }>(zone: T) {
+	return { ...zone, countries: splitList(zone.countries), postalPrefixes: splitList(zone.postalPrefixes) };
+}
+
+/**
+ * @function quoteShipping
+ * @description Prices the delivery of an order with a delivery method, following the rules in the module description.
+ * @param {string} methodCode - The delivery method code.
+ * @param {DeliveryAddress | null} address - The address to deliver to (ignored when the order is picked up).
+ * @param {number} weightGrams - The weight of the order.
+ * @param {number} itemsCents - The item total after discounts, for free shipping thresholds.
+ * @returns {Promise<ShippingQuote | { error: string }>} The quote, or why the method cannot be used.
+ *
+ * Steps:
+ *   1. Load the method with its rates. If it does not exist or is inactive, or it needs an address and none was given, return the reason.
+ *   2. Rank the rates: for an address, those of its zones from the most specific, then those without a zone; for a pickup, only those without a zone. Keep those covering the weight.
+ *   3. If none is left, return the reason; otherwise price the order with the first.
+ */
+export async function quoteShipping(methodCode: string, address: DeliveryAddress | null, weightGrams: number, itemsCents: number): Promise<ShippingQuote | { error: string }> {
+	// Step 1: Load the method.
+	const method = await db.deliveryMethod.findUnique({
+		where: { code: methodCode },
+		select: {
+			code: true, name: true, requiresAddress: true, active: true,
+			rates: {
+				select: {
+					minWeightGrams: true, maxWeightGrams: true, baseCents: true, perKgCents: true, freeOverCents: true,
+					zone: { select: { id: true, name: true, countries: true, postalPrefixes: true } }
+				}
+			}
+		}
+	});
+	if (!method || !method.active) {
+		return { error: 'This delivery method is not available' };
+	}
+	if (method.requiresAddress && !address) {
+		return { error: `Choose an address for ${method.name}` };
+	}
+
+	// Step 2: Rank the rates.
+	const specificity = (zone: { countries: string; postalPrefixes: string } | null): number => {
+		if (!zone) return 0;
+		if (!method.requiresAddress || !address || !splitList(zone.countries).includes(address.country)) return -1;
+		const prefixes = splitList(zone.postalPrefixes);
+		if (prefixes.length === 0) return 1;
+		const postalCode = address.postalCode.replace(/\s/g, '').toUpperCase();
+		const longest = Math.max(-1, ...prefixes.filter((prefix) => postalCode.startsWith(prefix.toUpperCase())).map((prefix) => prefix.length));
+		return longest < 0 ? -1 : 1 + longest;
+	};
+	const candidates = method.rates
+		.map((rate) => ({ rate, rank: specificity(rate.zone) }))
+		.filter(({ rate, rank }) => rank >= 0 && weightGrams >= rate.minWeightGrams && (rate.maxWeightGrams === null || weightGrams <= rate.maxWeightGrams))
+		.sort((a, b) => b.rank - a.rank);
+
+	// Step 3: Price the order.
+	if (candidates.length === 0) {
+		return { error: `${method.name} is not available for this address and order` };
+	}
+	const { rate } = candidates[0];
+	const free = rate.freeOverCents !== null && itemsCents >= rate.freeOverCents;
+	return {
+		method: method.code,
+		name: method.name,
+		requiresAddress: method.requiresAddress,
+		zone: rate.zone?.name ?? null,
+		weightGrams,
+		amountCents: free ? 0 : rate.baseCents + Math.ceil((weightGrams * rate.perKgCents) / 1000),
+		freeOverCents: rate.freeOverCents
+	};
+}
@@ -0,0 +1,215 @@
+/**
+ * @fileoverview Contact messages, their spam screening, and replies from the support inbox.
+ * @module lib/support
+ * @description Every contact form submission is stored as a `ContactMessage` and worked through the admin support inbox: it starts `new`, moves to `in-progress` once someone picks it up (replying does this), and ends `resolved`. Replies are emailed to the sender through the configured mail transport (`lib/mailer`) and kept with the message.
+ * Submissions are screened by simple heuristics (links, link shorteners and markup, common spam phrases, shouting, a filled-in honeypot field, and floods from one sender) that add up to a spam score; messages scoring `SPAM_THRESHOLD` or more are marked as spam and kept out of the inbox's default view, but never dropped, so an admin can rescue a false positive.
+ * Requests reach the backend through Apache with ModSecurity, which runs in detection mode for the rules below its blocking threshold. The proxy forwards its verdict in the `X-ModSecurity-Anomaly-Score` and `X-ModSecurity-Transaction-Id` headers (replacing any sent by the client), and both are stored with the message so the inbox shows which messages the WAF had flagged and where to find them in the audit log. Messages are stored exactly as written, markup included, so clients must render them as text.
+ * @dependencies express, ./db, ./mailer
+ * @exports CONTACT_MESSAGE_STATUSES - The list of all contact message statuses.
+ * @exports ContactMessageStatus - Union type of all contact message statuses.
+ * @exports SPAM_THRESHOLD - The spam score from which a message is marked as spam.
+ * @exports SpamVerdict - Interface for the result of the spam heuristics.
+ * @exports WafVerdict - Interface for ModSecurity's verdict on a request.
+ * @exports CONTACT_MESSAGE_SELECT - The contact message fields shown in the inbox.
+ * @exports CONTACT_REPLY_SELECT - The reply fields shown in the inbox.
+ * @exports assessSpam - Function to score a submission with the spam heuristics.
+ * @exports countRecentContactMessages - Function to count a sender's recent submissions.
+ * @exports readWafVerdict - Function to read ModSecurity's verdict from the proxy headers.
+ * @exports formatContactMessage - Function to turn a stored contact message into its API shape.
+ * @exports sendContactReply - Function to email a reply to the sender of a message.
+ * @author Gemini
+ * @lastModified 2026-10-19
+ */
+
+import type { Request } from 'express';
+import { db } from './db.js';
+import { getMailer } from './mailer.js';
+
+/**
+ * @constant {readonly string[]} CONTACT_MESSAGE_STATUSES - All contact message statuses, in the order a message goes through them.
+ */
+export const CONTACT_MESSAGE_STATUSES = ['new', 'in-progress', 'resolved'] as const;
+
+/**
+ * @typedef {typeof CONTACT_MESSAGE_STATUSES[number]} ContactMessageStatus - Union type of all contact message statuses.
+ */
+export type ContactMessageStatus = (typeof CONTACT_MESSAGE_STATUSES)[number];
+
+/**
+ * @constant {number} SPAM_THRESHOLD - The spam score from which a message is marked as spam.
+ */
+export const SPAM_THRESHOLD = 5;
+/**
+ * @constant {number} FLOOD_WINDOW_MS - How far back a sender's earlier submissions count towards a flood (1 hour).
+ */
+const FLOOD_WINDOW_MS = 60 * 60 * 1000;
+/**
+ * @constant {number} FLOOD_LIMIT - How many earlier submissions within `FLOOD_WINDOW_MS` make a flood.
+ */
+const FLOOD_LIMIT = 3;
+/**
+ * @constant {RegExp[]} SPAM_PHRASES - Phrases common in contact form spam and rare in customer questions.
+ */
+const SPAM_PHRASES = [
+	/\bviagra\b/i, /\bcasino\b/i, /\bcrypto(currency)?\b/i, /\bbitcoin\b/i, /\bforex\b/i, /\bseo (services|agency|ranking)\b/i,
+	/\bbacklinks?\b/i, /\bpayday loans?\b/i, /\bweight loss\b/i, /\bwork from home\b/i, /\bclick here\b/i, /\bguest post\b/i
+];
+/**
+ * @constant {RegExp} LINK_PATTERN - Matches the start of a link.
+ */
+const LINK_PATTERN = /\bhttps?:\/\/(?:www\.)?|\bwww\./i;
+/**
+ * @constant {RegExp} SHORTENER_PATTERN - Matches links through common URL shorteners, which hide where they lead.
+ */
+const SHORTENER_PATTERN = /\b(bit\.ly|tinyurl\.com|t\.co|goo\.gl|ow\.ly|is\.gd|cutt\.ly)\//i;
+/**
+ * @constant {string} WAF_ANOMALY_SCORE_HEADER - The proxy header carrying ModSecurity's inbound anomaly score.
+ */
+const WAF_ANOMALY_SCORE_HEADER = 'x-modsecurity-anomaly-score';
+/**
+ * @constant {string} WAF_TRANSACTION_ID_HEADER - The proxy header carrying ModSecurity's transaction ID (Apache's `UNIQUE_ID`), which names the request in the audit log.
+ */
+const WAF_TRANSACTION_ID_HEADER = 'x-modsecurity-transaction-id';
+
+/**
+ * @interface SpamVerdict
+ * @description The result of the spam heuristics.
+ * @property {number} score - The spam score.
+ * @property {string[]} reasons - What added to the score.
+ * @property {boolean} isSpam - Whether the score reaches `SPAM_THRESHOLD`.
+ */
+export interface SpamVerdict {
+	score: number;
+	reasons: string[];
+	isSpam: boolean;
+}
+
+/**
+ * @interface WafVerdict
+ * @description ModSecurity's verdict on a request, as forwarded by the proxy. Both are null for requests that did not go through it.
+ * @property {number | null} anomalyScore - The inbound anomaly score; above 0 means some rule matched.
+ * @property {string | null} transactionId - The transaction ID, to find the request in the audit log.
+ */
+export interface WafVerdict {
+	anomalyScore: number | null;
+	transactionId: string | null;
+}
+
+/**
+ * @constant {object} CONTACT_MESSAGE_SELECT - The contact message fields shown in the inbox, with the sender's account (if they were signed in) and the number of replies.
+ */
+export const CONTACT_MESSAGE_SELECT = {
+	id: true, name: true, email: true, message: true, status: true, spamScore: true, spamReasons: true, isSpam: true,
+	ipAddress: true, userAgent: true, wafAnomalyScore: true, wafTransactionId: true, resolvedAt: true, createdAt: true, updatedAt: true,
+	user: { select: { id: true, email: true, firstName: true, lastName: true } },
+	_count: { select: { replies: true } }
+} as const;
+
+/**
+ * @constant {object} CONTACT_REPLY_SELECT - The reply fields shown in the inbox, with the admin who sent it.
+ */
+export const CONTACT_REPLY_SELECT = {
+	id: true, body: true, sentAt: true,
+	author: { select: { id: true, firstName: true, lastName: true } }
+} as const;
+
+/**
+ * @function assessSpam
+ * @description Scores a contact form submission with the spam heuristics in the module description.
+ * @param {{ name: string; message: string; website?: string }} input - The submission; `website` is the honeypot field, hidden from people and filled in by bots.
+ * @param {number} recentCount - How many messages the sender submitted in the last hour (see `countRecentContactMessages()`).
+ * @returns {SpamVerdict} The score, its reasons, and whether the message is spam.
+ */
+export function assessSpam(input: { name: string; message: string; website?: string }, recentCount: number): SpamVerdict {
+	const reasons: string[] = [];
+	let score = 0;
+	const flag = (points: number, reason: string) => {
+		score += points;
+		reasons.push(reason);
+	};
+
+	if (input.website) flag(SPAM_THRESHOLD, 'honeypot field filled in');
+	if (LINK_PATTERN.test(input.name)) flag(4, 'link in the name');
+	const links = input.message.match(new RegExp(LINK_PATTERN, 'gi'))?.length ?? 0;
+	if (links >= 3) flag(3, `${links} links`);
+	else if (links > 0) flag(1, links === 1 ? '1 link' : `${links} links`);
+	if (SHORTENER_PATTERN.test(input.message)) flag(2, 'shortened link');
+	if (/<a\s[^>]*href|\[url[=\]]/i.test(input.message)) flag(2, 'link markup');
+	const phrases = SPAM_PHRASES.filter((phrase) => phrase.test(input.message)).length;
+	if (phrases > 0) flag(2 * Math.min(phrases, 3), phrases === 1 ? '1 spam phrase' : `${phrases} spam phrases`);
+	const letters = input.message.replace(/[^a-z]/gi, '');
+	if (letters.length >= 20 && letters.replace(/[^A-Z]/g, '').length / letters.length > 0.7) flag(2, 'mostly capitals');
+	if (/(.)\1{9,}/.test(input.message)) flag(1, 'repeated characters');
+	if (recentCount >= FLOOD_LIMIT) flag(3, `${recentCount} other messages in the last hour`);
+
+	return { score, reasons, isSpam: score >= SPAM_THRESHOLD };
+}
+
+/**
+ * @function countRecentContactMessages
+ * @description Counts the messages submitted in the last hour from an email address or IP address.
+ * @param {string} email - The sender's email address.
+ * @param {string | null} ipAddress - The sender's IP address, if known.
+ * @returns {Promise<number>} The number of messages.
+ */
+export function countRecentContactMessages(email: string, ipAddress: string | null): Promise<number> {
+	return db.contactMessage.count({
+		where: {
+			createdAt: { gte: new Date(Date.now() - FLOOD_WINDOW_MS) },
+			OR: [{ email }, ...(ipAddress ? [{ ipAddress }] : [])]
+		}
+	});
+}
+
+/**
+ * @function readWafVerdict
+ * @description Reads ModSecurity's verdict on a request from the headers set by the proxy. Values that are not a whole number or a plausible transaction ID are ignored.
+ * @param {Request} req - The Express request object.
+ * @returns {WafVerdict} The anomaly score and transaction ID, each null if missing.
+ */
+export function readWafVerdict(req: Request): WafVerdict {
+	const score = req.get(WAF_ANOMALY_SCORE_HEADER)?.trim();
+	const transactionId = req.get(WAF_TRANSACTION_ID_HEADER)?.trim();
+	return {
+		anomalyScore: score && /^\d{1,6}$/.test(score) ? parseInt(score, 10) : null,
+		transactionId: transactionId && /^[\w@.-]{1,128}$/.test(transactionId) ? transactionId : null
+	};
+}
+
+/**
+ * @function formatContactMessage
+ * @description Turns a stored contact message into its API shape: the spam reasons as a list, and `wafFlagged` for messages whose request matched a ModSecurity rule.
+ * @param {T} message - The message.
+ * @returns {object} The message with `spamReasons` as an array and `wafFlagged`.
+ */
+export function formatContactMessage<T extends { spamReasons: string; wafAnomalyScore: number | null }>(message: T) {
+	return {
+		...message,
+		spamReasons: message.spamReasons.split('\n').filter(Boolean),
+		wafFlagged: (message.wafAnomalyScore ?? 0) > 0
+	};
+}
+
+/**
+ * @function sendContactReply
+ * @description Emails a reply from the support inbox to the sender of a message, quoting their message.
+ * @param {{ name: string; email: string; message: string; createdAt: Date }} message - The message replied to.
+ * @param {string} body - The reply.
+ * @returns {Promise<void>} Rejects if the mail transport could not take the reply.
+ */
+export async function sendContactReply(message: { name: string; email: string; message: string; createdAt: Date }, body: string): Promise<void> {
+	await getMailer().send({
+		to: message.email,
+		subject: 'Re: Your message to AgriCommerce',
+		text: [
+			`Hello ${message.name},`,
+			'',
+			body,
+			'',
+			'AgriCommerce Support',
+			'',
+			`On ${message.createdAt.toUTCString()}, you wrote:`,
+			...message.message.split('\n').map((line) => `> ${line}`)
+		].join('\n')
+	});
+}
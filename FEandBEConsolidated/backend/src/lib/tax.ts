@@ -0,0 +1,149 @@
+/**
+ * @fileoverview Sales tax rules and the tax of an order.
+ * @module lib/tax
+ * @description A tax rule charges `rateBasisPoints` (hundredths of a percent) in a jurisdiction: a whole country (`region` null), a region of one, or every country (`country` `*`). Rules of different jurisdictions add up, so an address can owe a national and a regional tax. Within one jurisdiction each item is taxed by a single rule, the most specific that applies: a rule for the item's own category beats one for a category above it, which beats a rule without a category. A rule at 0 basis points therefore exempts a category. Shipping is taxed by the jurisdiction's rule without a category, if that rule `appliesToShipping`.
+ * Items are taxed on what the customer pays for them: order discounts are spread over the items in proportion to their amounts. Each rule's tax is rounded once, on everything it taxes.
+ * @dependencies ./db
+ * @exports TaxLocation - Interface for where an order is taxed.
+ * @exports TaxableLine - Interface for an order line to be taxed.
+ * @exports TaxLine - Interface for a tax line of an order.
+ * @exports TAX_RULE_SELECT - The tax rule fields shown to admins.
+ * @exports allocateDiscount - Function to spread an order discount over its lines.
+ * @exports calculateTax - Function to work out the tax of an order.
+ * @author Gemini
+ * @lastModified 2026-10-19
+ */
+
+import { db } from './db.js';
+
+/**
+ * @interface TaxLocation
+ * @description Where an order is taxed: the delivery address, or the farm for orders picked up.
+ * @property {string} country - The country code.
+ * @property {string | null} region - The region code, if any.
+ */
+export interface TaxLocation {
+	country: string;
+	region: string | null;
+}
+
+/**
+ * @interface TaxableLine
+ * @description An order line to be taxed.
+ * @property {string[]} categoryIds - The product's category and the categories above it, nearest first.
+ * @property {number} amountCents - The line's amount after discounts.
+ */
+export interface TaxableLine {
+	categoryIds: string[];
+	amountCents: number;
+}
+
+/**
+ * @interface TaxLine
+ * @description A tax line of an order.
+ * @property {string} taxRuleId - The tax rule ID.
+ * @property {string} name - The tax rule name.
+ * @property {number} rateBasisPoints - The rate, in hundredths of a percent.
+ * @property {number} taxableCents - The amount taxed.
+ * @property {number} amountCents - The tax.
+ */
+export interface TaxLine {
+	taxRuleId: string;
+	name: string;
+	rateBasisPoints: number;
+	taxableCents: number;
+	amountCents: number;
+}
+
+/**
+ * @constant {object} TAX_RULE_SELECT - The tax rule fields shown to admins.
+ */
+export const TAX_RULE_SELECT = {
+	id: true, name: true, country: true, region: true, categoryId: true, rateBasisPoints: true, appliesToShipping: true, active: true, createdAt: true,
+	category: { select: { id: true, name: true, slug: true } }
+} as const;
+
+/**
+ * @function allocateDiscount
+ * @description Spreads an order discount over its lines in proportion to their amounts, in whole cents; the last line takes the rounding remainder.
+ * @param {number[]} amounts - The line amounts before the discount.
+ * @param {number} discountCents - The order discount.
+ * @returns {number[]} The line amounts after the discount.
+ */
+export function allocateDiscount(amounts: number[], discountCents: number): number[] {
+	const total = amounts.reduce((sum, amount) => sum + amount, 0);
+	if (total === 0 || discountCents === 0) return [...amounts];
+	let remaining = discountCents;
+	return amounts.map((amount, index) => {
+		const share = index === amounts.length - 1 ? remaining : Math.min(remaining, Math.floor((discountCents * amount) / total));
+		remaining -= share;
+		return amount - share;
+	});
+}
+
+/**
+ * @function calculateTax
+ * @description Works out the tax of an order, following the rules in the module description.
+ * @param {TaxableLine[]} lines - The order lines, after discounts.
+ * @param {number} shippingCents - The shipping cost.
+ * @param {TaxLocation} location - Where the order is taxed.
+ * @returns {Promise<{ taxes: TaxLine[]; taxCents: number }>} The tax lines that charge something, in rule order, and their total.
+ *
+ * Steps:
+ *   1. Load the active rules for the location's country (and every country) that cover the whole country or the location's region, and group them by jurisdiction.
+ *   2. For each jurisdiction, add each line to the taxable amount of its most specific rule, and the shipping to the rule without a category if it applies to shipping.
+ *   3. Compute each rule's tax and return the lines that charge something.
+ */
+export async function calculateTax(lines: TaxableLine[], shippingCents: number, location: TaxLocation): Promise<{ taxes: TaxLine[]; taxCents: number }> {
+	// Step 1: Rules by jurisdiction.
+	const rules = await db.taxRule.findMany({
+		where: {
+			active: true,
+			country: { in: [location.country, '*'] },
+			OR: [{ region: null }, ...(location.region ? [{ region: location.region }] : [])]
+		},
+		select: { id: true, name: true, country: true, region: true, categoryId: true, rateBasisPoints: true, appliesToShipping: true },
+		orderBy: { createdAt: 'asc' }
+	});
+	const jurisdictions = new Map<string, typeof rules>();
+	for (const rule of rules) {
+		const key = `${rule.country}|${rule.region ?? ''}`;
+		jurisdictions.set(key, [...(jurisdictions.get(key) ?? []), rule]);
+	}
+
+	// Step 2: Taxable amounts per rule.
+	const taxable = new Map<string, number>();
+	const add = (ruleId: string, cents: number) => taxable.set(ruleId, (taxable.get(ruleId) ?? 0) + cents);
+	for (const jurisdictionRules of jurisdictions.values()) {
+		const general = jurisdictionRules.find((rule) => rule.categoryId === null);
+		for (const line of lines) {
+			let best = general;
+			let bestDepth = Infinity;
+			for (const rule of jurisdictionRules) {
+				const depth = rule.categoryId ? line.categoryIds.indexOf(rule.categoryId) : -1;
+				if (depth >= 0 && depth < bestDepth) {
+					best = rule;
+					bestDepth = depth;
+				}
+			}
+			if (best) add(best.id, line.amountCents);
+		}
+		if (general?.appliesToShipping && shippingCents > 0) add(general.id, shippingCents);
+	}
+
+	// Step 3: Tax per rule.
+	const taxes = rules
+		.filter((rule) => taxable.has(rule.id))
+		.map((rule) => {
+			const taxableCents = taxable.get(rule.id)!;
+			return {
+				taxRuleId: rule.id,
+				name: rule.name,
+				rateBasisPoints: rule.rateBasisPoints,
+				taxableCents,
+				amountCents: Math.round((taxableCents * rule.rateBasisPoints) / 10000)
+			};
+		})
+		.filter((line) => line.amountCents > 0);
+	return { taxes, taxCents: taxes.reduce((sum, line) => sum + line.amountCents, 0) };
+}
@@ -0,0 +1,182 @@
+/**
+ * @fileoverview Database-backed sign-in throttling with progressive delays and temporary lockouts.
+ * @module lib/throttle
+ * @description This module tracks failed sign-in attempts in the `login_throttles` table, keyed both by client IP and by the targeted email address, so limits survive restarts. After a few free attempts, each further failure doubles the wait before the next attempt is accepted; reaching the lockout threshold blocks the key outright for a while. Failures older than the failure window are forgotten. Signed-in users re-entering a second factor (to disable two-factor authentication or replace recovery codes) are throttled under the same keys, so a stolen session cannot be used to guess the code.
+ * @dependencies ./db
+ * @exports ThrottleScope - Union type of the throttle key scopes.
+ * @exports ThrottleKey - Interface identifying one throttled key.
+ * @exports loginThrottleKeys - Function to build the throttle keys for a sign-in attempt.
+ * @exports getRetryAfter - Function to compute how long a sign-in attempt must wait.
+ * @exports recordLoginFailure - Function to record a failed sign-in attempt.
+ * @exports clearLoginFailures - Function to forget the failures recorded for a key.
+ * @author Gemini
+ * @lastModified 2026-10-19
+ */
+
+import { db } from './db.js';
+
+/**
+ * @typedef {'ip' | 'email'} ThrottleScope - What a throttle key identifies.
+ */
+export type ThrottleScope = 'ip' | 'email';
+
+/**
+ * @interface ThrottleKey
+ * @description Identifies one throttled key.
+ * @property {ThrottleScope} scope - Whether the key is a client IP or an email address.
+ * @property {string} identifier - The IP address or normalised email address.
+ */
+export interface ThrottleKey {
+	scope: ThrottleScope;
+	identifier: string;
+}
+
+/**
+ * @interface ThrottlePolicy
+ * @description Limits applied to one scope.
+ * @property {number} freeAttempts - Failures allowed before delays start.
+ * @property {number} lockoutThreshold - Failures that trigger a lockout.
+ * @property {number} lockoutMs - How long a lockout lasts.
+ */
+interface ThrottlePolicy {
+	freeAttempts: number;
+	lockoutThreshold: number;
+	lockoutMs: number;
+}
+
+/**
+ * @constant {Record<ThrottleScope, ThrottlePolicy>} POLICIES - Per-scope limits.
+ * IP limits are looser than email limits because many users can share one address (NAT, the lab network).
+ */
+const POLICIES: Record<ThrottleScope, ThrottlePolicy> = {
+	email: { freeAttempts: 3, lockoutThreshold: 10, lockoutMs: 15 * 60 * 1000 },
+	ip: { freeAttempts: 10, lockoutThreshold: 50, lockoutMs: 15 * 60 * 1000 }
+};
+/**
+ * @constant {number} FAILURE_WINDOW_MS - Failures older than this (15 minutes) no longer count.
+ */
+const FAILURE_WINDOW_MS = 15 * 60 * 1000;
+/**
+ * @constant {number} MAX_DELAY_MS - Upper bound for the progressive delay (1 minute).
+ */
+const MAX_DELAY_MS = 60 * 1000;
+
+/**
+ * @interface ThrottleState
+ * @description The stored state of one key, as read from `login_throttles`.
+ */
+interface ThrottleState {
+	failures: number;
+	lastFailureAt: Date;
+	lockedUntil: Date | null;
+}
+
+/**
+ * @function isStale
+ * @description Checks whether a key's recorded failures should be forgotten: the lockout (if any) is over and the last failure is outside the window.
+ * @param {ThrottleState} state - The stored state.
+ * @param {number} now - The current time in milliseconds.
+ * @returns {boolean} True if the failures no longer count.
+ */
+function isStale(state: ThrottleState, now: number): boolean {
+	if (state.lockedUntil && state.lockedUntil.getTime() > now) return false;
+	return state.lockedUntil !== null || now - state.lastFailureAt.getTime() > FAILURE_WINDOW_MS;
+}
+
+/**
+ * @function waitMs
+ * @description Computes how long a key must wait before its next attempt.
+ * @param {ThrottleScope} scope - The key's scope.
+ * @param {ThrottleState} state - The stored state.
+ * @param {number} now - The current time in milliseconds.
+ * @returns {number} The wait in milliseconds (0 if an attempt is allowed now).
+ *
+ * Steps:
+ *   1. If the key is locked, wait until the lockout ends.
+ *   2. If its failures are stale or within the free attempts, no wait.
+ *   3. Otherwise wait 1s, 2s, 4s, ... (capped) after the last failure.
+ */
+function waitMs(scope: ThrottleScope, state: ThrottleState, now: number): number {
+	const policy = POLICIES[scope];
+	// Step 1: Active lockout.
+	if (state.lockedUntil && state.lockedUntil.getTime() > now) {
+		return state.lockedUntil.getTime() - now;
+	}
+	// Step 2: Nothing to wait for.
+	if (isStale(state, now) || state.failures < policy.freeAttempts) return 0;
+	// Step 3: Progressive delay.
+	const delay = Math.min(1000 * 2 ** (state.failures - policy.freeAttempts), MAX_DELAY_MS);
+	return Math.max(0, state.lastFailureAt.getTime() + delay - now);
+}
+
+/**
+ * @function loginThrottleKeys
+ * @description Builds the throttle keys for a sign-in attempt.
+ * @param {string | undefined} ip - The client IP (`req.ip`).
+ * @param {unknown} email - The email from the request body; anything that is not a string is keyed as its string form.
+ * @returns {ThrottleKey[]} The IP key (if known) and the normalised email key.
+ */
+export function loginThrottleKeys(ip: string | undefined, email: unknown): ThrottleKey[] {
+	const keys: ThrottleKey[] = [{ scope: 'email', identifier: String(email ?? '').toLowerCase().trim() }];
+	if (ip) keys.push({ scope: 'ip', identifier: ip });
+	return keys;
+}
+
+/**
+ * @function getRetryAfter
+ * @description Computes how long a sign-in attempt must wait, taking the strictest of the given keys.
+ * @param {ThrottleKey[]} keys - The keys for the attempt.
+ * @returns {Promise<number>} The wait in whole seconds (0 if the attempt may proceed).
+ */
+export async function getRetryAfter(keys: ThrottleKey[]): Promise<number> {
+	const now = Date.now();
+	const states = await db.loginThrottle.findMany({
+		where: { OR: keys.map(({ scope, identifier }) => ({ scope, identifier })) },
+		select: { scope: true, failures: true, lastFailureAt: true, lockedUntil: true }
+	});
+	const wait = Math.max(0, ...states.map((state) => waitMs(state.scope as ThrottleScope, state, now)));
+	return Math.ceil(wait / 1000);
+}
+
+/**
+ * @function recordLoginFailure
+ * @description Records a failed sign-in attempt against every given key, locking keys that reach their threshold.
+ * @param {ThrottleKey[]} keys - The keys for the attempt.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. In a transaction, read each key's state.
+ *   2. Start counting from zero if the stored failures are stale, otherwise add one.
+ *   3. If the count reaches the scope's lockout threshold, set `lockedUntil`.
+ *   4. Upsert the new state.
+ */
+export async function recordLoginFailure(keys: ThrottleKey[]): Promise<void> {
+	const now = new Date();
+	await db.$transaction(async (tx) => {
+		for (const { scope, identifier } of keys) {
+			const policy = POLICIES[scope];
+			// Step 1: Read the current state.
+			const state = await tx.loginThrottle.findUnique({ where: { scope_identifier: { scope, identifier } } });
+			// Step 2: Count the failure.
+			const failures = state && !isStale(state, now.getTime()) ? state.failures + 1 : 1;
+			// Step 3: Lock the key once it reaches the threshold.
+			const lockedUntil = failures >= policy.lockoutThreshold ? new Date(now.getTime() + policy.lockoutMs) : null;
+			// Step 4: Save.
+			await tx.loginThrottle.upsert({
+				where: { scope_identifier: { scope, identifier } },
+				update: { failures, lastFailureAt: now, lockedUntil },
+				create: { scope, identifier, failures, lastFailureAt: now, lockedUntil }
+			});
+		}
+	});
+}
+
+/**
+ * @function clearLoginFailures
+ * @description Forgets the failures recorded for a key (after a successful sign-in, or when an admin unlocks it).
+ * @param {ThrottleKey} key - The key to clear.
+ * @returns {Promise<void>}
+ */
+export async function clearLoginFailures({ scope, identifier }: ThrottleKey): Promise<void> {
+	await db.loginThrottle.deleteMany({ where: { scope, identifier } });
+}
@@ -0,0 +1,32 @@
+/**
+ * @fileoverview Helpers for generating and hashing opaque random tokens.
+ * @module lib/tokens
+ * @description This module provides the primitives used for any opaque, high-entropy token the server hands out (such as refresh tokens). Only the SHA-256 hash of a token is ever stored, so a leaked database row cannot be replayed as a credential.
+ * @dependencies crypto
+ * @exports generateToken - Function to generate a URL-safe random token.
+ * @exports hashToken - Function to hash a token for storage and lookup.
+ * @author Gemini
+ * @lastModified 2026-10-19
+ */
+
+import crypto from 'crypto';
+
+/**
+ * @function generateToken
+ * @description Generates a cryptographically secure, URL-safe random token.
+ * @param {number} [bytes=32] - The number of random bytes to use.
+ * @returns {string} The token encoded as base64url.
+ */
+export function generateToken(bytes: number = 32): string {
+	return crypto.randomBytes(bytes).toString('base64url');
+}
+
+/**
+ * @function hashToken
+ * @description Hashes a token with SHA-256. Tokens are random and high-entropy, so a fast hash is sufficient (unlike passwords, which use bcrypt).
+ * @param {string} token - The token to hash.
+ * @returns {string} The hex-encoded SHA-256 digest.
+ */
+export function hashToken(token: string): string {
+	return crypto.createHash('sha256').update(token).digest('hex');
+}
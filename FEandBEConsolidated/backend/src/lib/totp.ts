@@ -0,0 +1,186 @@
+/**
+ * @fileoverview RFC 6238 time-based one-time passwords (TOTP) and recovery codes for two-factor authentication.
+ * @module lib/totp
+ * @description This module implements TOTP (HMAC-SHA1, 6 digits, 30 second steps, the defaults every authenticator app supports) on top of Node's `crypto`, builds `otpauth://` enrollment URIs and their QR codes, and generates recovery codes. Recovery codes are returned in plain text once and only stored as hashes.
+ * @dependencies crypto, qrcode, ./tokens
+ * @exports generateTotpSecret - Function to generate a new base32 TOTP secret.
+ * @exports totpCode - Function to compute the TOTP code for a time step.
+ * @exports verifyTotp - Function to check a code and return the matched time step.
+ * @exports buildOtpauthUri - Function to build the `otpauth://` enrollment URI.
+ * @exports buildQrDataUrl - Function to render the enrollment URI as a QR code data URL.
+ * @exports generateRecoveryCodes - Function to generate a set of recovery codes.
+ * @exports normaliseRecoveryCode - Function to normalise user-entered recovery codes before hashing.
+ * @author Gemini
+ * @lastModified 2026-10-19
+ */
+
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import { hashToken } from './tokens.js';
+
+/**
+ * @constant {string} BASE32_ALPHABET - RFC 4648 base32 alphabet used for TOTP secrets.
+ */
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+/**
+ * @constant {number} STEP_SECONDS - Length of one TOTP time step.
+ */
+const STEP_SECONDS = 30;
+/**
+ * @constant {number} DIGITS - Number of digits in a TOTP code.
+ */
+const DIGITS = 6;
+/**
+ * @constant {number} DRIFT_STEPS - Number of steps before/after the current one that are accepted, to tolerate clock drift.
+ */
+const DRIFT_STEPS = 1;
+/**
+ * @constant {string} ISSUER - Issuer shown in authenticator apps.
+ */
+const ISSUER = 'AgriCommerce';
+
+/**
+ * @function base32Encode
+ * @description Encodes bytes as unpadded base32.
+ * @param {Buffer} buffer - The bytes to encode.
+ * @returns {string} The base32 string.
+ */
+function base32Encode(buffer: Buffer): string {
+	let bits = 0;
+	let value = 0;
+	let output = '';
+	for (const byte of buffer) {
+		value = (value << 8) | byte;
+		bits += 8;
+		while (bits >= 5) {
+			output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+			bits -= 5;
+		}
+	}
+	if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+	return output;
+}
+
+/**
+ * @function base32Decode
+ * @description Decodes a base32 string, ignoring case, spaces, and padding.
+ * @param {string} input - The base32 string.
+ * @returns {Buffer} The decoded bytes.
+ * @throws {Error} If the input contains characters outside the base32 alphabet.
+ */
+function base32Decode(input: string): Buffer {
+	const clean = input.toUpperCase().replace(/[\s=]/g, '');
+	let bits = 0;
+	let value = 0;
+	const bytes: number[] = [];
+	for (const char of clean) {
+		const index = BASE32_ALPHABET.indexOf(char);
+		if (index === -1) throw new Error('Invalid base32 character');
+		value = (value << 5) | index;
+		bits += 5;
+		if (bits >= 8) {
+			bytes.push((value >>> (bits - 8)) & 255);
+			bits -= 8;
+		}
+	}
+	return Buffer.from(bytes);
+}
+
+/**
+ * @function generateTotpSecret
+ * @description Generates a new random 160-bit TOTP secret, base32 encoded.
+ * @returns {string} The secret.
+ */
+export function generateTotpSecret(): string {
+	return base32Encode(crypto.randomBytes(20));
+}
+
+/**
+ * @function totpCode
+ * @description Computes the TOTP code for a secret at a given time step (RFC 4226 dynamic truncation).
+ * @param {string} secret - The base32 secret.
+ * @param {number} step - The time step (Unix time divided by 30).
+ * @returns {string} The zero-padded 6 digit code.
+ */
+export function totpCode(secret: string, step: number): string {
+	const counter = Buffer.alloc(8);
+	counter.writeBigUInt64BE(BigInt(step));
+	const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+	const offset = hmac[hmac.length - 1] & 0x0f;
+	const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS;
+	return binary.toString().padStart(DIGITS, '0');
+}
+
+/**
+ * @function verifyTotp
+ * @description Checks a user-entered code against the secret, allowing one step of clock drift either way.
+ * Steps at or before `lastUsedStep` are rejected, so an observed code cannot be replayed.
+ * @param {string} secret - The base32 secret.
+ * @param {string} code - The code entered by the user.
+ * @param {number | null} [lastUsedStep] - The last time step that was accepted for this user.
+ * @returns {number | null} The matched time step (to be stored as the new `lastUsedStep`), or null if the code is wrong.
+ */
+export function verifyTotp(secret: string, code: string, lastUsedStep: number | null = null): number | null {
+	const clean = String(code).replace(/\s/g, '');
+	if (!/^\d{6}$/.test(clean)) return null;
+	const current = Math.floor(Date.now() / 1000 / STEP_SECONDS);
+	for (let step = current - DRIFT_STEPS; step <= current + DRIFT_STEPS; step++) {
+		if (lastUsedStep !== null && step <= lastUsedStep) continue;
+		const expected = totpCode(secret, step);
+		if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(clean))) return step;
+	}
+	return null;
+}
+
+/**
+ * @function buildOtpauthUri
+ * @description Builds the `otpauth://totp/...` URI understood by authenticator apps.
+ * @param {string} secret - The base32 secret.
+ * @param {string} accountName - The account label (the user's email).
+ * @returns {string} The enrollment URI.
+ */
+export function buildOtpauthUri(secret: string, accountName: string): string {
+	const label = encodeURIComponent(`${ISSUER}:${accountName}`);
+	const params = new URLSearchParams({
+		secret,
+		issuer: ISSUER,
+		algorithm: 'SHA1',
+		digits: String(DIGITS),
+		period: String(STEP_SECONDS)
+	});
+	return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * @function buildQrDataUrl
+ * @description Renders an enrollment URI as a PNG QR code data URL, generated locally.
+ * @param {string} otpauthUri - The enrollment URI.
+ * @returns {Promise<string>} The `data:image/png;base64,...` URL.
+ */
+export function buildQrDataUrl(otpauthUri: string): Promise<string> {
+	return QRCode.toDataURL(otpauthUri, { errorCorrectionLevel: 'M', margin: 1, width: 220 });
+}
+
+/**
+ * @function generateRecoveryCodes
+ * @description Generates single-use recovery codes formatted as `xxxxx-xxxxx`, together with their hashes for storage.
+ * @param {number} [count=10] - How many codes to generate.
+ * @returns {{ codes: string[]; hashes: string[] }} The plain codes (shown once) and their hashes.
+ */
+export function generateRecoveryCodes(count: number = 10): { codes: string[]; hashes: string[] } {
+	const codes = Array.from({ length: count }, () => {
+		const raw = base32Encode(crypto.randomBytes(7)).slice(0, 10).toLowerCase();
+		return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+	});
+	return { codes, hashes: codes.map((code) => hashToken(normaliseRecoveryCode(code))) };
+}
+
+/**
+ * @function normaliseRecoveryCode
+ * @description Normalises a recovery code as typed by a user (case, spaces, dashes) so it hashes the same as when it was issued.
+ * @param {string} code - The code entered by the user.
+ * @returns {string} The normalised code.
+ */
+export function normaliseRecoveryCode(code: string): string {
+	return String(code).toLowerCase().replace(/[\s-]/g, '');
+}
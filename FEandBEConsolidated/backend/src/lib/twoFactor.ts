@@ -0,0 +1,100 @@
+/**
+ * @fileoverview Two-factor authentication state: verifying second factors, recovery codes, and the enrollment policy.
+ * @module lib/twoFactor
+ * @description This module holds the database-facing side of TOTP two-factor authentication. It verifies a TOTP code or single-use recovery code for a user (guarding against replays), replaces recovery codes, and decides whether a user must enroll because of the roles they hold (the `security.twoFactorRequiredRoles` setting).
+ * @dependencies ./db, ./roles, ./settings, ./tokens, ./totp
+ * @exports SecondFactorInput - Interface for a submitted second factor.
+ * @exports verifySecondFactor - Function to check a TOTP code or recovery code for a user.
+ * @exports replaceRecoveryCodes - Function to issue a fresh set of recovery codes.
+ * @exports isTwoFactorSetupRequired - Function to check whether a user's roles require enrollment.
+ * @author Gemini
+ * @lastModified 2026-10-19
+ */
+
+import { db } from './db.js';
+import type { Role } from './roles.js';
+import { getSetting } from './settings.js';
+import { hashToken } from './tokens.js';
+import { generateRecoveryCodes, normaliseRecoveryCode, verifyTotp } from './totp.js';
+
+/**
+ * @interface SecondFactorInput
+ * @description A second factor submitted by the user; exactly one of the fields is normally set.
+ * @property {string} [code] - A 6 digit TOTP code.
+ * @property {string} [recoveryCode] - A single-use recovery code.
+ */
+export interface SecondFactorInput {
+	code?: string;
+	recoveryCode?: string;
+}
+
+/**
+ * @function verifySecondFactor
+ * @description Checks a TOTP code or recovery code for a user with two-factor authentication enabled.
+ * @param {string} userId - The user's ID.
+ * @param {SecondFactorInput} input - The submitted second factor.
+ * @returns {Promise<boolean>} True if the factor is valid (and has now been consumed).
+ *
+ * Steps:
+ *   1. Load the user's TOTP secret and last used step. Fail if two-factor is not enabled.
+ *   2. For a TOTP code, verify it and record its step with a conditional update, so the same code cannot be used twice even concurrently.
+ *   3. For a recovery code, mark the matching unused code as used with a conditional update.
+ */
+export async function verifySecondFactor(userId: string, input: SecondFactorInput): Promise<boolean> {
+	// Step 1: Load the user's two-factor state.
+	const user = await db.user.findUnique({
+		where: { id: userId },
+		select: { totpSecret: true, totpEnabledAt: true, totpLastUsedStep: true }
+	});
+	if (!user?.totpSecret || !user.totpEnabledAt) return false;
+
+	// Step 2: TOTP code.
+	if (input.code) {
+		const step = verifyTotp(user.totpSecret, input.code, user.totpLastUsedStep);
+		if (step === null) return false;
+		const { count } = await db.user.updateMany({
+			where: { id: userId, OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }] },
+			data: { totpLastUsedStep: step }
+		});
+		return count > 0;
+	}
+
+	// Step 3: Recovery code.
+	if (input.recoveryCode) {
+		const { count } = await db.recoveryCode.updateMany({
+			where: { userId, codeHash: hashToken(normaliseRecoveryCode(input.recoveryCode)), usedAt: null },
+			data: { usedAt: new Date() }
+		});
+		return count > 0;
+	}
+
+	return false;
+}
+
+/**
+ * @function replaceRecoveryCodes
+ * @description Deletes a user's recovery codes and issues a fresh set.
+ * @param {string} userId - The user's ID.
+ * @returns {Promise<string[]>} The new plain-text codes, to be shown to the user once.
+ */
+export async function replaceRecoveryCodes(userId: string): Promise<string[]> {
+	const { codes, hashes } = generateRecoveryCodes();
+	await db.$transaction([
+		db.recoveryCode.deleteMany({ where: { userId } }),
+		db.recoveryCode.createMany({ data: hashes.map((codeHash) => ({ userId, codeHash })) })
+	]);
+	return codes;
+}
+
+/**
+ * @function isTwoFactorSetupRequired
+ * @description Checks whether a user must enroll in two-factor authentication: they hold a role listed in the policy and have not enrolled.
+ * @param {Role[]} roles - The user's roles.
+ * @param {boolean} enabled - Whether the user has two-factor authentication enabled.
+ * @returns {Promise<boolean>} True if enrollment is required.
+ */
+export async function isTwoFactorSetupRequired(roles: Role[], enabled: boolean): Promise<boolean> {
+	if (enabled) return false;
+	const requiredRoles = await getSetting('security.twoFactorRequiredRoles');
+	return roles.some((role) => requiredRoles.includes(role));
+}
@@ -2,7 +2,7 @@
  * @fileoverview Zod schemas for input validation and utility for formatting validation errors.
  * @module lib/validators
  * @description This module defines Zod schemas for various API inputs such as sign-up, sign-in, contact forms, and product queries. It also provides a helper function to format Zod validation errors into a more readable object.
- * @dependencies zod
+ * @dependencies zod, ./analytics, ./apiTokens, ./cart, ./catalog, ./inventory, ./orders, ./paymentGateway, ./purchaseHistory, ./receipts, ./reviews, ./roles
  * @exports emailSchema - Zod schema for email validation.
  * @exports passwordSchema - Zod schema for password validation.
  * @exports nameSchema - Zod schema for name validation.
@@ -11,16 +11,79 @@
  * @exports signInSchema - Zod schema for user sign-in input.
  * @exports contactSchema - Zod schema for contact form input.
  * @exports productQuerySchema - Zod schema for product query parameters.
+ * @exports roleSchema - Zod schema for a role name.
+ * @exports roleGrantSchema - Zod schema for granting a role to a user.
+ * @exports totpCodeSchema - Zod schema for a 6 digit TOTP code.
+ * @exports twoFactorCodeSchema - Zod schema for confirming a TOTP code.
+ * @exports twoFactorSignInSchema - Zod schema for the second step of a two-factor sign-in.
+ * @exports twoFactorDisableSchema - Zod schema for disabling two-factor authentication.
+ * @exports twoFactorPolicySchema - Zod schema for the two-factor requirement policy.
+ * @exports forgotPasswordSchema - Zod schema for requesting a password reset email.
+ * @exports resetPasswordSchema - Zod schema for setting a new password with a reset token.
+ * @exports verifyEmailSchema - Zod schema for confirming an email address with a verification token.
+ * @exports createApiTokenSchema - Zod schema for creating a personal API token.
+ * @exports cartAddSchema - Zod schema for adding a product to the cart.
+ * @exports cartQuantitySchema - Zod schema for setting the quantity of a cart item.
+ * @exports checkoutItemsSchema - Zod schema for the items posted to checkout.
+ * @exports countryCodeSchema - Zod schema for a country code.
+ * @exports addressSchema - Zod schema for a delivery address.
+ * @exports savedAddressSchema - Zod schema for saving an address to the address book.
+ * @exports savedAddressUpdateSchema - Zod schema for editing a saved address.
+ * @exports deliverySchema - Zod schema for the delivery choice at checkout.
+ * @exports cartQuoteSchema - Zod schema for previewing the cart price.
+ * @exports stockAdjustmentSchema - Zod schema for a manual stock adjustment.
+ * @exports orderStatusSchema - Zod schema for an admin order status change.
+ * @exports orderCancelSchema - Zod schema for a customer order cancellation.
+ * @exports paymentInfoSchema - Zod schema for the card details entered at checkout.
+ * @exports paymentChallengeSchema - Zod schema for answering a payment challenge.
+ * @exports productCreateSchema - Zod schema for creating a product.
+ * @exports productUpdateSchema - Zod schema for editing a product.
+ * @exports categorySchema - Zod schema for creating a category.
+ * @exports categoryUpdateSchema - Zod schema for editing a category.
+ * @exports reviewSchema - Zod schema for writing a product review.
+ * @exports reviewQuerySchema - Zod schema for review list query parameters.
+ * @exports reviewModerationSchema - Zod schema for an admin review moderation decision.
+ * @exports wishlistAddSchema - Zod schema for adding a product to the wishlist.
+ * @exports notificationReadSchema - Zod schema for marking notifications as read.
+ * @exports receiptQuerySchema - Zod schema for receipt query parameters.
+ * @exports orderExportQuerySchema - Zod schema for order history export query parameters.
+ * @exports purchaseQuerySchema - Zod schema for purchase history query parameters.
+ * @exports analyticsQuerySchema - Zod schema for sales analytics query parameters.
+ * @exports deliveryMethodUpdateSchema - Zod schema for editing a delivery method.
+ * @exports shippingZoneSchema - Zod schema for creating a shipping zone.
+ * @exports shippingZoneUpdateSchema - Zod schema for editing a shipping zone.
+ * @exports shippingRateSchema - Zod schema for creating a shipping rate.
+ * @exports shippingRateUpdateSchema - Zod schema for editing a shipping rate.
+ * @exports taxRuleSchema - Zod schema for creating a tax rule.
+ * @exports taxRuleUpdateSchema - Zod schema for editing a tax rule.
+ * @exports contactMessageUpdateSchema - Zod schema for an admin change to a contact message.
+ * @exports contactReplySchema - Zod schema for a reply to a contact message.
  * @exports SignUpInput - TypeScript type inferred from `signUpSchema`.
  * @exports SignInInput - TypeScript type inferred from `signInSchema`.
  * @exports ContactInput - TypeScript type inferred from `contactSchema`.
  * @exports ProductQuery - TypeScript type inferred from `productQuerySchema`.
+ * @exports RoleGrantInput - TypeScript type inferred from `roleGrantSchema`.
+ * @exports TwoFactorSignInInput - TypeScript type inferred from `twoFactorSignInSchema`.
+ * @exports ResetPasswordInput - TypeScript type inferred from `resetPasswordSchema`.
+ * @exports CreateApiTokenInput - TypeScript type inferred from `createApiTokenSchema`.
  * @exports formatValidationErrors - Function to format Zod errors.
  * @author Gemini
- * @lastModified 2025-11-11
+ * @lastModified 2026-10-19
  */
 
 import { z } from 'zod';
+import { ANALYTICS_INTERVALS, ANALYTICS_MAX_DAYS, resolveAnalyticsRange } from './analytics.js';
+import { API_TOKEN_SCOPES } from './apiTokens.js';
+import { MAX_CART_QUANTITY } from './cart.js';
+import { MAX_PRICE_CENTS, PRODUCT_SORTS } from './catalog.js';
+import { ADJUSTMENT_REASONS } from './inventory.js';
+import { ORDER_STATUSES } from './orders.js';
+import type { CardDetails } from './paymentGateway.js';
+import { PURCHASE_SORTS } from './purchaseHistory.js';
+import { ORDER_EXPORT_FORMATS, RECEIPT_FORMATS } from './receipts.js';
+import { REVIEW_STATUSES } from './reviews.js';
+import { ROLES } from './roles.js';
+import { CONTACT_MESSAGE_STATUSES } from './support.js';
 
 /**
  * @constant {ZodString} emailSchema - Zod schema for email validation.
@@ -66,22 +129,575 @@ export const signInSchema = z.object({
 
 /**
  * @constant {ZodObject} contactSchema - Zod schema for contact form input.
- * Requires non-empty `name`, `email`, and `message` fields, with name and message trimmed.
+ * Requires non-empty `name`, `email`, and `message` (up to 5000 characters) fields, with name and message trimmed. `website` is the honeypot field the form hides from people; it is accepted so that bots filling it in can be told apart (see `lib/support`).
  */
 export const contactSchema = z.object({
-	name: nameSchema,
+	name: nameSchema.max(100),
 	email: emailSchema,
-	message: z.string().min(1).trim()
+	message: z.string().trim().min(1).max(5000),
+	website: z.string().max(500).optional()
 });
 
 /**
  * @constant {ZodObject} productQuerySchema - Zod schema for product query parameters.
  * Parses `page` and `pageSize` as numbers (defaulting to 1 and 12 respectively) and trims the optional `q` (search query).
+ * Optional filters: `category` (a category slug), `tag` (comma-separated tag slugs), and `minPrice`/`maxPrice` (whole cents). `sort` is one of `PRODUCT_SORTS`; left out, the route picks `relevance` when searching and `newest` otherwise.
  */
 export const productQuerySchema = z.object({
 	page: z.string().optional().transform((val) => (val ? parseInt(val, 10) : 1)),
 	pageSize: z.string().optional().transform((val) => (val ? parseInt(val, 10) : 12)),
-	q: z.string().optional().transform((val) => val?.trim())
+	q: z.string().optional().transform((val) => val?.trim()),
+	category: z.string().trim().toLowerCase().optional(),
+	tag: z.string().optional().transform((val) => (val ? val.split(',').map((slug) => slug.trim().toLowerCase()).filter(Boolean) : [])),
+	minPrice: z.coerce.number().int().min(0).optional(),
+	maxPrice: z.coerce.number().int().min(0).optional(),
+	sort: z.enum(PRODUCT_SORTS).optional()
+});
+
+/**
+ * @constant {ZodEnum} roleSchema - Zod schema for a role name.
+ * Must be one of the roles defined in `ROLES`.
+ */
+export const roleSchema = z.enum(ROLES);
+
+/**
+ * @constant {ZodObject} roleGrantSchema - Zod schema for granting a role to a user.
+ * Requires a single valid `role`.
+ */
+export const roleGrantSchema = z.object({
+	role: roleSchema
+});
+
+/**
+ * @constant {ZodString} totpCodeSchema - Zod schema for a TOTP code.
+ * Strips spaces and requires exactly 6 digits.
+ */
+export const totpCodeSchema = z.string().transform((val) => val.replace(/\s/g, '')).pipe(z.string().regex(/^\d{6}$/, 'Code must be 6 digits'));
+
+/**
+ * @constant {ZodObject} twoFactorCodeSchema - Zod schema for confirming a TOTP code (enrollment, regenerating recovery codes).
+ */
+export const twoFactorCodeSchema = z.object({
+	code: totpCodeSchema
+});
+
+/**
+ * @constant {ZodObject} twoFactorSignInSchema - Zod schema for the second step of a two-factor sign-in.
+ * Requires the `challengeToken` from the password step and either a TOTP `code` or a `recoveryCode`.
+ */
+export const twoFactorSignInSchema = z.object({
+	challengeToken: z.string().min(1),
+	code: totpCodeSchema.optional(),
+	recoveryCode: z.string().trim().min(1).optional()
+}).refine((val) => val.code || val.recoveryCode, { message: 'A code or recovery code is required', path: ['code'] });
+
+/**
+ * @constant {ZodObject} twoFactorDisableSchema - Zod schema for disabling two-factor authentication.
+ * Requires the account password and either a TOTP `code` or a `recoveryCode`.
+ */
+export const twoFactorDisableSchema = z.object({
+	password: z.string().min(1),
+	code: totpCodeSchema.optional(),
+	recoveryCode: z.string().trim().min(1).optional()
+}).refine((val) => val.code || val.recoveryCode, { message: 'A code or recovery code is required', path: ['code'] });
+
+/**
+ * @constant {ZodObject} twoFactorPolicySchema - Zod schema for the two-factor requirement policy.
+ * Lists the roles whose holders must enroll in two-factor authentication.
+ */
+export const twoFactorPolicySchema = z.object({
+	requiredRoles: z.array(roleSchema)
+});
+
+/**
+ * @constant {ZodObject} forgotPasswordSchema - Zod schema for requesting a password reset email.
+ * Requires a valid `email`.
+ */
+export const forgotPasswordSchema = z.object({
+	email: emailSchema
+});
+
+/**
+ * @constant {ZodObject} resetPasswordSchema - Zod schema for setting a new password with a reset token.
+ * Requires the `token` from the email and a `password` meeting `passwordSchema`.
+ */
+export const resetPasswordSchema = z.object({
+	token: z.string().min(1),
+	password: passwordSchema
+});
+
+/**
+ * @constant {ZodObject} verifyEmailSchema - Zod schema for confirming an email address.
+ * Requires the `token` from the verification email.
+ */
+export const verifyEmailSchema = z.object({
+	token: z.string().min(1)
+});
+
+/**
+ * @constant {ZodObject} createApiTokenSchema - Zod schema for creating a personal API token.
+ * Requires a `name` (up to 100 characters) and at least one scope from `API_TOKEN_SCOPES`; `expiresInDays` is 1-365 and defaults to 30.
+ */
+export const createApiTokenSchema = z.object({
+	name: z.string().trim().min(1).max(100),
+	scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1, 'Select at least one scope'),
+	expiresInDays: z.coerce.number().int().min(1).max(365).default(30)
+});
+
+/**
+ * @constant {ZodObject} cartAddSchema - Zod schema for adding a product to the cart.
+ * Requires a `productId`; `quantity` is 1 to `MAX_CART_QUANTITY` and defaults to 1.
+ */
+export const cartAddSchema = z.object({
+	productId: z.string().min(1),
+	quantity: z.coerce.number().int().min(1).max(MAX_CART_QUANTITY).default(1)
+});
+
+/**
+ * @constant {ZodObject} cartQuantitySchema - Zod schema for setting the quantity of a cart item.
+ * `quantity` is 0 to `MAX_CART_QUANTITY`; 0 removes the item.
+ */
+export const cartQuantitySchema = z.object({
+	quantity: z.coerce.number().int().min(0).max(MAX_CART_QUANTITY)
+});
+
+/**
+ * @constant {ZodArray} checkoutItemsSchema - Zod schema for the items posted to checkout instead of using the server-side cart.
+ * 1 to 100 lines, each with a `productId` and a whole `quantity` of 1 to `MAX_CART_QUANTITY`.
+ */
+export const checkoutItemsSchema = z.array(z.object({
+	productId: z.string().min(1),
+	quantity: z.number().int().min(1, 'Each item needs a quantity of at least 1').max(MAX_CART_QUANTITY)
+})).min(1, 'Cart items are required').max(100);
+
+/**
+ * @function optionalText
+ * @description Builds a Zod schema for an optional free-text field: trimmed, and stored as null when missing or blank.
+ * @param {number} max - The maximum length.
+ * @returns {ZodEffects} The schema.
+ */
+function optionalText(max: number) {
+	return z.string().trim().max(max).nullish().transform((val) => val || null);
+}
+
+/**
+ * @constant {ZodString} countryCodeSchema - Zod schema for a country code.
+ * An ISO 3166-1 alpha-2 code, converted to upper case.
+ */
+export const countryCodeSchema = z.string().trim().toUpperCase().regex(/^[A-Z]{2}$/, 'Use a 2-letter country code');
+
+/**
+ * @constant {ZodObject} addressSchema - Zod schema for a delivery address.
+ * Requires `recipientName` (up to 100 characters), `line1` (up to 200), `city` (up to 100), `postalCode` (up to 20, converted to upper case), and `country`; `line2`, `region` (up to 10, converted to upper case), and `phone` are optional and stored as null when blank.
+ */
+export const addressSchema = z.object({
+	recipientName: z.string().trim().min(1).max(100),
+	line1: z.string().trim().min(1).max(200),
+	line2: optionalText(200),
+	city: z.string().trim().min(1).max(100),
+	region: z.string().trim().toUpperCase().max(10).nullish().transform((val) => val || null),
+	postalCode: z.string().trim().toUpperCase().min(1).max(20),
+	country: countryCodeSchema,
+	phone: optionalText(30)
+});
+
+/**
+ * @constant {ZodObject} savedAddressSchema - Zod schema for saving an address to the address book.
+ * The `addressSchema` fields, plus an optional `label` (up to 50 characters, such as "Home") and `isDefault`.
+ */
+export const savedAddressSchema = addressSchema.extend({
+	label: optionalText(50),
+	isDefault: z.boolean().optional()
+});
+
+/**
+ * @constant {ZodEffects} savedAddressUpdateSchema - Zod schema for editing a saved address.
+ * Any of the `savedAddressSchema` fields, at least one.
+ */
+export const savedAddressUpdateSchema = savedAddressSchema.partial().refine(
+	(fields) => Object.values(fields).some((value) => value !== undefined),
+	'Provide at least one field to change'
+);
+
+/**
+ * @constant {ZodEffects} deliverySchema - Zod schema for the delivery choice at checkout.
+ * Requires the delivery `method` code; the address is either `addressId` (a saved address of the signed-in user) or an `address` (see `addressSchema`), not both, and may be left out for a pickup.
+ */
+export const deliverySchema = z.object({
+	method: z.string().trim().min(1).max(40),
+	addressId: z.string().min(1).optional(),
+	address: addressSchema.optional()
+}).refine((val) => !(val.addressId && val.address), { message: 'Give either a saved address or an address, not both', path: ['address'] });
+
+/**
+ * @constant {ZodObject} cartQuoteSchema - Zod schema for previewing the cart price.
+ * `promoCode` is optional (up to 40 characters), and so is `delivery` (see `deliverySchema`), without which shipping and tax are left out.
+ */
+export const cartQuoteSchema = z.object({
+	promoCode: z.string().trim().max(40).optional(),
+	delivery: deliverySchema.optional()
+});
+
+/**
+ * @constant {ZodObject} stockAdjustmentSchema - Zod schema for a manual stock adjustment.
+ * Requires a non-zero whole `delta` (negative to remove stock) and a `reason` from `ADJUSTMENT_REASONS`; `note` is optional (up to 500 characters).
+ */
+export const stockAdjustmentSchema = z.object({
+	delta: z.coerce.number().int().refine((delta) => delta !== 0, 'Delta must not be zero'),
+	reason: z.enum(ADJUSTMENT_REASONS),
+	note: z.string().trim().max(500).optional()
+});
+
+/**
+ * @constant {ZodObject} orderStatusSchema - Zod schema for an admin order status change.
+ * Requires a `status` from `ORDER_STATUSES`; `note` is optional (up to 500 characters).
+ */
+export const orderStatusSchema = z.object({
+	status: z.enum(ORDER_STATUSES),
+	note: z.string().trim().max(500).optional()
+});
+
+/**
+ * @constant {ZodObject} orderCancelSchema - Zod schema for a customer order cancellation.
+ * `reason` is optional (up to 500 characters).
+ */
+export const orderCancelSchema = z.object({
+	reason: z.string().trim().max(500).optional()
+});
+
+/**
+ * @function passesLuhnCheck
+ * @description Checks the Luhn check digit of a card number, which catches most typing mistakes before the number reaches the payment gateway.
+ * @param {string} number - The card number, digits only.
+ * @returns {boolean} Whether the check digit is right.
+ */
+function passesLuhnCheck(number: string): boolean {
+	let sum = 0;
+	for (let i = 0; i < number.length; i++) {
+		let digit = Number(number[number.length - 1 - i]);
+		if (i % 2 === 1) {
+			digit *= 2;
+			if (digit > 9) digit -= 9;
+		}
+		sum += digit;
+	}
+	return sum % 10 === 0;
+}
+
+/**
+ * @constant {ZodEffects} paymentInfoSchema - Zod schema for the card details entered at checkout.
+ * Requires `cardholderName` (up to 100 characters), `cardNumber` (12 to 19 digits, spaces and dashes allowed, passing the Luhn check), `expiryDate` (`MM/YY` or `MM/YYYY`), and `cvv` (3 or 4 digits). Any `cardType` is ignored; the brand follows from the number.
+ * Parses to the gateway's `CardDetails`. Whether the card has expired is left to the gateway, which declines it.
+ */
+export const paymentInfoSchema = z.object({
+	cardholderName: z.string().trim().min(1).max(100),
+	cardNumber: z.string()
+		.transform((val) => val.replace(/[\s-]/g, ''))
+		.pipe(z.string().regex(/^\d{12,19}$/, 'Enter a valid card number').refine(passesLuhnCheck, 'Enter a valid card number')),
+	expiryDate: z.string().trim().regex(/^(0[1-9]|1[0-2])\/(\d{2}|\d{4})$/, 'Use MM/YY'),
+	cvv: z.string().trim().regex(/^\d{3,4}$/, 'Enter the 3 or 4 digit security code')
+}).transform((val): CardDetails => {
+	const [month, year] = val.expiryDate.split('/');
+	return {
+		number: val.cardNumber,
+		expMonth: Number(month),
+		expYear: year.length === 2 ? 2000 + Number(year) : Number(year),
+		cvc: val.cvv,
+		holderName: val.cardholderName
+	};
+});
+
+/**
+ * @constant {ZodObject} paymentChallengeSchema - Zod schema for answering a payment challenge.
+ * Requires the `clientSecret` returned at checkout and the customer's `response` (up to 100 characters).
+ */
+export const paymentChallengeSchema = z.object({
+	clientSecret: z.string().min(1).max(200),
+	response: z.string().trim().min(1).max(100)
+});
+
+/**
+ * @constant {ZodObject} productFieldsSchema - The editable fields of a product.
+ * `priceCents` is a whole number of cents from 1 to `MAX_PRICE_CENTS`; `slug` is lower case letters and digits separated by hyphens; `imageUrl` is an absolute URL or a site path; `categoryId` may be null to clear it; `weightGrams` is the shipping weight in whole grams (up to 1,000 kg); `tags` lists up to 20 tag names (replacing the product's tags).
+ */
+const productFieldsSchema = z.object({
+	name: z.string().trim().min(1).max(200),
+	slug: z.string().trim().toLowerCase().max(100).regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Use lower case letters, digits, and single hyphens'),
+	summary: z.string().trim().min(1).max(500),
+	description: z.string().trim().min(1).max(5000),
+	priceCents: z.number().int('Price must be a whole number of cents').min(1).max(MAX_PRICE_CENTS),
+	imageUrl: z.union([z.string().trim().url(), z.string().trim().regex(/^\/[^/]/, 'Use a URL or a path starting with /')]).nullable(),
+	categoryId: z.string().min(1).nullable(),
+	weightGrams: z.number().int('Weight must be a whole number of grams').min(0).max(1_000_000),
+	tags: z.array(z.string().trim().min(1).max(40).regex(/[a-zA-Z0-9]/, 'Tags need at least one letter or digit')).max(20)
+});
+
+/**
+ * @constant {ZodObject} productCreateSchema - Zod schema for creating a product.
+ * Requires `name`, `summary`, `description`, and `priceCents`; `slug` (generated from the name when omitted), `imageUrl`, `categoryId`, `weightGrams` (default 0), `tags`, and an initial `stock` (a whole number, default 0) are optional.
+ */
+export const productCreateSchema = productFieldsSchema.partial({ slug: true, imageUrl: true, categoryId: true, weightGrams: true, tags: true }).extend({
+	stock: z.number().int().min(0).default(0)
+});
+
+/**
+ * @constant {ZodObject} productUpdateSchema - Zod schema for editing a product.
+ * Any of the product fields, at least one; stock is changed through stock adjustments instead.
+ */
+export const productUpdateSchema = productFieldsSchema.partial().refine(
+	(fields) => Object.values(fields).some((value) => value !== undefined),
+	'Provide at least one field to change'
+);
+
+/**
+ * @constant {ZodObject} categorySchema - Zod schema for creating a category.
+ * Requires a `name`; `slug` (generated from the name when omitted, same format as product slugs) and `parentId` (null for a top-level category) are optional.
+ */
+export const categorySchema = z.object({
+	name: z.string().trim().min(1).max(100),
+	slug: productFieldsSchema.shape.slug.optional(),
+	parentId: z.string().min(1).nullable().optional()
+});
+
+/**
+ * @constant {ZodObject} categoryUpdateSchema - Zod schema for editing a category.
+ * Any of `name`, `slug`, and `parentId`, at least one.
+ */
+export const categoryUpdateSchema = categorySchema.partial().refine(
+	(fields) => Object.values(fields).some((value) => value !== undefined),
+	'Provide at least one field to change'
+);
+
+/**
+ * @constant {ZodObject} reviewSchema - Zod schema for writing a product review.
+ * Requires a whole-star `rating` from 1 to 5 and a non-empty `body` (trimmed, up to 2000 characters).
+ */
+export const reviewSchema = z.object({
+	rating: z.number().int('Rating must be a whole number of stars').min(1).max(5),
+	body: z.string().trim().min(1, 'Write a few words about the product').max(2000)
+});
+
+/**
+ * @constant {ZodObject} reviewQuerySchema - Zod schema for review list query parameters.
+ * Parses `page` (default 1) and `pageSize` (1-50, default 10) as whole numbers.
+ */
+export const reviewQuerySchema = z.object({
+	page: z.coerce.number().int().min(1).default(1),
+	pageSize: z.coerce.number().int().min(1).max(50).default(10)
+});
+
+/**
+ * @constant {ZodObject} reviewModerationSchema - Zod schema for an admin review moderation decision.
+ * Requires a `status` from `REVIEW_STATUSES` (`pending` puts a review back in the queue).
+ */
+export const reviewModerationSchema = z.object({
+	status: z.enum(REVIEW_STATUSES)
+});
+
+/**
+ * @constant {ZodObject} wishlistAddSchema - Zod schema for adding a product to the wishlist.
+ * Requires a `productId`.
+ */
+export const wishlistAddSchema = z.object({
+	productId: z.string().min(1)
+});
+
+/**
+ * @constant {ZodObject} notificationReadSchema - Zod schema for marking notifications as read.
+ * Optional `ids` (1-100 notification IDs); without it, every notification is marked.
+ */
+export const notificationReadSchema = z.object({
+	ids: z.array(z.string().min(1)).min(1).max(100).optional()
+});
+
+/**
+ * @constant {ZodObject} receiptQuerySchema - Zod schema for receipt query parameters.
+ * `format` is one of `RECEIPT_FORMATS` and defaults to `html`.
+ */
+export const receiptQuerySchema = z.object({
+	format: z.enum(RECEIPT_FORMATS).default('html')
+});
+
+/**
+ * @constant {ZodObject} orderExportQuerySchema - Zod schema for order history export query parameters.
+ * `format` is one of `ORDER_EXPORT_FORMATS` and defaults to `csv`.
+ */
+export const orderExportQuerySchema = z.object({
+	format: z.enum(ORDER_EXPORT_FORMATS).default('csv')
+});
+
+/**
+ * @constant {ZodString} calendarDateSchema - Zod schema for a calendar day in the `YYYY-MM-DD` format.
+ */
+const calendarDateSchema = z.string()
+	.regex(/^\d{4}-\d{2}-\d{2}$/, 'Use the YYYY-MM-DD format')
+	.refine((val) => {
+		const time = Date.parse(`${val}T00:00:00Z`);
+		return !Number.isNaN(time) && new Date(time).toISOString().startsWith(val);
+	}, 'Invalid date');
+
+/**
+ * @constant {ZodEffects} purchaseQuerySchema - Zod schema for purchase history query parameters.
+ * Parses an optional `cursor` (the last order ID of the previous page), `limit` (1-50, default 10), `from` and `to` (inclusive `YYYY-MM-DD` days),
+ * `minTotal` and `maxTotal` (cents), `product` (a product ID), `status` (comma-separated `ORDER_STATUSES`), and `sort` (one of `PURCHASE_SORTS`, default `newest`).
+ * Rejects a `from` after `to` and a `minTotal` above `maxTotal`.
+ */
+export const purchaseQuerySchema = z.object({
+	cursor: z.string().min(1).optional(),
+	limit: z.coerce.number().int().min(1).max(50).default(10),
+	from: calendarDateSchema.optional(),
+	to: calendarDateSchema.optional(),
+	minTotal: z.coerce.number().int().min(0).optional(),
+	maxTotal: z.coerce.number().int().min(0).optional(),
+	product: z.string().min(1).optional(),
+	status: z.string().optional()
+		.transform((val) => (val ? val.split(',').map((status) => status.trim()).filter(Boolean) : []))
+		.pipe(z.array(z.enum(ORDER_STATUSES))),
+	sort: z.enum(PURCHASE_SORTS).default('newest')
+}).refine((val) => !val.from || !val.to || val.from <= val.to, { message: 'The start date must not be after the end date', path: ['to'] })
+	.refine((val) => val.minTotal === undefined || val.maxTotal === undefined || val.minTotal <= val.maxTotal, {
+		message: 'The minimum total must not be above the maximum', path: ['maxTotal']
+	});
+
+/**
+ * @constant {ZodEffects} analyticsQuerySchema - Zod schema for sales analytics query parameters.
+ * Parses optional `from` and `to` (inclusive `YYYY-MM-DD` days, resolved by `resolveAnalyticsRange()`), `interval` (one of `ANALYTICS_INTERVALS`, default `day`), and `limit` (1-50, default 10).
+ * Rejects a range that ends before it starts or covers more than `ANALYTICS_MAX_DAYS` days.
+ */
+export const analyticsQuerySchema = z.object({
+	from: calendarDateSchema.optional(),
+	to: calendarDateSchema.optional(),
+	interval: z.enum(ANALYTICS_INTERVALS).default('day'),
+	limit: z.coerce.number().int().min(1).max(50).default(10)
+}).refine((val) => {
+	const range = resolveAnalyticsRange(val.from, val.to);
+	return range.start < range.end;
+}, { message: 'The start date must not be after the end date', path: ['to'] })
+	.refine((val) => {
+		const range = resolveAnalyticsRange(val.from, val.to);
+		return range.end.getTime() - range.start.getTime() <= ANALYTICS_MAX_DAYS * 24 * 60 * 60 * 1000;
+	}, { message: `A report may cover at most ${ANALYTICS_MAX_DAYS} days`, path: ['from'] });
+
+/**
+ * @constant {ZodEffects} deliveryMethodUpdateSchema - Zod schema for editing a delivery method.
+ * Any of `name` (up to 100 characters), `description` (up to 500), `active`, and `sortOrder` (a whole number), at least one. A method's code and whether it needs an address are fixed.
+ */
+export const deliveryMethodUpdateSchema = z.object({
+	name: z.string().trim().min(1).max(100),
+	description: z.string().trim().max(500),
+	active: z.boolean(),
+	sortOrder: z.number().int()
+}).partial().refine(
+	(fields) => Object.values(fields).some((value) => value !== undefined),
+	'Provide at least one field to change'
+);
+
+/**
+ * @constant {ZodObject} shippingZoneSchema - Zod schema for creating a shipping zone.
+ * Requires a `name` (up to 100 characters) and at least one of `countries` (country codes); `postalPrefixes` (letters and digits, converted to upper case) narrow the zone to postal codes starting with one of them.
+ */
+export const shippingZoneSchema = z.object({
+	name: z.string().trim().min(1).max(100),
+	countries: z.array(countryCodeSchema).min(1).max(250),
+	postalPrefixes: z.array(z.string().trim().toUpperCase().regex(/^[A-Z0-9]{1,10}$/, 'Use up to 10 letters and digits')).max(500).default([])
+});
+
+/**
+ * @constant {ZodEffects} shippingZoneUpdateSchema - Zod schema for editing a shipping zone.
+ * Any of the `shippingZoneSchema` fields, at least one.
+ */
+export const shippingZoneUpdateSchema = shippingZoneSchema.partial().refine(
+	(fields) => Object.values(fields).some((value) => value !== undefined),
+	'Provide at least one field to change'
+);
+
+/**
+ * @constant {ZodObject} shippingRateFieldsSchema - The editable fields of a shipping rate.
+ * Amounts are whole cents up to `MAX_PRICE_CENTS` and weights whole grams; `zoneId` and `maxWeightGrams` may be null (every zone, no upper bound), and so may `freeOverCents` (never free).
+ */
+const shippingRateFieldsSchema = z.object({
+	zoneId: z.string().min(1).nullable(),
+	minWeightGrams: z.number().int().min(0),
+	maxWeightGrams: z.number().int().min(0).nullable(),
+	baseCents: z.number().int().min(0).max(MAX_PRICE_CENTS),
+	perKgCents: z.number().int().min(0).max(MAX_PRICE_CENTS),
+	freeOverCents: z.number().int().min(0).max(MAX_PRICE_CENTS).nullable()
+});
+
+/**
+ * @constant {ZodEffects} shippingRateSchema - Zod schema for creating a shipping rate.
+ * Requires the delivery `methodId` and `baseCents`; `zoneId`, `maxWeightGrams`, and `freeOverCents` default to null, and `minWeightGrams` and `perKgCents` to 0. The weight band must not end before it starts.
+ */
+export const shippingRateSchema = shippingRateFieldsSchema.extend({
+	methodId: z.string().min(1),
+	zoneId: shippingRateFieldsSchema.shape.zoneId.default(null),
+	minWeightGrams: shippingRateFieldsSchema.shape.minWeightGrams.default(0),
+	maxWeightGrams: shippingRateFieldsSchema.shape.maxWeightGrams.default(null),
+	perKgCents: shippingRateFieldsSchema.shape.perKgCents.default(0),
+	freeOverCents: shippingRateFieldsSchema.shape.freeOverCents.default(null)
+}).refine((val) => val.maxWeightGrams === null || val.maxWeightGrams >= val.minWeightGrams, {
+	message: 'The maximum weight must not be below the minimum', path: ['maxWeightGrams']
+});
+
+/**
+ * @constant {ZodEffects} shippingRateUpdateSchema - Zod schema for editing a shipping rate.
+ * Any of the rate's fields except its delivery method, at least one.
+ */
+export const shippingRateUpdateSchema = shippingRateFieldsSchema.partial().refine(
+	(fields) => Object.values(fields).some((value) => value !== undefined),
+	'Provide at least one field to change'
+);
+
+/**
+ * @constant {ZodObject} taxRuleFieldsSchema - The editable fields of a tax rule.
+ * `country` is a country code or `*` for every country; `region` (converted to upper case) and `categoryId` may be null for the whole country and every product; `rateBasisPoints` is a whole number of hundredths of a percent, up to 100%.
+ */
+const taxRuleFieldsSchema = z.object({
+	name: z.string().trim().min(1).max(100),
+	country: z.union([z.literal('*'), countryCodeSchema]),
+	region: z.string().trim().toUpperCase().min(1).max(10).nullable(),
+	categoryId: z.string().min(1).nullable(),
+	rateBasisPoints: z.number().int('Use a whole number of basis points').min(0).max(10000),
+	appliesToShipping: z.boolean(),
+	active: z.boolean()
+});
+
+/**
+ * @constant {ZodEffects} taxRuleSchema - Zod schema for creating a tax rule.
+ * Requires `name`, `country`, and `rateBasisPoints`; `region` and `categoryId` default to null, and `appliesToShipping` and `active` to true. A rule for every country cannot have a region.
+ */
+export const taxRuleSchema = taxRuleFieldsSchema.extend({
+	region: taxRuleFieldsSchema.shape.region.default(null),
+	categoryId: taxRuleFieldsSchema.shape.categoryId.default(null),
+	appliesToShipping: taxRuleFieldsSchema.shape.appliesToShipping.default(true),
+	active: taxRuleFieldsSchema.shape.active.default(true)
+}).refine((val) => val.country !== '*' || val.region === null, { message: 'A rule for every country cannot have a region', path: ['region'] });
+
+/**
+ * @constant {ZodEffects} taxRuleUpdateSchema - Zod schema for editing a tax rule.
+ * Any of the tax rule fields, at least one.
+ */
+export const taxRuleUpdateSchema = taxRuleFieldsSchema.partial().refine(
+	(fields) => Object.values(fields).some((value) => value !== undefined),
+	'Provide at least one field to change'
+);
+
+/**
+ * @constant {ZodEffects} contactMessageUpdateSchema - Zod schema for an admin change to a contact message.
+ * A `status` from `CONTACT_MESSAGE_STATUSES`, `isSpam` to mark the message as spam or rescue it, or both.
+ */
+export const contactMessageUpdateSchema = z.object({
+	status: z.enum(CONTACT_MESSAGE_STATUSES).optional(),
+	isSpam: z.boolean().optional()
+}).refine((fields) => fields.status !== undefined || fields.isSpam !== undefined, 'Provide a status or a spam flag');
+
+/**
+ * @constant {ZodObject} contactReplySchema - Zod schema for a reply to a contact message.
+ * Requires a `body` (trimmed, up to 5000 characters); `resolve` also marks the message resolved.
+ */
+export const contactReplySchema = z.object({
+	body: z.string().trim().min(1, 'Write a reply').max(5000),
+	resolve: z.boolean().optional()
 });
 
 /**
@@ -100,6 +716,22 @@ export type ContactInput = z.infer<typeof contactSchema>;
  * @typedef {z.infer<typeof productQuerySchema>} ProductQuery - TypeScript type inferred from `productQuerySchema`.
  */
 export type ProductQuery = z.infer<typeof productQuerySchema>;
+/**
+ * @typedef {z.infer<typeof roleGrantSchema>} RoleGrantInput - TypeScript type inferred from `roleGrantSchema`.
+ */
+export type RoleGrantInput = z.infer<typeof roleGrantSchema>;
+/**
+ * @typedef {z.infer<typeof twoFactorSignInSchema>} TwoFactorSignInInput - TypeScript type inferred from `twoFactorSignInSchema`.
+ */
+export type TwoFactorSignInInput = z.infer<typeof twoFactorSignInSchema>;
+/**
+ * @typedef {z.infer<typeof resetPasswordSchema>} ResetPasswordInput - TypeScript type inferred from `resetPasswordSchema`.
+ */
+export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
+/**
+ * @typedef {z.infer<typeof createApiTokenSchema>} CreateApiTokenInput - TypeScript type inferred from `createApiTokenSchema`.
+ */
+export type CreateApiTokenInput = z.infer<typeof createApiTokenSchema>;
 
 /**
  * @function formatValidationErrors
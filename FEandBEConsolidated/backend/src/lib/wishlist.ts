@@ -0,0 +1,149 @@
+/**
+ * @fileoverview Wishlists and the notifications they trigger.
+ * @module lib/wishlist
+ * @description Signed-in customers save products to their wishlist (once each; the price at the time is kept to show how it moved). Wishlisted products then feed an in-app notification feed: when an admin lowers a product's price, everyone with it on their wishlist gets a `price-drop` notification, and when a discount goes live that covers wishlisted products (through its products, its categories and their subcategories, or the whole store when it lists neither), each of those customers gets one `discount` notification.
+ * Discounts go live by reaching their `startsAt` date rather than through an API call, so a sweep runs at startup and every `DISCOUNT_SWEEP_INTERVAL_MS`. Each discount is announced once: the sweep claims it by setting `notifiedAt` with a conditional update, so overlapping sweeps cannot both announce it.
+ * @dependencies ./catalog, ./db, ./discounts
+ * @exports NOTIFICATION_TYPES - The list of all notification types.
+ * @exports NotificationType - Union type of all notification types.
+ * @exports DISCOUNT_SWEEP_INTERVAL_MS - How often live discounts are checked for announcements.
+ * @exports notifyPriceDrop - Function to notify the customers who wishlisted a product of a price drop.
+ * @exports notifyStartedDiscounts - Function to announce newly live discounts to the customers whose wishlists they cover.
+ * @exports scheduleDiscountNotifications - Function to run the discount sweep now and on an interval.
+ * @author Gemini
+ * @lastModified 2026-10-19
+ */
+
+import { categoryWithDescendants, loadCategories } from './catalog.js';
+import { db } from './db.js';
+import { formatCents } from './discounts.js';
+
+/**
+ * @constant {readonly string[]} NOTIFICATION_TYPES - All notification types.
+ * - `price-drop`: a wishlisted product got cheaper.
+ * - `discount`: a discount covering wishlisted products went live.
+ */
+export const NOTIFICATION_TYPES = ['price-drop', 'discount'] as const;
+
+/**
+ * @typedef {typeof NOTIFICATION_TYPES[number]} NotificationType - Union type of all notification types.
+ */
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+/**
+ * @constant {number} DISCOUNT_SWEEP_INTERVAL_MS - How often live discounts are checked for announcements (5 minutes).
+ */
+export const DISCOUNT_SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * @function notifyPriceDrop
+ * @description Notifies every customer with a product on their wishlist that its price went down.
+ * @param {{ id: string; name: string; slug: string }} product - The product.
+ * @param {number} oldPriceCents - The previous price.
+ * @param {number} newPriceCents - The new price.
+ * @returns {Promise<number>} The number of notifications created (none if the price did not go down).
+ */
+export async function notifyPriceDrop(
+	product: { id: string; name: string; slug: string },
+	oldPriceCents: number,
+	newPriceCents: number
+): Promise<number> {
+	if (newPriceCents >= oldPriceCents) {
+		return 0;
+	}
+	const items = await db.wishlistItem.findMany({ where: { productId: product.id }, select: { userId: true } });
+	const { count } = await db.notification.createMany({
+		data: items.map((item) => ({
+			userId: item.userId,
+			type: 'price-drop',
+			title: `Price drop: ${product.name}`,
+			body: `${product.name} on your wishlist is now ${formatCents(newPriceCents)} (was ${formatCents(oldPriceCents)}).`,
+			link: `/products/${product.slug}`,
+			productId: product.id
+		}))
+	});
+	return count;
+}
+
+/**
+ * @function notifyStartedDiscounts
+ * @description Announces the discounts that are live but not yet announced to the customers whose wishlists they cover.
+ * @param {Date} [now] - The current time.
+ * @returns {Promise<number>} The number of notifications created.
+ *
+ * Steps:
+ *   1. Find the live discounts (active and within their dates) that were not announced yet.
+ *   2. Claim each one by setting `notifiedAt` while it is still unset; skip it if another sweep claimed it first.
+ *   3. Find the wishlist items it covers: its products and the products in its categories and their subcategories, or every wishlisted product for a store-wide discount, leaving out archived products.
+ *   4. Create one notification per customer, counting their covered products and giving the promo code if there is one.
+ */
+export async function notifyStartedDiscounts(now: Date = new Date()): Promise<number> {
+	// Step 1: Live, unannounced discounts.
+	const discounts = await db.discount.findMany({
+		where: { active: true, notifiedAt: null, startsAt: { lte: now }, endsAt: { gte: now } },
+		select: {
+			id: true, title: true, percentOff: true, code: true,
+			products: { select: { id: true } },
+			categories: { select: { id: true } }
+		}
+	});
+	if (discounts.length === 0) {
+		return 0;
+	}
+	const categories = await loadCategories();
+
+	let created = 0;
+	for (const discount of discounts) {
+		// Step 2: Claim.
+		const { count: claimed } = await db.discount.updateMany({ where: { id: discount.id, notifiedAt: null }, data: { notifiedAt: now } });
+		if (claimed === 0) {
+			continue;
+		}
+
+		// Step 3: Covered wishlist items.
+		const storeWide = discount.products.length === 0 && discount.categories.length === 0;
+		const categoryIds = discount.categories.flatMap((category) => categoryWithDescendants(categories, category.id));
+		const items = await db.wishlistItem.findMany({
+			where: {
+				product: {
+					archivedAt: null,
+					...(storeWide
+						? {}
+						: { OR: [{ id: { in: discount.products.map((product) => product.id) } }, { categoryId: { in: categoryIds } }] })
+				}
+			},
+			select: { userId: true }
+		});
+
+		// Step 4: One notification per customer.
+		const covered = new Map<string, number>();
+		for (const item of items) {
+			covered.set(item.userId, (covered.get(item.userId) ?? 0) + 1);
+		}
+		const { count } = await db.notification.createMany({
+			data: [...covered].map(([userId, itemCount]) => ({
+				userId,
+				type: 'discount',
+				title: `${discount.title}: ${discount.percentOff}% off`,
+				body: `${discount.percentOff}% off ${itemCount === 1 ? '1 item' : `${itemCount} items`} on your wishlist${discount.code ? ` with code ${discount.code}` : ''}.`,
+				link: '/account/wishlist',
+				discountId: discount.id
+			}))
+		});
+		created += count;
+	}
+	return created;
+}
+
+/**
+ * @function scheduleDiscountNotifications
+ * @description Runs the discount announcement sweep now and then every `DISCOUNT_SWEEP_INTERVAL_MS`, logging failures. The timer does not keep the process alive.
+ * @returns {void}
+ */
+export function scheduleDiscountNotifications(): void {
+	const sweep = () => {
+		notifyStartedDiscounts().catch((error) => console.error('Discount notification error:', error));
+	};
+	sweep();
+	setInterval(sweep, DISCOUNT_SWEEP_INTERVAL_MS).unref();
+}
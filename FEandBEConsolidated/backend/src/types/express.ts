@@ -1,13 +1,16 @@
 /**
  * @fileoverview Extends the Express Request interface to include an authenticated user property.
  * @module types/express
- * @description This module provides TypeScript type definitions to augment the Express `Request` object, allowing `req.user` to store `AuthenticatedUser` data after successful authentication middleware processing.
- * @dependencies None
+ * @description This module provides TypeScript type definitions to augment the Express `Request` object, allowing `req.user` to store `AuthenticatedUser` data after successful authentication middleware processing, and `req.rawBody` to keep the unparsed body of JSON requests.
+ * @dependencies ../lib/apiTokens, ../lib/roles
  * @exports AuthenticatedUser - Interface defining the structure of an authenticated user.
  * @author Gemini
- * @lastModified 2025-11-11
+ * @lastModified 2026-10-19
  */
 
+import type { ApiTokenScope } from '../lib/apiTokens.js';
+import type { Role } from '../lib/roles.js';
+
 /**
  * @interface AuthenticatedUser
  * @description Defines the structure of an authenticated user object that can be attached to the Express Request.
@@ -15,12 +18,22 @@
  * @property {string} email - The email address of the user.
  * @property {string} firstName - The first name of the user.
  * @property {string} lastName - The last name of the user.
+ * @property {Role[]} roles - The roles granted to the user.
+ * @property {string | null} sessionId - The ID of the server-side session the request was authenticated with, or null for a personal API token.
+ * @property {{ id: string; scopes: ApiTokenScope[] } | null} apiToken - The personal API token the request was authenticated with, or null for a session.
+ * @property {boolean} twoFactorEnabled - Whether the user has enrolled in TOTP two-factor authentication.
+ * @property {boolean} twoFactorSetupRequired - Whether the user holds a role that requires two-factor authentication but has not enrolled yet.
  */
 export interface AuthenticatedUser {
 	id: string;
 	email: string;
 	firstName: string;
 	lastName: string;
+	roles: Role[];
+	sessionId: string | null;
+	apiToken: { id: string; scopes: ApiTokenScope[] } | null;
+	twoFactorEnabled: boolean;
+	twoFactorSetupRequired: boolean;
 }
 
 declare global {
@@ -30,9 +43,11 @@ declare global {
 		 * @description Augments the Express Request interface to include an optional `user` property.
 		 * This property will hold `AuthenticatedUser` data if the request has been authenticated, otherwise it will be `null` or `undefined`.
 		 * @property {AuthenticatedUser | null | undefined} user - The authenticated user's data.
+		 * @property {Buffer | undefined} rawBody - The unparsed body of a JSON request, kept for checking webhook signatures.
 		 */
 		interface Request {
 			user?: AuthenticatedUser | null;
+			rawBody?: Buffer;
 		}
 	}
 }
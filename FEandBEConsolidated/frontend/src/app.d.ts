@@ -3,18 +3,25 @@
  * @module app.d
  * @description This file defines global types for the AgriCommerce frontend application, including interfaces for application errors, server-side locals (e.g., authenticated user data), and page data.
  * @dependencies @prisma/client (for PrismaClient type, though not directly used in runtime here)
+ * @exports App.Role - Union type of the roles a user can hold.
  * @exports App.Error - Interface for application-specific error objects.
  * @exports App.Locals - Interface for server-side request context.
  * @exports App.PageData - Interface for data passed to SvelteKit pages.
  * @exports App.Platform - Interface for platform-specific data.
  * @author Gemini
- * @lastModified 2025-11-11
+ * @lastModified 2026-10-19
  */
 
 import type { PrismaClient } from '@prisma/client';
 
 declare global {
 	namespace App {
+		/**
+		 * @typedef {string} Role
+		 * @description The roles a user can hold, mirroring `ROLES` in the backend `lib/roles` module.
+		 */
+		type Role = 'customer' | 'staff' | 'admin' | 'lab-instructor';
+		
 		/**
 		 * @interface Error
 		 * @description Defines the structure for application-specific error objects.
@@ -32,6 +39,12 @@ declare global {
 		 * @property {object | null} user - The current authenticated user object, or `null` if unauthenticated.
 		 * @property {string} user.id - The unique identifier of the authenticated user.
 		 * @property {string} user.email - The email address of the authenticated user.
+		 * @property {Role[]} user.roles - The roles held by the authenticated user.
+		 * @property {boolean} user.isAdmin - Whether the user holds the `admin` role.
+		 * @property {boolean} user.twoFactorEnabled - Whether the user has two-factor authentication enabled.
+		 * @property {boolean} user.twoFactorSetupRequired - Whether the user's roles require two-factor authentication and they have not enrolled yet.
+		 * @property {boolean} user.emailVerified - Whether the user has confirmed their email address.
+		 * @property {string | null} user.csrfToken - The session's CSRF token, to send in the `X-CSRF-Token` header on state-changing API calls.
 		 */
 		interface Locals {
 			/**
@@ -40,6 +53,12 @@ declare global {
 			user: {
 				id: string;
 				email: string;
+				roles: Role[];
+				isAdmin: boolean;
+				twoFactorEnabled: boolean;
+				twoFactorSetupRequired: boolean;
+				emailVerified: boolean;
+				csrfToken: string | null;
 			} | null;
 		}
 		
@@ -52,6 +71,12 @@ declare global {
 		 * @property {string} [user.firstName] - The first name of the user.
 		 * @property {string} [user.lastName] - The last name of the user.
 		 * @property {string} [user.phone] - The phone number of the user.
+		 * @property {Role[]} user.roles - The roles held by the user.
+		 * @property {boolean} user.isAdmin - Whether the user holds the `admin` role.
+		 * @property {boolean} user.twoFactorEnabled - Whether the user has two-factor authentication enabled.
+		 * @property {boolean} user.twoFactorSetupRequired - Whether the user's roles require two-factor authentication and they have not enrolled yet.
+		 * @property {boolean} user.emailVerified - Whether the user has confirmed their email address.
+		 * @property {string | null} user.csrfToken - The session's CSRF token, to send in the `X-CSRF-Token` header on state-changing API calls.
 		 */
 		interface PageData {
 			user?: {
@@ -60,6 +85,12 @@ declare global {
 				firstName?: string;
 				lastName?: string;
 				phone?: string;
+				roles: Role[];
+				isAdmin: boolean;
+				twoFactorEnabled: boolean;
+				twoFactorSetupRequired: boolean;
+				emailVerified: boolean;
+				csrfToken: string | null;
 			} | null;
 		}
 		
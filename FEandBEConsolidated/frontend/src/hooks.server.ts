@@ -1,16 +1,50 @@
 /**
  * @fileoverview SvelteKit server hooks for authentication and security headers.
  * @module hooks.server
- * @description This file defines the main server hook (`handle`) that runs on every request. It handles user authentication by calling a backend API and sets various security-related HTTP headers, including a Content Security Policy (CSP).
+ * @description This file defines the main server hook (`handle`) that runs on every request. It handles user authentication by calling a backend API, silently refreshes expired access tokens using the refresh token cookie, and sets various security-related HTTP headers, including a Content Security Policy (CSP).
  * @dependencies ./hooks.server.env, @sveltejs/kit
  * @exports handle - The main SvelteKit server hook.
  * @author Gemini
- * @lastModified 2025-11-11
+ * @lastModified 2026-10-19
  */
 
 import './hooks.server.env';
 import type { Handle } from '@sveltejs/kit';
 
+/**
+ * @function getSetCookies
+ * @description Reads every `Set-Cookie` header from a fetch response.
+ * `Headers.getSetCookie()` is only available on newer Node versions, so fall back to the combined header.
+ * @param {Response} response - The backend response.
+ * @returns {string[]} The raw `Set-Cookie` header values.
+ */
+function getSetCookies(response: Response): string[] {
+	const headers = response.headers as Headers & { getSetCookie?: () => string[] };
+	if (headers.getSetCookie) return headers.getSetCookie();
+	const combined = headers.get('set-cookie');
+	return combined ? combined.split(/,(?=\s*[^;,=\s]+=)/) : [];
+}
+
+/**
+ * @function mergeCookies
+ * @description Applies `Set-Cookie` values to a `Cookie` request header, so a retried backend call sees the refreshed tokens.
+ * @param {string} cookieHeader - The original `Cookie` header.
+ * @param {string[]} setCookies - The `Set-Cookie` values returned by the backend.
+ * @returns {string} The updated `Cookie` header.
+ */
+function mergeCookies(cookieHeader: string, setCookies: string[]): string {
+	const cookies = new Map<string, string>();
+	for (const pair of cookieHeader.split(';')) {
+		const [name, ...value] = pair.trim().split('=');
+		if (name) cookies.set(name, value.join('='));
+	}
+	for (const setCookie of setCookies) {
+		const [name, ...value] = setCookie.split(';')[0].trim().split('=');
+		if (name) cookies.set(name, value.join('='));
+	}
+	return Array.from(cookies, ([name, value]) => `${name}=${value}`).join('; ');
+}
+
 /**
  * @function handle
  * @description Main SvelteKit request handler hook.
@@ -25,15 +59,17 @@ import type { Handle } from '@sveltejs/kit';
  *   2. Attempt to retrieve the 'cookie' header from the incoming request.
  *   3. If a cookie header exists, make a fetch request to the backend `/api/me` endpoint, forwarding the cookie.
  *   4. If the backend response is OK, parse the user data and assign it to `event.locals.user`.
+ *      If it is 401 and a refresh token cookie is present, call `/api/auth/refresh`, retry `/api/me` with the new cookies, and remember the `Set-Cookie` headers for the browser.
  *   5. Catch and log any errors that occur during the authentication check.
  *   6. Call `resolve(event)` to continue the request processing chain and get the initial response.
- *   7. Set various security HTTP headers on the response (X-Frame-Options, X-Content-Type-Options, Referrer-Policy, Permissions-Policy).
+ *   7. Forward any refreshed cookies to the browser, then set various security HTTP headers on the response (X-Frame-Options, X-Content-Type-Options, Referrer-Policy, Permissions-Policy).
  *   8. Set a Content-Security-Policy (CSP) header, noting it's relaxed due to external WAF handling.
  *   9. Return the modified response.
  */
 export const handle: Handle = async ({ event, resolve }) => {
 	// Step 1: Initialize user as null (unauthenticated).
 	event.locals.user = null;
+	let refreshedCookies: string[] = [];
 	
 	// Step 2: Check authentication by calling backend API.
 	try {
@@ -43,10 +79,28 @@ export const handle: Handle = async ({ event, resolve }) => {
 		// Step 4: If cookies are present, attempt to authenticate with the backend.
 		if (cookieHeader) {
 			const backendUrl = process.env.BACKEND_URL || 'http://localhost:33771';
-			const response = await fetch(`${backendUrl}/api/me`, {
-				headers: { cookie: cookieHeader }
+			const forwarded = {
+				'x-forwarded-for': event.getClientAddress(),
+				'user-agent': event.request.headers.get('user-agent') || ''
+			};
+			let response = await fetch(`${backendUrl}/api/me`, {
+				headers: { cookie: cookieHeader, ...forwarded }
 			});
 			
+			// Step 4a: If the access token has expired, try the refresh token once.
+			if (response.status === 401 && cookieHeader.includes('agri_refresh=')) {
+				const refresh = await fetch(`${backendUrl}/api/auth/refresh`, {
+					method: 'POST',
+					headers: { cookie: cookieHeader, ...forwarded }
+				});
+				refreshedCookies = getSetCookies(refresh);
+				if (refresh.ok) {
+					response = await fetch(`${backendUrl}/api/me`, {
+						headers: { cookie: mergeCookies(cookieHeader, refreshedCookies), ...forwarded }
+					});
+				}
+			}
+			
 			// Step 5: If authentication is successful, set the user in locals.
 			if (response.ok) {
 				const user = await response.json();
@@ -61,7 +115,11 @@ export const handle: Handle = async ({ event, resolve }) => {
 	// Step 7: Process the request and get the initial response.
 	const response = await resolve(event);
 	
-	// Step 8: Add security headers to all responses.
+	// Step 8: Forward refreshed (or cleared) auth cookies, then add security headers to all responses.
+	for (const setCookie of refreshedCookies) {
+		response.headers.append('set-cookie', setCookie);
+	}
+	
 	response.headers.set('X-Frame-Options', 'SAMEORIGIN');
 	response.headers.set('X-Content-Type-Options', 'nosniff');
 	response.headers.set('Referrer-Policy', 'no-referrer-when-downgrade');
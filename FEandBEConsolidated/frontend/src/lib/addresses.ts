@@ -0,0 +1,124 @@
+/**
+ * @fileoverview Client for the delivery method and address book APIs.
+ * @module lib/addresses
+ * @description Checkout offers the delivery methods listed by `/api/delivery-methods` (pickup at the farm, local delivery, courier); those that deliver need an address, which signed-in users can keep in their address book (`/api/addresses`). This module wraps those endpoints for the shopping cart and account address book pages.
+ * @dependencies None
+ * @exports DeliveryAddress - Interface for an address an order is delivered to.
+ * @exports SavedAddress - Interface for an address book entry.
+ * @exports DeliveryMethod - Interface for a delivery method.
+ * @exports getDeliveryMethods - Function to fetch the delivery methods offered at checkout.
+ * @exports getAddresses - Function to fetch the address book.
+ * @exports createAddress - Function to save an address.
+ * @exports updateAddress - Function to edit a saved address.
+ * @exports deleteAddress - Function to delete a saved address.
+ * @author Gemini
+ * @lastModified 2026-10-19
+ */
+
+/**
+ * @interface DeliveryAddress
+ * @description An address an order is delivered to. `country` is a two-letter country code.
+ */
+export interface DeliveryAddress {
+	recipientName: string;
+	line1: string;
+	line2: string | null;
+	city: string;
+	region: string | null;
+	postalCode: string;
+	country: string;
+	phone: string | null;
+}
+
+/**
+ * @interface SavedAddress
+ * @description An address in the signed-in user's address book.
+ */
+export interface SavedAddress extends DeliveryAddress {
+	id: string;
+	label: string | null;
+	isDefault: boolean;
+	createdAt: string;
+	updatedAt: string;
+}
+
+/**
+ * @interface DeliveryMethod
+ * @description A delivery method offered at checkout; methods that do not require an address are picked up at the farm.
+ */
+export interface DeliveryMethod {
+	id: string;
+	code: string;
+	name: string;
+	description: string;
+	requiresAddress: boolean;
+}
+
+/**
+ * @function apiRequest
+ * @description Sends a request to the backend and returns the parsed response, throwing the backend's error message on failure.
+ * @param {string} path - The path under `/api`.
+ * @param {RequestInit} [init] - The fetch options.
+ * @returns {Promise<any>} The response data.
+ */
+async function apiRequest(path: string, init: RequestInit = {}): Promise<any> {
+	const response = await fetch(`/api${path}`, {
+		...init,
+		headers: { 'Content-Type': 'application/json', ...init.headers },
+		credentials: 'include'
+	});
+	const data = await response.json();
+	if (!response.ok) {
+		throw new Error(Object.values(data.error?.details ?? {})[0] as string || data.error?.message || 'Request failed');
+	}
+	return data;
+}
+
+/**
+ * @function getDeliveryMethods
+ * @description Fetches the delivery methods offered at checkout, in display order.
+ * @returns {Promise<DeliveryMethod[]>} The delivery methods.
+ */
+export function getDeliveryMethods(): Promise<DeliveryMethod[]> {
+	return apiRequest('/delivery-methods');
+}
+
+/**
+ * @function getAddresses
+ * @description Fetches the signed-in user's address book, the default address first.
+ * @returns {Promise<SavedAddress[]>} The saved addresses.
+ */
+export function getAddresses(): Promise<SavedAddress[]> {
+	return apiRequest('/addresses');
+}
+
+/**
+ * @function createAddress
+ * @description Saves an address to the address book. The first address saved becomes the default.
+ * @param {DeliveryAddress & { label?: string | null; isDefault?: boolean }} address - The address.
+ * @returns {Promise<SavedAddress>} The saved address.
+ */
+export function createAddress(address: DeliveryAddress & { label?: string | null; isDefault?: boolean }): Promise<SavedAddress> {
+	return apiRequest('/addresses', { method: 'POST', body: JSON.stringify(address) });
+}
+
+/**
+ * @function updateAddress
+ * @description Edits a saved address, or makes it the default with `{ isDefault: true }`.
+ * @param {string} id - The address ID.
+ * @param {Partial<DeliveryAddress> & { label?: string | null; isDefault?: boolean }} changes - The fields to change.
+ * @returns {Promise<SavedAddress>} The updated address.
+ */
+export function updateAddress(id: string, changes: Partial<DeliveryAddress> & { label?: string | null; isDefault?: boolean }): Promise<SavedAddress> {
+	return apiRequest(`/addresses/${encodeURIComponent(id)}`, { method: 'PUT', body: JSON.stringify(changes) });
+}
+
+/**
+ * @function deleteAddress
+ * @description Deletes a saved address; if it was the default, the most recently added remaining address becomes the default.
+ * @param {string} id - The address ID.
+ * @returns {Promise<void>}
+ */
+export async function deleteAddress(id: string): Promise<void> {
+	await apiRequest(`/addresses/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
@@ -0,0 +1,196 @@
+/**
+ * @fileoverview Client for the server-side shopping cart API.
+ * @module lib/cart
+ * @description The cart lives on the backend (`/api/cart`): signed-in users have one cart, and guests are identified by the `agri_cart` cookie, whose cart is merged into the user's cart on sign-in. This module wraps the cart endpoints for the store, product, and shopping cart pages, and moves carts left in `localStorage` by older versions of the site to the server.
+ * @dependencies ./addresses
+ * @exports CartItem - Interface for one cart line.
+ * @exports Cart - Interface for a cart with its totals.
+ * @exports DeliveryChoice - Interface for how the order is to be delivered.
+ * @exports CartQuote - Interface for a cart price with discounts, shipping, and tax.
+ * @exports getCart - Function to fetch the current cart.
+ * @exports addToCart - Function to add a product to the cart.
+ * @exports setCartQuantity - Function to set the quantity of a cart item.
+ * @exports removeFromCart - Function to remove a product from the cart.
+ * @exports clearCart - Function to empty the cart.
+ * @exports getQuote - Function to preview the cart price with discounts, shipping, and tax.
+ * @exports importLocalCart - Function to move a legacy `localStorage` cart to the server.
+ * @author Gemini
+ * @lastModified 2026-10-19
+ */
+
+import type { DeliveryAddress } from './addresses';
+
+/**
+ * @interface CartItem
+ * @description One product in the cart, with its current price.
+ */
+export interface CartItem {
+	productId: string;
+	name: string;
+	priceCents: number;
+	imageUrl: string | null;
+	quantity: number;
+	lineTotalCents: number;
+}
+
+/**
+ * @interface Cart
+ * @description The cart as returned by the backend.
+ */
+export interface Cart {
+	id: string | null;
+	items: CartItem[];
+	itemCount: number;
+	subtotalCents: number;
+}
+
+/**
+ * @interface DeliveryChoice
+ * @description The delivery method chosen at checkout, with a saved address (`addressId`) or an address typed in, for methods that deliver.
+ */
+export interface DeliveryChoice {
+	method: string;
+	addressId?: string;
+	address?: DeliveryAddress;
+}
+
+/**
+ * @interface CartQuote
+ * @description The cart price with the discounts that would apply at checkout and, once a delivery method is chosen, its shipping and tax.
+ */
+export interface CartQuote {
+	subtotalCents: number;
+	discounts: { discountId: string; title: string; code: string | null; percentOff: number; amountCents: number }[];
+	discountCents: number;
+	itemsCents: number;
+	delivery: { method: string; name: string; requiresAddress: boolean; zone: string | null; weightGrams: number; amountCents: number; freeOverCents: number | null } | null;
+	deliveryError: string | null;
+	shippingCents: number;
+	taxes: { taxRuleId: string; name: string; rateBasisPoints: number; taxableCents: number; amountCents: number }[];
+	taxCents: number;
+	totalCents: number;
+	promoCode: string | null;
+	promoCodeError: string | null;
+}
+
+/**
+ * @constant {string} LEGACY_CART_KEY - The `localStorage` key older versions of the site kept the cart in.
+ */
+const LEGACY_CART_KEY = 'agricommerce_cart';
+
+/**
+ * @function cartRequest
+ * @description Sends a request to a cart endpoint and returns the parsed response, throwing the backend's error message on failure.
+ * @param {string} path - The path under `/api/cart`.
+ * @param {RequestInit} [init] - The fetch options.
+ * @returns {Promise<any>} The response data.
+ */
+async function cartRequest(path: string, init: RequestInit = {}): Promise<any> {
+	const response = await fetch(`/api/cart${path}`, {
+		...init,
+		headers: { 'Content-Type': 'application/json', ...init.headers },
+		credentials: 'include'
+	});
+	const data = await response.json();
+	if (!response.ok) {
+		throw new Error(data.error?.message || 'Cart request failed');
+	}
+	return data;
+}
+
+/**
+ * @function getCart
+ * @description Fetches the current cart.
+ * @returns {Promise<Cart>} The cart.
+ */
+export function getCart(): Promise<Cart> {
+	return cartRequest('');
+}
+
+/**
+ * @function addToCart
+ * @description Adds a quantity of a product to the cart.
+ * @param {string} productId - The product ID.
+ * @param {number} quantity - The quantity to add.
+ * @returns {Promise<Cart>} The updated cart.
+ */
+export async function addToCart(productId: string, quantity: number): Promise<Cart> {
+	const data = await cartRequest('/add', { method: 'POST', body: JSON.stringify({ productId, quantity }) });
+	return data.cart;
+}
+
+/**
+ * @function setCartQuantity
+ * @description Sets the quantity of a product in the cart; 0 removes it.
+ * @param {string} productId - The product ID.
+ * @param {number} quantity - The new quantity.
+ * @returns {Promise<Cart>} The updated cart.
+ */
+export function setCartQuantity(productId: string, quantity: number): Promise<Cart> {
+	return cartRequest(`/items/${encodeURIComponent(productId)}`, { method: 'PUT', body: JSON.stringify({ quantity }) });
+}
+
+/**
+ * @function removeFromCart
+ * @description Removes a product from the cart.
+ * @param {string} productId - The product ID.
+ * @returns {Promise<Cart>} The updated cart.
+ */
+export function removeFromCart(productId: string): Promise<Cart> {
+	return cartRequest(`/items/${encodeURIComponent(productId)}`, { method: 'DELETE' });
+}
+
+/**
+ * @function clearCart
+ * @description Removes every item from the cart.
+ * @returns {Promise<Cart>} The empty cart.
+ */
+export function clearCart(): Promise<Cart> {
+	return cartRequest('', { method: 'DELETE' });
+}
+
+/**
+ * @function getQuote
+ * @description Previews the cart price with the discounts that would apply at checkout and, with a delivery choice, its shipping and tax.
+ * @param {string} [promoCode] - A promo code to try.
+ * @param {DeliveryChoice | null} [delivery] - The delivery method and address; shipping and tax are left out without it.
+ * @returns {Promise<CartQuote>} The quote; `promoCodeError` and `deliveryError` say why the promo code or delivery method cannot be used, if they cannot.
+ */
+export function getQuote(promoCode?: string, delivery?: DeliveryChoice | null): Promise<CartQuote> {
+	return cartRequest('/quote', { method: 'POST', body: JSON.stringify({ promoCode: promoCode || undefined, delivery: delivery || undefined }) });
+}
+
+/**
+ * @function importLocalCart
+ * @description Moves a cart left in `localStorage` by an older version of the site to the server, then deletes it. Items that can no longer be added (for example, deleted products) are skipped.
+ * @returns {Promise<void>}
+ *
+ * Steps:
+ *   1. Read and parse the legacy cart; do nothing if there is none.
+ *   2. Add each item to the server-side cart.
+ *   3. Remove the legacy key.
+ */
+export async function importLocalCart(): Promise<void> {
+	// Step 1: Read the legacy cart.
+	const stored = localStorage.getItem(LEGACY_CART_KEY);
+	if (!stored) return;
+	let items: { productId?: string; quantity?: number }[] = [];
+	try {
+		items = JSON.parse(stored);
+	} catch {
+		items = [];
+	}
+
+	// Step 2: Add each item.
+	for (const item of Array.isArray(items) ? items : []) {
+		if (!item.productId) continue;
+		try {
+			await addToCart(item.productId, Math.max(1, Number(item.quantity) || 1));
+		} catch (error) {
+			console.error('Import cart item error:', error);
+		}
+	}
+
+	// Step 3: Drop the legacy cart.
+	localStorage.removeItem(LEGACY_CART_KEY);
+}
@@ -0,0 +1,68 @@
+/**
+ * @fileoverview Shared helpers for the product listing filters.
+ * @module lib/catalog
+ * @description The store and products pages keep their filters and sort order in the URL (`category`, `tag`, `minPrice`, `maxPrice`, and `sort`, next to `q` and `page`) and pass them through to `/api/products`, which returns facet counts for the filter sidebar. This module names those parameters and the sort orders, and describes the facets.
+ * @dependencies None
+ * @exports FILTER_PARAMS - The URL parameters that hold the listing filters and sort order.
+ * @exports SORT_OPTIONS - The sort orders offered, with their labels.
+ * @exports CategoryFacet - Interface for a category facet.
+ * @exports ProductFacets - Interface for the facets returned with a product listing.
+ * @exports filterQuery - Function to extract the filter parameters from a URL.
+ * @author Gemini
+ * @lastModified 2026-10-19
+ */
+
+/**
+ * @constant {string[]} FILTER_PARAMS - The URL parameters that hold the listing filters and sort order. Prices are in cents.
+ */
+export const FILTER_PARAMS = ['category', 'tag', 'minPrice', 'maxPrice', 'sort'];
+
+/**
+ * @constant {{ value: string; label: string }[]} SORT_OPTIONS - The sort orders offered, mirroring the backend `PRODUCT_SORTS`. `relevance` is only offered, and is the default, while searching; otherwise `newest` is the default.
+ */
+export const SORT_OPTIONS = [
+	{ value: 'relevance', label: 'Best match' },
+	{ value: 'newest', label: 'Newest' },
+	{ value: 'price-asc', label: 'Price: low to high' },
+	{ value: 'price-desc', label: 'Price: high to low' },
+	{ value: 'name-asc', label: 'Name: A to Z' },
+	{ value: 'name-desc', label: 'Name: Z to A' },
+	{ value: 'best-selling', label: 'Best selling' }
+];
+
+/**
+ * @interface CategoryFacet
+ * @description A category with the number of matching products in it and its subcategories.
+ */
+export interface CategoryFacet {
+	id: string;
+	name: string;
+	slug: string;
+	count: number;
+	children: CategoryFacet[];
+}
+
+/**
+ * @interface ProductFacets
+ * @description The facet counts returned with a product listing. Each facet is counted with the other filters applied but not its own.
+ */
+export interface ProductFacets {
+	categories: CategoryFacet[];
+	tags: { slug: string; name: string; count: number }[];
+	price: { minCents: number | null; maxCents: number | null };
+}
+
+/**
+ * @function filterQuery
+ * @description Extracts the filter parameters from a URL's search parameters, in a fixed order, so that a change of filters can be detected by comparing strings.
+ * @param {URLSearchParams} searchParams - The URL's search parameters.
+ * @returns {string} The filter parameters as a query string (without `?`), empty when no filter is set.
+ */
+export function filterQuery(searchParams: URLSearchParams): string {
+	const params = new URLSearchParams();
+	for (const name of FILTER_PARAMS) {
+		const value = searchParams.get(name);
+		if (value) params.set(name, value);
+	}
+	return params.toString();
+}
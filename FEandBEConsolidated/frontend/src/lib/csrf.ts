@@ -0,0 +1,115 @@
+/**
+ * @fileoverview Client-side CSRF token handling and session refresh for backend API calls.
+ * @module lib/csrf
+ * @description The backend issues a CSRF token for each session in the readable `agri_csrf` cookie and rejects state-changing requests (POST, PUT, PATCH, DELETE) that do not echo it in the `X-CSRF-Token` header. This module wraps the browser's `fetch` once, from the root layout, so every same-origin `/api/...` call made by the pages sends the header automatically.
+ * The same wrapper keeps the session alive: access tokens expire after 15 minutes, and the server hook only refreshes them on page loads. When the backend rejects an API call with 401 `ACCESS_TOKEN_EXPIRED` (the browser still holds a refresh token, but the access token cookie has expired), the wrapper exchanges the refresh token cookie at `/api/auth/refresh` and sends the call once more, so a page left open does not silently fall back to the guest cart.
+ * @dependencies None
+ * @exports CSRF_COOKIE_NAME - Name of the cookie carrying the CSRF token.
+ * @exports CSRF_HEADER_NAME - Name of the request header the backend checks.
+ * @exports readCsrfToken - Function to read the CSRF token from `document.cookie`.
+ * @exports installCsrfFetch - Function to wrap `window.fetch` so API calls carry the CSRF header and survive an expired access token.
+ * @author Gemini
+ * @lastModified 2026-10-19
+ */
+
+/**
+ * @constant {string} CSRF_COOKIE_NAME - The cookie carrying the CSRF token, mirroring the backend `lib/csrf` module.
+ */
+export const CSRF_COOKIE_NAME = 'agri_csrf';
+/**
+ * @constant {string} CSRF_HEADER_NAME - The request header the backend checks.
+ */
+export const CSRF_HEADER_NAME = 'X-CSRF-Token';
+/**
+ * @constant {Set<string>} SAFE_METHODS - Methods the backend does not check.
+ */
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+/**
+ * @constant {string} EXPIRED_ERROR_CODE - The error code of the 401 the backend sends when the access token has expired but the session can be refreshed.
+ */
+const EXPIRED_ERROR_CODE = 'ACCESS_TOKEN_EXPIRED';
+
+/**
+ * @type {Promise<boolean> | null} pendingRefresh - The refresh in flight, shared by the calls that were rejected while it runs.
+ */
+let pendingRefresh: Promise<boolean> | null = null;
+
+/**
+ * @function readCsrfToken
+ * @description Reads the CSRF token from `document.cookie`. The cookie is read on every request, so a token re-issued after signing in again is picked up without a reload.
+ * @returns {string | null} The token, or null if there is no session.
+ */
+export function readCsrfToken(): string | null {
+	const match = document.cookie.split('; ').find((pair) => pair.startsWith(`${CSRF_COOKIE_NAME}=`));
+	return match ? decodeURIComponent(match.slice(CSRF_COOKIE_NAME.length + 1)) : null;
+}
+
+/**
+ * @function refreshSession
+ * @description Exchanges the refresh token cookie for new session cookies. Calls made while a refresh is in flight share it, so one page never presents the same refresh token twice.
+ * @param {typeof window.fetch} send - The unwrapped `fetch` to send the request with.
+ * @returns {Promise<boolean>} True if the session was refreshed; false if it is gone and the user has to sign in again.
+ */
+function refreshSession(send: typeof window.fetch): Promise<boolean> {
+	pendingRefresh ??= send('/api/auth/refresh', { method: 'POST', credentials: 'include' })
+		.then((response) => response.ok, () => false)
+		.finally(() => {
+			pendingRefresh = null;
+		});
+	return pendingRefresh;
+}
+
+/**
+ * @function installCsrfFetch
+ * @description Wraps `window.fetch` so that state-changing requests to same-origin `/api/` URLs carry the CSRF header, and API calls rejected because the access token expired are retried once after refreshing the session. Safe to call more than once.
+ * @returns {void}
+ *
+ * Steps:
+ *   1. Skip if the wrapper is already installed.
+ *   2. For each request, resolve its URL and method; leave other origins and non-API paths untouched.
+ *   3. For state-changing methods, add the header from the cookie unless the caller already set it.
+ *   4. Send the request (keeping a copy of a `Request` body for the retry).
+ *   5. If it is rejected with 401 `ACCESS_TOKEN_EXPIRED`, refresh the session and, if that worked, send the request once more (with the CSRF token of the refreshed session).
+ */
+export function installCsrfFetch(): void {
+	// Step 1: Install once.
+	const original = window.fetch as typeof window.fetch & { csrfWrapped?: boolean };
+	if (original.csrfWrapped) return;
+
+	const wrapped = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+		// Step 2: Only same-origin API calls are touched.
+		const request = input instanceof Request ? input : null;
+		const url = new URL(request ? request.url : String(input), window.location.href);
+		if (url.origin !== window.location.origin || !url.pathname.startsWith('/api/')) {
+			return original(input, init);
+		}
+
+		// Step 3: Attach the token to state-changing calls.
+		const method = (init?.method || request?.method || 'GET').toUpperCase();
+		const withToken = (): RequestInit | undefined => {
+			const token = readCsrfToken();
+			if (SAFE_METHODS.has(method) || !token) return init;
+			const headers = new Headers(init?.headers || request?.headers);
+			if (!headers.has(CSRF_HEADER_NAME)) {
+				headers.set(CSRF_HEADER_NAME, token);
+			}
+			return { ...init, headers };
+		};
+
+		// Step 4: Send the request.
+		const retry = request?.clone() ?? input;
+		const response = await original(input, withToken());
+
+		// Step 5: Refresh an expired session and try once more.
+		if (response.status !== 401) {
+			return response;
+		}
+		const code = await response.clone().json().then((data) => data.error?.code, () => null);
+		if (code !== EXPIRED_ERROR_CODE || !(await refreshSession(original))) {
+			return response;
+		}
+		return original(retry, withToken());
+	};
+	(wrapped as typeof wrapped & { csrfWrapped?: boolean }).csrfWrapped = true;
+	window.fetch = wrapped;
+}
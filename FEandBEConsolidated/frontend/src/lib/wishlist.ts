@@ -0,0 +1,130 @@
+/**
+ * @fileoverview Client for the wishlist and notification feed APIs.
+ * @module lib/wishlist
+ * @description Signed-in users keep a wishlist on the backend (`/api/wishlist`), and get notifications (`/api/notifications`) when a wishlisted product's price drops or a discount covering it goes live. This module wraps those endpoints for the product and account wishlist pages.
+ * @dependencies None
+ * @exports WishlistItem - Interface for one wishlist entry.
+ * @exports Notification - Interface for one notification.
+ * @exports NotificationFeed - Interface for the notification list with its unread count.
+ * @exports getWishlist - Function to fetch the wishlist.
+ * @exports addToWishlist - Function to save a product to the wishlist.
+ * @exports removeFromWishlist - Function to remove a product from the wishlist.
+ * @exports getNotifications - Function to fetch the notification feed.
+ * @exports markNotificationsRead - Function to mark notifications as read.
+ * @author Gemini
+ * @lastModified 2026-10-19
+ */
+
+/**
+ * @interface WishlistItem
+ * @description A saved product, with its price when it was saved.
+ */
+export interface WishlistItem {
+	id: string;
+	priceCentsAtAdd: number;
+	createdAt: string;
+	product: {
+		id: string;
+		name: string;
+		slug: string;
+		summary: string;
+		priceCents: number;
+		imageUrl: string | null;
+		stock: number;
+		stockStatus: 'in-stock' | 'low-stock' | 'out-of-stock';
+	};
+}
+
+/**
+ * @interface Notification
+ * @description An in-app notification, such as a price drop on a wishlisted product.
+ */
+export interface Notification {
+	id: string;
+	type: 'price-drop' | 'discount';
+	title: string;
+	body: string;
+	link: string | null;
+	productId: string | null;
+	discountId: string | null;
+	readAt: string | null;
+	createdAt: string;
+}
+
+/**
+ * @interface NotificationFeed
+ * @description The latest notifications and the number of unread ones.
+ */
+export interface NotificationFeed {
+	notifications: Notification[];
+	unreadCount: number;
+}
+
+/**
+ * @function apiRequest
+ * @description Sends a request to the backend and returns the parsed response, throwing the backend's error message on failure.
+ * @param {string} path - The path under `/api`.
+ * @param {RequestInit} [init] - The fetch options.
+ * @returns {Promise<any>} The response data.
+ */
+async function apiRequest(path: string, init: RequestInit = {}): Promise<any> {
+	const response = await fetch(`/api${path}`, {
+		...init,
+		headers: { 'Content-Type': 'application/json', ...init.headers },
+		credentials: 'include'
+	});
+	const data = await response.json();
+	if (!response.ok) {
+		throw new Error(data.error?.message || 'Request failed');
+	}
+	return data;
+}
+
+/**
+ * @function getWishlist
+ * @description Fetches the signed-in user's wishlist, most recently saved first.
+ * @returns {Promise<WishlistItem[]>} The wishlist.
+ */
+export function getWishlist(): Promise<WishlistItem[]> {
+	return apiRequest('/wishlist');
+}
+
+/**
+ * @function addToWishlist
+ * @description Saves a product to the wishlist; saving it again changes nothing.
+ * @param {string} productId - The product ID.
+ * @returns {Promise<void>}
+ */
+export async function addToWishlist(productId: string): Promise<void> {
+	await apiRequest('/wishlist', { method: 'POST', body: JSON.stringify({ productId }) });
+}
+
+/**
+ * @function removeFromWishlist
+ * @description Removes a product from the wishlist.
+ * @param {string} productId - The product ID.
+ * @returns {Promise<void>}
+ */
+export async function removeFromWishlist(productId: string): Promise<void> {
+	await apiRequest(`/wishlist/${encodeURIComponent(productId)}`, { method: 'DELETE' });
+}
+
+/**
+ * @function getNotifications
+ * @description Fetches the latest notifications, newest first.
+ * @returns {Promise<NotificationFeed>} The notifications and the unread count.
+ */
+export function getNotifications(): Promise<NotificationFeed> {
+	return apiRequest('/notifications');
+}
+
+/**
+ * @function markNotificationsRead
+ * @description Marks notifications as read: the given ones, or all of them.
+ * @param {string[]} [ids] - The notification IDs; every notification if omitted.
+ * @returns {Promise<number>} The number of notifications still unread.
+ */
+export async function markNotificationsRead(ids?: string[]): Promise<number> {
+	const data = await apiRequest('/notifications/read', { method: 'POST', body: JSON.stringify({ ids }) });
+	return data.unreadCount;
+}
@@ -0,0 +1,33 @@
+/**
+ * @fileoverview Server load function for the admin user management page, restricting it to admins.
+ * @module routes/account/admin/+page.server
+ * @description This server load function runs after the account layout guard (which guarantees a signed-in user) and rejects users that do not hold the `admin` role. The role list comes from the backend `/api/me` response stored in `locals` by `hooks.server.ts`.
+ * @dependencies @sveltejs/kit, ./$types (for PageServerLoad type)
+ * @exports load - The SvelteKit server load function for the admin page.
+ * @author Gemini
+ * @lastModified 2026-10-19
+ */
+
+import { error } from '@sveltejs/kit';
+import type { PageServerLoad } from './$types';
+
+/**
+ * @function load
+ * @description SvelteKit server load function for the admin user management page.
+ * @param {object} params - Parameters object provided by SvelteKit.
+ * @param {App.Locals} params.locals - SvelteKit locals object, containing the authenticated user data set by `hooks.server.ts`.
+ * @returns {object} An empty object; the page loads its data client-side.
+ * @throws {HttpError} Throws a SvelteKit 403 `error` if the user does not hold the `admin` role.
+ *
+ * Steps:
+ *   1. Check whether the user's roles include `admin`.
+ *   2. If not, throw a 403 error rendered by `+error.svelte`.
+ */
+export const load: PageServerLoad = async ({ locals }) => {
+	// Step 1 & 2: Only admins may manage users.
+	if (!locals.user?.roles?.includes('admin')) {
+		throw error(403, { code: 'FORBIDDEN', message: 'Admin access required' });
+	}
+
+	return {};
+};